@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { resolveDataDir } from "../thread-store.js";
+import { BUILTIN_AGENT_IDS } from "./cli-options.js";
+import type { AgentCapabilities } from "./types.js";
+
+/** What the ACP adapter can back; config may switch these off, never on. */
+export const ACP_SUPPORTED_CAPABILITIES: Array<keyof AgentCapabilities> = [
+  "canReadLiveState",
+  "canSubmitApprovals",
+  "canRenameThreads"
+];
+
+const CapabilityMappingSchema = z
+  .object({
+    canListModels: z.boolean(),
+    canListCollaborationModes: z.boolean(),
+    canSetCollaborationMode: z.boolean(),
+    canSubmitUserInput: z.boolean(),
+    canSteerTurns: z.boolean(),
+    canReadLiveState: z.boolean(),
+    canReadStreamEvents: z.boolean(),
+    canSubmitApprovals: z.boolean(),
+    canForkThreads: z.boolean(),
+    canRollbackThreads: z.boolean(),
+    canCompactThreads: z.boolean(),
+    canArchiveThreads: z.boolean(),
+    canUnarchiveThreads: z.boolean(),
+    canRenameThreads: z.boolean(),
+    canReadUsage: z.boolean()
+  })
+  .partial()
+  .strict();
+
+const AcpAgentConfigSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(/^[a-z][a-z0-9-]*$/, "Agent ids use lowercase letters, digits and dashes"),
+    label: z.string().min(1).optional(),
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string(), z.string()).default({}),
+    // Working directory for the agent process and for new sessions.
+    cwd: z.string().min(1).optional(),
+    capabilities: CapabilityMappingSchema.default({})
+  })
+  .strict();
+
+const AcpAgentsFileSchema = z
+  .object({
+    agents: z.array(AcpAgentConfigSchema)
+  })
+  .strict();
+
+export interface AcpAgentConfig {
+  id: string;
+  label: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd: string | null;
+  capabilities: AgentCapabilities;
+}
+
+export function resolveAcpAgentsPath(env: NodeJS.ProcessEnv, cwd: string): string {
+  const filePath = env["FARFIELD_AGENTS_FILE"]?.trim();
+  return filePath ? path.resolve(cwd, filePath) : path.join(resolveDataDir(env, cwd), "agents.json");
+}
+
+/**
+ * Reads ACP agent entries from `agents.json`. A missing file means no
+ * configured agents; anything malformed throws so the server refuses to start.
+ */
+export function loadAcpAgentConfigs(filePath: string): AcpAgentConfig[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error(`${filePath} is not valid JSON`);
+  }
+
+  const parsed = AcpAgentsFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid agent config in ${filePath}: ${issues}`);
+  }
+
+  const seen = new Set<string>([...BUILTIN_AGENT_IDS, "remote"]);
+  return parsed.data.agents.map((entry) => {
+    if (seen.has(entry.id)) {
+      throw new Error(`Agent id "${entry.id}" in ${filePath} is already taken`);
+    }
+    seen.add(entry.id);
+
+    const capabilities = {} as AgentCapabilities;
+    for (const key of Object.keys(CapabilityMappingSchema.shape) as Array<keyof AgentCapabilities>) {
+      const requested = entry.capabilities[key];
+      const supported = ACP_SUPPORTED_CAPABILITIES.includes(key);
+      if (requested === true && !supported) {
+        throw new Error(`Agent "${entry.id}" in ${filePath}: ACP agents cannot support ${key}`);
+      }
+      capabilities[key] = supported && requested !== false;
+    }
+
+    return {
+      id: entry.id,
+      label: entry.label ?? entry.id,
+      command: entry.command,
+      args: entry.args,
+      env: entry.env,
+      cwd: entry.cwd ? path.resolve(path.dirname(filePath), entry.cwd) : null,
+      capabilities
+    };
+  });
+}
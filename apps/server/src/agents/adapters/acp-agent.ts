@@ -0,0 +1,814 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  ChildProcessAppServerTransport,
+  JSON_RPC_METHOD_NOT_FOUND,
+  type JsonRpcNotification,
+  type JsonRpcRequestId,
+  type JsonRpcServerRequest
+} from "@farfield/api";
+import {
+  AppServerThreadListItemSchema,
+  type ThreadConversationState
+} from "@farfield/protocol";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+import type { AcpAgentConfig } from "../acp-config.js";
+import type {
+  AgentAdapter,
+  AgentApprovalRequest,
+  AgentCapabilities,
+  AgentCreateThreadInput,
+  AgentCreateThreadResult,
+  AgentInterruptInput,
+  AgentListThreadsInput,
+  AgentListThreadsResult,
+  AgentPermissionOption,
+  AgentReadThreadInput,
+  AgentReadThreadResult,
+  AgentRenameThreadInput,
+  AgentSendMessageInput,
+  AgentSubmitApprovalInput,
+  AgentThreadLiveState,
+  AgentThreadListItem
+} from "../types.js";
+
+export interface AcpAgentOptions {
+  config: AcpAgentConfig;
+  userAgent: string;
+  // Where sessions start when neither the request nor the config names a directory.
+  workspaceDir: string;
+}
+
+export interface AcpSessionEvent {
+  threadId: string;
+  method: string;
+  payload: unknown;
+}
+
+const ACP_PROTOCOL_VERSION = 1;
+const ACP_INITIALIZE_PARAMS = {
+  protocolVersion: ACP_PROTOCOL_VERSION,
+  // Sessions run in the agent's own environment; Farfield lends it no files or terminals.
+  clientCapabilities: {
+    fs: { readTextFile: false, writeTextFile: false },
+    terminal: false
+  }
+};
+// session/prompt only answers once the whole turn is over.
+const PROMPT_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+type ThreadTurn = ThreadConversationState["turns"][number];
+type TurnItem = ThreadTurn["items"][number];
+
+const ContentBlockSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional()
+  })
+  .passthrough();
+
+const ToolCallContentSchema = z
+  .object({
+    type: z.string(),
+    content: ContentBlockSchema.optional(),
+    path: z.string().optional(),
+    oldText: z.string().nullable().optional(),
+    newText: z.string().optional()
+  })
+  .passthrough();
+
+const ToolCallFieldsSchema = z
+  .object({
+    toolCallId: z.string(),
+    title: z.string().optional(),
+    kind: z.string().optional(),
+    status: z.string().optional(),
+    content: z.array(ToolCallContentSchema).nullable().optional()
+  })
+  .passthrough();
+
+const SessionUpdateSchema = z.discriminatedUnion("sessionUpdate", [
+  z.object({ sessionUpdate: z.literal("user_message_chunk"), content: ContentBlockSchema }).passthrough(),
+  z.object({ sessionUpdate: z.literal("agent_message_chunk"), content: ContentBlockSchema }).passthrough(),
+  z.object({ sessionUpdate: z.literal("agent_thought_chunk"), content: ContentBlockSchema }).passthrough(),
+  ToolCallFieldsSchema.extend({ sessionUpdate: z.literal("tool_call") }),
+  ToolCallFieldsSchema.extend({ sessionUpdate: z.literal("tool_call_update") }),
+  z
+    .object({
+      sessionUpdate: z.literal("plan"),
+      entries: z.array(z.object({ content: z.string(), status: z.string() }).passthrough())
+    })
+    .passthrough()
+]);
+
+const SessionNotificationSchema = z
+  .object({
+    sessionId: z.string(),
+    update: z.object({ sessionUpdate: z.string() }).passthrough()
+  })
+  .passthrough();
+
+const PermissionRequestSchema = z
+  .object({
+    sessionId: z.string(),
+    toolCall: ToolCallFieldsSchema,
+    options: z.array(
+      z
+        .object({
+          optionId: z.string(),
+          name: z.string(),
+          kind: z.enum(["allow_once", "allow_always", "reject_once", "reject_always"])
+        })
+        .passthrough()
+    )
+  })
+  .passthrough();
+
+const InitializeResultSchema = z
+  .object({
+    protocolVersion: z.number().int(),
+    agentCapabilities: z
+      .object({
+        loadSession: z.boolean().optional(),
+        promptCapabilities: z.object({ image: z.boolean().optional() }).passthrough().optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+const NewSessionResultSchema = z.object({ sessionId: z.string().min(1) }).passthrough();
+
+const PromptResultSchema = z.object({ stopReason: z.string() }).passthrough();
+
+const DECISION_OPTION_KINDS: Record<string, AgentPermissionOption["kind"][]> = {
+  once: ["allow_once"],
+  always: ["allow_always"],
+  reject: ["reject_once", "reject_always"]
+};
+
+interface AcpSession {
+  id: string;
+  cwd: string;
+  name: string | null;
+  preview: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: ThreadTurn[];
+  activeTurn: ThreadTurn | null;
+  nextItemId: number;
+  // False once the agent process has exited, until session/load restores it.
+  loaded: boolean;
+  // Set while session/load replays the conversation as session/update notifications.
+  replaying: boolean;
+}
+
+interface PendingPermission {
+  request: AgentApprovalRequest & { kind: "acpPermission" };
+  rpcId: JsonRpcRequestId;
+}
+
+/**
+ * Drives any agent that speaks the Agent Client Protocol (JSON-RPC over the
+ * agent's stdio). ACP has no session listing API, so sessions and their
+ * transcripts live in this adapter for as long as the server runs. When the
+ * agent process exits, or the server restarts, sessions are restored with
+ * session/load if the agent supports it.
+ */
+export class AcpAgentAdapter implements AgentAdapter {
+  public readonly id: string;
+  public readonly label: string;
+  public readonly capabilities: AgentCapabilities;
+
+  private readonly config: AcpAgentConfig;
+  private readonly transport: ChildProcessAppServerTransport;
+  private readonly workspaceDir: string;
+  private readonly sessions = new Map<string, AcpSession>();
+  private readonly pendingPermissions = new Map<string, PendingPermission>();
+  private readonly sessionEventListeners = new Set<(event: AcpSessionEvent) => void>();
+  private readonly sessionLoads = new Map<string, Promise<AcpSession>>();
+  private readonly unsubscribers: Array<() => void> = [];
+  private connected = false;
+  private connectInFlight: Promise<void> | null = null;
+  private canLoadSession = false;
+  private nextPermissionId = 0;
+
+  public constructor(options: AcpAgentOptions) {
+    this.config = options.config;
+    this.id = options.config.id;
+    this.label = options.config.label;
+    this.capabilities = options.config.capabilities;
+    this.workspaceDir = options.config.cwd ?? options.workspaceDir;
+    this.transport = new ChildProcessAppServerTransport({
+      executablePath: options.config.command,
+      args: options.config.args,
+      label: options.config.label,
+      userAgent: options.userAgent,
+      cwd: this.workspaceDir,
+      env: options.config.env,
+      initializeParams: ACP_INITIALIZE_PARAMS,
+      onStderr: (line) => {
+        logger.debug({ agentId: this.id, line }, "acp-agent-stderr");
+      }
+    });
+  }
+
+  public onSessionEvent(listener: (event: AcpSessionEvent) => void): () => void {
+    this.sessionEventListeners.add(listener);
+    return () => {
+      this.sessionEventListeners.delete(listener);
+    };
+  }
+
+  public isEnabled(): boolean {
+    return true;
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public async start(): Promise<void> {
+    this.unsubscribers.push(
+      this.transport.onNotification((notification) => {
+        this.handleNotification(notification);
+      }),
+      this.transport.onServerRequest((request) => {
+        this.handleServerRequest(request);
+      }),
+      this.transport.onExit((reason) => {
+        this.handleExit(reason);
+      })
+    );
+
+    await this.connect();
+  }
+
+  public async stop(): Promise<void> {
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+    this.connected = false;
+    this.pendingPermissions.clear();
+    await this.transport.close();
+  }
+
+  public async listThreads(input: AgentListThreadsInput): Promise<AgentListThreadsResult> {
+    if (input.archived) {
+      return { data: [], nextCursor: null };
+    }
+
+    const data = Array.from(this.sessions.values())
+      .sort((left, right) => right.updatedAt - left.updatedAt)
+      .slice(0, input.limit)
+      .map((session) => this.toListItem(session));
+    return { data, nextCursor: null };
+  }
+
+  public async createThread(input: AgentCreateThreadInput): Promise<AgentCreateThreadResult> {
+    await this.ensureConnected();
+
+    const cwd = input.cwd ? path.resolve(input.cwd) : this.workspaceDir;
+    const result = NewSessionResultSchema.parse(
+      await this.transport.request("session/new", { cwd, mcpServers: [] })
+    );
+
+    const now = Math.floor(Date.now() / 1000);
+    const session: AcpSession = {
+      id: result.sessionId,
+      cwd,
+      name: null,
+      preview: "",
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+      activeTurn: null,
+      nextItemId: 1,
+      loaded: true,
+      replaying: false
+    };
+    this.sessions.set(session.id, session);
+
+    return {
+      threadId: session.id,
+      thread: this.toListItem(session),
+      cwd
+    };
+  }
+
+  public async readThread(input: AgentReadThreadInput): Promise<AgentReadThreadResult> {
+    const session = this.sessions.get(input.threadId) ?? (await this.loadSession(input.threadId));
+    const thread = this.toConversationState(session);
+    return { thread: input.includeTurns ? thread : { ...thread, turns: [] } };
+  }
+
+  public async readLiveState(threadId: string): Promise<AgentThreadLiveState> {
+    const session = this.sessions.get(threadId) ?? (await this.loadSession(threadId));
+    return {
+      ownerClientId: null,
+      conversationState: this.toConversationState(session)
+    };
+  }
+
+  public async sendMessage(input: AgentSendMessageInput): Promise<void> {
+    const session = await this.loadSession(input.threadId);
+    if (session.activeTurn) {
+      throw new Error(`${this.label} is still working on the previous message`);
+    }
+
+    const prompt: Array<Record<string, unknown>> = [{ type: "text", text: input.text }];
+    for (const attachment of input.attachments ?? []) {
+      prompt.push({
+        type: "resource_link",
+        uri: pathToFileURL(attachment.path).href,
+        name: attachment.name,
+        mimeType: attachment.mimeType
+      });
+    }
+
+    const turn: ThreadTurn = {
+      id: `turn-${String(session.turns.length + 1)}`,
+      status: "inProgress",
+      turnStartedAtMs: Date.now(),
+      items: [
+        {
+          id: this.nextItemId(session),
+          type: "userMessage",
+          content: [{ type: "text", text: input.text }]
+        }
+      ]
+    };
+    session.turns.push(turn);
+    session.activeTurn = turn;
+    if (!session.preview) {
+      session.preview = input.text.split("\n")[0]!.slice(0, 200);
+    }
+    this.touch(session);
+
+    void this.transport
+      .request("session/prompt", { sessionId: session.id, prompt }, PROMPT_TIMEOUT_MS)
+      .then((result) => {
+        const { stopReason } = PromptResultSchema.parse(result);
+        this.finishTurn(
+          session,
+          turn,
+          stopReason === "cancelled" ? "interrupted" : stopReason === "refusal" ? "failed" : "completed",
+          stopReason === "refusal" ? `${this.label} refused the request` : null
+        );
+      })
+      .catch((error: unknown) => {
+        this.finishTurn(session, turn, "failed", toErrorMessage(error));
+      });
+  }
+
+  public async interrupt(input: AgentInterruptInput): Promise<void> {
+    const session = this.requireSession(input.threadId);
+    // A session lost with its agent process has no prompt left to cancel.
+    if (!this.connected || !session.loaded) {
+      return;
+    }
+
+    // Cancelling a prompt also cancels the permission requests it raised.
+    for (const [id, pending] of this.pendingPermissions) {
+      if (pending.request.threadId === session.id) {
+        this.pendingPermissions.delete(id);
+        await this.transport.respond(pending.rpcId, { outcome: { outcome: "cancelled" } });
+      }
+    }
+    await this.transport.notify("session/cancel", { sessionId: session.id });
+  }
+
+  public async renameThread(input: AgentRenameThreadInput): Promise<void> {
+    const session = this.requireSession(input.threadId);
+    session.name = input.name.trim();
+    this.touch(session);
+  }
+
+  public async listPendingApprovals(threadId: string): Promise<AgentApprovalRequest[]> {
+    return Array.from(this.pendingPermissions.values())
+      .filter((pending) => pending.request.threadId === threadId)
+      .map((pending) => pending.request);
+  }
+
+  public async submitApproval(input: AgentSubmitApprovalInput): Promise<void> {
+    if (!this.connected) {
+      throw new Error(`${this.label} is not connected`);
+    }
+
+    const pending = this.pendingPermissions.get(String(input.requestId));
+    if (!pending || pending.request.threadId !== input.threadId) {
+      throw new Error(`No pending permission request ${String(input.requestId)} for thread ${input.threadId}`);
+    }
+
+    const kinds = typeof input.decision === "string" ? DECISION_OPTION_KINDS[input.decision] : undefined;
+    if (!kinds) {
+      throw new Error("ACP permissions accept only once, always or reject");
+    }
+    const option = pending.request.params.options.find((candidate) => kinds.includes(candidate.kind));
+    if (!option) {
+      throw new Error(`${this.label} did not offer a "${String(input.decision)}" option`);
+    }
+
+    this.pendingPermissions.delete(String(input.requestId));
+    await this.transport.respond(pending.rpcId, {
+      outcome: { outcome: "selected", optionId: option.optionId }
+    });
+    this.emit(input.threadId, "session/request_permission/resolved", { optionId: option.optionId });
+  }
+
+  private async connect(): Promise<void> {
+    if (!this.connectInFlight) {
+      this.connectInFlight = (async () => {
+        const result = InitializeResultSchema.parse(
+          await this.transport.request("initialize", ACP_INITIALIZE_PARAMS)
+        );
+        if (result.protocolVersion !== ACP_PROTOCOL_VERSION) {
+          throw new Error(
+            `${this.label} speaks ACP version ${String(result.protocolVersion)}; Farfield supports ${String(ACP_PROTOCOL_VERSION)}`
+          );
+        }
+        this.canLoadSession = result.agentCapabilities?.loadSession === true;
+        this.connected = true;
+      })().finally(() => {
+        this.connectInFlight = null;
+      });
+    }
+    return this.connectInFlight;
+  }
+
+  private handleExit(reason: string): void {
+    logger.warn({ agentId: this.id, reason }, "acp-agent-exited");
+    this.connected = false;
+    // The prompts behind these requests already failed with the exit.
+    this.pendingPermissions.clear();
+    for (const session of this.sessions.values()) {
+      session.loaded = false;
+    }
+  }
+
+  /** Returns a session the agent knows about, restoring it with session/load when needed. */
+  private async loadSession(threadId: string): Promise<AcpSession> {
+    const existing = this.sessions.get(threadId);
+    if (existing?.loaded) {
+      return existing;
+    }
+
+    let load = this.sessionLoads.get(threadId);
+    if (!load) {
+      load = this.restoreSession(threadId, existing ?? null).finally(() => {
+        this.sessionLoads.delete(threadId);
+      });
+      this.sessionLoads.set(threadId, load);
+    }
+    return load;
+  }
+
+  private async restoreSession(threadId: string, existing: AcpSession | null): Promise<AcpSession> {
+    await this.ensureConnected();
+    if (!this.canLoadSession) {
+      throw new Error(
+        existing
+          ? `${this.label} restarted and cannot resume session ${threadId}; start a new thread`
+          : `Unknown ${this.label} session: ${threadId}`
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const session: AcpSession = existing ?? {
+      id: threadId,
+      cwd: this.workspaceDir,
+      name: null,
+      preview: "",
+      createdAt: now,
+      updatedAt: now,
+      turns: [],
+      activeTurn: null,
+      nextItemId: 1,
+      loaded: false,
+      replaying: false
+    };
+    const previousTurns = session.turns;
+    // The agent replays the whole conversation, which replaces the transcript kept here.
+    session.turns = [];
+    session.activeTurn = null;
+    session.replaying = true;
+    this.sessions.set(threadId, session);
+    try {
+      await this.transport.request("session/load", { sessionId: threadId, cwd: session.cwd, mcpServers: [] });
+    } catch (error) {
+      session.turns = previousTurns;
+      if (!existing) {
+        this.sessions.delete(threadId);
+      }
+      throw error;
+    } finally {
+      session.replaying = false;
+    }
+
+    const first = session.turns[0]?.items[0];
+    if (!session.preview && first?.type === "userMessage" && first.content[0]?.type === "text") {
+      session.preview = first.content[0].text.split("\n")[0]!.slice(0, 200);
+    }
+    session.loaded = true;
+    return session;
+  }
+
+  private handleNotification(notification: JsonRpcNotification): void {
+    if (notification.method !== "session/update") {
+      return;
+    }
+
+    const parsed = SessionNotificationSchema.safeParse(notification.params);
+    if (!parsed.success) {
+      logger.warn({ agentId: this.id, error: parsed.error.message }, "acp-session-update-invalid");
+      return;
+    }
+
+    const session = this.sessions.get(parsed.data.sessionId);
+    if (!session) {
+      return;
+    }
+
+    const update = SessionUpdateSchema.safeParse(parsed.data.update);
+    // Mode and command list updates do not change the transcript.
+    if (update.success) {
+      this.applyUpdate(session, update.data);
+      this.touch(session);
+    }
+    this.emit(session.id, notification.method, parsed.data.update);
+  }
+
+  private handleServerRequest(request: JsonRpcServerRequest): void {
+    if (request.method !== "session/request_permission") {
+      void this.transport
+        .respondError(request.id, JSON_RPC_METHOD_NOT_FOUND, `Unsupported client method: ${request.method}`)
+        .catch(() => undefined);
+      return;
+    }
+
+    const parsed = PermissionRequestSchema.safeParse(request.params);
+    if (!parsed.success || !this.sessions.has(parsed.data.sessionId)) {
+      void this.transport
+        .respond(request.id, { outcome: { outcome: "cancelled" } })
+        .catch(() => undefined);
+      return;
+    }
+
+    const requestId = `permission-${String(++this.nextPermissionId)}`;
+    const { sessionId, toolCall, options } = parsed.data;
+    // Agents may send only the tool call id when it was announced in an earlier update.
+    const announced = this.findToolCall(sessionId, toolCall.toolCallId);
+    this.pendingPermissions.set(requestId, {
+      rpcId: request.id,
+      request: {
+        kind: "acpPermission",
+        requestId,
+        threadId: sessionId,
+        createdAt: new Date().toISOString(),
+        params: {
+          toolCallId: toolCall.toolCallId,
+          title: toolCall.title ?? announced?.command ?? "Use a tool",
+          toolKind: toolCall.kind ?? announced?.commandActions?.[0]?.type ?? null,
+          options: options.map(({ optionId, name, kind }) => ({ optionId, name, kind }))
+        }
+      }
+    });
+    this.emit(sessionId, request.method, request.params);
+  }
+
+  private applyUpdate(session: AcpSession, update: z.infer<typeof SessionUpdateSchema>): void {
+    if (update.sessionUpdate === "user_message_chunk") {
+      // Farfield records the prompt itself when it is sent, so only replayed history needs it.
+      if (session.replaying) {
+        this.replayUserMessage(session, update.content.text ?? "");
+      }
+      return;
+    }
+
+    const turn = session.activeTurn ?? session.turns.at(-1);
+    if (!turn) {
+      return;
+    }
+
+    switch (update.sessionUpdate) {
+      case "agent_message_chunk": {
+        const last = turn.items.at(-1);
+        const text = update.content.text ?? "";
+        if (last?.type === "agentMessage") {
+          last.text += text;
+        } else {
+          turn.items.push({ id: this.nextItemId(session), type: "agentMessage", text });
+        }
+        return;
+      }
+      case "agent_thought_chunk": {
+        const last = turn.items.at(-1);
+        const text = update.content.text ?? "";
+        if (last?.type === "reasoning") {
+          last.text = (last.text ?? "") + text;
+        } else {
+          turn.items.push({ id: this.nextItemId(session), type: "reasoning", text });
+        }
+        return;
+      }
+      case "plan": {
+        const text = update.entries
+          .map((entry) => `- [${entry.status === "completed" ? "x" : " "}] ${entry.content}`)
+          .join("\n");
+        const existing = turn.items.find((item) => item.type === "plan");
+        if (existing?.type === "plan") {
+          existing.text = text;
+        } else {
+          turn.items.push({ id: this.nextItemId(session), type: "plan", text });
+        }
+        return;
+      }
+      case "tool_call":
+      case "tool_call_update": {
+        const index = turn.items.findIndex((item) => item.id === update.toolCallId);
+        const previous = index >= 0 ? turn.items[index] : undefined;
+        const item = toToolItem(update, previous);
+        if (index >= 0) {
+          turn.items[index] = item;
+        } else {
+          turn.items.push(item);
+        }
+        return;
+      }
+    }
+  }
+
+  /** Starts a completed turn for each replayed prompt; later chunks extend its text. */
+  private replayUserMessage(session: AcpSession, text: string): void {
+    const turn = session.turns.at(-1);
+    const last = turn?.items.at(-1);
+    if (turn && last?.type === "userMessage" && last.content[0]?.type === "text") {
+      last.content[0].text += text;
+    } else {
+      session.turns.push({
+        id: `turn-${String(session.turns.length + 1)}`,
+        status: "completed",
+        items: [{ id: this.nextItemId(session), type: "userMessage", content: [{ type: "text", text }] }]
+      });
+    }
+  }
+
+  private finishTurn(
+    session: AcpSession,
+    turn: ThreadTurn,
+    status: "completed" | "interrupted" | "failed",
+    error: string | null
+  ): void {
+    turn.status = status;
+    if (error) {
+      turn.error = { message: error };
+      turn.items.push({ id: this.nextItemId(session), type: "error", message: error });
+    }
+    if (session.activeTurn === turn) {
+      session.activeTurn = null;
+    }
+    this.touch(session);
+    this.emit(session.id, "session/prompt/finished", { turnId: turn.id, status });
+  }
+
+  private findToolCall(
+    sessionId: string,
+    toolCallId: string
+  ): Extract<TurnItem, { type: "commandExecution" }> | null {
+    const session = this.sessions.get(sessionId);
+    for (const turn of [...(session?.turns ?? [])].reverse()) {
+      const item = turn.items.find((candidate) => candidate.id === toolCallId);
+      if (item?.type === "commandExecution") {
+        return item;
+      }
+    }
+    return null;
+  }
+
+  private toListItem(session: AcpSession): AgentThreadListItem {
+    return AppServerThreadListItemSchema.parse({
+      id: session.id,
+      preview: session.preview,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      cwd: session.cwd,
+      name: session.name,
+      source: "acp"
+    });
+  }
+
+  private toConversationState(session: AcpSession): ThreadConversationState {
+    return structuredClone({
+      id: session.id,
+      turns: session.turns,
+      requests: [],
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      title: session.name ?? (session.preview || null),
+      cwd: session.cwd,
+      source: "acp"
+    });
+  }
+
+  private nextItemId(session: AcpSession): string {
+    return `item-${String(session.nextItemId++)}`;
+  }
+
+  private touch(session: AcpSession): void {
+    session.updatedAt = Math.floor(Date.now() / 1000);
+  }
+
+  private emit(threadId: string, method: string, payload: unknown): void {
+    for (const listener of this.sessionEventListeners) {
+      listener({ threadId, method, payload });
+    }
+  }
+
+  private requireSession(threadId: string): AcpSession {
+    const session = this.sessions.get(threadId);
+    if (!session) {
+      throw new Error(`Unknown ${this.label} session: ${threadId}`);
+    }
+    return session;
+  }
+
+  private async ensureConnected(): Promise<void> {
+    // Only a started adapter may respawn its agent.
+    if (this.unsubscribers.length === 0) {
+      throw new Error(`${this.label} is not connected`);
+    }
+    if (!this.connected) {
+      await this.connect();
+    }
+  }
+}
+
+/** Shows edits as file changes and every other tool call as a command. */
+function toToolItem(
+  update: z.infer<typeof ToolCallFieldsSchema>,
+  previous: TurnItem | undefined
+): TurnItem {
+  const previousStatus =
+    previous?.type === "commandExecution" || previous?.type === "fileChange" ? previous.status : null;
+  const status = toItemStatus(update.status) ?? previousStatus ?? "inProgress";
+  const content = update.content ?? [];
+  const diffs = content.filter((entry) => entry.type === "diff" && entry.path);
+
+  if (diffs.length > 0 || (previous?.type === "fileChange" && update.content === undefined)) {
+    return {
+      id: update.toolCallId,
+      type: "fileChange",
+      status,
+      changes:
+        diffs.length > 0
+          ? diffs.map((entry) => ({
+              path: entry.path!,
+              kind: { type: entry.oldText ? "update" : "add" },
+              diff: formatDiff(entry.oldText ?? null, entry.newText ?? "")
+            }))
+          : previous?.type === "fileChange"
+            ? previous.changes
+            : []
+    };
+  }
+
+  const output = content
+    .map((entry) => (entry.type === "content" ? entry.content?.text : undefined))
+    .filter((text): text is string => typeof text === "string")
+    .join("\n");
+
+  return {
+    id: update.toolCallId,
+    type: "commandExecution",
+    command:
+      update.title ?? (previous?.type === "commandExecution" ? previous.command : update.kind ?? "tool"),
+    status,
+    aggregatedOutput: output || (previous?.type === "commandExecution" ? previous.aggregatedOutput ?? null : null),
+    ...(update.kind ? { commandActions: [{ type: update.kind }] } : {})
+  };
+}
+
+function toItemStatus(status: string | undefined): string | null {
+  switch (status) {
+    case "pending":
+    case "in_progress":
+      return "inProgress";
+    case "completed":
+      return "completed";
+    case "failed":
+      return "failed";
+    default:
+      return null;
+  }
+}
+
+function formatDiff(oldText: string | null, newText: string): string {
+  const removed = oldText ? oldText.split("\n").map((line) => `-${line}`) : [];
+  const added = newText.split("\n").map((line) => `+${line}`);
+  return [...removed, ...added].join("\n");
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -6,33 +6,51 @@ import {
   AppServerTransportError,
   CodexMonitorService,
   DesktopIpcClient,
-  reduceThreadStreamEvents,
+  ThreadStreamReducer,
   ThreadStreamReductionError,
   type SendRequestOptions
 } from "@farfield/api";
 import {
+  AppServerCommandExecutionApprovalDecisionSchema,
+  AppServerFileChangeApprovalDecisionSchema,
+  type AppServerApprovalRequest,
+  type AppServerNotification,
+  type AppServerRateLimitSnapshot,
+  type AppServerStartThreadResponse,
   parseThreadStreamStateChangedBroadcast,
   parseUserInputResponsePayload,
   ProtocolValidationError,
+  type InputPart,
   type IpcFrame,
   type IpcRequestFrame,
   type IpcResponseFrame
 } from "@farfield/protocol";
 import { logger } from "../../logger.js";
 import { resolveOwnerClientId } from "../../thread-owner.js";
+import type { ThreadNameStore, ThreadOwnerStore } from "../../thread-store.js";
+import { UsageTracker, type ThreadTokenUsage } from "../../usage.js";
 import type {
   AgentAdapter,
+  AgentApprovalRequest,
+  AgentAttachment,
+  AgentApprovalRequestId,
   AgentCapabilities,
   AgentCreateThreadInput,
   AgentCreateThreadResult,
+  AgentForkThreadInput,
   AgentInterruptInput,
   AgentListThreadsInput,
   AgentListThreadsResult,
+  AgentRateLimits,
   AgentReadThreadInput,
   AgentReadThreadResult,
+  AgentRenameThreadInput,
+  AgentRollbackThreadInput,
   AgentSendMessageInput,
   AgentSetCollaborationModeInput,
+  AgentSubmitApprovalInput,
   AgentSubmitUserInputInput,
+  AgentThreadListItem,
   AgentThreadLiveState,
   AgentThreadStreamEvents
 } from "../types.js";
@@ -52,15 +70,36 @@ export interface CodexIpcFrameEvent {
   threadId: string | null;
 }
 
+export interface CodexAppServerNotificationEvent {
+  notification: AppServerNotification;
+  threadId: string | null;
+}
+
+export interface CodexProtocolDriftEvent {
+  source: "ipc" | "app-server";
+  method: string;
+  error: ProtocolValidationError;
+  /** The value the schema rejected; `error.details` paths are relative to it. */
+  payload: unknown;
+}
+
+export type CodexApprovalEvent =
+  | { type: "requested"; request: AgentApprovalRequest }
+  | { type: "resolved"; threadId: string; requestId: AgentApprovalRequestId };
+
 export interface CodexAgentOptions {
   appExecutable: string;
   socketPath: string;
   workspaceDir: string;
   userAgent: string;
   reconnectDelayMs: number;
+  ownerStore?: ThreadOwnerStore;
+  nameStore?: ThreadNameStore;
   onStateChange?: () => void;
 }
 
+// Rate-limit updates are pushed during turns; poll when the snapshot is older than this.
+const RATE_LIMITS_MAX_AGE_MS = 60_000;
 const ANSI_ESCAPE_REGEX = /\u001B\[[0-?]*[ -/]*[@-~]/g;
 const INVALID_STREAM_EVENTS_LOG_PATH = process.env["FARFIELD_INVALID_STREAM_LOG_PATH"] ??
   path.resolve(process.cwd(), "invalid-thread-stream-events.jsonl");
@@ -73,8 +112,17 @@ export class CodexAgentAdapter implements AgentAdapter {
     canListCollaborationModes: true,
     canSetCollaborationMode: true,
     canSubmitUserInput: true,
+    canSteerTurns: true,
     canReadLiveState: true,
-    canReadStreamEvents: true
+    canReadStreamEvents: true,
+    canSubmitApprovals: true,
+    canForkThreads: true,
+    canRollbackThreads: true,
+    canCompactThreads: true,
+    canArchiveThreads: true,
+    canUnarchiveThreads: true,
+    canRenameThreads: true,
+    canReadUsage: true
   };
 
   private readonly appClient: AppServerClient;
@@ -82,10 +130,25 @@ export class CodexAgentAdapter implements AgentAdapter {
   private readonly service: CodexMonitorService;
   private readonly onStateChange: (() => void) | null;
   private readonly reconnectDelayMs: number;
+  private readonly ownerStore: ThreadOwnerStore | null;
+  private readonly nameStore: ThreadNameStore | null;
 
   private readonly threadOwnerById = new Map<string, string>();
+  private readonly threadNameById = new Map<string, string>();
+  // Turns running in our app-server, which can be steered through turn/steer.
+  private readonly activeTurnIdByThreadId = new Map<string, string>();
   private readonly streamEventsByThreadId = new Map<string, IpcFrame[]>();
+  private readonly streamReducer = new ThreadStreamReducer();
   private readonly ipcFrameListeners = new Set<(event: CodexIpcFrameEvent) => void>();
+  private readonly appServerNotificationListeners = new Set<
+    (event: CodexAppServerNotificationEvent) => void
+  >();
+  private readonly pendingApprovalsByThreadId = new Map<string, AgentApprovalRequest[]>();
+  private readonly approvalListeners = new Set<(event: CodexApprovalEvent) => void>();
+  private readonly protocolDriftListeners = new Set<(event: CodexProtocolDriftEvent) => void>();
+  private readonly usageTracker = new UsageTracker();
+  private rateLimits: AppServerRateLimitSnapshot | null = null;
+  private rateLimitsUpdatedAt: Date | null = null;
 
   private runtimeState: CodexAgentRuntimeState = {
     appReady: false,
@@ -102,6 +165,14 @@ export class CodexAgentAdapter implements AgentAdapter {
   public constructor(options: CodexAgentOptions) {
     this.onStateChange = options.onStateChange ?? null;
     this.reconnectDelayMs = options.reconnectDelayMs;
+    this.ownerStore = options.ownerStore ?? null;
+    for (const entry of this.ownerStore?.listOwners() ?? []) {
+      this.threadOwnerById.set(entry.threadId, entry.ownerClientId);
+    }
+    this.nameStore = options.nameStore ?? null;
+    for (const entry of this.nameStore?.listNames() ?? []) {
+      this.threadNameById.set(entry.threadId, entry.name);
+    }
 
     this.appClient = new AppServerClient({
       executablePath: options.appExecutable,
@@ -117,6 +188,60 @@ export class CodexAgentAdapter implements AgentAdapter {
       }
     });
 
+    this.appClient.onNotification((notification) => {
+      const threadId = extractNotificationThreadId(notification);
+      if (notification.method === "thread/name/updated") {
+        this.rememberThreadName(notification.params.threadId, notification.params.threadName ?? null);
+      }
+      if (notification.method === "turn/started") {
+        this.activeTurnIdByThreadId.set(notification.params.threadId, notification.params.turn.id);
+      }
+      if (notification.method === "turn/completed") {
+        this.activeTurnIdByThreadId.delete(notification.params.threadId);
+      }
+      if (notification.method === "thread/tokenUsage/updated") {
+        this.usageTracker.record(
+          notification.params.threadId,
+          notification.params.turnId,
+          notification.params.tokenUsage
+        );
+      }
+      if (notification.method === "account/rateLimits/updated") {
+        this.rememberRateLimits(notification.params.rateLimits);
+      }
+
+      this.emitAppServerNotification({
+        notification,
+        threadId
+      });
+
+      // The app-server abandons outstanding approvals once the turn ends.
+      if (notification.method === "turn/completed" && threadId) {
+        this.clearPendingApprovals(threadId);
+      }
+    });
+
+    this.appClient.onApprovalRequest((requestId, request) => {
+      this.addPendingApproval(toAgentApprovalRequest(requestId, request));
+    });
+
+    this.appClient.onNotificationError((error, notification) => {
+      logger.warn(
+        {
+          method: notification.method,
+          error: error.message,
+          issues: error.issues
+        },
+        "codex-invalid-app-server-notification"
+      );
+      this.emitProtocolDrift({
+        source: "app-server",
+        method: notification.method,
+        error,
+        payload: notification.params
+      });
+    });
+
     this.ipcClient = new DesktopIpcClient({
       socketPath: options.socketPath
     });
@@ -168,6 +293,11 @@ export class CodexAgentAdapter implements AgentAdapter {
 
       if (frame.sourceClientId && frame.sourceClientId.trim()) {
         this.threadOwnerById.set(conversationId, frame.sourceClientId.trim());
+        this.ownerStore?.setOwner(conversationId, frame.sourceClientId.trim());
+      }
+
+      if (!this.reduceStreamFrame(conversationId, frame)) {
+        return;
       }
 
       const current = this.streamEventsByThreadId.get(conversationId) ?? [];
@@ -186,6 +316,29 @@ export class CodexAgentAdapter implements AgentAdapter {
     };
   }
 
+  public onAppServerNotification(
+    listener: (event: CodexAppServerNotificationEvent) => void
+  ): () => void {
+    this.appServerNotificationListeners.add(listener);
+    return () => {
+      this.appServerNotificationListeners.delete(listener);
+    };
+  }
+
+  public onApprovalEvent(listener: (event: CodexApprovalEvent) => void): () => void {
+    this.approvalListeners.add(listener);
+    return () => {
+      this.approvalListeners.delete(listener);
+    };
+  }
+
+  public onProtocolDrift(listener: (event: CodexProtocolDriftEvent) => void): () => void {
+    this.protocolDriftListeners.add(listener);
+    return () => {
+      this.protocolDriftListeners.delete(listener);
+    };
+  }
+
   public getRuntimeState(): CodexAgentRuntimeState {
     return { ...this.runtimeState };
   }
@@ -206,7 +359,7 @@ export class CodexAgentAdapter implements AgentAdapter {
     return error.message.includes("thread not loaded");
   }
 
-  private isThreadUnavailableForSendError(error: unknown): boolean {
+  private isThreadUnavailableError(error: unknown): boolean {
     if (!(error instanceof AppServerRpcError)) {
       return false;
     }
@@ -284,7 +437,7 @@ export class CodexAgentAdapter implements AgentAdapter {
     );
 
     return {
-      data: result.data,
+      data: result.data.map((thread) => this.withThreadName(thread)),
       nextCursor: result.nextCursor ?? null,
       ...(typeof result.pages === "number" ? { pages: result.pages } : {}),
       ...(typeof result.truncated === "boolean" ? { truncated: result.truncated } : {})
@@ -311,16 +464,7 @@ export class CodexAgentAdapter implements AgentAdapter {
       })
     );
 
-    return {
-      threadId: result.thread.id,
-      thread: result.thread,
-      model: result.model,
-      modelProvider: result.modelProvider,
-      cwd: result.cwd,
-      approvalPolicy: result.approvalPolicy,
-      sandbox: result.sandbox,
-      reasoningEffort: result.reasoningEffort
-    };
+    return toCreateThreadResult(result);
   }
 
   public async readThread(input: AgentReadThreadInput): Promise<AgentReadThreadResult> {
@@ -336,26 +480,72 @@ export class CodexAgentAdapter implements AgentAdapter {
   public async sendMessage(input: AgentSendMessageInput): Promise<void> {
     this.ensureCodexAvailable();
     if (input.isSteering === true) {
-      throw new Error("Steering messages are not supported on this endpoint.");
+      await this.steerTurn(input);
+      return;
     }
 
-    try {
-      await this.runAppServerCall(() =>
-        this.appClient.startTurn(input.threadId, input.text)
+    await this.runLoadedThreadCall(input.threadId, () =>
+      this.appClient.startTurn(input.threadId, [
+        { type: "text", text: input.text },
+        ...toAttachmentInput(input.attachments ?? [])
+      ])
+    );
+  }
+
+  public async forkThread(input: AgentForkThreadInput): Promise<AgentCreateThreadResult> {
+    this.ensureCodexAvailable();
+
+    const numTurns = input.turnId ? await this.countTurnsAfter(input.threadId, input.turnId) : 0;
+    const result = await this.runAppServerCall(() =>
+      this.appClient.forkThread({ threadId: input.threadId })
+    );
+
+    if (numTurns > 0) {
+      const rolledBack = await this.runLoadedThreadCall(result.thread.id, () =>
+        this.appClient.rollbackThread(result.thread.id, numTurns)
       );
+      return toCreateThreadResult({ ...result, thread: rolledBack.thread });
+    }
+
+    return toCreateThreadResult(result);
+  }
+
+  public async rollbackThread(input: AgentRollbackThreadInput): Promise<void> {
+    this.ensureCodexAvailable();
+
+    const numTurns = await this.countTurnsAfter(input.threadId, input.turnId);
+    if (numTurns === 0) {
       return;
-    } catch (error) {
-      if (!this.isThreadUnavailableForSendError(error)) {
-        throw error;
-      }
     }
 
-    await this.runAppServerCall(() => this.appClient.resumeThread(input.threadId));
-    await this.runAppServerCall(() =>
-      this.appClient.startTurn(input.threadId, input.text)
+    await this.runLoadedThreadCall(input.threadId, () =>
+      this.appClient.rollbackThread(input.threadId, numTurns)
     );
   }
 
+  public async compactThread(threadId: string): Promise<void> {
+    this.ensureCodexAvailable();
+    await this.runLoadedThreadCall(threadId, () => this.appClient.startThreadCompaction(threadId));
+  }
+
+  public async archiveThread(threadId: string): Promise<void> {
+    this.ensureCodexAvailable();
+    await this.runAppServerCall(() => this.appClient.archiveThread(threadId));
+  }
+
+  public async unarchiveThread(threadId: string): Promise<void> {
+    this.ensureCodexAvailable();
+    await this.runAppServerCall(() => this.appClient.unarchiveThread(threadId));
+  }
+
+  public async renameThread(input: AgentRenameThreadInput): Promise<void> {
+    this.ensureCodexAvailable();
+    await this.runLoadedThreadCall(input.threadId, () =>
+      this.appClient.setThreadName(input.threadId, input.name)
+    );
+    this.rememberThreadName(input.threadId, input.name.trim());
+  }
+
   public async interrupt(input: AgentInterruptInput): Promise<void> {
     this.ensureCodexAvailable();
     this.ensureIpcReady();
@@ -428,98 +618,46 @@ export class CodexAgentAdapter implements AgentAdapter {
     };
   }
 
-  public async readLiveState(threadId: string): Promise<AgentThreadLiveState> {
-    const rawEvents = this.streamEventsByThreadId.get(threadId) ?? [];
-    if (rawEvents.length === 0) {
-      return {
-        ownerClientId: this.threadOwnerById.get(threadId) ?? null,
-        conversationState: null
-      };
-    }
+  public async listPendingApprovals(threadId: string): Promise<AgentApprovalRequest[]> {
+    return [...(this.pendingApprovalsByThreadId.get(threadId) ?? [])];
+  }
 
-    const events: ReturnType<typeof parseThreadStreamStateChangedBroadcast>[] = [];
-    const validRawEvents: IpcFrame[] = [];
-    let invalidEventCount = 0;
-    let firstInvalidEventError: string | null = null;
+  public async submitApproval(input: AgentSubmitApprovalInput): Promise<void> {
+    this.ensureCodexAvailable();
 
-    for (const event of rawEvents) {
-      try {
-        events.push(parseThreadStreamStateChangedBroadcast(event));
-        validRawEvents.push(event);
-      } catch (error) {
-        invalidEventCount += 1;
-        if (!firstInvalidEventError) {
-          firstInvalidEventError = toErrorMessage(error);
-          logger.warn(
-            {
-              threadId,
-              error: firstInvalidEventError,
-              ...(error instanceof ProtocolValidationError ? { issues: error.issues } : {}),
-              rawPayload: event
-            },
-            "codex-invalid-thread-stream-event-detail"
-          );
-          writeInvalidStreamEventDetail({
-            threadId,
-            error: firstInvalidEventError,
-            ...(error instanceof ProtocolValidationError ? { issues: error.issues } : {}),
-            rawPayload: event,
-            loggedAt: new Date().toISOString()
-          });
-        }
-      }
+    const approval = (this.pendingApprovalsByThreadId.get(input.threadId) ?? []).find(
+      (entry) => entry.requestId === input.requestId
+    );
+    if (!approval) {
+      throw new Error(`No pending approval request ${String(input.requestId)} for thread ${input.threadId}`);
     }
 
-    if (invalidEventCount > 0) {
-      logger.warn(
-        {
-          threadId,
-          invalidEventCount,
-          eventCount: rawEvents.length,
-          error: firstInvalidEventError
-        },
-        "codex-invalid-thread-stream-events-pruned"
+    if (approval.kind === "commandExecution") {
+      const decision = AppServerCommandExecutionApprovalDecisionSchema.parse(input.decision);
+      await this.runAppServerCall(() =>
+        this.appClient.respondToCommandExecutionApproval(approval.requestId, decision)
       );
-      this.streamEventsByThreadId.set(threadId, validRawEvents);
+    } else if (approval.kind === "fileChange") {
+      const parsed = AppServerFileChangeApprovalDecisionSchema.safeParse(input.decision);
+      if (!parsed.success) {
+        throw new Error("File change approvals do not accept exec policy amendments");
+      }
+      await this.runAppServerCall(() =>
+        this.appClient.respondToFileChangeApproval(approval.requestId, parsed.data)
+      );
+    } else {
+      throw new Error(`Codex cannot answer ${approval.kind} approval requests`);
     }
 
-    if (events.length === 0) {
-      return {
-        ownerClientId: this.threadOwnerById.get(threadId) ?? null,
-        conversationState: null
-      };
-    }
+    this.removePendingApproval(approval.threadId, approval.requestId);
+  }
 
-    try {
-      const reduced = reduceThreadStreamEvents(events);
-      const state = reduced.get(threadId);
-      return {
-        ownerClientId: state?.ownerClientId ?? this.threadOwnerById.get(threadId) ?? null,
-        conversationState: state?.conversationState ?? null
-      };
-    } catch (error) {
-      const details =
-        error instanceof ThreadStreamReductionError
-          ? {
-              threadId: error.details.threadId,
-              eventIndex: error.details.eventIndex,
-              patchIndex: error.details.patchIndex
-            }
-          : null;
-      logger.error(
-        {
-          threadId,
-          eventCount: events.length,
-          error: toErrorMessage(error),
-          details
-        },
-        "codex-thread-stream-reduction-failed"
-      );
-      return {
-        ownerClientId: this.threadOwnerById.get(threadId) ?? null,
-        conversationState: null
-      };
-    }
+  public async readLiveState(threadId: string): Promise<AgentThreadLiveState> {
+    const state = this.streamReducer.get(threadId);
+    return {
+      ownerClientId: state?.ownerClientId ?? this.threadOwnerById.get(threadId) ?? null,
+      conversationState: state?.conversationState ?? null
+    };
   }
 
   public async readStreamEvents(threadId: string, limit: number): Promise<AgentThreadStreamEvents> {
@@ -529,6 +667,28 @@ export class CodexAgentAdapter implements AgentAdapter {
     };
   }
 
+  public readThreadUsage(threadId: string): ThreadTokenUsage | null {
+    return this.usageTracker.get(threadId);
+  }
+
+  public listThreadUsage(): ThreadTokenUsage[] {
+    return this.usageTracker.list();
+  }
+
+  public async readRateLimits(): Promise<AgentRateLimits> {
+    const ageMs = this.rateLimitsUpdatedAt ? Date.now() - this.rateLimitsUpdatedAt.getTime() : null;
+    if (ageMs === null || ageMs > RATE_LIMITS_MAX_AGE_MS) {
+      this.ensureCodexAvailable();
+      const result = await this.runAppServerCall(() => this.appClient.readAccountRateLimits());
+      this.rememberRateLimits(result.rateLimits);
+    }
+
+    return {
+      snapshot: this.rateLimits,
+      updatedAt: this.rateLimitsUpdatedAt?.toISOString() ?? null
+    };
+  }
+
   public async replayRequest(
     method: string,
     params: IpcRequestFrame["params"],
@@ -584,12 +744,113 @@ export class CodexAgentAdapter implements AgentAdapter {
     this.ipcClient.sendBroadcast(method, params, options);
   }
 
+  private reduceStreamFrame(threadId: string, frame: IpcFrame): boolean {
+    let event: ReturnType<typeof parseThreadStreamStateChangedBroadcast>;
+    try {
+      event = parseThreadStreamStateChangedBroadcast(frame);
+    } catch (error) {
+      const message = toErrorMessage(error);
+      logger.warn(
+        {
+          threadId,
+          error: message,
+          ...(error instanceof ProtocolValidationError ? { issues: error.issues } : {}),
+          rawPayload: frame
+        },
+        "codex-invalid-thread-stream-event-detail"
+      );
+      writeInvalidStreamEventDetail({
+        threadId,
+        error: message,
+        ...(error instanceof ProtocolValidationError ? { issues: error.issues } : {}),
+        rawPayload: frame,
+        loggedAt: new Date().toISOString()
+      });
+      if (error instanceof ProtocolValidationError) {
+        this.emitProtocolDrift({
+          source: "ipc",
+          method: "thread-stream-state-changed",
+          error,
+          payload: frame
+        });
+      }
+      return false;
+    }
+
+    try {
+      this.streamReducer.apply(event);
+    } catch (error) {
+      const details =
+        error instanceof ThreadStreamReductionError
+          ? {
+              threadId: error.details.threadId,
+              patchIndex: error.details.patchIndex
+            }
+          : null;
+      logger.error(
+        {
+          threadId,
+          error: toErrorMessage(error),
+          details
+        },
+        "codex-thread-stream-reduction-failed"
+      );
+    }
+    return true;
+  }
+
   private emitIpcFrame(event: CodexIpcFrameEvent): void {
     for (const listener of this.ipcFrameListeners) {
       listener(event);
     }
   }
 
+  private emitAppServerNotification(event: CodexAppServerNotificationEvent): void {
+    for (const listener of this.appServerNotificationListeners) {
+      listener(event);
+    }
+  }
+
+  private emitApprovalEvent(event: CodexApprovalEvent): void {
+    for (const listener of this.approvalListeners) {
+      listener(event);
+    }
+  }
+
+  private emitProtocolDrift(event: CodexProtocolDriftEvent): void {
+    for (const listener of this.protocolDriftListeners) {
+      listener(event);
+    }
+  }
+
+  private addPendingApproval(approval: AgentApprovalRequest): void {
+    const pending = this.pendingApprovalsByThreadId.get(approval.threadId) ?? [];
+    pending.push(approval);
+    this.pendingApprovalsByThreadId.set(approval.threadId, pending);
+    this.emitApprovalEvent({ type: "requested", request: approval });
+  }
+
+  private removePendingApproval(threadId: string, requestId: AgentApprovalRequestId): void {
+    const pending = this.pendingApprovalsByThreadId.get(threadId) ?? [];
+    const remaining = pending.filter((entry) => entry.requestId !== requestId);
+    if (remaining.length === pending.length) {
+      return;
+    }
+
+    if (remaining.length === 0) {
+      this.pendingApprovalsByThreadId.delete(threadId);
+    } else {
+      this.pendingApprovalsByThreadId.set(threadId, remaining);
+    }
+    this.emitApprovalEvent({ type: "resolved", threadId, requestId });
+  }
+
+  private clearPendingApprovals(threadId: string): void {
+    for (const approval of this.pendingApprovalsByThreadId.get(threadId) ?? []) {
+      this.removePendingApproval(threadId, approval.requestId);
+    }
+  }
+
   private notifyStateChanged(): void {
     if (this.onStateChange) {
       this.onStateChange();
@@ -641,6 +902,89 @@ export class CodexAgentAdapter implements AgentAdapter {
     }, this.reconnectDelayMs);
   }
 
+  private rememberRateLimits(snapshot: AppServerRateLimitSnapshot): void {
+    this.rateLimits = snapshot;
+    this.rateLimitsUpdatedAt = new Date();
+  }
+
+  private rememberThreadName(threadId: string, name: string | null): void {
+    if (name) {
+      this.threadNameById.set(threadId, name);
+    } else {
+      this.threadNameById.delete(threadId);
+    }
+    this.nameStore?.setName(threadId, name);
+  }
+
+  // thread/list does not return names, so fill in the ones we have seen.
+  private withThreadName(thread: AgentThreadListItem): AgentThreadListItem {
+    const name = this.threadNameById.get(thread.id);
+    return name && !thread.name ? { ...thread, name } : thread;
+  }
+
+  /**
+   * Runs a call that needs the thread loaded in the app-server, resuming the
+   * thread and retrying once when it is not.
+   */
+  private async runLoadedThreadCall<T>(threadId: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await this.runAppServerCall(operation);
+    } catch (error) {
+      if (!this.isThreadUnavailableError(error)) {
+        throw error;
+      }
+    }
+
+    await this.runAppServerCall(() => this.appClient.resumeThread(threadId));
+    return this.runAppServerCall(operation);
+  }
+
+  /**
+   * Steers turns started through our app-server with turn/steer. Turns the
+   * desktop app is running never reach our app-server, so those go to the
+   * owning client over IPC instead.
+   */
+  private async steerTurn(input: AgentSendMessageInput): Promise<void> {
+    const activeTurnId = this.activeTurnIdByThreadId.get(input.threadId);
+    if (activeTurnId) {
+      await this.runAppServerCall(() =>
+        this.appClient.steerTurn(input.threadId, activeTurnId, [
+          { type: "text", text: input.text },
+          ...toAttachmentInput(input.attachments ?? [])
+        ])
+      );
+      return;
+    }
+
+    this.ensureIpcReady();
+    const ownerClientId = resolveOwnerClientId(
+      this.threadOwnerById,
+      input.threadId,
+      input.ownerClientId
+    );
+    const turns = this.streamReducer.get(input.threadId)?.conversationState?.turns ?? [];
+    const template = turns[turns.length - 1]?.params ?? { threadId: input.threadId, input: [] };
+
+    await this.service.sendMessage({
+      threadId: input.threadId,
+      ownerClientId,
+      text: input.text,
+      input: toAttachmentInput(input.attachments ?? []),
+      isSteering: true,
+      turnStartTemplate: template,
+      ...(input.cwd ? { cwd: input.cwd } : {})
+    });
+  }
+
+  private async countTurnsAfter(threadId: string, turnId: string): Promise<number> {
+    const { thread } = await this.runAppServerCall(() => this.appClient.readThread(threadId, true));
+    const index = thread.turns.findIndex((turn) => (turn.id ?? turn.turnId) === turnId);
+    if (index === -1) {
+      throw new Error(`Turn ${turnId} not found in thread ${threadId}`);
+    }
+    return thread.turns.length - index - 1;
+  }
+
   private async runAppServerCall<T>(operation: () => Promise<T>): Promise<T> {
     try {
       const result = await operation();
@@ -794,3 +1138,63 @@ function extractThreadId(frame: IpcFrame): string | null {
 
   return null;
 }
+
+function toAgentApprovalRequest(
+  requestId: AgentApprovalRequestId,
+  request: AppServerApprovalRequest
+): AgentApprovalRequest {
+  const createdAt = new Date().toISOString();
+  if (request.method === "item/commandExecution/requestApproval") {
+    return {
+      kind: "commandExecution",
+      requestId,
+      threadId: request.params.threadId,
+      createdAt,
+      params: request.params
+    };
+  }
+
+  return {
+    kind: "fileChange",
+    requestId,
+    threadId: request.params.threadId,
+    createdAt,
+    params: request.params
+  };
+}
+
+function extractNotificationThreadId(notification: AppServerNotification): string | null {
+  if (notification.method === "thread/started") {
+    return notification.params.thread.id;
+  }
+
+  const threadId = (notification.params as Record<string, unknown>)["threadId"];
+  if (typeof threadId === "string" && threadId.trim()) {
+    return threadId.trim();
+  }
+
+  return null;
+}
+
+function toCreateThreadResult(result: AppServerStartThreadResponse): AgentCreateThreadResult {
+  return {
+    threadId: result.thread.id,
+    thread: result.thread,
+    model: result.model,
+    modelProvider: result.modelProvider,
+    cwd: result.cwd,
+    approvalPolicy: result.approvalPolicy,
+    sandbox: result.sandbox,
+    reasoningEffort: result.reasoningEffort
+  };
+}
+
+// Codex reads images itself; other files are named in the prompt so the agent
+// can open them from disk.
+function toAttachmentInput(attachments: AgentAttachment[]): InputPart[] {
+  return attachments.map((attachment) =>
+    attachment.mimeType.startsWith("image/")
+      ? { type: "localImage", path: attachment.path }
+      : { type: "text", text: `Attached file ${attachment.name}: ${attachment.path}` }
+  );
+}
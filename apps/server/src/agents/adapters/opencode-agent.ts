@@ -1,12 +1,25 @@
 import fs from "node:fs";
 import path from "node:path";
-import { OpenCodeConnection, OpenCodeMonitorService } from "@farfield/opencode-api";
+import {
+  isOpenCodeEvent,
+  OpenCodeConnection,
+  OpenCodeLiveState,
+  OpenCodeMonitorService,
+  OpenCodePermissionResponseSchema,
+  parseOpenCodeModelId,
+  type OpenCodeGlobalEvent,
+  type OpenCodeModelSelection,
+  type OpenCodeSsePayload
+} from "@farfield/opencode-api";
 import {
   AppServerThreadListItemSchema,
+  parseAppServerListModelsResponse,
   parseThreadConversationState
 } from "@farfield/protocol";
+import { logger } from "../../logger.js";
 import type {
   AgentAdapter,
+  AgentApprovalRequest,
   AgentCapabilities,
   AgentCreateThreadInput,
   AgentCreateThreadResult,
@@ -15,29 +28,57 @@ import type {
   AgentListThreadsResult,
   AgentReadThreadInput,
   AgentReadThreadResult,
-  AgentSendMessageInput
+  AgentRenameThreadInput,
+  AgentSendMessageInput,
+  AgentSubmitApprovalInput,
+  AgentThreadLiveState,
+  AgentThreadStreamEvents
 } from "../types.js";
 
 export interface OpenCodeAgentOptions {
   url?: string;
   port?: number;
+  eventReconnectDelayMs?: number;
+}
+
+export interface OpenCodeSessionEvent {
+  threadId: string;
+  method: string;
+  payload: OpenCodeSsePayload;
 }
 
+const DEFAULT_EVENT_RECONNECT_DELAY_MS = 1000;
+
 export class OpenCodeAgentAdapter implements AgentAdapter {
   public readonly id = "opencode";
   public readonly label = "OpenCode";
   public readonly capabilities: AgentCapabilities = {
-    canListModels: false,
+    canListModels: true,
     canListCollaborationModes: false,
     canSetCollaborationMode: false,
     canSubmitUserInput: false,
-    canReadLiveState: false,
-    canReadStreamEvents: false
+    canSteerTurns: false,
+    canReadLiveState: true,
+    canReadStreamEvents: true,
+    canSubmitApprovals: true,
+    canForkThreads: false,
+    canRollbackThreads: false,
+    canCompactThreads: false,
+    // OpenCode has no archive, so archiving deletes the session.
+    canArchiveThreads: true,
+    canUnarchiveThreads: false,
+    canRenameThreads: true,
+    canReadUsage: false
   };
 
   private readonly connection: OpenCodeConnection;
   private readonly service: OpenCodeMonitorService;
   private readonly threadDirectoryById = new Map<string, string>();
+  private readonly threadModelById = new Map<string, OpenCodeModelSelection>();
+  private readonly liveState = new OpenCodeLiveState();
+  private readonly sessionEventListeners = new Set<(event: OpenCodeSessionEvent) => void>();
+  private readonly eventReconnectDelayMs: number;
+  private eventStreamAbort: AbortController | null = null;
 
   public constructor(options: OpenCodeAgentOptions = {}) {
     this.connection = new OpenCodeConnection({
@@ -45,6 +86,14 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
       ...(options.port !== undefined ? { port: options.port } : {})
     });
     this.service = new OpenCodeMonitorService(this.connection);
+    this.eventReconnectDelayMs = options.eventReconnectDelayMs ?? DEFAULT_EVENT_RECONNECT_DELAY_MS;
+  }
+
+  public onSessionEvent(listener: (event: OpenCodeSessionEvent) => void): () => void {
+    this.sessionEventListeners.add(listener);
+    return () => {
+      this.sessionEventListeners.delete(listener);
+    };
   }
 
   public getUrl(): string | null {
@@ -61,15 +110,26 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
 
   public async start(): Promise<void> {
     await this.connection.start();
+
+    const abort = new AbortController();
+    this.eventStreamAbort = abort;
+    void this.runEventStream(abort.signal);
   }
 
   public async stop(): Promise<void> {
+    this.eventStreamAbort?.abort();
+    this.eventStreamAbort = null;
+    this.liveState.reset();
     await this.connection.stop();
   }
 
-  public async listThreads(_input: AgentListThreadsInput): Promise<AgentListThreadsResult> {
+  public async listThreads(input: AgentListThreadsInput): Promise<AgentListThreadsResult> {
     this.ensureConnected();
 
+    if (input.archived) {
+      return { data: [], nextCursor: null };
+    }
+
     const sessions = new Map<string, Awaited<ReturnType<OpenCodeMonitorService["listSessions"]>>["data"][number]>();
     const directories = await this.listProjectDirectories();
 
@@ -109,11 +169,16 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
     this.ensureConnected();
 
     const directory = input.cwd ? normalizeDirectoryInput(input.cwd) : undefined;
+    const model = resolveModelSelection(input.model, input.modelProvider);
     const result = await this.service.createSession({
-      ...(input.model ? { title: input.model } : {}),
       ...(directory ? { directory } : {})
     });
 
+    // OpenCode picks the model per prompt, so remember it for the first message.
+    if (model) {
+      this.threadModelById.set(result.threadId, model);
+    }
+
     if (result.mapped.cwd && result.mapped.cwd.trim()) {
       this.threadDirectoryById.set(result.threadId, path.resolve(result.mapped.cwd));
     } else if (directory) {
@@ -125,7 +190,10 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
     return {
       threadId: result.threadId,
       thread: mappedThread,
-      cwd: mappedThread.cwd
+      cwd: mappedThread.cwd,
+      ...(model
+        ? { model: `${model.providerID}/${model.modelID}`, modelProvider: model.providerID }
+        : {})
     };
   }
 
@@ -144,6 +212,34 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
     };
   }
 
+  public async readLiveState(threadId: string): Promise<AgentThreadLiveState> {
+    this.ensureConnected();
+
+    if (!this.liveState.has(threadId)) {
+      const snapshot = await this.service.getSessionSnapshot(
+        threadId,
+        this.resolveThreadDirectory(threadId)
+      );
+      // Events may have seeded the session while the snapshot was loading.
+      if (!this.liveState.has(threadId)) {
+        this.liveState.seed(snapshot);
+      }
+    }
+
+    const state = this.liveState.getState(threadId);
+    return {
+      ownerClientId: null,
+      conversationState: state ? parseThreadConversationState(state) : null
+    };
+  }
+
+  public async readStreamEvents(threadId: string, limit: number): Promise<AgentThreadStreamEvents> {
+    return {
+      ownerClientId: null,
+      events: this.liveState.getEvents(threadId, limit)
+    };
+  }
+
   public async sendMessage(input: AgentSendMessageInput): Promise<void> {
     this.ensureConnected();
 
@@ -151,10 +247,35 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
       ? normalizeDirectoryInput(input.cwd)
       : this.resolveThreadDirectory(input.threadId);
 
+    const requestedModel = resolveModelSelection(input.model, input.modelProvider);
+    if (requestedModel) {
+      this.threadModelById.set(input.threadId, requestedModel);
+    }
+    const model = this.threadModelById.get(input.threadId);
+
     await this.service.sendMessage({
       sessionId: input.threadId,
       text: input.text,
-      ...(directory ? { directory } : {})
+      ...(input.attachments
+        ? {
+            files: input.attachments.map((attachment) => ({
+              path: attachment.path,
+              mime: attachment.mimeType,
+              filename: attachment.name
+            }))
+          }
+        : {}),
+      ...(directory ? { directory } : {}),
+      ...(model ? { model } : {})
+    });
+  }
+
+  public async listModels(limit: number) {
+    this.ensureConnected();
+    const result = await this.service.listModels();
+    return parseAppServerListModelsResponse({
+      data: result.data.slice(0, limit),
+      nextCursor: null
     });
   }
 
@@ -164,11 +285,117 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
     await this.service.abort(input.threadId, directory);
   }
 
+  public async archiveThread(threadId: string): Promise<void> {
+    this.ensureConnected();
+    await this.service.deleteSession(threadId, this.resolveThreadDirectory(threadId));
+    this.liveState.delete(threadId);
+    this.threadModelById.delete(threadId);
+    this.threadDirectoryById.delete(threadId);
+  }
+
+  public async renameThread(input: AgentRenameThreadInput): Promise<void> {
+    this.ensureConnected();
+    await this.service.renameSession(
+      input.threadId,
+      input.name.trim(),
+      this.resolveThreadDirectory(input.threadId)
+    );
+  }
+
+  public async listPendingApprovals(threadId: string): Promise<AgentApprovalRequest[]> {
+    return this.liveState.getPendingPermissions(threadId).map((permission) => ({
+      kind: "opencodePermission",
+      requestId: permission.id,
+      threadId,
+      createdAt: new Date(permission.time.created).toISOString(),
+      params: permission
+    }));
+  }
+
+  public async submitApproval(input: AgentSubmitApprovalInput): Promise<void> {
+    this.ensureConnected();
+
+    const permission = this.liveState
+      .getPendingPermissions(input.threadId)
+      .find((entry) => entry.id === input.requestId);
+    if (!permission) {
+      throw new Error(`No pending permission request ${String(input.requestId)} for thread ${input.threadId}`);
+    }
+
+    const parsed = OpenCodePermissionResponseSchema.safeParse(input.decision);
+    if (!parsed.success) {
+      throw new Error("OpenCode permissions accept only once, always or reject");
+    }
+
+    const directory = this.resolveThreadDirectory(input.threadId);
+    await this.service.respondToPermission({
+      sessionId: input.threadId,
+      permissionId: permission.id,
+      response: parsed.data,
+      ...(directory ? { directory } : {})
+    });
+    this.liveState.resolvePermission(input.threadId, permission.id);
+  }
+
   public async listProjectDirectories(): Promise<string[]> {
     this.ensureConnected();
     return normalizeDirectoryList(await this.service.listProjectDirectories());
   }
 
+  private async runEventStream(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const stream = await this.service.subscribeEvents({
+          signal,
+          onError: (error) => {
+            if (signal.aborted) {
+              return;
+            }
+            // Events are lost while the stream reconnects, so reseed on next read.
+            this.liveState.reset();
+            logger.warn({ error: toErrorMessage(error) }, "opencode-event-stream-error");
+          }
+        });
+        for await (const event of stream) {
+          this.handleGlobalEvent(event);
+        }
+      } catch (error) {
+        if (!signal.aborted) {
+          logger.warn({ error: toErrorMessage(error) }, "opencode-event-stream-error");
+        }
+      }
+
+      if (signal.aborted) {
+        return;
+      }
+      this.liveState.reset();
+      await new Promise((resolve) => setTimeout(resolve, this.eventReconnectDelayMs));
+    }
+  }
+
+  private handleGlobalEvent(event: OpenCodeGlobalEvent): void {
+    if (!isOpenCodeEvent(event.payload)) {
+      return;
+    }
+
+    const payload = this.liveState.apply(event.payload);
+    if (!payload) {
+      return;
+    }
+
+    if (event.directory.trim() && !this.threadDirectoryById.has(payload.sessionId)) {
+      this.threadDirectoryById.set(payload.sessionId, path.resolve(event.directory));
+    }
+
+    for (const listener of this.sessionEventListeners) {
+      listener({
+        threadId: payload.sessionId,
+        method: event.payload.type,
+        payload
+      });
+    }
+  }
+
   private ensureConnected(): void {
     if (!this.connection.isConnected()) {
       throw new Error("OpenCode backend is not connected");
@@ -184,6 +411,31 @@ export class OpenCodeAgentAdapter implements AgentAdapter {
   }
 }
 
+function resolveModelSelection(
+  model: string | undefined,
+  modelProvider: string | undefined
+): OpenCodeModelSelection | null {
+  const modelId = model?.trim();
+  if (!modelId) {
+    return null;
+  }
+
+  const providerId = modelProvider?.trim();
+  if (providerId) {
+    const prefix = `${providerId}/`;
+    return {
+      providerID: providerId,
+      modelID: modelId.startsWith(prefix) ? modelId.slice(prefix.length) : modelId
+    };
+  }
+
+  const selection = parseOpenCodeModelId(modelId);
+  if (!selection) {
+    throw new Error(`OpenCode model must be given as provider/model: ${modelId}`);
+  }
+  return selection;
+}
+
 function normalizeDirectoryInput(directory: string): string {
   const trimmed = directory.trim();
   if (trimmed.length === 0) {
@@ -211,3 +463,7 @@ function normalizeDirectoryList(directories: string[]): string[] {
   }
   return Array.from(deduped).sort((left, right) => left.localeCompare(right));
 }
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,822 @@
+import fs from "node:fs";
+import {
+  AppServerCollaborationModeListResponseSchema,
+  AppServerCommandExecutionRequestApprovalParamsSchema,
+  AppServerFileChangeRequestApprovalParamsSchema,
+  AppServerListModelsResponseSchema,
+  AppServerReadThreadResponseSchema,
+  AppServerStartThreadResponseSchema,
+  AppServerThreadListItemSchema,
+  IpcFrameSchema,
+  ThreadConversationStateSchema
+} from "@farfield/protocol";
+import type { OpenCodePermission, OpenCodeSsePayload } from "@farfield/opencode-api";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+import { parseHostThreadId, qualifyHostThreadId } from "../thread-index.js";
+import type {
+  AcpPermissionParams,
+  AgentAdapter,
+  AgentApprovalRequest,
+  AgentAttachment,
+  AgentCapabilities,
+  AgentCreateThreadInput,
+  AgentCreateThreadResult,
+  AgentForkThreadInput,
+  AgentHostStatus,
+  AgentInterruptInput,
+  AgentListThreadsInput,
+  AgentListThreadsResult,
+  AgentReadThreadInput,
+  AgentReadThreadResult,
+  AgentRenameThreadInput,
+  AgentRollbackThreadInput,
+  AgentSendMessageInput,
+  AgentSetCollaborationModeInput,
+  AgentSubmitApprovalInput,
+  AgentSubmitUserInputInput,
+  AgentThreadLiveState,
+  AgentThreadListItem,
+  AgentThreadStreamEvents
+} from "../types.js";
+
+/** Sent on proxied requests so a host never federates our own threads back to us. */
+export const REMOTE_REQUEST_HEADER = "x-farfield-remote";
+
+export interface RemoteHostConfig {
+  id: string;
+  label: string;
+  // Origin (and optional base path) of the other Farfield server.
+  url: string;
+  token: string | null;
+}
+
+export interface RemoteAgentOptions {
+  hosts: RemoteHostConfig[];
+  userAgent: string;
+  reconnectDelayMs?: number;
+  requestTimeoutMs?: number;
+  onHostStatusChange?: (status: AgentHostStatus) => void;
+}
+
+export interface RemoteThreadEvent {
+  hostId: string;
+  // Host-qualified thread id.
+  threadId: string;
+}
+
+const DEFAULT_RECONNECT_DELAY_MS = 5_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+// Remote threads stream many frames per second; coalesce them per thread.
+const THREAD_EVENT_DELAY_MS = 250;
+const HOST_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+const NO_CAPABILITIES: AgentCapabilities = {
+  canListModels: false,
+  canListCollaborationModes: false,
+  canSetCollaborationMode: false,
+  canSubmitUserInput: false,
+  canSteerTurns: false,
+  canReadLiveState: false,
+  canReadStreamEvents: false,
+  canSubmitApprovals: false,
+  canForkThreads: false,
+  canRollbackThreads: false,
+  canCompactThreads: false,
+  canArchiveThreads: false,
+  canUnarchiveThreads: false,
+  canRenameThreads: false,
+  canReadUsage: false
+};
+const CAPABILITY_KEYS = Object.keys(NO_CAPABILITIES) as Array<keyof AgentCapabilities>;
+
+const RemoteErrorEnvelopeSchema = z
+  .object({
+    ok: z.boolean().optional(),
+    error: z.string().optional()
+  })
+  .passthrough();
+
+const RemoteAgentsResponseSchema = z
+  .object({
+    agents: z.array(
+      z
+        .object({
+          id: z.string(),
+          enabled: z.boolean(),
+          connected: z.boolean(),
+          capabilities: z.record(z.string(), z.boolean())
+        })
+        .passthrough()
+    )
+  })
+  .passthrough();
+
+const RemoteThreadListResponseSchema = z
+  .object({
+    data: z.array(z.object({ id: z.string(), agentId: z.string() }).passthrough())
+  })
+  .passthrough();
+
+const RemoteCreateThreadResponseSchema = AppServerStartThreadResponseSchema.extend({
+  threadId: z.string()
+});
+
+const RemoteLiveStateResponseSchema = z
+  .object({
+    ownerClientId: z.string().nullable(),
+    conversationState: ThreadConversationStateSchema.nullable()
+  })
+  .passthrough();
+
+const RemoteStreamEventsResponseSchema = z
+  .object({
+    ownerClientId: z.string().nullable(),
+    events: z.array(
+      z.union([
+        IpcFrameSchema,
+        z.custom<OpenCodeSsePayload>((value) => typeof value === "object" && value !== null)
+      ])
+    )
+  })
+  .passthrough();
+
+const RemoteApprovalSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("commandExecution"),
+    requestId: z.union([z.string(), z.number()]),
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: AppServerCommandExecutionRequestApprovalParamsSchema
+  }),
+  z.object({
+    kind: z.literal("fileChange"),
+    requestId: z.union([z.string(), z.number()]),
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: AppServerFileChangeRequestApprovalParamsSchema
+  }),
+  z.object({
+    kind: z.literal("opencodePermission"),
+    requestId: z.union([z.string(), z.number()]),
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: z.custom<OpenCodePermission>((value) => typeof value === "object" && value !== null)
+  }),
+  z.object({
+    kind: z.literal("acpPermission"),
+    requestId: z.union([z.string(), z.number()]),
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: z.custom<AcpPermissionParams>((value) => typeof value === "object" && value !== null)
+  })
+]);
+
+const RemoteApprovalsResponseSchema = z
+  .object({ approvals: z.array(RemoteApprovalSchema) })
+  .passthrough();
+
+const RemoteOwnerResponseSchema = z.object({ ownerClientId: z.string() }).passthrough();
+
+const RemoteUserInputResponseSchema = z
+  .object({ ownerClientId: z.string(), requestId: z.number() })
+  .passthrough();
+
+const RemoteUploadResponseSchema = z
+  .object({ upload: z.object({ id: z.string() }).passthrough() })
+  .passthrough();
+
+const RemoteEventSchema = z
+  .object({
+    type: z.string(),
+    entry: z
+      .object({ meta: z.object({ threadId: z.unknown() }).partial().passthrough().optional() })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+/**
+ * Reads `FARFIELD_REMOTE_HOSTS`: comma-separated `name=url` pairs. Each host's
+ * access token comes from `FARFIELD_REMOTE_TOKEN_<NAME>`, with the name
+ * upper-cased and dashes turned into underscores.
+ */
+export function resolveRemoteHosts(env: NodeJS.ProcessEnv): RemoteHostConfig[] {
+  const raw = env["FARFIELD_REMOTE_HOSTS"]?.trim();
+  if (!raw) {
+    return [];
+  }
+
+  const hosts: RemoteHostConfig[] = [];
+  for (const entry of raw.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+    const separatorIndex = entry.indexOf("=");
+    if (separatorIndex <= 0) {
+      throw new Error(`FARFIELD_REMOTE_HOSTS entries must look like name=url, got "${entry}"`);
+    }
+
+    const id = entry.slice(0, separatorIndex).trim();
+    const rawUrl = entry.slice(separatorIndex + 1).trim();
+    if (!HOST_ID_PATTERN.test(id)) {
+      throw new Error(`Remote host name "${id}" may only use letters, digits, "-" and "_"`);
+    }
+    if (hosts.some((host) => host.id === id)) {
+      throw new Error(`Remote host "${id}" is listed twice`);
+    }
+
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new Error(`Remote host "${id}" has an invalid URL: ${rawUrl}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Remote host "${id}" must use an http or https URL`);
+    }
+
+    const tokenKey = `FARFIELD_REMOTE_TOKEN_${id.toUpperCase().replace(/-/g, "_")}`;
+    hosts.push({
+      id,
+      label: id,
+      url: `${url.origin}${url.pathname.replace(/\/+$/, "")}`,
+      token: env[tokenKey]?.trim() || null
+    });
+  }
+
+  return hosts;
+}
+
+interface RemoteHostState {
+  config: RemoteHostConfig;
+  connected: boolean;
+  lastError: string | null;
+  capabilities: AgentCapabilities;
+}
+
+/**
+ * Proxies the threads of other Farfield servers over their HTTP and SSE API.
+ * Every configured host shares this one adapter; thread ids carry the host
+ * (see `qualifyHostThreadId`) so requests route back to the right machine.
+ */
+export class RemoteAgentAdapter implements AgentAdapter {
+  public readonly id = "remote";
+  public readonly label = "Remote";
+
+  private readonly hosts: RemoteHostState[];
+  private readonly userAgent: string;
+  private readonly reconnectDelayMs: number;
+  private readonly requestTimeoutMs: number;
+  private readonly onHostStatusChange: ((status: AgentHostStatus) => void) | null;
+  private readonly threadEventListeners = new Set<(event: RemoteThreadEvent) => void>();
+  private readonly pendingThreadEvents = new Map<string, RemoteThreadEvent>();
+  private threadEventTimer: NodeJS.Timeout | null = null;
+  private eventStreamAbort: AbortController | null = null;
+
+  public constructor(options: RemoteAgentOptions) {
+    this.hosts = options.hosts.map((config) => ({
+      config,
+      connected: false,
+      lastError: null,
+      capabilities: NO_CAPABILITIES
+    }));
+    this.userAgent = options.userAgent;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.onHostStatusChange = options.onHostStatusChange ?? null;
+  }
+
+  /** What at least one connected host supports; hosts reject the rest per thread. */
+  public get capabilities(): AgentCapabilities {
+    const merged: AgentCapabilities = { ...NO_CAPABILITIES };
+    for (const host of this.hosts) {
+      if (!host.connected) {
+        continue;
+      }
+      for (const key of CAPABILITY_KEYS) {
+        merged[key] = merged[key] || host.capabilities[key];
+      }
+    }
+    // Token usage is only tracked where the agent runs.
+    merged.canReadUsage = false;
+    return merged;
+  }
+
+  public onThreadEvent(listener: (event: RemoteThreadEvent) => void): () => void {
+    this.threadEventListeners.add(listener);
+    return () => {
+      this.threadEventListeners.delete(listener);
+    };
+  }
+
+  public isEnabled(): boolean {
+    return this.hosts.length > 0;
+  }
+
+  public isConnected(): boolean {
+    return this.hosts.some((host) => host.connected);
+  }
+
+  public listHosts(): AgentHostStatus[] {
+    return this.hosts.map((host) => this.describeHost(host));
+  }
+
+  public async start(): Promise<void> {
+    const abort = new AbortController();
+    this.eventStreamAbort = abort;
+    // Try every host once up front so the first thread list is complete.
+    await Promise.all(this.hosts.map((host) => this.refreshHost(host).catch(() => undefined)));
+    for (const host of this.hosts) {
+      void this.runEventStream(host, abort.signal);
+    }
+  }
+
+  public async stop(): Promise<void> {
+    this.eventStreamAbort?.abort();
+    this.eventStreamAbort = null;
+    if (this.threadEventTimer) {
+      clearTimeout(this.threadEventTimer);
+      this.threadEventTimer = null;
+    }
+    this.pendingThreadEvents.clear();
+    for (const host of this.hosts) {
+      host.connected = false;
+    }
+  }
+
+  public async listThreads(input: AgentListThreadsInput): Promise<AgentListThreadsResult> {
+    const params = new URLSearchParams({
+      limit: String(input.limit),
+      archived: input.archived ? "1" : "0",
+      all: input.all ? "1" : "0",
+      maxPages: String(input.maxPages)
+    });
+
+    const lists = await Promise.all(
+      this.hosts
+        .filter((host) => host.connected)
+        .map(async (host) => {
+          try {
+            const result = await this.request(
+              host,
+              RemoteThreadListResponseSchema,
+              `/api/threads?${params.toString()}`
+            );
+            return result.data.map((item): AgentThreadListItem => {
+              const { agentId, ...thread } = item;
+              return {
+                ...AppServerThreadListItemSchema.parse({
+                  ...thread,
+                  id: qualifyHostThreadId(host.config.id, item.id)
+                }),
+                hostId: host.config.id,
+                hostLabel: host.config.label,
+                hostAgentId: agentId
+              };
+            });
+          } catch (error) {
+            logger.warn(
+              { hostId: host.config.id, error: toErrorMessage(error) },
+              "remote-list-threads-failed"
+            );
+            return [];
+          }
+        })
+    );
+
+    return { data: lists.flat(), nextCursor: null };
+  }
+
+  public async createThread(input: AgentCreateThreadInput): Promise<AgentCreateThreadResult> {
+    const { hostId, ...body } = input;
+    const host = hostId ? this.requireHost(hostId) : this.firstConnectedHost();
+    const result = await this.request(host, RemoteCreateThreadResponseSchema, "/api/threads", {
+      method: "POST",
+      json: body
+    });
+    return this.qualifyCreatedThread(host, result);
+  }
+
+  public async readThread(input: AgentReadThreadInput): Promise<AgentReadThreadResult> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    const result = await this.request(
+      host,
+      AppServerReadThreadResponseSchema,
+      `${threadPath(threadId)}?includeTurns=${input.includeTurns ? "true" : "false"}`
+    );
+    return { thread: { ...result.thread, id: input.threadId } };
+  }
+
+  public async sendMessage(input: AgentSendMessageInput): Promise<void> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    const { threadId: _threadId, attachments, ...body } = input;
+
+    // Uploads live on this machine; the remote agent reads its own copy.
+    const remoteAttachments: Array<{ uploadId: string }> = [];
+    for (const attachment of attachments ?? []) {
+      remoteAttachments.push({ uploadId: await this.uploadAttachment(host, attachment) });
+    }
+
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/messages`, {
+      method: "POST",
+      json: {
+        ...body,
+        ...(remoteAttachments.length > 0 ? { attachments: remoteAttachments } : {})
+      }
+    });
+  }
+
+  public async interrupt(input: AgentInterruptInput): Promise<void> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/interrupt`, {
+      method: "POST",
+      json: input.ownerClientId ? { ownerClientId: input.ownerClientId } : {}
+    });
+  }
+
+  public async listModels(limit: number) {
+    const host = this.firstConnectedHost();
+    return this.request(
+      host,
+      AppServerListModelsResponseSchema,
+      `/api/models?limit=${String(limit)}`
+    );
+  }
+
+  public async listCollaborationModes() {
+    const host = this.firstConnectedHost();
+    return this.request(host, AppServerCollaborationModeListResponseSchema, "/api/collaboration-modes");
+  }
+
+  public async setCollaborationMode(
+    input: AgentSetCollaborationModeInput
+  ): Promise<{ ownerClientId: string }> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    const { threadId: _threadId, ...body } = input;
+    const result = await this.request(
+      host,
+      RemoteOwnerResponseSchema,
+      `${threadPath(threadId)}/collaboration-mode`,
+      { method: "POST", json: body }
+    );
+    return { ownerClientId: result.ownerClientId };
+  }
+
+  public async submitUserInput(
+    input: AgentSubmitUserInputInput
+  ): Promise<{ ownerClientId: string; requestId: number }> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    const { threadId: _threadId, ...body } = input;
+    const result = await this.request(
+      host,
+      RemoteUserInputResponseSchema,
+      `${threadPath(threadId)}/user-input`,
+      { method: "POST", json: body }
+    );
+    return { ownerClientId: result.ownerClientId, requestId: result.requestId };
+  }
+
+  public async forkThread(input: AgentForkThreadInput): Promise<AgentCreateThreadResult> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    const result = await this.request(
+      host,
+      RemoteCreateThreadResponseSchema,
+      `${threadPath(threadId)}/fork`,
+      { method: "POST", json: input.turnId ? { turnId: input.turnId } : {} }
+    );
+    return this.qualifyCreatedThread(host, result);
+  }
+
+  public async rollbackThread(input: AgentRollbackThreadInput): Promise<void> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/rollback`, {
+      method: "POST",
+      json: { turnId: input.turnId }
+    });
+  }
+
+  public async compactThread(threadId: string): Promise<void> {
+    await this.postThreadAction(threadId, "compact");
+  }
+
+  public async archiveThread(threadId: string): Promise<void> {
+    await this.postThreadAction(threadId, "archive");
+  }
+
+  public async unarchiveThread(threadId: string): Promise<void> {
+    await this.postThreadAction(threadId, "unarchive");
+  }
+
+  public async renameThread(input: AgentRenameThreadInput): Promise<void> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/name`, {
+      method: "POST",
+      json: { name: input.name }
+    });
+  }
+
+  public async listPendingApprovals(threadId: string): Promise<AgentApprovalRequest[]> {
+    const resolved = this.resolveThread(threadId);
+    const result = await this.request(
+      resolved.host,
+      RemoteApprovalsResponseSchema,
+      `${threadPath(resolved.threadId)}/approvals`
+    );
+    return result.approvals.map((approval) => ({ ...approval, threadId }));
+  }
+
+  public async submitApproval(input: AgentSubmitApprovalInput): Promise<void> {
+    const { host, threadId } = this.resolveThread(input.threadId);
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/approvals`, {
+      method: "POST",
+      json: { requestId: input.requestId, decision: input.decision }
+    });
+  }
+
+  public async readLiveState(threadId: string): Promise<AgentThreadLiveState> {
+    const resolved = this.resolveThread(threadId);
+    const result = await this.request(
+      resolved.host,
+      RemoteLiveStateResponseSchema,
+      `${threadPath(resolved.threadId)}/live-state`
+    );
+    return {
+      ownerClientId: result.ownerClientId,
+      conversationState: result.conversationState
+        ? { ...result.conversationState, id: threadId }
+        : null
+    };
+  }
+
+  public async readStreamEvents(threadId: string, limit: number): Promise<AgentThreadStreamEvents> {
+    const resolved = this.resolveThread(threadId);
+    const result = await this.request(
+      resolved.host,
+      RemoteStreamEventsResponseSchema,
+      `${threadPath(resolved.threadId)}/stream-events?limit=${String(limit)}`
+    );
+    return { ownerClientId: result.ownerClientId, events: result.events };
+  }
+
+  private async postThreadAction(qualifiedThreadId: string, action: string): Promise<void> {
+    const { host, threadId } = this.resolveThread(qualifiedThreadId);
+    await this.request(host, RemoteErrorEnvelopeSchema, `${threadPath(threadId)}/${action}`, {
+      method: "POST",
+      json: {}
+    });
+  }
+
+  private qualifyCreatedThread(
+    host: RemoteHostState,
+    result: z.infer<typeof RemoteCreateThreadResponseSchema>
+  ): AgentCreateThreadResult {
+    const threadId = qualifyHostThreadId(host.config.id, result.threadId);
+    return {
+      ...result,
+      threadId,
+      thread: { ...result.thread, id: threadId }
+    };
+  }
+
+  private async uploadAttachment(host: RemoteHostState, attachment: AgentAttachment): Promise<string> {
+    const data = await fs.promises.readFile(attachment.path);
+    const result = await this.request(
+      host,
+      RemoteUploadResponseSchema,
+      `/api/uploads?name=${encodeURIComponent(attachment.name)}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": attachment.mimeType },
+        body: new Uint8Array(data)
+      }
+    );
+    return result.upload.id;
+  }
+
+  private resolveThread(qualifiedThreadId: string): { host: RemoteHostState; threadId: string } {
+    const parsed = parseHostThreadId(qualifiedThreadId);
+    if (!parsed) {
+      throw new Error(`Thread ${qualifiedThreadId} does not name a remote host`);
+    }
+    return { host: this.requireHost(parsed.hostId), threadId: parsed.threadId };
+  }
+
+  private requireHost(hostId: string): RemoteHostState {
+    const host = this.hosts.find((candidate) => candidate.config.id === hostId);
+    if (!host) {
+      throw new Error(`Unknown remote host: ${hostId}`);
+    }
+    if (!host.connected) {
+      throw new Error(
+        `Remote host ${hostId} is not connected${host.lastError ? `: ${host.lastError}` : ""}`
+      );
+    }
+    return host;
+  }
+
+  private firstConnectedHost(): RemoteHostState {
+    const host = this.hosts.find((candidate) => candidate.connected);
+    if (!host) {
+      throw new Error("No remote host is connected");
+    }
+    return host;
+  }
+
+  private describeHost(host: RemoteHostState): AgentHostStatus {
+    return {
+      id: host.config.id,
+      label: host.config.label,
+      url: host.config.url,
+      connected: host.connected,
+      lastError: host.lastError
+    };
+  }
+
+  private setHostStatus(host: RemoteHostState, connected: boolean, lastError: string | null): void {
+    const changed = host.connected !== connected || host.lastError !== lastError;
+    host.connected = connected;
+    host.lastError = lastError;
+    if (changed) {
+      this.onHostStatusChange?.(this.describeHost(host));
+    }
+  }
+
+  /** Re-reads what the host's agents can do; marks the host connected on success. */
+  private async refreshHost(host: RemoteHostState): Promise<void> {
+    try {
+      const result = await this.request(host, RemoteAgentsResponseSchema, "/api/agents");
+      const capabilities: AgentCapabilities = { ...NO_CAPABILITIES };
+      for (const agent of result.agents) {
+        // Hosts federating further hosts would proxy in circles.
+        if (!agent.enabled || !agent.connected || agent.id === this.id) {
+          continue;
+        }
+        for (const key of CAPABILITY_KEYS) {
+          capabilities[key] = capabilities[key] || agent.capabilities[key] === true;
+        }
+      }
+      host.capabilities = capabilities;
+      this.setHostStatus(host, true, null);
+    } catch (error) {
+      this.setHostStatus(host, false, toErrorMessage(error));
+      throw error;
+    }
+  }
+
+  private async runEventStream(host: RemoteHostState, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        if (!host.connected) {
+          await this.refreshHost(host);
+        }
+        await this.readEventStream(host, signal);
+        if (!signal.aborted) {
+          this.setHostStatus(host, false, "Event stream closed");
+        }
+      } catch (error) {
+        if (!signal.aborted) {
+          this.setHostStatus(host, false, toErrorMessage(error));
+          logger.warn({ hostId: host.config.id, error: toErrorMessage(error) }, "remote-event-stream-error");
+        }
+      }
+
+      if (signal.aborted) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.reconnectDelayMs));
+    }
+  }
+
+  private async readEventStream(host: RemoteHostState, signal: AbortSignal): Promise<void> {
+    const response = await fetch(`${host.config.url}/events`, {
+      headers: { ...this.buildHeaders(host), Accept: "text/event-stream" },
+      signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream responded with HTTP ${String(response.status)}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = block
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice("data:".length).trimStart())
+          .join("\n");
+        if (data) {
+          this.handleRemoteEvent(host, data);
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  }
+
+  private handleRemoteEvent(host: RemoteHostState, data: string): void {
+    let parsed: z.infer<typeof RemoteEventSchema>;
+    try {
+      parsed = RemoteEventSchema.parse(JSON.parse(data));
+    } catch {
+      return;
+    }
+
+    if (parsed.type === "state") {
+      void this.refreshHost(host).catch(() => undefined);
+      return;
+    }
+
+    const threadId = parsed.type === "history" ? parsed.entry?.meta?.threadId : undefined;
+    if (typeof threadId !== "string" || !threadId) {
+      return;
+    }
+
+    const qualifiedThreadId = qualifyHostThreadId(host.config.id, threadId);
+    this.pendingThreadEvents.set(qualifiedThreadId, {
+      hostId: host.config.id,
+      threadId: qualifiedThreadId
+    });
+    if (!this.threadEventTimer) {
+      this.threadEventTimer = setTimeout(() => {
+        this.threadEventTimer = null;
+        const events = Array.from(this.pendingThreadEvents.values());
+        this.pendingThreadEvents.clear();
+        for (const event of events) {
+          for (const listener of this.threadEventListeners) {
+            listener(event);
+          }
+        }
+      }, THREAD_EVENT_DELAY_MS);
+    }
+  }
+
+  private buildHeaders(host: RemoteHostState): Record<string, string> {
+    return {
+      "User-Agent": this.userAgent,
+      [REMOTE_REQUEST_HEADER]: "1",
+      ...(host.config.token ? { Authorization: `Bearer ${host.config.token}` } : {})
+    };
+  }
+
+  private async request<Schema extends z.ZodTypeAny>(
+    host: RemoteHostState,
+    schema: Schema,
+    path: string,
+    init: {
+      method?: "GET" | "POST";
+      json?: unknown;
+      headers?: Record<string, string>;
+      body?: Uint8Array<ArrayBuffer>;
+    } = {}
+  ): Promise<z.infer<Schema>> {
+    const response = await fetch(`${host.config.url}${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        ...this.buildHeaders(host),
+        ...(init.json !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...init.headers
+      },
+      ...(init.json !== undefined
+        ? { body: JSON.stringify(init.json) }
+        : init.body
+          ? { body: init.body }
+          : {}),
+      signal: AbortSignal.timeout(this.requestTimeoutMs)
+    });
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error(`${host.config.label} responded with HTTP ${String(response.status)}`);
+    }
+
+    const envelope = RemoteErrorEnvelopeSchema.safeParse(data);
+    if (response.status === 401) {
+      throw new Error(`${host.config.label} rejected the access token`);
+    }
+    if (!response.ok || (envelope.success && envelope.data.ok === false)) {
+      const message = envelope.success ? envelope.data.error : undefined;
+      throw new Error(`${host.config.label}: ${message ?? `HTTP ${String(response.status)}`}`);
+    }
+
+    const { ok: _ok, ...rest } = z.object({}).passthrough().parse(data);
+    return schema.parse(rest);
+  }
+}
+
+function threadPath(threadId: string): string {
+  return `/api/threads/${encodeURIComponent(threadId)}`;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
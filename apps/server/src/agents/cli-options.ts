@@ -1,9 +1,7 @@
-import { z } from "zod";
 import type { AgentId } from "./types.js";
 
-const AgentIdSchema = z.enum(["codex", "opencode"]);
-
-export const ALL_AGENT_IDS: AgentId[] = ["codex", "opencode"];
+// Agents that ship with Farfield. Configured ACP agents add to these.
+export const BUILTIN_AGENT_IDS: AgentId[] = ["codex", "opencode"];
 export const DEFAULT_AGENT_IDS: AgentId[] = ["codex"];
 
 export interface ServerCliOptions {
@@ -11,11 +9,11 @@ export interface ServerCliOptions {
   showHelp: boolean;
 }
 
-function formatAllowedAgentIds(): string {
-  return ALL_AGENT_IDS.join(", ");
+function formatAllowedAgentIds(knownAgentIds: AgentId[]): string {
+  return knownAgentIds.join(", ");
 }
 
-function parseAgentsArg(raw: string): AgentId[] {
+function parseAgentsArg(raw: string, knownAgentIds: AgentId[]): AgentId[] {
   const trimmed = raw.trim();
   if (trimmed.length === 0) {
     throw new Error("Missing value for --agents");
@@ -33,17 +31,16 @@ function parseAgentsArg(raw: string): AgentId[] {
   const expanded: AgentId[] = [];
   for (const token of tokens) {
     if (token === "all") {
-      expanded.push(...ALL_AGENT_IDS);
+      expanded.push(...knownAgentIds);
       continue;
     }
 
-    const parsed = AgentIdSchema.safeParse(token);
-    if (!parsed.success) {
+    if (!knownAgentIds.includes(token)) {
       throw new Error(
-        `Unknown agent id "${token}". Allowed values: ${formatAllowedAgentIds()}, all`
+        `Unknown agent id "${token}". Allowed values: ${formatAllowedAgentIds(knownAgentIds)}, all`
       );
     }
-    expanded.push(parsed.data);
+    expanded.push(token);
   }
 
   const deduped: AgentId[] = [];
@@ -58,26 +55,30 @@ function parseAgentsArg(raw: string): AgentId[] {
 
   if (deduped.length === 0) {
     throw new Error(
-      `No valid agent ids were provided. Allowed values: ${formatAllowedAgentIds()}, all`
+      `No valid agent ids were provided. Allowed values: ${formatAllowedAgentIds(knownAgentIds)}, all`
     );
   }
 
   return deduped;
 }
 
-export function formatServerHelpText(): string {
+export function formatServerHelpText(knownAgentIds: AgentId[] = BUILTIN_AGENT_IDS): string {
   return [
     "Farfield server",
     "",
     "Usage: tsx watch src/index.ts [--agents=<ids>]",
     "",
     "Flags:",
-    "  --agents=<ids>   Comma-separated agent ids. Allowed: codex, opencode, all",
+    `  --agents=<ids>   Comma-separated agent ids. Allowed: ${formatAllowedAgentIds(knownAgentIds)}, all`,
     "  --help           Show this help message"
   ].join("\n");
 }
 
-export function parseServerCliOptions(argv: string[]): ServerCliOptions {
+/** `knownAgentIds` is every agent `--agents` may name, including configured ACP agents. */
+export function parseServerCliOptions(
+  argv: string[],
+  knownAgentIds: AgentId[] = BUILTIN_AGENT_IDS
+): ServerCliOptions {
   let parsedAgents: AgentId[] | null = null;
   let showHelp = false;
 
@@ -98,7 +99,7 @@ export function parseServerCliOptions(argv: string[]): ServerCliOptions {
 
     if (arg.startsWith("--agents=")) {
       const value = arg.slice("--agents=".length);
-      parsedAgents = parseAgentsArg(value);
+      parsedAgents = parseAgentsArg(value, knownAgentIds);
       continue;
     }
 
@@ -107,7 +108,7 @@ export function parseServerCliOptions(argv: string[]): ServerCliOptions {
       if (!nextArg || nextArg.startsWith("--")) {
         throw new Error("Missing value for --agents");
       }
-      parsedAgents = parseAgentsArg(nextArg);
+      parsedAgents = parseAgentsArg(nextArg, knownAgentIds);
       index += 1;
       continue;
     }
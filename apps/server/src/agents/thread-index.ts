@@ -1,14 +1,50 @@
+import type { ThreadAgentStore } from "../thread-store.js";
 import type { AgentId } from "./types.js";
 
+const HOST_SEPARATOR = ":";
+
+/** Threads proxied from another Farfield server are addressed as `<hostId>:<threadId>`. */
+export function qualifyHostThreadId(hostId: string, threadId: string): string {
+  return `${hostId}${HOST_SEPARATOR}${threadId}`;
+}
+
+export function parseHostThreadId(threadId: string): { hostId: string; threadId: string } | null {
+  const separatorIndex = threadId.indexOf(HOST_SEPARATOR);
+  if (separatorIndex <= 0 || separatorIndex === threadId.length - 1) {
+    return null;
+  }
+  return {
+    hostId: threadId.slice(0, separatorIndex),
+    threadId: threadId.slice(separatorIndex + 1)
+  };
+}
+
 export class ThreadIndex {
   private readonly agentIdByThreadId = new Map<string, AgentId>();
+  private readonly store: ThreadAgentStore | null;
+  private readonly remoteHostIds: Set<string>;
+
+  public constructor(store?: ThreadAgentStore, remoteHostIds: Iterable<string> = []) {
+    this.store = store ?? null;
+    this.remoteHostIds = new Set(remoteHostIds);
+    for (const entry of this.store?.listAgents() ?? []) {
+      this.agentIdByThreadId.set(entry.threadId, entry.agentId);
+    }
+  }
 
   public register(threadId: string, agentId: AgentId): void {
     this.agentIdByThreadId.set(threadId, agentId);
+    this.store?.setAgent(threadId, agentId);
   }
 
   public resolve(threadId: string): AgentId | null {
-    return this.agentIdByThreadId.get(threadId) ?? null;
+    const agentId = this.agentIdByThreadId.get(threadId);
+    if (agentId) {
+      return agentId;
+    }
+    // ACP session ids may contain the separator too, so only configured hosts count.
+    const qualified = parseHostThreadId(threadId);
+    return qualified && this.remoteHostIds.has(qualified.hostId) ? "remote" : null;
   }
 
   public list(): Array<{ threadId: string; agentId: AgentId }> {
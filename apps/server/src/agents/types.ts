@@ -1,23 +1,47 @@
 import type {
   AppServerCollaborationModeListResponse,
+  AppServerCommandExecutionApprovalDecision,
+  AppServerCommandExecutionRequestApprovalParams,
+  AppServerFileChangeApprovalDecision,
+  AppServerFileChangeRequestApprovalParams,
   AppServerListModelsResponse,
   AppServerListThreadsResponse,
+  AppServerRateLimitSnapshot,
   AppServerReadThreadResponse,
   AppServerStartThreadResponse,
   CollaborationMode,
   IpcFrame,
   UserInputResponsePayload
 } from "@farfield/protocol";
+import type {
+  OpenCodePermission,
+  OpenCodePermissionResponse,
+  OpenCodeSsePayload
+} from "@farfield/opencode-api";
+import type { ThreadTokenUsage } from "../usage.js";
 
-export type AgentId = "codex" | "opencode";
+/**
+ * Built-in agents are "codex", "opencode" and "remote"; configured ACP agents
+ * bring their own ids. Ids are checked against the registry, not a union.
+ */
+export type AgentId = string;
 
 export interface AgentCapabilities {
   canListModels: boolean;
   canListCollaborationModes: boolean;
   canSetCollaborationMode: boolean;
   canSubmitUserInput: boolean;
+  canSteerTurns: boolean;
   canReadLiveState: boolean;
   canReadStreamEvents: boolean;
+  canSubmitApprovals: boolean;
+  canForkThreads: boolean;
+  canRollbackThreads: boolean;
+  canCompactThreads: boolean;
+  canArchiveThreads: boolean;
+  canUnarchiveThreads: boolean;
+  canRenameThreads: boolean;
+  canReadUsage: boolean;
 }
 
 export interface AgentListThreadsInput {
@@ -36,6 +60,8 @@ export interface AgentCreateThreadInput {
   sandbox?: string;
   approvalPolicy?: string;
   ephemeral?: boolean;
+  // Remote host to start the thread on; local agents ignore it.
+  hostId?: string;
 }
 
 export type AgentThreadListItem = AppServerListThreadsResponse["data"][number];
@@ -67,12 +93,40 @@ export interface AgentReadThreadInput {
   includeTurns: boolean;
 }
 
+export interface AgentAttachment {
+  // Local path the agent reads the file from.
+  path: string;
+  name: string;
+  mimeType: string;
+}
+
 export interface AgentSendMessageInput {
   threadId: string;
   text: string;
+  attachments?: AgentAttachment[];
   ownerClientId?: string;
   cwd?: string;
   isSteering?: boolean;
+  // Agents that pick models through collaboration modes ignore these.
+  model?: string;
+  modelProvider?: string;
+}
+
+export interface AgentForkThreadInput {
+  threadId: string;
+  // Keep history up to and including this turn. Forks the whole thread when omitted.
+  turnId?: string;
+}
+
+export interface AgentRollbackThreadInput {
+  threadId: string;
+  // Drop every turn after this one.
+  turnId: string;
+}
+
+export interface AgentRenameThreadInput {
+  threadId: string;
+  name: string;
 }
 
 export interface AgentSetCollaborationModeInput {
@@ -88,6 +142,63 @@ export interface AgentSubmitUserInputInput {
   response: UserInputResponsePayload;
 }
 
+export type AgentApprovalRequestId = string | number;
+
+export type AgentApprovalDecision =
+  | AppServerCommandExecutionApprovalDecision
+  | AppServerFileChangeApprovalDecision
+  | OpenCodePermissionResponse;
+
+export interface AgentPermissionOption {
+  optionId: string;
+  name: string;
+  kind: "allow_once" | "allow_always" | "reject_once" | "reject_always";
+}
+
+export interface AcpPermissionParams {
+  toolCallId: string;
+  title: string;
+  // ACP tool kind, e.g. "edit" or "execute".
+  toolKind: string | null;
+  options: AgentPermissionOption[];
+}
+
+export type AgentApprovalRequest =
+  | {
+      kind: "commandExecution";
+      requestId: AgentApprovalRequestId;
+      threadId: string;
+      createdAt: string;
+      params: AppServerCommandExecutionRequestApprovalParams;
+    }
+  | {
+      kind: "fileChange";
+      requestId: AgentApprovalRequestId;
+      threadId: string;
+      createdAt: string;
+      params: AppServerFileChangeRequestApprovalParams;
+    }
+  | {
+      kind: "opencodePermission";
+      requestId: AgentApprovalRequestId;
+      threadId: string;
+      createdAt: string;
+      params: OpenCodePermission;
+    }
+  | {
+      kind: "acpPermission";
+      requestId: AgentApprovalRequestId;
+      threadId: string;
+      createdAt: string;
+      params: AcpPermissionParams;
+    };
+
+export interface AgentSubmitApprovalInput {
+  threadId: string;
+  requestId: AgentApprovalRequestId;
+  decision: AgentApprovalDecision;
+}
+
 export interface AgentInterruptInput {
   threadId: string;
   ownerClientId?: string;
@@ -100,7 +211,20 @@ export interface AgentThreadLiveState {
 
 export interface AgentThreadStreamEvents {
   ownerClientId: string | null;
-  events: IpcFrame[];
+  events: Array<IpcFrame | OpenCodeSsePayload>;
+}
+
+export interface AgentRateLimits {
+  snapshot: AppServerRateLimitSnapshot | null;
+  updatedAt: string | null;
+}
+
+export interface AgentHostStatus {
+  id: string;
+  label: string;
+  url: string;
+  connected: boolean;
+  lastError: string | null;
 }
 
 export interface AgentDescriptor {
@@ -110,6 +234,7 @@ export interface AgentDescriptor {
   connected: boolean;
   capabilities: AgentCapabilities;
   projectDirectories: string[];
+  hosts?: AgentHostStatus[];
 }
 
 export interface AgentAdapter {
@@ -129,12 +254,24 @@ export interface AgentAdapter {
   interrupt(input: AgentInterruptInput): Promise<void>;
 
   listModels?(limit: number): Promise<AppServerListModelsResponse>;
+  forkThread?(input: AgentForkThreadInput): Promise<AgentCreateThreadResult>;
+  rollbackThread?(input: AgentRollbackThreadInput): Promise<void>;
+  compactThread?(threadId: string): Promise<void>;
+  archiveThread?(threadId: string): Promise<void>;
+  unarchiveThread?(threadId: string): Promise<void>;
+  renameThread?(input: AgentRenameThreadInput): Promise<void>;
   listCollaborationModes?(): Promise<AppServerCollaborationModeListResponse>;
   setCollaborationMode?(input: AgentSetCollaborationModeInput): Promise<{ ownerClientId: string }>;
   submitUserInput?(
     input: AgentSubmitUserInputInput
   ): Promise<{ ownerClientId: string; requestId: number }>;
+  listPendingApprovals?(threadId: string): Promise<AgentApprovalRequest[]>;
+  submitApproval?(input: AgentSubmitApprovalInput): Promise<void>;
   readLiveState?(threadId: string): Promise<AgentThreadLiveState>;
   readStreamEvents?(threadId: string, limit: number): Promise<AgentThreadStreamEvents>;
   listProjectDirectories?(): Promise<string[]>;
+  readThreadUsage?(threadId: string): ThreadTokenUsage | null;
+  listThreadUsage?(): ThreadTokenUsage[];
+  readRateLimits?(): Promise<AgentRateLimits>;
+  listHosts?(): AgentHostStatus[];
 }
@@ -0,0 +1,130 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+export const SESSION_COOKIE_NAME = "farfield_session";
+const DEFAULT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface AuthTokenSource {
+  token: string;
+  generated: boolean;
+}
+
+export interface AuthGuardOptions {
+  token: string;
+  sessionTtlMs?: number;
+  now?: () => number;
+}
+
+export function resolveAuthToken(env: NodeJS.ProcessEnv): AuthTokenSource {
+  const configured = env["FARFIELD_AUTH_TOKEN"]?.trim();
+  if (configured) {
+    return { token: configured, generated: false };
+  }
+
+  return {
+    token: randomBytes(18).toString("base64url"),
+    generated: true
+  };
+}
+
+export function parseCookieHeader(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(";")) {
+    const separatorIndex = part.indexOf("=");
+    if (separatorIndex <= 0) {
+      continue;
+    }
+
+    const name = part.slice(0, separatorIndex).trim();
+    const rawValue = part.slice(separatorIndex + 1).trim();
+    if (!name || cookies.has(name)) {
+      continue;
+    }
+
+    try {
+      cookies.set(name, decodeURIComponent(rawValue));
+    } catch {
+      cookies.set(name, rawValue);
+    }
+  }
+
+  return cookies;
+}
+
+export function readBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  const token = match?.[1]?.trim();
+  return token ? token : null;
+}
+
+function safeEqual(left: string, right: string): boolean {
+  const leftBuffer = Buffer.from(left, "utf8");
+  const rightBuffer = Buffer.from(right, "utf8");
+  if (leftBuffer.length !== rightBuffer.length) {
+    return false;
+  }
+  return timingSafeEqual(leftBuffer, rightBuffer);
+}
+
+export class AuthGuard {
+  private readonly token: string;
+  private readonly sessionTtlMs: number;
+  private readonly now: () => number;
+
+  public constructor(options: AuthGuardOptions) {
+    this.token = options.token;
+    this.sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  public verifyToken(candidate: string): boolean {
+    return safeEqual(candidate.trim(), this.token);
+  }
+
+  public isAuthorized(req: IncomingMessage): boolean {
+    const bearerToken = readBearerToken(req.headers.authorization);
+    if (bearerToken) {
+      return this.verifyToken(bearerToken);
+    }
+
+    const session = parseCookieHeader(req.headers.cookie).get(SESSION_COOKIE_NAME);
+    return session ? this.verifySession(session) : false;
+  }
+
+  public createSessionCookie(): string {
+    const expiresAt = this.now() + this.sessionTtlMs;
+    const value = `${String(expiresAt)}.${this.sign(expiresAt)}`;
+    const maxAgeSeconds = Math.floor(this.sessionTtlMs / 1000);
+    return `${SESSION_COOKIE_NAME}=${value}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${String(maxAgeSeconds)}`;
+  }
+
+  public createLogoutCookie(): string {
+    return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`;
+  }
+
+  private verifySession(value: string): boolean {
+    const separatorIndex = value.indexOf(".");
+    if (separatorIndex <= 0) {
+      return false;
+    }
+
+    const expiresAt = Number(value.slice(0, separatorIndex));
+    if (!Number.isInteger(expiresAt) || expiresAt <= this.now()) {
+      return false;
+    }
+
+    return safeEqual(value.slice(separatorIndex + 1), this.sign(expiresAt));
+  }
+
+  private sign(expiresAt: number): string {
+    return createHmac("sha256", this.token).update(`session:${String(expiresAt)}`).digest("base64url");
+  }
+}
@@ -0,0 +1,470 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { resolveDataDir } from "./thread-store.js";
+
+const DEFAULT_MAX_SEGMENT_BYTES = 16 * 1024 * 1024;
+const DEFAULT_MAX_SEGMENTS = 8;
+const DEFAULT_RECENT_LIMIT = 2_000;
+// Lines parsed between yields while loading, so startup does not hold the event loop.
+const LOAD_BATCH_LINES = 500;
+const SEGMENT_PATTERN = /^history-(\d+)\.ndjson$/;
+
+export interface HistoryEntry {
+  id: string;
+  at: string;
+  source: "ipc" | "app" | "system";
+  direction: "in" | "out" | "system";
+  payload: unknown;
+  meta: Record<string, unknown>;
+}
+
+export interface HistoryQuery {
+  source?: HistoryEntry["source"];
+  direction?: HistoryEntry["direction"];
+  method?: string;
+  threadId?: string;
+  /** Inclusive bounds in epoch milliseconds. */
+  since?: number;
+  until?: number;
+  /** Id of the oldest entry already seen; the page holds entries before it. */
+  before?: string;
+  limit: number;
+}
+
+export interface HistoryPage {
+  /** Oldest first, like the live feed. */
+  entries: HistoryEntry[];
+  /** Pass as `before` to fetch the next older page; null when nothing older matches. */
+  nextCursor: string | null;
+}
+
+export interface HistoryStoreOptions {
+  dir: string;
+  maxSegmentBytes?: number;
+  maxSegments?: number;
+  /** Entries kept in memory with their payloads, newest last. */
+  recentLimit?: number;
+  onError?: (error: unknown) => void;
+}
+
+interface IndexedEntry {
+  seq: number;
+  id: string;
+  atMs: number;
+  source: HistoryEntry["source"];
+  direction: HistoryEntry["direction"];
+  method: string | null;
+  threadId: string | null;
+  segment: number;
+  offset: number;
+  length: number;
+}
+
+const HistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  at: z.string(),
+  source: z.enum(["ipc", "app", "system"]),
+  direction: z.enum(["in", "out", "system"]),
+  payload: z.unknown(),
+  meta: z.record(z.unknown())
+});
+
+export function resolveHistoryDir(env: NodeJS.ProcessEnv, cwd: string): string {
+  return path.join(resolveDataDir(env, cwd), "history");
+}
+
+function segmentName(segment: number): string {
+  return `history-${String(segment).padStart(6, "0")}.ndjson`;
+}
+
+function toIndexedEntry(
+  entry: HistoryEntry,
+  segment: number,
+  offset: number,
+  length: number
+): Omit<IndexedEntry, "seq"> {
+  const method = entry.meta["method"];
+  const threadId = entry.meta["threadId"];
+  return {
+    id: entry.id,
+    atMs: Date.parse(entry.at),
+    source: entry.source,
+    direction: entry.direction,
+    method: typeof method === "string" ? method : null,
+    threadId: typeof threadId === "string" ? threadId : null,
+    segment,
+    offset,
+    length
+  };
+}
+
+function matches(entry: IndexedEntry, query: HistoryQuery): boolean {
+  return (
+    (query.source === undefined || entry.source === query.source) &&
+    (query.direction === undefined || entry.direction === query.direction) &&
+    (query.method === undefined || entry.method === query.method) &&
+    (query.threadId === undefined || entry.threadId === query.threadId) &&
+    (query.since === undefined || entry.atMs >= query.since) &&
+    (query.until === undefined || entry.atMs <= query.until)
+  );
+}
+
+/**
+ * Append-only debug history on disk. Entries go to numbered `.ndjson`
+ * segments that rotate at `maxSegmentBytes`; once there are more than
+ * `maxSegments`, the oldest is deleted. Every stored entry stays indexed in
+ * memory by its filterable fields, and payloads are read back from disk
+ * unless the entry is among the most recent ones. Appends are buffered in a
+ * write stream, with offsets tracked here, so recording never waits on disk.
+ */
+export class HistoryStore {
+  private readonly dir: string;
+  private readonly maxSegmentBytes: number;
+  private readonly maxSegments: number;
+  private readonly recentLimit: number;
+  private readonly onError: ((error: unknown) => void) | null;
+  private readonly index: IndexedEntry[] = [];
+  private readonly indexById = new Map<string, IndexedEntry>();
+  private readonly recentEntries: HistoryEntry[] = [];
+  private readonly recentById = new Map<string, HistoryEntry>();
+  // Entries whose line is still buffered in the write stream.
+  private readonly unflushedById = new Map<string, HistoryEntry>();
+  private segments: number[] = [];
+  private segmentBytes = 0;
+  private stream: fs.WriteStream | null = null;
+  private lastWrite: Promise<void> = Promise.resolve();
+  // Segment closes and deletions still in progress.
+  private readonly pendingDiskWork = new Set<Promise<void>>();
+  // Entries appended while load() runs; they are written once it is done.
+  private queued: HistoryEntry[] | null = null;
+  private nextSeq = 0;
+
+  public constructor(options: HistoryStoreOptions) {
+    this.dir = options.dir;
+    this.maxSegmentBytes = options.maxSegmentBytes ?? DEFAULT_MAX_SEGMENT_BYTES;
+    this.maxSegments = options.maxSegments ?? DEFAULT_MAX_SEGMENTS;
+    this.recentLimit = options.recentLimit ?? DEFAULT_RECENT_LIMIT;
+    this.onError = options.onError ?? null;
+  }
+
+  public get size(): number {
+    return this.index.length;
+  }
+
+  public async load(): Promise<void> {
+    this.queued = [];
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      this.segments = (await fs.promises.readdir(this.dir))
+        .map((name) => SEGMENT_PATTERN.exec(name)?.[1])
+        .filter((match): match is string => match !== undefined)
+        .map(Number)
+        .sort((left, right) => left - right);
+      this.dropExcessSegments();
+
+      const loaded: HistoryEntry[] = [];
+      for (const segment of this.segments) {
+        await this.loadSegment(segment, loaded);
+      }
+      // Entries appended during the load are newer than anything on disk.
+      const appended = this.recentEntries.splice(0);
+      this.recentById.clear();
+      for (const entry of [...loaded, ...appended]) {
+        this.remember(entry);
+      }
+    } catch (error) {
+      this.onError?.(error);
+    } finally {
+      const queued = this.queued ?? [];
+      this.queued = null;
+      for (const entry of queued) {
+        this.write(entry);
+      }
+    }
+  }
+
+  public append(entry: HistoryEntry): void {
+    this.remember(entry);
+    if (this.queued) {
+      this.queued.push(entry);
+      return;
+    }
+    this.write(entry);
+  }
+
+  public get(id: string): HistoryEntry | null {
+    const recent = this.recentById.get(id);
+    if (recent) {
+      return recent;
+    }
+    const indexed = this.indexById.get(id);
+    return indexed ? this.lookup(indexed) : null;
+  }
+
+  /** The stored entries among `ids` in the order they were recorded; unknown ids are skipped. */
+  public getInOrder(ids: string[]): HistoryEntry[] {
+    return Array.from(new Set(ids))
+      .map((id) => this.indexById.get(id))
+      .filter((indexed): indexed is IndexedEntry => indexed !== undefined)
+      .sort((left, right) => left.seq - right.seq)
+      .map((indexed) => this.lookup(indexed))
+      .filter((entry): entry is HistoryEntry => entry !== null);
+  }
+
+  public recent(): HistoryEntry[] {
+    return this.recentEntries.slice();
+  }
+
+  public query(query: HistoryQuery): HistoryPage {
+    let end = this.index.length;
+    if (query.before !== undefined) {
+      const cursor = this.indexById.get(query.before);
+      // A cursor that has rotated away was older than anything still stored.
+      end = cursor ? this.positionOf(cursor.seq) : 0;
+    }
+
+    const page: IndexedEntry[] = [];
+    let position = end - 1;
+    for (; position >= 0 && page.length < query.limit; position -= 1) {
+      const entry = this.index[position]!;
+      if (matches(entry, query)) {
+        page.push(entry);
+      }
+    }
+
+    let hasOlder = false;
+    for (; position >= 0; position -= 1) {
+      if (matches(this.index[position]!, query)) {
+        hasOlder = true;
+        break;
+      }
+    }
+
+    const oldest = page[page.length - 1];
+    const entries = page
+      .reverse()
+      .map((indexed) => this.lookup(indexed))
+      .filter((entry): entry is HistoryEntry => entry !== null);
+    return {
+      entries,
+      nextCursor: hasOlder && oldest ? oldest.id : null
+    };
+  }
+
+  /** Resolves once every appended entry is on disk. */
+  public async flush(): Promise<void> {
+    await Promise.all([this.lastWrite, ...this.pendingDiskWork]);
+  }
+
+  public async close(): Promise<void> {
+    this.closeStream();
+    await this.flush();
+  }
+
+  private write(entry: HistoryEntry): void {
+    const line = Buffer.from(`${JSON.stringify(entry)}\n`);
+    let stream: fs.WriteStream;
+    try {
+      stream = this.prepareSegment(line.length);
+    } catch (error) {
+      // The entry stays readable from memory until it ages out of the recent window.
+      this.onError?.(error);
+      return;
+    }
+
+    const indexed = this.indexEntry(
+      toIndexedEntry(entry, this.segments[this.segments.length - 1]!, this.segmentBytes, line.length)
+    );
+    this.segmentBytes += line.length;
+    this.unflushedById.set(entry.id, entry);
+    this.lastWrite = new Promise((resolve) => {
+      stream.write(line, (error) => {
+        this.unflushedById.delete(entry.id);
+        if (error) {
+          this.forget(indexed);
+        }
+        resolve();
+      });
+    });
+  }
+
+  private lookup(indexed: IndexedEntry): HistoryEntry | null {
+    return this.recentById.get(indexed.id) ?? this.unflushedById.get(indexed.id) ?? this.readEntry(indexed);
+  }
+
+  private remember(entry: HistoryEntry): void {
+    this.recentEntries.push(entry);
+    this.recentById.set(entry.id, entry);
+    if (this.recentEntries.length > this.recentLimit) {
+      const removed = this.recentEntries.shift();
+      if (removed) {
+        this.recentById.delete(removed.id);
+      }
+    }
+  }
+
+  private indexEntry(fields: Omit<IndexedEntry, "seq">): IndexedEntry {
+    const entry = { ...fields, seq: this.nextSeq };
+    this.nextSeq += 1;
+    this.index.push(entry);
+    this.indexById.set(entry.id, entry);
+    return entry;
+  }
+
+  private forget(indexed: IndexedEntry): void {
+    if (this.indexById.get(indexed.id) !== indexed) {
+      return;
+    }
+    this.indexById.delete(indexed.id);
+    this.index.splice(this.positionOf(indexed.seq), 1);
+  }
+
+  /** Where the entry with `seq` sits in the index; entries are kept in seq order. */
+  private positionOf(seq: number): number {
+    let low = 0;
+    let high = this.index.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.index[middle]!.seq < seq) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private prepareSegment(lineBytes: number): fs.WriteStream {
+    if (this.stream && this.segmentBytes > 0 && this.segmentBytes + lineBytes > this.maxSegmentBytes) {
+      this.closeStream();
+      this.segments.push((this.segments[this.segments.length - 1] ?? 0) + 1);
+      this.segmentBytes = 0;
+      this.dropExcessSegments();
+    }
+
+    if (!this.stream) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      if (this.segments.length === 0) {
+        this.segments.push(1);
+      }
+      const filePath = path.join(this.dir, segmentName(this.segments[this.segments.length - 1]!));
+      // Only the first segment opened after a restart can already hold entries.
+      this.segmentBytes = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+      if (this.segmentBytes > 0 && this.segmentBytes + lineBytes > this.maxSegmentBytes) {
+        this.segments.push(this.segments[this.segments.length - 1]! + 1);
+        this.segmentBytes = 0;
+        this.dropExcessSegments();
+        return this.prepareSegment(lineBytes);
+      }
+
+      const stream = fs.createWriteStream(filePath, { flags: "a" });
+      stream.on("error", (error) => {
+        this.onError?.(error);
+        if (this.stream === stream) {
+          this.stream = null;
+        }
+      });
+      this.stream = stream;
+    }
+    return this.stream;
+  }
+
+  private closeStream(): void {
+    const stream = this.stream;
+    if (!stream) {
+      return;
+    }
+
+    this.stream = null;
+    this.trackDiskWork(
+      new Promise<void>((resolve) => {
+        stream.end(() => resolve());
+        stream.once("error", () => resolve());
+      })
+    );
+  }
+
+  private trackDiskWork(work: Promise<void>): void {
+    const tracked = work.finally(() => {
+      this.pendingDiskWork.delete(tracked);
+    });
+    this.pendingDiskWork.add(tracked);
+  }
+
+  private dropExcessSegments(): void {
+    while (this.segments.length > this.maxSegments) {
+      const oldest = this.segments.shift()!;
+      this.trackDiskWork(
+        fs.promises.rm(path.join(this.dir, segmentName(oldest)), { force: true }).catch((error: unknown) => {
+          this.onError?.(error);
+        })
+      );
+
+      let removed = 0;
+      while (removed < this.index.length && this.index[removed]!.segment === oldest) {
+        this.indexById.delete(this.index[removed]!.id);
+        removed += 1;
+      }
+      this.index.splice(0, removed);
+    }
+  }
+
+  private async loadSegment(segment: number, loaded: HistoryEntry[]): Promise<void> {
+    let contents: Buffer;
+    try {
+      contents = await fs.promises.readFile(path.join(this.dir, segmentName(segment)));
+    } catch (error) {
+      this.onError?.(error);
+      return;
+    }
+
+    let offset = 0;
+    let lines = 0;
+    while (offset < contents.length) {
+      const newline = contents.indexOf(0x0a, offset);
+      const end = newline === -1 ? contents.length : newline + 1;
+      const parsed = this.parseLine(contents.subarray(offset, end));
+      // A line cut short by a crash is skipped rather than failing the whole segment.
+      if (parsed) {
+        this.indexEntry(toIndexedEntry(parsed, segment, offset, end - offset));
+        loaded.push(parsed);
+        if (loaded.length > this.recentLimit) {
+          loaded.shift();
+        }
+      }
+      offset = end;
+
+      lines += 1;
+      if (lines % LOAD_BATCH_LINES === 0) {
+        await new Promise<void>((resolve) => setImmediate(resolve));
+      }
+    }
+  }
+
+  private readEntry(indexed: IndexedEntry): HistoryEntry | null {
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(path.join(this.dir, segmentName(indexed.segment)), "r");
+      const buffer = Buffer.alloc(indexed.length);
+      fs.readSync(fd, buffer, 0, indexed.length, indexed.offset);
+      return this.parseLine(buffer);
+    } catch (error) {
+      this.onError?.(error);
+      return null;
+    } finally {
+      if (fd !== null) {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  private parseLine(line: Buffer): HistoryEntry | null {
+    try {
+      const parsed = HistoryEntrySchema.safeParse(JSON.parse(line.toString("utf8")));
+      return parsed.success ? { ...parsed.data, payload: parsed.data.payload } : null;
+    } catch {
+      return null;
+    }
+  }
+}
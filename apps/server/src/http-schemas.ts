@@ -1,6 +1,21 @@
-import { CollaborationModeSchema, UserInputResponsePayloadSchema } from "@farfield/protocol";
+import {
+  AppServerCommandExecutionApprovalDecisionSchema,
+  AppServerFileChangeApprovalDecisionSchema,
+  CollaborationModeSchema,
+  UserInputResponsePayloadSchema
+} from "@farfield/protocol";
+import { OpenCodePermissionResponseSchema } from "@farfield/opencode-api";
 import { z } from "zod";
 
+// Checked against the registered adapters by the handlers.
+const AgentIdSchema = z.string().trim().min(1).max(64);
+
+export const LoginBodySchema = z
+  .object({
+    token: z.string().min(1).max(512)
+  })
+  .strict();
+
 export const SetModeBodySchema = z
   .object({
     ownerClientId: z.string().optional(),
@@ -10,14 +25,15 @@ export const SetModeBodySchema = z
 
 export const StartThreadBodySchema = z
   .object({
-    agentId: z.enum(["codex", "opencode"]).optional(),
+    agentId: AgentIdSchema.optional(),
     cwd: z.string().optional(),
     model: z.string().optional(),
     modelProvider: z.string().optional(),
     personality: z.string().optional(),
     sandbox: z.string().optional(),
     approvalPolicy: z.string().optional(),
-    ephemeral: z.boolean().optional()
+    ephemeral: z.boolean().optional(),
+    hostId: z.string().min(1).optional()
   })
   .strict();
 
@@ -25,8 +41,20 @@ export const SendMessageBodySchema = z
   .object({
     ownerClientId: z.string().optional(),
     text: z.string().min(1),
+    attachments: z
+      .array(
+        z
+          .object({
+            uploadId: z.string().min(1)
+          })
+          .strict()
+      )
+      .max(10)
+      .optional(),
     cwd: z.string().optional(),
-    isSteering: z.boolean().optional()
+    isSteering: z.boolean().optional(),
+    model: z.string().min(1).optional(),
+    modelProvider: z.string().min(1).optional()
   })
   .strict();
 
@@ -38,12 +66,66 @@ export const SubmitUserInputBodySchema = z
   })
   .strict();
 
+export const SubmitApprovalBodySchema = z
+  .object({
+    requestId: z.union([z.string().min(1), z.number().int().nonnegative()]),
+    decision: z.union([
+      AppServerFileChangeApprovalDecisionSchema,
+      AppServerCommandExecutionApprovalDecisionSchema,
+      OpenCodePermissionResponseSchema
+    ])
+  })
+  .strict();
+
 export const InterruptBodySchema = z
   .object({
     ownerClientId: z.string().optional()
   })
   .strict();
 
+export const ForkThreadBodySchema = z
+  .object({
+    turnId: z.string().min(1).optional()
+  })
+  .strict();
+
+export const RollbackThreadBodySchema = z
+  .object({
+    turnId: z.string().min(1)
+  })
+  .strict();
+
+export const RenameThreadBodySchema = z
+  .object({
+    name: z.string().trim().min(1).max(200)
+  })
+  .strict();
+
+export const NotificationMuteBodySchema = z
+  .object({
+    threadId: z.string().min(1),
+    muted: z.boolean()
+  })
+  .strict();
+
+export const PushSubscribeBodySchema = z
+  .object({
+    endpoint: z.string().url(),
+    keys: z
+      .object({
+        p256dh: z.string().min(1),
+        auth: z.string().min(1)
+      })
+      .strict()
+  })
+  .strict();
+
+export const PushUnsubscribeBodySchema = z
+  .object({
+    endpoint: z.string().url()
+  })
+  .strict();
+
 export const TraceStartBodySchema = z
   .object({
     label: z.string().min(1).max(120)
@@ -56,10 +138,91 @@ export const TraceMarkBodySchema = z
   })
   .strict();
 
-export const ReplayBodySchema = z
+export const ReplayFrameSchema = z
+  .object({
+    type: z.enum(["request", "broadcast"]),
+    method: z.string().trim().min(1).max(200),
+    params: z.unknown(),
+    targetClientId: z.string().min(1).optional(),
+    version: z.number().int().nonnegative().optional()
+  })
+  .strict();
+
+// Either re-sends a captured entry verbatim or sends a frame edited or composed in the UI.
+export const ReplayBodySchema = z.union([
+  z
+    .object({
+      entryId: z.string().min(1),
+      waitForResponse: z.boolean().optional()
+    })
+    .strict(),
+  z
+    .object({
+      frame: ReplayFrameSchema,
+      waitForResponse: z.boolean().optional()
+    })
+    .strict()
+]);
+
+export const ReplayBatchBodySchema = z
+  .object({
+    entryIds: z.array(z.string().min(1)).min(1).max(500),
+    delayMs: z.number().int().min(0).max(60_000).default(0),
+    timing: z.enum(["fixed", "recorded"]).default("fixed")
+  })
+  .strict();
+
+// Accepts ISO dates (e.g. 2026-01-31) and yields unix seconds.
+const SearchDateParamSchema = z.string().transform((value, ctx) => {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid date: ${value}` });
+    return z.NEVER;
+  }
+  return Math.floor(timestamp / 1000);
+});
+
+// Accepts ISO timestamps and yields epoch milliseconds.
+const HistoryTimeParamSchema = z.string().transform((value, ctx) => {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid time: ${value}` });
+    return z.NEVER;
+  }
+  return timestamp;
+});
+
+export const HistoryQuerySchema = z
+  .object({
+    source: z.enum(["ipc", "app", "system"]).optional(),
+    direction: z.enum(["in", "out", "system"]).optional(),
+    method: z.string().min(1).optional(),
+    threadId: z.string().min(1).optional(),
+    since: HistoryTimeParamSchema.optional(),
+    until: HistoryTimeParamSchema.optional(),
+    before: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(120)
+  })
+  .strict();
+
+export const SearchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1).max(200),
+    agentId: AgentIdSchema.optional(),
+    project: z.string().min(1).optional(),
+    since: SearchDateParamSchema.optional(),
+    until: SearchDateParamSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional()
+  })
+  .strict();
+
+export const ThreadExportQuerySchema = z
   .object({
-    entryId: z.string().min(1),
-    waitForResponse: z.boolean().optional()
+    format: z.enum(["md", "json", "html"]).default("md"),
+    redact: z
+      .enum(["0", "1", "true", "false"])
+      .optional()
+      .transform((value) => value === "1" || value === "true")
   })
   .strict();
 
@@ -5,69 +5,91 @@ import os from "node:os";
 import { randomUUID } from "node:crypto";
 import { execFileSync } from "node:child_process";
 import { AppServerRpcError, type SendRequestOptions } from "@farfield/api";
-import type { IpcFrame, IpcRequestFrame } from "@farfield/protocol";
+import type { IpcFrame, ThreadConversationState } from "@farfield/protocol";
 import {
+  ForkThreadBodySchema,
+  HistoryQuerySchema,
   InterruptBodySchema,
+  LoginBodySchema,
+  NotificationMuteBodySchema,
   parseBody,
+  PushSubscribeBodySchema,
+  PushUnsubscribeBodySchema,
+  RenameThreadBodySchema,
+  ReplayBatchBodySchema,
   ReplayBodySchema,
+  RollbackThreadBodySchema,
+  SearchQuerySchema,
   SendMessageBodySchema,
   StartThreadBodySchema,
   SetModeBodySchema,
+  SubmitApprovalBodySchema,
   SubmitUserInputBodySchema,
+  ThreadExportQuerySchema,
   TraceMarkBodySchema,
   TraceStartBodySchema
 } from "./http-schemas.js";
+import { HistoryStore, resolveHistoryDir, type HistoryEntry } from "./history-store.js";
 import { logger } from "./logger.js";
+import { AuthGuard, resolveAuthToken } from "./auth.js";
+import { ThreadDeltaPublisher, type ThreadDeltaView } from "./thread-deltas.js";
+import { NotificationStore, resolveNotificationStorePath } from "./notification-store.js";
 import {
+  NotificationCenter,
+  resolveWebhookSinkOptions,
+  ThreadNotificationScheduler,
+  WebhookSink,
+  WebPushSink
+} from "./notifications.js";
+import { ProtocolDriftTracker } from "./protocol-drift.js";
+import {
+  collectObservedMethods,
+  parseReplayFrame,
+  ReplayBatch,
+  type ReplayFrame
+} from "./replay-batch.js";
+import { SearchIndex } from "./search-index.js";
+import { exportThread } from "./thread-export.js";
+import { resolveThreadStorePath, ThreadStore } from "./thread-store.js";
+import { MAX_TRACE_UPLOAD_BYTES, TraceStore, type TraceSummary } from "./trace-store.js";
+import { MAX_UPLOAD_BYTES, resolveUploadDir, UploadStore } from "./uploads.js";
+import { generateVapidKeys } from "./web-push.js";
+import {
+  BUILTIN_AGENT_IDS,
   parseServerCliOptions,
   formatServerHelpText
 } from "./agents/cli-options.js";
+import { loadAcpAgentConfigs, resolveAcpAgentsPath } from "./agents/acp-config.js";
 import { AgentRegistry } from "./agents/registry.js";
 import { ThreadIndex } from "./agents/thread-index.js";
+import { AcpAgentAdapter } from "./agents/adapters/acp-agent.js";
 import { CodexAgentAdapter } from "./agents/adapters/codex-agent.js";
 import { OpenCodeAgentAdapter } from "./agents/adapters/opencode-agent.js";
-import type { AgentAdapter, AgentDescriptor, AgentId } from "./agents/types.js";
+import {
+  REMOTE_REQUEST_HEADER,
+  RemoteAgentAdapter,
+  resolveRemoteHosts
+} from "./agents/adapters/remote-agent.js";
+import type { AgentAdapter, AgentAttachment, AgentDescriptor, AgentId } from "./agents/types.js";
 
 const HOST = process.env["HOST"] ?? "127.0.0.1";
 const PORT = Number(process.env["PORT"] ?? 4311);
 const HISTORY_LIMIT = 2_000;
 const USER_AGENT = "farfield/0.2.0";
 const IPC_RECONNECT_DELAY_MS = 1_000;
+const TURN_NOTIFICATION_METHODS = new Set(["turn/started", "turn/completed", "error"]);
+// A batch nobody follows within this window is cancelled, as if its page had closed.
+const REPLAY_BATCH_WATCH_TIMEOUT_MS = 10_000;
 
 const TRACE_DIR = path.resolve(process.cwd(), "traces");
 const DEFAULT_WORKSPACE = path.resolve(process.cwd());
-
-interface HistoryEntry {
-  id: string;
-  at: string;
-  source: "ipc" | "app" | "system";
-  direction: "in" | "out" | "system";
-  payload: unknown;
-  meta: Record<string, unknown>;
-}
-
-interface TraceSummary {
-  id: string;
-  label: string;
-  startedAt: string;
-  stoppedAt: string | null;
-  eventCount: number;
-  path: string;
-}
+const VAPID_SUBJECT = process.env["FARFIELD_VAPID_SUBJECT"]?.trim() || "mailto:farfield@localhost";
 
 interface ActiveTrace {
   summary: TraceSummary;
   stream: fs.WriteStream;
 }
 
-interface ParsedReplayFrame {
-  type: "request" | "broadcast";
-  method: string;
-  params: IpcRequestFrame["params"];
-  targetClientId?: string;
-  version?: number;
-}
-
 function resolveCodexExecutablePath(): string {
   if (process.env["CODEX_CLI_PATH"]) {
     return process.env["CODEX_CLI_PATH"];
@@ -135,14 +157,20 @@ function parseBoolean(value: string | null, fallback: boolean): boolean {
   return fallback;
 }
 
-function jsonResponse(res: ServerResponse, statusCode: number, body: unknown): void {
+function jsonResponse(
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
   const encoded = Buffer.from(JSON.stringify(body), "utf8");
   res.writeHead(statusCode, {
     "Content-Type": "application/json; charset=utf-8",
     "Content-Length": encoded.length,
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "content-type",
-    "Access-Control-Allow-Methods": "GET,POST,OPTIONS"
+    "Access-Control-Allow-Headers": "content-type,authorization",
+    "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+    ...headers
   });
   res.end(encoded);
 }
@@ -151,6 +179,24 @@ function eventResponse(res: ServerResponse, body: unknown): void {
   res.write(`data: ${JSON.stringify(body)}\n\n`);
 }
 
+/** Reads the request body, or returns null once it grows past maxBytes. */
+async function readRawBody(req: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk, "utf8") : (chunk as Buffer);
+    size += buffer.length;
+    if (size > maxBytes) {
+      req.resume();
+      return null;
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
+
 async function readJsonBody(req: IncomingMessage): Promise<unknown> {
   const chunks: Buffer[] = [];
 
@@ -180,43 +226,20 @@ function toErrorMessage(error: unknown): string {
   return String(error);
 }
 
-function ensureTraceDirectory(): void {
-  if (!fs.existsSync(TRACE_DIR)) {
-    fs.mkdirSync(TRACE_DIR, { recursive: true });
-  }
-}
-
-function parseReplayFrame(payload: unknown): ParsedReplayFrame {
-  if (!payload || typeof payload !== "object") {
-    throw new Error("Entry payload is unavailable");
-  }
-
-  const record = payload as Record<string, unknown>;
-  const type = record["type"];
-  if (type !== "request" && type !== "broadcast") {
-    throw new Error("Only captured request and broadcast entries can be replayed");
-  }
-
-  const method = record["method"];
-  if (typeof method !== "string" || method.trim().length === 0) {
-    throw new Error("Captured IPC frame has invalid method");
+const acpAgentConfigs = (() => {
+  try {
+    return loadAcpAgentConfigs(resolveAcpAgentsPath(process.env, process.cwd()));
+  } catch (error) {
+    process.stderr.write(`${toErrorMessage(error)}\n`);
+    process.exit(1);
   }
+})();
 
-  const targetClientId = record["targetClientId"];
-  const version = record["version"];
-
-  return {
-    type,
-    method,
-    params: record["params"],
-    ...(typeof targetClientId === "string" ? { targetClientId } : {}),
-    ...(typeof version === "number" ? { version } : {})
-  };
-}
+const knownAgentIds = [...BUILTIN_AGENT_IDS, ...acpAgentConfigs.map((config) => config.id)];
 
 const parsedCli = (() => {
   try {
-    return parseServerCliOptions(process.argv.slice(2));
+    return parseServerCliOptions(process.argv.slice(2), knownAgentIds);
   } catch (error) {
     const message = toErrorMessage(error);
     process.stderr.write(`${message}\n`);
@@ -226,23 +249,107 @@ const parsedCli = (() => {
 })();
 
 if (parsedCli.showHelp) {
-  process.stdout.write(formatServerHelpText());
+  process.stdout.write(formatServerHelpText(knownAgentIds));
   process.stdout.write("\n");
   process.exit(0);
 }
 
+const remoteHosts = (() => {
+  try {
+    return resolveRemoteHosts(process.env);
+  } catch (error) {
+    process.stderr.write(`${toErrorMessage(error)}\n`);
+    process.exit(1);
+  }
+})();
+
 const configuredAgentIds = parsedCli.agentIds;
 const codexExecutable = resolveCodexExecutablePath();
 const ipcSocketPath = resolveIpcSocketPath();
 const gitCommit = resolveGitCommitHash();
-
-const history: HistoryEntry[] = [];
-const historyById = new Map<string, unknown>();
+const authToken = resolveAuthToken(process.env);
+const authGuard = new AuthGuard({ token: authToken.token });
+
+const historyStore = new HistoryStore({
+  dir: resolveHistoryDir(process.env, process.cwd()),
+  recentLimit: HISTORY_LIMIT,
+  onError: (error) => {
+    logger.warn({ error: toErrorMessage(error) }, "history-store-failed");
+  }
+});
+void historyStore.load();
 const sseClients = new Set<ServerResponse>();
-const threadIndex = new ThreadIndex();
+// Clients that get history entries without payloads: thread subscribers, which
+// receive thread deltas instead, and other Farfield servers, which only need the thread id.
+const summarySseClients = new Set<ServerResponse>();
+const threadStore = new ThreadStore({
+  filePath: resolveThreadStorePath(process.env, process.cwd()),
+  onError: (error) => {
+    logger.warn({ error: toErrorMessage(error) }, "thread-store-failed");
+  }
+});
+threadStore.load();
+const threadIndex = new ThreadIndex(threadStore, remoteHosts.map((host) => host.id));
+const uploadStore = new UploadStore({
+  dir: resolveUploadDir(process.env, process.cwd()),
+  onError: (error) => {
+    logger.warn({ error: toErrorMessage(error) }, "upload-cleanup-failed");
+  }
+});
+uploadStore.startCleanup();
+const searchIndex = new SearchIndex();
+const notificationStore = new NotificationStore({
+  filePath: resolveNotificationStorePath(process.env, process.cwd()),
+  onError: (error) => {
+    logger.warn({ error: toErrorMessage(error) }, "notification-store-failed");
+  }
+});
+notificationStore.load();
+const webhookSinkOptions = (() => {
+  try {
+    return resolveWebhookSinkOptions(process.env);
+  } catch (error) {
+    process.stderr.write(`${toErrorMessage(error)}\n`);
+    process.exit(1);
+  }
+})();
+const notificationCenter = new NotificationCenter({
+  store: notificationStore,
+  sinks: [
+    {
+      name: "events",
+      deliver: async (notification) => {
+        broadcastSse({ type: "notification", notification });
+      }
+    },
+    new WebPushSink({
+      store: notificationStore,
+      vapidKeys: () => notificationStore.getVapidKeys(generateVapidKeys),
+      subject: VAPID_SUBJECT
+    }),
+    ...(webhookSinkOptions ? [new WebhookSink(webhookSinkOptions)] : [])
+  ],
+  onError: (error, sink, notification) => {
+    logger.warn(
+      {
+        sink,
+        kind: notification.kind,
+        threadId: notification.threadId,
+        error: toErrorMessage(error)
+      },
+      "notification-delivery-failed"
+    );
+  }
+});
 
 let activeTrace: ActiveTrace | null = null;
-const recentTraces: TraceSummary[] = [];
+// The most recent batch, kept after it finishes so a late event stream still gets the result.
+let replayBatch: ReplayBatch | null = null;
+// Event streams following the running batch; it is cancelled when the last one closes.
+const replayBatchWatchers = new Set<ServerResponse>();
+let replayBatchWatchTimer: NodeJS.Timeout | null = null;
+const protocolDrift = new ProtocolDriftTracker();
+const traceStore = new TraceStore({ dir: TRACE_DIR });
 let runtimeLastError: string | null = null;
 
 function recordTraceEvent(event: unknown): void {
@@ -269,21 +376,127 @@ function pushHistory(
     meta
   };
 
-  history.push(entry);
-  historyById.set(entry.id, payload);
+  historyStore.append(entry);
+  recordTraceEvent({ type: "history", ...entry });
+  broadcastHistoryEntry(entry);
+  if (typeof meta["threadId"] === "string") {
+    searchIndex.scheduleRefresh(registry.listEnabled());
+  }
+  return entry;
+}
+
+function broadcastHistoryEntry(entry: HistoryEntry): void {
+  const summary = {
+    id: entry.id,
+    at: entry.at,
+    source: entry.source,
+    direction: entry.direction,
+    meta: entry.meta
+  };
+  for (const client of sseClients) {
+    eventResponse(client, {
+      type: "history",
+      entry: summarySseClients.has(client) ? summary : entry
+    });
+  }
+}
+
+async function loadThreadDeltaView(threadId: string, view: ThreadDeltaView): Promise<unknown> {
+  const resolved = resolveAdapterForThread(threadId);
+  if (!resolved.ok) {
+    return undefined;
+  }
 
-  if (history.length > HISTORY_LIMIT) {
-    const removed = history.shift();
-    if (removed) {
-      historyById.delete(removed.id);
+  const adapter = resolved.adapter;
+  if (view === "liveState") {
+    if (!adapter.capabilities.canReadLiveState || !adapter.readLiveState) {
+      return undefined;
     }
+    return adapter.readLiveState(threadId);
   }
 
-  recordTraceEvent({ type: "history", ...entry });
-  broadcastSse({ type: "history", entry });
-  return entry;
+  try {
+    const result = await adapter.readThread({ threadId, includeTurns: true });
+    return result.thread;
+  } catch (error) {
+    if (
+      resolved.agentId === "codex" &&
+      error instanceof Error &&
+      codexAdapter?.isThreadNotLoadedError(error)
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+const threadNotificationScheduler = new ThreadNotificationScheduler({
+  observe: observeThreadNotifications
+});
+
+function scheduleThreadNotifications(agentId: AgentId, threadId: string): void {
+  threadNotificationScheduler.schedule(agentId, threadId);
+}
+
+async function readThreadForNotifications(
+  adapter: AgentAdapter,
+  threadId: string
+): Promise<ThreadConversationState | null> {
+  if (adapter.capabilities.canReadLiveState && adapter.readLiveState) {
+    const liveState = await adapter.readLiveState(threadId);
+    if (liveState.conversationState) {
+      return liveState.conversationState;
+    }
+  }
+
+  // Threads started through the app-server have no desktop IPC stream, so live state is empty.
+  try {
+    const result = await adapter.readThread({ threadId, includeTurns: true });
+    return result.thread;
+  } catch (error) {
+    if (error instanceof Error && adapter === codexAdapter && codexAdapter.isThreadNotLoadedError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function observeThreadNotifications(agentId: AgentId, threadId: string): Promise<void> {
+  const adapter = registry.getAdapter(agentId);
+  if (!adapter || !adapter.isConnected()) {
+    return;
+  }
+
+  try {
+    const [thread, approvals] = await Promise.all([
+      readThreadForNotifications(adapter, threadId),
+      adapter.listPendingApprovals ? adapter.listPendingApprovals(threadId) : []
+    ]);
+    const notifications = await notificationCenter.observe({
+      agentId,
+      threadId,
+      thread,
+      approvals
+    });
+    for (const notification of notifications) {
+      logger.info(
+        { agentId, threadId, kind: notification.kind, turnId: notification.turnId },
+        "notification-sent"
+      );
+    }
+  } catch (error) {
+    logger.warn({ agentId, threadId, error: toErrorMessage(error) }, "notification-observe-failed");
+  }
 }
 
+const threadDeltaPublisher = new ThreadDeltaPublisher<ServerResponse>({
+  loadView: loadThreadDeltaView,
+  send: eventResponse,
+  onError: (error, threadId, view) => {
+    logger.warn({ threadId, view, error: toErrorMessage(error) }, "thread-delta-load-failed");
+  }
+});
+
 function summarizeActionDetails(details: Record<string, unknown>): Record<string, unknown> {
   const summary: Record<string, unknown> = {};
   const keys = ["agentId", "threadId", "ownerClientId", "requestId", "textLength", "cwd", "model"];
@@ -317,6 +530,10 @@ function pushActionEvent(
     stage,
     ...details
   });
+  // Renames, archives and new threads change what search should return.
+  if (stage === "success") {
+    searchIndex.scheduleRefresh(registry.listEnabled());
+  }
 }
 
 function pushActionError(
@@ -355,6 +572,8 @@ for (const agentId of configuredAgentIds) {
       workspaceDir: DEFAULT_WORKSPACE,
       userAgent: USER_AGENT,
       reconnectDelayMs: IPC_RECONNECT_DELAY_MS,
+      ownerStore: threadStore,
+      nameStore: threadStore,
       onStateChange: () => {
         broadcastRuntimeState();
       }
@@ -365,6 +584,76 @@ for (const agentId of configuredAgentIds) {
         method: event.method,
         threadId: event.threadId
       });
+      if (event.threadId && event.method === "thread-stream-state-changed") {
+        threadDeltaPublisher.invalidate(event.threadId, "liveState");
+        scheduleThreadNotifications("codex", event.threadId);
+      }
+    });
+
+    codexAdapter.onAppServerNotification((event) => {
+      pushHistory(
+        "app",
+        "in",
+        {
+          type: "notification",
+          method: event.notification.method,
+          params: event.notification.params
+        },
+        {
+          method: event.notification.method,
+          ...(event.threadId ? { threadId: event.threadId } : {})
+        }
+      );
+      if (event.threadId) {
+        threadDeltaPublisher.invalidate(event.threadId, "thread");
+        // turn/started gives the detector a baseline, so the completion that follows is news.
+        if (TURN_NOTIFICATION_METHODS.has(event.notification.method)) {
+          scheduleThreadNotifications("codex", event.threadId);
+        }
+      }
+    });
+
+    codexAdapter.onProtocolDrift((event) => {
+      protocolDrift.record({
+        source: event.source,
+        method: event.method,
+        details: event.error.details,
+        payload: event.payload
+      });
+    });
+
+    codexAdapter.onApprovalEvent((event) => {
+      if (event.type === "requested") {
+        scheduleThreadNotifications("codex", event.request.threadId);
+        pushHistory(
+          "app",
+          "in",
+          {
+            type: "approvalRequest",
+            request: event.request
+          },
+          {
+            method: event.request.kind === "commandExecution"
+              ? "item/commandExecution/requestApproval"
+              : "item/fileChange/requestApproval",
+            threadId: event.request.threadId
+          }
+        );
+        return;
+      }
+
+      pushHistory(
+        "app",
+        "out",
+        {
+          type: "approvalResolved",
+          requestId: event.requestId
+        },
+        {
+          method: "approval/resolved",
+          threadId: event.threadId
+        }
+      );
     });
 
     adapters.push(codexAdapter);
@@ -373,12 +662,103 @@ for (const agentId of configuredAgentIds) {
 
   if (agentId === "opencode") {
     openCodeAdapter = new OpenCodeAgentAdapter();
+
+    openCodeAdapter.onSessionEvent((event) => {
+      pushHistory("app", "in", event.payload, {
+        agentId: "opencode",
+        method: event.method,
+        threadId: event.threadId
+      });
+      threadDeltaPublisher.invalidate(event.threadId, "liveState");
+      scheduleThreadNotifications("opencode", event.threadId);
+    });
+
     adapters.push(openCodeAdapter);
+    continue;
+  }
+
+  const acpConfig = acpAgentConfigs.find((config) => config.id === agentId);
+  if (acpConfig) {
+    const acpAdapter = new AcpAgentAdapter({
+      config: acpConfig,
+      userAgent: USER_AGENT,
+      workspaceDir: DEFAULT_WORKSPACE
+    });
+
+    acpAdapter.onSessionEvent((event) => {
+      pushHistory("app", "in", event.payload, {
+        agentId,
+        method: event.method,
+        threadId: event.threadId
+      });
+      threadDeltaPublisher.invalidate(event.threadId, "liveState");
+      scheduleThreadNotifications(agentId, event.threadId);
+    });
+
+    adapters.push(acpAdapter);
   }
 }
 
+let remoteAdapter: RemoteAgentAdapter | null = null;
+if (remoteHosts.length > 0) {
+  remoteAdapter = new RemoteAgentAdapter({
+    hosts: remoteHosts,
+    userAgent: USER_AGENT,
+    onHostStatusChange: (status) => {
+      pushSystem(status.connected ? "Remote host connected" : "Remote host disconnected", {
+        hostId: status.id,
+        url: status.url,
+        ...(status.lastError ? { error: status.lastError } : {})
+      });
+    }
+  });
+
+  remoteAdapter.onThreadEvent((event) => {
+    threadDeltaPublisher.invalidate(event.threadId, "thread");
+    threadDeltaPublisher.invalidate(event.threadId, "liveState");
+    scheduleThreadNotifications("remote", event.threadId);
+  });
+
+  adapters.push(remoteAdapter);
+}
+
 const registry = new AgentRegistry(adapters);
 
+/** Returns the Codex adapter when desktop IPC can take replayed frames, otherwise answers 503. */
+function requireReplayAdapter(res: ServerResponse): CodexAgentAdapter | null {
+  if (!codexAdapter) {
+    jsonResponse(res, 503, {
+      ok: false,
+      error: "Codex adapter is not enabled"
+    });
+    return null;
+  }
+
+  if (!codexAdapter.isIpcReady()) {
+    jsonResponse(res, 503, {
+      ok: false,
+      error: codexAdapter.getRuntimeState().lastError ?? "Desktop IPC is not connected"
+    });
+    return null;
+  }
+
+  return codexAdapter;
+}
+
+async function sendReplayFrame(adapter: CodexAgentAdapter, frame: ReplayFrame): Promise<unknown> {
+  const options: SendRequestOptions = {
+    ...(frame.targetClientId ? { targetClientId: frame.targetClientId } : {}),
+    ...(typeof frame.version === "number" ? { version: frame.version } : {})
+  };
+
+  if (frame.type === "request") {
+    return adapter.replayRequest(frame.method, frame.params, options);
+  }
+
+  adapter.replayBroadcast(frame.method, frame.params, options);
+  return undefined;
+}
+
 function buildAgentDescriptor(adapter: AgentAdapter, projectDirectories: string[]): AgentDescriptor {
   return {
     id: adapter.id,
@@ -386,7 +766,8 @@ function buildAgentDescriptor(adapter: AgentAdapter, projectDirectories: string[
     enabled: adapter.isEnabled(),
     connected: adapter.isConnected(),
     capabilities: adapter.capabilities,
-    projectDirectories
+    projectDirectories,
+    ...(adapter.listHosts ? { hosts: adapter.listHosts() } : {})
   };
 }
 
@@ -402,7 +783,7 @@ function getRuntimeStateSnapshot(): Record<string, unknown> {
     ipcInitialized: codexRuntimeState?.ipcInitialized ?? false,
     codexAvailable: codexRuntimeState?.codexAvailable ?? false,
     lastError: runtimeLastError ?? codexRuntimeState?.lastError ?? null,
-    historyCount: history.length,
+    historyCount: historyStore.size,
     threadOwnerCount: codexAdapter?.getThreadOwnerCount() ?? 0,
     activeTrace: activeTrace?.summary ?? null
   };
@@ -443,6 +824,26 @@ function resolveCreateThreadAdapter(
   return registry.getAdapter(defaultAgentId);
 }
 
+function resolveExportTitle(thread: ThreadConversationState): string {
+  const title = thread.title?.trim();
+  if (title) {
+    return title;
+  }
+
+  for (const turn of thread.turns) {
+    for (const item of turn.items) {
+      if (item.type === "userMessage") {
+        const text = item.content.find((part) => part.type === "text")?.text.trim();
+        if (text) {
+          return text.split("\n")[0]!.slice(0, 80);
+        }
+      }
+    }
+  }
+
+  return thread.id;
+}
+
 function resolveAdapterForThread(threadId: string):
   | { ok: true; adapter: AgentAdapter; agentId: AgentId }
   | { ok: false; status: number; error: string } {
@@ -506,6 +907,33 @@ const server = http.createServer(async (req, res) => {
     const pathname = url.pathname;
     const segments = pathname.split("/").filter(Boolean);
 
+    if (req.method === "POST" && pathname === "/api/auth/login") {
+      const body = parseBody(LoginBodySchema, await readJsonBody(req));
+      if (!authGuard.verifyToken(body.token)) {
+        logger.warn({ remoteAddress: req.socket.remoteAddress ?? null }, "auth-login-rejected");
+        jsonResponse(res, 401, { ok: false, error: "Invalid access token" });
+        return;
+      }
+
+      jsonResponse(res, 200, { ok: true }, { "Set-Cookie": authGuard.createSessionCookie() });
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/api/auth/logout") {
+      jsonResponse(res, 200, { ok: true }, { "Set-Cookie": authGuard.createLogoutCookie() });
+      return;
+    }
+
+    if (req.method === "GET" && pathname === "/api/auth/status") {
+      jsonResponse(res, 200, { ok: true, authenticated: authGuard.isAuthorized(req) });
+      return;
+    }
+
+    if ((pathname === "/events" || segments[0] === "api") && !authGuard.isAuthorized(req)) {
+      jsonResponse(res, 401, { ok: false, error: "Authentication required" });
+      return;
+    }
+
     if (req.method === "GET" && pathname === "/events") {
       res.writeHead(200, {
         "Content-Type": "text/event-stream",
@@ -520,8 +948,18 @@ const server = http.createServer(async (req, res) => {
         state: getRuntimeStateSnapshot()
       });
 
+      const threadId = url.searchParams.get("threadId")?.trim();
+      const unsubscribeThread = threadId
+        ? threadDeltaPublisher.subscribe(threadId, res)
+        : null;
+      if (unsubscribeThread || req.headers[REMOTE_REQUEST_HEADER] !== undefined) {
+        summarySseClients.add(res);
+      }
+
       req.on("close", () => {
         sseClients.delete(res);
+        summarySseClients.delete(res);
+        unsubscribeThread?.();
       });
       return;
     }
@@ -599,7 +1037,8 @@ const server = http.createServer(async (req, res) => {
           ...(body.personality ? { personality: body.personality } : {}),
           ...(body.sandbox ? { sandbox: body.sandbox } : {}),
           ...(body.approvalPolicy ? { approvalPolicy: body.approvalPolicy } : {}),
-          ...(typeof body.ephemeral === "boolean" ? { ephemeral: body.ephemeral } : {})
+          ...(typeof body.ephemeral === "boolean" ? { ephemeral: body.ephemeral } : {}),
+          ...(body.hostId ? { hostId: body.hostId } : {})
         };
         const result = await adapter.createThread(createInput);
 
@@ -634,7 +1073,11 @@ const server = http.createServer(async (req, res) => {
       const maxPages = parseInteger(url.searchParams.get("maxPages"), 20);
       const cursor = url.searchParams.get("cursor") ?? null;
 
-      const enabledAdapters = registry.listEnabled();
+      // Another Farfield server federating this one only wants local threads.
+      const fromRemote = req.headers[REMOTE_REQUEST_HEADER] !== undefined;
+      const enabledAdapters = registry
+        .listEnabled()
+        .filter((adapter) => !(fromRemote && adapter.id === "remote"));
       const mergedData: Array<Record<string, unknown>> = [];
       let nextCursor: string | null = null;
 
@@ -678,60 +1121,211 @@ const server = http.createServer(async (req, res) => {
       return;
     }
 
-    if (req.method === "GET" && pathname === "/api/models") {
-      const adapter = registry.resolveFirstWithCapability("canListModels");
-      if (!adapter || !adapter.listModels) {
-        jsonResponse(res, 200, {
-          ok: true,
-          data: [],
-          nextCursor: null
+    if (req.method === "POST" && pathname === "/api/uploads") {
+      const name = url.searchParams.get("name")?.trim() ?? "";
+      if (!name) {
+        jsonResponse(res, 400, { ok: false, error: "Missing upload file name" });
+        return;
+      }
+
+      const data = await readRawBody(req, MAX_UPLOAD_BYTES);
+      if (!data) {
+        jsonResponse(res, 413, {
+          ok: false,
+          error: `Uploads are limited to ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB`
         });
         return;
       }
+      if (data.length === 0) {
+        jsonResponse(res, 400, { ok: false, error: "Upload is empty" });
+        return;
+      }
 
-      const limit = parseInteger(url.searchParams.get("limit"), 100);
-      const result = await adapter.listModels(limit);
-      jsonResponse(res, 200, { ok: true, ...result });
+      const mimeType = req.headers["content-type"]?.split(";")[0]?.trim() ?? "";
+      const upload = uploadStore.save({ name, mimeType, data });
+      logger.info(
+        { uploadId: upload.id, name: upload.name, mimeType: upload.mimeType, size: upload.size },
+        "upload-staged"
+      );
+
+      jsonResponse(res, 200, {
+        ok: true,
+        upload: {
+          id: upload.id,
+          name: upload.name,
+          mimeType: upload.mimeType,
+          size: upload.size
+        }
+      });
       return;
     }
 
-    if (req.method === "GET" && pathname === "/api/collaboration-modes") {
-      const adapter = registry.resolveFirstWithCapability("canListCollaborationModes");
-      if (!adapter || !adapter.listCollaborationModes) {
+    if (req.method === "GET" && pathname === "/api/models") {
+      const requestedAgentId = url.searchParams.get("agentId");
+      const adapter = requestedAgentId
+        ? registry.listEnabled().find((candidate) => candidate.id === requestedAgentId) ?? null
+        : registry.resolveFirstWithCapability("canListModels");
+      if (!adapter || !adapter.capabilities.canListModels || !adapter.listModels) {
         jsonResponse(res, 200, {
           ok: true,
-          data: []
+          data: [],
+          nextCursor: null
         });
         return;
       }
 
-      const result = await adapter.listCollaborationModes();
+      const limit = parseInteger(url.searchParams.get("limit"), 100);
+      const result = await adapter.listModels(limit);
       jsonResponse(res, 200, { ok: true, ...result });
       return;
     }
 
-    if (segments[0] === "api" && segments[1] === "threads" && segments[2]) {
-      const threadId = decodeURIComponent(segments[2]);
-      const resolved = resolveAdapterForThread(threadId);
-      if (!resolved.ok) {
-        jsonResponse(res, resolved.status, {
-          ok: false,
-          error: resolved.error,
-          threadId
-        });
-        return;
-      }
-
-      const adapter = resolved.adapter;
+    if (req.method === "GET" && pathname === "/api/usage") {
+      const adapters = registry
+        .listEnabled()
+        .filter((adapter) => adapter.capabilities.canReadUsage);
 
-      if (req.method === "GET" && segments.length === 3) {
-        const includeTurns = parseBoolean(url.searchParams.get("includeTurns"), true);
+      const threads = adapters.flatMap((adapter) =>
+        (adapter.listThreadUsage?.() ?? []).map((usage) => ({ ...usage, agentId: adapter.id }))
+      );
+      const rateLimits = await Promise.all(
+        adapters.map(async (adapter) => {
+          if (!adapter.readRateLimits || !adapter.isConnected()) {
+            return { agentId: adapter.id, snapshot: null, updatedAt: null };
+          }
 
-        try {
-          const result = await adapter.readThread({ threadId, includeTurns });
-          jsonResponse(res, 200, {
-            ok: true,
-            ...result,
+          try {
+            return { agentId: adapter.id, ...(await adapter.readRateLimits()) };
+          } catch (error) {
+            logger.warn(
+              {
+                agentId: adapter.id,
+                error: toErrorMessage(error)
+              },
+              "agent-rate-limits-read-failed"
+            );
+            return { agentId: adapter.id, snapshot: null, updatedAt: null };
+          }
+        })
+      );
+
+      jsonResponse(res, 200, {
+        ok: true,
+        threads,
+        rateLimits
+      });
+      return;
+    }
+
+    if (req.method === "GET" && pathname === "/api/search") {
+      const parsedQuery = SearchQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+      if (!parsedQuery.success) {
+        jsonResponse(res, 400, {
+          ok: false,
+          error: parsedQuery.error.issues.map((issue) => issue.message).join("; ")
+        });
+        return;
+      }
+
+      // Answer from the index as it stands; the refresh this schedules serves later keystrokes,
+      // and picks up remote hosts whose activity does not pass through our history.
+      const query = parsedQuery.data;
+      searchIndex.scheduleRefresh(registry.listEnabled());
+      const results = searchIndex.search({
+        q: query.q,
+        ...(query.agentId ? { agentId: query.agentId } : {}),
+        ...(query.project ? { project: query.project } : {}),
+        ...(query.since !== undefined ? { since: query.since } : {}),
+        ...(query.until !== undefined ? { until: query.until } : {}),
+        ...(query.limit !== undefined ? { limit: query.limit } : {})
+      });
+      for (const result of results) {
+        threadIndex.register(result.threadId, result.agentId);
+      }
+
+      jsonResponse(res, 200, {
+        ok: true,
+        query: query.q,
+        results
+      });
+      return;
+    }
+
+    if (req.method === "GET" && pathname === "/api/notifications") {
+      jsonResponse(res, 200, {
+        ok: true,
+        mutedThreadIds: notificationStore.listMuted(),
+        pushPublicKey: notificationStore.getVapidKeys(generateVapidKeys).publicKey,
+        webhook: webhookSinkOptions !== null
+      });
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/api/notifications/mute") {
+      const body = parseBody(NotificationMuteBodySchema, await readJsonBody(req));
+      notificationStore.setMuted(body.threadId, body.muted);
+      jsonResponse(res, 200, {
+        ok: true,
+        threadId: body.threadId,
+        muted: body.muted
+      });
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/api/notifications/push/subscribe") {
+      const body = parseBody(PushSubscribeBodySchema, await readJsonBody(req));
+      notificationStore.addSubscription(body);
+      jsonResponse(res, 200, { ok: true });
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/api/notifications/push/unsubscribe") {
+      const body = parseBody(PushUnsubscribeBodySchema, await readJsonBody(req));
+      jsonResponse(res, 200, {
+        ok: true,
+        removed: notificationStore.removeSubscription(body.endpoint)
+      });
+      return;
+    }
+
+    if (req.method === "GET" && pathname === "/api/collaboration-modes") {
+      const adapter = registry.resolveFirstWithCapability("canListCollaborationModes");
+      if (!adapter || !adapter.listCollaborationModes) {
+        jsonResponse(res, 200, {
+          ok: true,
+          data: []
+        });
+        return;
+      }
+
+      const result = await adapter.listCollaborationModes();
+      jsonResponse(res, 200, { ok: true, ...result });
+      return;
+    }
+
+    if (segments[0] === "api" && segments[1] === "threads" && segments[2]) {
+      const threadId = decodeURIComponent(segments[2]);
+      const resolved = resolveAdapterForThread(threadId);
+      if (!resolved.ok) {
+        jsonResponse(res, resolved.status, {
+          ok: false,
+          error: resolved.error,
+          threadId
+        });
+        return;
+      }
+
+      const adapter = resolved.adapter;
+
+      if (req.method === "GET" && segments.length === 3) {
+        const includeTurns = parseBoolean(url.searchParams.get("includeTurns"), true);
+
+        try {
+          const result = await adapter.readThread({ threadId, includeTurns });
+          jsonResponse(res, 200, {
+            ok: true,
+            ...result,
+            usage: adapter.readThreadUsage?.(threadId) ?? null,
             agentId: resolved.agentId
           });
           return;
@@ -753,6 +1347,53 @@ const server = http.createServer(async (req, res) => {
         }
       }
 
+      if (req.method === "GET" && segments[3] === "export") {
+        const parsedQuery = ThreadExportQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+        if (!parsedQuery.success) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: parsedQuery.error.issues.map((issue) => issue.message).join("; "),
+            threadId
+          });
+          return;
+        }
+
+        let thread: ThreadConversationState;
+        try {
+          thread = (await adapter.readThread({ threadId, includeTurns: true })).thread;
+        } catch (error) {
+          if (
+            resolved.agentId === "codex" &&
+            codexAdapter &&
+            error instanceof Error &&
+            codexAdapter.isThreadNotLoadedError(error)
+          ) {
+            jsonResponse(res, 404, {
+              ok: false,
+              error: `Thread not loaded in app-server: ${threadId}`,
+              threadId
+            });
+            return;
+          }
+          throw error;
+        }
+        const exported = exportThread({
+          thread,
+          title: resolveExportTitle(thread),
+          format: parsedQuery.data.format,
+          redact: parsedQuery.data.redact
+        });
+        const data = Buffer.from(exported.body, "utf8");
+        res.writeHead(200, {
+          "Content-Type": exported.contentType,
+          "Content-Length": data.length,
+          "Content-Disposition": `attachment; filename="${exported.fileName}"`,
+          "Access-Control-Allow-Origin": "*"
+        });
+        res.end(data);
+        return;
+      }
+
       if (req.method === "GET" && segments[3] === "live-state") {
         if (!adapter.capabilities.canReadLiveState || !adapter.readLiveState) {
           jsonResponse(res, 400, {
@@ -796,20 +1437,47 @@ const server = http.createServer(async (req, res) => {
 
       if (req.method === "POST" && segments[3] === "messages") {
         const body = parseBody(SendMessageBodySchema, await readJsonBody(req));
+        if (body.isSteering === true && !adapter.capabilities.canSteerTurns) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support steering messages`,
+            threadId
+          });
+          return;
+        }
+
+        const attachments: AgentAttachment[] = [];
+        for (const attachment of body.attachments ?? []) {
+          const upload = uploadStore.get(attachment.uploadId);
+          if (!upload) {
+            jsonResponse(res, 400, {
+              ok: false,
+              error: `Upload ${attachment.uploadId} was not found. Upload the file again.`,
+              threadId
+            });
+            return;
+          }
+          attachments.push({ path: upload.path, name: upload.name, mimeType: upload.mimeType });
+        }
 
         pushActionEvent("messages", "attempt", {
           agentId: resolved.agentId,
           threadId,
-          textLength: body.text.length
+          textLength: body.text.length,
+          attachmentCount: attachments.length,
+          isSteering: body.isSteering === true
         });
 
         try {
           await adapter.sendMessage({
             threadId,
             text: body.text,
+            ...(attachments.length > 0 ? { attachments } : {}),
             ...(body.ownerClientId ? { ownerClientId: body.ownerClientId } : {}),
             ...(body.cwd ? { cwd: body.cwd } : {}),
-            ...(typeof body.isSteering === "boolean" ? { isSteering: body.isSteering } : {})
+            ...(typeof body.isSteering === "boolean" ? { isSteering: body.isSteering } : {}),
+            ...(body.model ? { model: body.model } : {}),
+            ...(body.modelProvider ? { modelProvider: body.modelProvider } : {})
           });
         } catch (error) {
           const message = pushActionError("messages", error, {
@@ -846,94 +1514,409 @@ const server = http.createServer(async (req, res) => {
 
         pushActionEvent("collaboration-mode", "attempt", {
           agentId: resolved.agentId,
-          threadId,
-          collaborationMode: body.collaborationMode
+          threadId,
+          collaborationMode: body.collaborationMode
+        });
+
+        try {
+          const result = await adapter.setCollaborationMode({
+            threadId,
+            ...(body.ownerClientId ? { ownerClientId: body.ownerClientId } : {}),
+            collaborationMode: body.collaborationMode
+          });
+
+          pushActionEvent("collaboration-mode", "success", {
+            agentId: resolved.agentId,
+            threadId,
+            ownerClientId: result.ownerClientId
+          });
+
+          jsonResponse(res, 200, {
+            ok: true,
+            threadId,
+            ownerClientId: result.ownerClientId
+          });
+        } catch (error) {
+          const message = pushActionError("collaboration-mode", error, {
+            agentId: resolved.agentId,
+            threadId
+          });
+          jsonResponse(res, 500, {
+            ok: false,
+            error: message,
+            threadId
+          });
+        }
+        return;
+      }
+
+      if (segments[3] === "approvals" && (req.method === "GET" || req.method === "POST")) {
+        if (
+          !adapter.capabilities.canSubmitApprovals ||
+          !adapter.listPendingApprovals ||
+          !adapter.submitApproval
+        ) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support approval requests`,
+            threadId
+          });
+          return;
+        }
+
+        if (req.method === "GET") {
+          const approvals = await adapter.listPendingApprovals(threadId);
+          jsonResponse(res, 200, {
+            ok: true,
+            threadId,
+            approvals
+          });
+          return;
+        }
+
+        const body = parseBody(SubmitApprovalBodySchema, await readJsonBody(req));
+
+        pushActionEvent("approvals", "attempt", {
+          agentId: resolved.agentId,
+          threadId,
+          requestId: body.requestId,
+          decision: body.decision
+        });
+
+        try {
+          await adapter.submitApproval({
+            threadId,
+            requestId: body.requestId,
+            decision: body.decision
+          });
+        } catch (error) {
+          const message = pushActionError("approvals", error, {
+            agentId: resolved.agentId,
+            threadId,
+            requestId: body.requestId
+          });
+          jsonResponse(res, 500, {
+            ok: false,
+            error: message,
+            threadId,
+            requestId: body.requestId
+          });
+          return;
+        }
+
+        pushActionEvent("approvals", "success", {
+          agentId: resolved.agentId,
+          threadId,
+          requestId: body.requestId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId,
+          requestId: body.requestId
+        });
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "user-input") {
+        if (!adapter.capabilities.canSubmitUserInput || !adapter.submitUserInput) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support user input submission`,
+            threadId
+          });
+          return;
+        }
+
+        const body = parseBody(SubmitUserInputBodySchema, await readJsonBody(req));
+
+        pushActionEvent("user-input", "attempt", {
+          agentId: resolved.agentId,
+          threadId,
+          requestId: body.requestId
+        });
+
+        try {
+          const result = await adapter.submitUserInput({
+            threadId,
+            ...(body.ownerClientId ? { ownerClientId: body.ownerClientId } : {}),
+            requestId: body.requestId,
+            response: body.response
+          });
+
+          pushActionEvent("user-input", "success", {
+            agentId: resolved.agentId,
+            threadId,
+            ownerClientId: result.ownerClientId,
+            requestId: result.requestId
+          });
+
+          jsonResponse(res, 200, {
+            ok: true,
+            threadId,
+            ownerClientId: result.ownerClientId,
+            requestId: result.requestId
+          });
+        } catch (error) {
+          const message = pushActionError("user-input", error, {
+            agentId: resolved.agentId,
+            threadId,
+            requestId: body.requestId
+          });
+          jsonResponse(res, 500, {
+            ok: false,
+            error: message,
+            threadId,
+            requestId: body.requestId
+          });
+        }
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "fork") {
+        if (!adapter.capabilities.canForkThreads || !adapter.forkThread) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support forking threads`,
+            threadId
+          });
+          return;
+        }
+
+        const body = parseBody(ForkThreadBodySchema, await readJsonBody(req));
+
+        pushActionEvent("thread-fork", "attempt", {
+          agentId: resolved.agentId,
+          threadId,
+          turnId: body.turnId ?? null
+        });
+
+        try {
+          const result = await adapter.forkThread({
+            threadId,
+            ...(body.turnId ? { turnId: body.turnId } : {})
+          });
+
+          threadIndex.register(result.threadId, resolved.agentId);
+
+          pushActionEvent("thread-fork", "success", {
+            agentId: resolved.agentId,
+            threadId,
+            forkedThreadId: result.threadId
+          });
+
+          jsonResponse(res, 200, {
+            ok: true,
+            ...result,
+            threadId: result.threadId,
+            agentId: resolved.agentId
+          });
+        } catch (error) {
+          const message = pushActionError("thread-fork", error, {
+            agentId: resolved.agentId,
+            threadId
+          });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+        }
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "rollback") {
+        if (!adapter.capabilities.canRollbackThreads || !adapter.rollbackThread) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support rolling back threads`,
+            threadId
+          });
+          return;
+        }
+
+        const body = parseBody(RollbackThreadBodySchema, await readJsonBody(req));
+
+        pushActionEvent("thread-rollback", "attempt", {
+          agentId: resolved.agentId,
+          threadId,
+          turnId: body.turnId
+        });
+
+        try {
+          await adapter.rollbackThread({ threadId, turnId: body.turnId });
+        } catch (error) {
+          const message = pushActionError("thread-rollback", error, {
+            agentId: resolved.agentId,
+            threadId,
+            turnId: body.turnId
+          });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+          return;
+        }
+
+        threadDeltaPublisher.invalidate(threadId, "thread");
+        pushActionEvent("thread-rollback", "success", {
+          agentId: resolved.agentId,
+          threadId,
+          turnId: body.turnId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId
+        });
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "compact") {
+        if (!adapter.capabilities.canCompactThreads || !adapter.compactThread) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support context compaction`,
+            threadId
+          });
+          return;
+        }
+
+        pushActionEvent("thread-compact", "attempt", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        try {
+          await adapter.compactThread(threadId);
+        } catch (error) {
+          const message = pushActionError("thread-compact", error, {
+            agentId: resolved.agentId,
+            threadId
+          });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+          return;
+        }
+
+        pushActionEvent("thread-compact", "success", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId
+        });
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "archive") {
+        if (!adapter.capabilities.canArchiveThreads || !adapter.archiveThread) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support archiving threads`,
+            threadId
+          });
+          return;
+        }
+
+        pushActionEvent("thread-archive", "attempt", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        try {
+          await adapter.archiveThread(threadId);
+        } catch (error) {
+          const message = pushActionError("thread-archive", error, {
+            agentId: resolved.agentId,
+            threadId
+          });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+          return;
+        }
+
+        pushActionEvent("thread-archive", "success", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId
+        });
+        return;
+      }
+
+      if (req.method === "POST" && segments[3] === "unarchive") {
+        if (!adapter.capabilities.canUnarchiveThreads || !adapter.unarchiveThread) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: `Agent ${resolved.agentId} does not support unarchiving threads`,
+            threadId
+          });
+          return;
+        }
+
+        pushActionEvent("thread-unarchive", "attempt", {
+          agentId: resolved.agentId,
+          threadId
         });
 
         try {
-          const result = await adapter.setCollaborationMode({
-            threadId,
-            ...(body.ownerClientId ? { ownerClientId: body.ownerClientId } : {}),
-            collaborationMode: body.collaborationMode
-          });
-
-          pushActionEvent("collaboration-mode", "success", {
-            agentId: resolved.agentId,
-            threadId,
-            ownerClientId: result.ownerClientId
-          });
-
-          jsonResponse(res, 200, {
-            ok: true,
-            threadId,
-            ownerClientId: result.ownerClientId
-          });
+          await adapter.unarchiveThread(threadId);
         } catch (error) {
-          const message = pushActionError("collaboration-mode", error, {
+          const message = pushActionError("thread-unarchive", error, {
             agentId: resolved.agentId,
             threadId
           });
-          jsonResponse(res, 500, {
-            ok: false,
-            error: message,
-            threadId
-          });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+          return;
         }
+
+        pushActionEvent("thread-unarchive", "success", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId
+        });
         return;
       }
 
-      if (req.method === "POST" && segments[3] === "user-input") {
-        if (!adapter.capabilities.canSubmitUserInput || !adapter.submitUserInput) {
+      if (req.method === "POST" && segments[3] === "name") {
+        if (!adapter.capabilities.canRenameThreads || !adapter.renameThread) {
           jsonResponse(res, 400, {
             ok: false,
-            error: `Agent ${resolved.agentId} does not support user input submission`,
+            error: `Agent ${resolved.agentId} does not support renaming threads`,
             threadId
           });
           return;
         }
 
-        const body = parseBody(SubmitUserInputBodySchema, await readJsonBody(req));
+        const body = parseBody(RenameThreadBodySchema, await readJsonBody(req));
 
-        pushActionEvent("user-input", "attempt", {
+        pushActionEvent("thread-rename", "attempt", {
           agentId: resolved.agentId,
-          threadId,
-          requestId: body.requestId
+          threadId
         });
 
         try {
-          const result = await adapter.submitUserInput({
-            threadId,
-            ...(body.ownerClientId ? { ownerClientId: body.ownerClientId } : {}),
-            requestId: body.requestId,
-            response: body.response
-          });
-
-          pushActionEvent("user-input", "success", {
-            agentId: resolved.agentId,
-            threadId,
-            ownerClientId: result.ownerClientId,
-            requestId: result.requestId
-          });
-
-          jsonResponse(res, 200, {
-            ok: true,
-            threadId,
-            ownerClientId: result.ownerClientId,
-            requestId: result.requestId
-          });
+          await adapter.renameThread({ threadId, name: body.name });
         } catch (error) {
-          const message = pushActionError("user-input", error, {
+          const message = pushActionError("thread-rename", error, {
             agentId: resolved.agentId,
-            threadId,
-            requestId: body.requestId
-          });
-          jsonResponse(res, 500, {
-            ok: false,
-            error: message,
-            threadId,
-            requestId: body.requestId
+            threadId
           });
+          jsonResponse(res, 500, { ok: false, error: message, threadId });
+          return;
         }
+
+        pushActionEvent("thread-rename", "success", {
+          agentId: resolved.agentId,
+          threadId
+        });
+
+        jsonResponse(res, 200, {
+          ok: true,
+          threadId,
+          name: body.name
+        });
         return;
       }
 
@@ -973,16 +1956,34 @@ const server = http.createServer(async (req, res) => {
     }
 
     if (segments[0] === "api" && segments[1] === "debug") {
-      if (req.method === "GET" && segments[2] === "history") {
-        const limit = parseInteger(url.searchParams.get("limit"), 120);
-        const data = history.slice(-limit);
-        jsonResponse(res, 200, { ok: true, history: data });
+      if (req.method === "GET" && segments[2] === "history" && !segments[3]) {
+        const parsedQuery = HistoryQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+        if (!parsedQuery.success) {
+          jsonResponse(res, 400, {
+            ok: false,
+            error: parsedQuery.error.issues.map((issue) => issue.message).join("; ")
+          });
+          return;
+        }
+
+        const query = parsedQuery.data;
+        const page = historyStore.query({
+          limit: query.limit,
+          ...(query.source ? { source: query.source } : {}),
+          ...(query.direction ? { direction: query.direction } : {}),
+          ...(query.method ? { method: query.method } : {}),
+          ...(query.threadId ? { threadId: query.threadId } : {}),
+          ...(query.since !== undefined ? { since: query.since } : {}),
+          ...(query.until !== undefined ? { until: query.until } : {}),
+          ...(query.before ? { before: query.before } : {})
+        });
+        jsonResponse(res, 200, { ok: true, history: page.entries, nextCursor: page.nextCursor });
         return;
       }
 
       if (req.method === "GET" && segments[2] === "history" && segments[3]) {
         const entryId = decodeURIComponent(segments[3]);
-        const entry = history.find((item) => item.id === entryId) ?? null;
+        const entry = historyStore.get(entryId);
         if (!entry) {
           jsonResponse(res, 404, { ok: false, error: "History entry not found" });
           return;
@@ -991,38 +1992,109 @@ const server = http.createServer(async (req, res) => {
         jsonResponse(res, 200, {
           ok: true,
           entry,
-          fullPayload: historyById.get(entryId) ?? null
+          fullPayload: entry.payload ?? null
+        });
+        return;
+      }
+
+      if (req.method === "GET" && pathname === "/api/debug/replay/methods") {
+        jsonResponse(res, 200, {
+          ok: true,
+          methods: collectObservedMethods(historyStore.recent())
         });
         return;
       }
 
       if (req.method === "POST" && pathname === "/api/debug/replay") {
-        if (!codexAdapter) {
-          jsonResponse(res, 503, {
-            ok: false,
-            error: "Codex adapter is not enabled"
-          });
+        const adapter = requireReplayAdapter(res);
+        if (!adapter) {
           return;
         }
 
-        if (!codexAdapter.isIpcReady()) {
-          jsonResponse(res, 503, {
-            ok: false,
-            error: codexAdapter.getRuntimeState().lastError ?? "Desktop IPC is not connected"
+        const body = parseBody(ReplayBodySchema, await readJsonBody(req));
+        let frame: ReplayFrame;
+        let entryId: string | null = null;
+        if ("frame" in body) {
+          frame = {
+            type: body.frame.type,
+            method: body.frame.method,
+            params: body.frame.params,
+            ...(body.frame.targetClientId ? { targetClientId: body.frame.targetClientId } : {}),
+            ...(body.frame.version !== undefined ? { version: body.frame.version } : {})
+          };
+        } else {
+          const entry = historyStore.get(body.entryId);
+          if (!entry) {
+            jsonResponse(res, 404, { ok: false, error: "History entry not found" });
+            return;
+          }
+
+          try {
+            frame = parseReplayFrame(entry.payload);
+          } catch (error) {
+            jsonResponse(res, 409, {
+              ok: false,
+              error: toErrorMessage(error)
+            });
+            return;
+          }
+          entryId = entry.id;
+        }
+
+        const replayPromise = sendReplayFrame(adapter, frame);
+        if (frame.type === "request" && !body.waitForResponse) {
+          void replayPromise.catch((error) => {
+            pushSystem("Replay request failed", {
+              error: toErrorMessage(error),
+              method: frame.method,
+              ...(entryId ? { entryId } : {})
+            });
+          });
+
+          jsonResponse(res, 200, {
+            ok: true,
+            replayed: true,
+            queued: true
           });
           return;
         }
 
-        const body = parseBody(ReplayBodySchema, await readJsonBody(req));
-        const entry = history.find((item) => item.id === body.entryId);
-        if (!entry) {
+        const response = await replayPromise;
+        jsonResponse(res, 200, {
+          ok: true,
+          replayed: true,
+          ...(frame.type === "request" ? { response } : {})
+        });
+        return;
+      }
+
+      if (req.method === "POST" && pathname === "/api/debug/replay/batch") {
+        const adapter = requireReplayAdapter(res);
+        if (!adapter) {
+          return;
+        }
+
+        if (replayBatch && !replayBatch.isFinished) {
+          jsonResponse(res, 409, { ok: false, error: "A replay batch is already running" });
+          return;
+        }
+
+        const body = parseBody(ReplayBatchBodySchema, await readJsonBody(req));
+        // Entries go out in capture order, whatever order they were selected in.
+        const entries = historyStore.getInOrder(body.entryIds);
+        if (entries.length !== new Set(body.entryIds).size) {
           jsonResponse(res, 404, { ok: false, error: "History entry not found" });
           return;
         }
 
-        let frame: ParsedReplayFrame;
+        let batch: ReplayBatch;
         try {
-          frame = parseReplayFrame(historyById.get(entry.id));
+          batch = new ReplayBatch({
+            entries,
+            delayMs: body.delayMs,
+            timing: body.timing,
+            send: (frame) => sendReplayFrame(adapter, frame)
+          });
         } catch (error) {
           jsonResponse(res, 409, {
             ok: false,
@@ -1031,41 +2103,104 @@ const server = http.createServer(async (req, res) => {
           return;
         }
 
-        const options: SendRequestOptions = {
-          ...(frame.targetClientId ? { targetClientId: frame.targetClientId } : {}),
-          ...(typeof frame.version === "number" ? { version: frame.version } : {})
-        };
+        replayBatch = batch;
+        replayBatchWatchers.clear();
+        if (replayBatchWatchTimer) {
+          clearTimeout(replayBatchWatchTimer);
+        }
+        replayBatchWatchTimer = setTimeout(() => {
+          replayBatchWatchTimer = null;
+          if (replayBatchWatchers.size === 0) {
+            batch.cancel();
+          }
+        }, REPLAY_BATCH_WATCH_TIMEOUT_MS);
+        pushSystem("Replay batch started", { batchId: batch.id, total: batch.total, timing: body.timing });
+        // Batches can run for hours, so progress goes out on the batch's event stream.
+        void batch.run().then((result) => {
+          if (replayBatchWatchTimer && replayBatch === batch) {
+            clearTimeout(replayBatchWatchTimer);
+            replayBatchWatchTimer = null;
+          }
+          pushSystem("Replay batch finished", {
+            batchId: batch.id,
+            sent: result.steps.length,
+            failed: result.steps.filter((step) => !step.ok).length,
+            cancelled: result.cancelled
+          });
+        });
+        jsonResponse(res, 200, { ok: true, id: batch.id, total: batch.total });
+        return;
+      }
 
-        if (frame.type === "request") {
-          const replayPromise = codexAdapter.replayRequest(frame.method, frame.params, options);
+      if (req.method === "POST" && pathname === "/api/debug/replay/batch/cancel") {
+        if (!replayBatch || replayBatch.isFinished) {
+          jsonResponse(res, 404, { ok: false, error: "No replay batch is running" });
+          return;
+        }
 
-          if (body.waitForResponse) {
-            const response = await replayPromise;
-            jsonResponse(res, 200, {
-              ok: true,
-              replayed: true,
-              response
-            });
-            return;
-          }
+        replayBatch.cancel();
+        jsonResponse(res, 200, { ok: true });
+        return;
+      }
 
-          void replayPromise.catch((error) => {
-            pushSystem("Replay request failed", {
-              error: toErrorMessage(error),
-              entryId: entry.id
-            });
-          });
+      if (
+        req.method === "GET" &&
+        segments[2] === "replay" &&
+        segments[3] === "batch" &&
+        segments[4] &&
+        segments[5] === "events"
+      ) {
+        const batch = replayBatch;
+        if (!batch || batch.id !== decodeURIComponent(segments[4])) {
+          jsonResponse(res, 404, { ok: false, error: "Replay batch not found" });
+          return;
+        }
 
-          jsonResponse(res, 200, {
-            ok: true,
-            replayed: true,
-            queued: true
-          });
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "Access-Control-Allow-Origin": "*"
+        });
+        eventResponse(res, batch.progress);
+        if (batch.isFinished) {
+          res.end();
           return;
         }
 
-        codexAdapter.replayBroadcast(frame.method, frame.params, options);
-        jsonResponse(res, 200, { ok: true, replayed: true });
+        if (replayBatchWatchTimer) {
+          clearTimeout(replayBatchWatchTimer);
+          replayBatchWatchTimer = null;
+        }
+        replayBatchWatchers.add(res);
+        const unsubscribe = batch.onProgress((progress) => {
+          eventResponse(res, progress);
+          if (progress.finished) {
+            res.end();
+          }
+        });
+        req.on("close", () => {
+          unsubscribe();
+          replayBatchWatchers.delete(res);
+          if (replayBatch === batch && replayBatchWatchers.size === 0) {
+            batch.cancel();
+          }
+        });
+        return;
+      }
+
+      if (req.method === "GET" && pathname === "/api/debug/protocol-drift") {
+        jsonResponse(res, 200, {
+          ok: true,
+          totalFailures: protocolDrift.totalFailures,
+          entries: protocolDrift.list()
+        });
+        return;
+      }
+
+      if (req.method === "POST" && pathname === "/api/debug/protocol-drift/clear") {
+        protocolDrift.clear();
+        jsonResponse(res, 200, { ok: true });
         return;
       }
 
@@ -1073,7 +2208,7 @@ const server = http.createServer(async (req, res) => {
         jsonResponse(res, 200, {
           ok: true,
           active: activeTrace?.summary ?? null,
-          recent: recentTraces
+          recent: traceStore.list().slice(0, 20)
         });
         return;
       }
@@ -1088,27 +2223,14 @@ const server = http.createServer(async (req, res) => {
           return;
         }
 
-        ensureTraceDirectory();
-        const id = `${Date.now()}-${randomUUID()}`;
-        const tracePath = path.join(TRACE_DIR, `${id}.ndjson`);
-        const stream = fs.createWriteStream(tracePath, { flags: "a" });
-
-        const summary: TraceSummary = {
-          id,
-          label: body.label,
-          startedAt: new Date().toISOString(),
-          stoppedAt: null,
-          eventCount: 0,
-          path: tracePath
-        };
-
+        const summary = traceStore.create(body.label);
         activeTrace = {
           summary,
-          stream
+          stream: fs.createWriteStream(summary.path, { flags: "a" })
         };
 
         pushSystem("Trace started", {
-          traceId: id,
+          traceId: summary.id,
           label: body.label
         });
 
@@ -1149,12 +2271,7 @@ const server = http.createServer(async (req, res) => {
         activeTrace = null;
 
         trace.summary.stoppedAt = new Date().toISOString();
-        trace.stream.end();
-
-        recentTraces.unshift(trace.summary);
-        if (recentTraces.length > 20) {
-          recentTraces.splice(20);
-        }
+        trace.stream.end(`${JSON.stringify({ type: "trace-stop", at: trace.summary.stoppedAt })}\n`);
 
         pushSystem("Trace stopped", { traceId: trace.summary.id });
 
@@ -1172,9 +2289,9 @@ const server = http.createServer(async (req, res) => {
         segments[4] === "download"
       ) {
         const traceId = decodeURIComponent(segments[3]);
-        const trace = recentTraces.find((item) => item.id === traceId);
+        const trace = traceStore.get(traceId);
 
-        if (!trace || !fs.existsSync(trace.path)) {
+        if (!trace) {
           jsonResponse(res, 404, { ok: false, error: "Trace not found" });
           return;
         }
@@ -1189,6 +2306,102 @@ const server = http.createServer(async (req, res) => {
         res.end(data);
         return;
       }
+
+      if (req.method === "GET" && pathname === "/api/debug/traces") {
+        jsonResponse(res, 200, {
+          ok: true,
+          active: activeTrace?.summary ?? null,
+          traces: traceStore.list()
+        });
+        return;
+      }
+
+      if (req.method === "POST" && pathname === "/api/debug/traces") {
+        const name = url.searchParams.get("name")?.trim() ?? "";
+        if (!name) {
+          jsonResponse(res, 400, { ok: false, error: "Missing trace file name" });
+          return;
+        }
+
+        const data = await readRawBody(req, MAX_TRACE_UPLOAD_BYTES);
+        if (!data) {
+          jsonResponse(res, 413, {
+            ok: false,
+            error: `Traces are limited to ${Math.floor(MAX_TRACE_UPLOAD_BYTES / (1024 * 1024))} MB`
+          });
+          return;
+        }
+        if (data.length === 0) {
+          jsonResponse(res, 400, { ok: false, error: "Trace is empty" });
+          return;
+        }
+
+        let trace: TraceSummary;
+        try {
+          trace = traceStore.save(name, data);
+        } catch (error) {
+          jsonResponse(res, 400, { ok: false, error: toErrorMessage(error) });
+          return;
+        }
+
+        pushSystem("Trace uploaded", { traceId: trace.id, eventCount: trace.eventCount });
+        jsonResponse(res, 200, { ok: true, trace });
+        return;
+      }
+
+      if (segments[2] === "traces" && segments[3]) {
+        const traceId = decodeURIComponent(segments[3]);
+
+        if (req.method === "GET" && !segments[4]) {
+          const trace = traceStore.get(traceId);
+          if (!trace) {
+            jsonResponse(res, 404, { ok: false, error: "Trace not found" });
+            return;
+          }
+
+          try {
+            jsonResponse(res, 200, { ok: true, trace, entries: traceStore.readEntries(traceId) ?? [] });
+          } catch (error) {
+            jsonResponse(res, 422, { ok: false, error: toErrorMessage(error) });
+          }
+          return;
+        }
+
+        if (req.method === "GET" && segments[4] === "state") {
+          const threadId = url.searchParams.get("threadId")?.trim() ?? "";
+          const rawEntryIndex = url.searchParams.get("entryIndex");
+          // Entry 0 is valid, so parseInteger's positive-only fallback does not fit here.
+          const entryIndex = rawEntryIndex ? Number(rawEntryIndex) : Number.NaN;
+          if (!threadId || !Number.isInteger(entryIndex)) {
+            jsonResponse(res, 400, { ok: false, error: "Missing threadId or entryIndex" });
+            return;
+          }
+
+          const state = traceStore.readThreadStateAt(traceId, entryIndex, threadId);
+          if (!state) {
+            jsonResponse(res, 404, { ok: false, error: "Trace entry not found" });
+            return;
+          }
+
+          jsonResponse(res, 200, { ok: true, ...state });
+          return;
+        }
+
+        if (req.method === "POST" && segments[4] === "delete") {
+          if (activeTrace?.summary.id === traceId) {
+            jsonResponse(res, 409, { ok: false, error: "Stop the trace before deleting it" });
+            return;
+          }
+          if (!traceStore.delete(traceId)) {
+            jsonResponse(res, 404, { ok: false, error: "Trace not found" });
+            return;
+          }
+
+          pushSystem("Trace deleted", { traceId });
+          jsonResponse(res, 200, { ok: true });
+          return;
+        }
+      }
     }
 
     jsonResponse(res, 404, { ok: false, error: "Not found" });
@@ -1216,8 +2429,6 @@ const server = http.createServer(async (req, res) => {
 });
 
 async function start(): Promise<void> {
-  ensureTraceDirectory();
-
   pushSystem("Starting Farfield monitor server", {
     appExecutable: codexExecutable,
     socketPath: ipcSocketPath,
@@ -1240,9 +2451,20 @@ async function start(): Promise<void> {
     url: `http://${HOST}:${PORT}`,
     appExecutable: codexExecutable,
     socketPath: ipcSocketPath,
-    agentIds: configuredAgentIds
+    agentIds: configuredAgentIds,
+    authTokenSource: authToken.generated ? "generated" : "env"
   });
 
+  if (authToken.generated) {
+    logger.warn(
+      {
+        pairingToken: authToken.token,
+        hint: "Set FARFIELD_AUTH_TOKEN to use a fixed token across restarts"
+      },
+      "auth-pairing-token"
+    );
+  }
+
   for (const adapter of registry.listAdapters()) {
     try {
       await adapter.start();
@@ -1271,17 +2493,31 @@ async function start(): Promise<void> {
     }
   }
 
+  void searchIndex.refresh(registry.listEnabled());
+
   broadcastRuntimeState();
   logger.info({ url: `http://${HOST}:${PORT}` }, "monitor-server-ready");
 }
 
 async function shutdown(): Promise<void> {
+  threadDeltaPublisher.close();
+  uploadStore.close();
+  threadNotificationScheduler.close();
+  searchIndex.close();
+  if (replayBatchWatchTimer) {
+    clearTimeout(replayBatchWatchTimer);
+    replayBatchWatchTimer = null;
+  }
+  replayBatch?.cancel();
   if (activeTrace) {
     activeTrace.stream.end();
     activeTrace = null;
   }
 
   await registry.stopAll();
+  await historyStore.close();
+  await threadStore.flush();
+  await notificationStore.flush();
   await new Promise<void>((resolve) => server.close(() => resolve()));
 }
 
@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { resolveDataDir } from "./thread-store.js";
+
+const STORE_VERSION = 1;
+const DEFAULT_FLUSH_DELAY_MS = 250;
+
+const PushSubscriptionRecordSchema = z
+  .object({
+    endpoint: z.string().url(),
+    keys: z
+      .object({
+        p256dh: z.string().min(1),
+        auth: z.string().min(1)
+      })
+      .strict(),
+    createdAt: z.number().int().nonnegative()
+  })
+  .strict();
+
+const VapidKeysSchema = z
+  .object({
+    publicKey: z.string().min(1),
+    privateKey: z.string().min(1)
+  })
+  .strict();
+
+const NotificationStoreFileSchema = z
+  .object({
+    version: z.literal(STORE_VERSION),
+    mutedThreadIds: z.array(z.string().min(1)),
+    pushSubscriptions: z.array(PushSubscriptionRecordSchema),
+    vapidKeys: VapidKeysSchema.nullable()
+  })
+  .strict();
+
+export type PushSubscriptionRecord = z.infer<typeof PushSubscriptionRecordSchema>;
+export type VapidKeys = z.infer<typeof VapidKeysSchema>;
+
+export interface NotificationStoreOptions {
+  filePath: string;
+  flushDelayMs?: number;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+}
+
+export function resolveNotificationStorePath(env: NodeJS.ProcessEnv, cwd: string): string {
+  return path.join(resolveDataDir(env, cwd), "notifications.json");
+}
+
+/**
+ * Server-side notification settings: muted threads, browser push
+ * subscriptions and the VAPID key pair those subscriptions were made against.
+ */
+export class NotificationStore {
+  private readonly filePath: string;
+  private readonly flushDelayMs: number;
+  private readonly now: () => number;
+  private readonly onError: ((error: unknown) => void) | null;
+  private readonly mutedThreadIds = new Set<string>();
+  private readonly subscriptions = new Map<string, PushSubscriptionRecord>();
+  private vapidKeys: VapidKeys | null = null;
+
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writeInFlight: Promise<void> = Promise.resolve();
+
+  public constructor(options: NotificationStoreOptions) {
+    this.filePath = options.filePath;
+    this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+    this.now = options.now ?? Date.now;
+    this.onError = options.onError ?? null;
+  }
+
+  public load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.onError?.(error);
+      }
+      return;
+    }
+
+    let parsed: z.infer<typeof NotificationStoreFileSchema>;
+    try {
+      parsed = NotificationStoreFileSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      this.onError?.(error);
+      return;
+    }
+
+    this.mutedThreadIds.clear();
+    for (const threadId of parsed.mutedThreadIds) {
+      this.mutedThreadIds.add(threadId);
+    }
+    this.subscriptions.clear();
+    for (const subscription of parsed.pushSubscriptions) {
+      this.subscriptions.set(subscription.endpoint, subscription);
+    }
+    this.vapidKeys = parsed.vapidKeys;
+  }
+
+  public isMuted(threadId: string): boolean {
+    return this.mutedThreadIds.has(threadId);
+  }
+
+  public listMuted(): string[] {
+    return Array.from(this.mutedThreadIds);
+  }
+
+  public setMuted(threadId: string, muted: boolean): void {
+    if (this.mutedThreadIds.has(threadId) === muted) {
+      return;
+    }
+
+    if (muted) {
+      this.mutedThreadIds.add(threadId);
+    } else {
+      this.mutedThreadIds.delete(threadId);
+    }
+    this.scheduleFlush();
+  }
+
+  public listSubscriptions(): PushSubscriptionRecord[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  public addSubscription(subscription: Omit<PushSubscriptionRecord, "createdAt">): void {
+    const existing = this.subscriptions.get(subscription.endpoint);
+    if (
+      existing &&
+      existing.keys.p256dh === subscription.keys.p256dh &&
+      existing.keys.auth === subscription.keys.auth
+    ) {
+      return;
+    }
+
+    this.subscriptions.set(subscription.endpoint, { ...subscription, createdAt: this.now() });
+    this.scheduleFlush();
+  }
+
+  public removeSubscription(endpoint: string): boolean {
+    if (!this.subscriptions.delete(endpoint)) {
+      return false;
+    }
+    this.scheduleFlush();
+    return true;
+  }
+
+  /** Returns the stored VAPID keys, creating and persisting them on first use. */
+  public getVapidKeys(create: () => VapidKeys): VapidKeys {
+    if (!this.vapidKeys) {
+      this.vapidKeys = create();
+      // Existing subscriptions were made against other keys and would be rejected.
+      this.subscriptions.clear();
+      this.scheduleFlush();
+    }
+    return this.vapidKeys;
+  }
+
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const payload = JSON.stringify(
+      {
+        version: STORE_VERSION,
+        mutedThreadIds: this.listMuted(),
+        pushSubscriptions: this.listSubscriptions(),
+        vapidKeys: this.vapidKeys
+      },
+      null,
+      2
+    );
+
+    this.writeInFlight = this.writeInFlight.then(() => this.write(payload));
+    return this.writeInFlight;
+  }
+
+  private async write(payload: string): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, payload, { encoding: "utf8", mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushDelayMs);
+  }
+}
@@ -0,0 +1,434 @@
+import { randomUUID } from "node:crypto";
+import { UserInputRequestSchema, type ThreadConversationState } from "@farfield/protocol";
+import type { NotificationStore, VapidKeys } from "./notification-store.js";
+import { sendWebPush } from "./web-push.js";
+import type { AgentApprovalRequest, AgentId } from "./agents/types.js";
+
+export type NotificationKind =
+  | "turnCompleted"
+  | "turnFailed"
+  | "userInputRequested"
+  | "approvalRequested";
+
+export interface NotificationEvent {
+  id: string;
+  kind: NotificationKind;
+  agentId: AgentId;
+  threadId: string;
+  turnId: string | null;
+  title: string;
+  body: string;
+  // App path that opens the thread.
+  url: string;
+  at: string;
+}
+
+export interface ThreadObservation {
+  agentId: AgentId;
+  threadId: string;
+  thread: ThreadConversationState | null;
+  approvals: AgentApprovalRequest[];
+}
+
+export interface NotificationSink {
+  readonly name: string;
+  deliver(event: NotificationEvent): Promise<void>;
+}
+
+type ThreadTurn = ThreadConversationState["turns"][number];
+
+const TERMINAL_TURN_STATUSES = new Set(["completed", "failed", "interrupted"]);
+const BODY_MAX_LENGTH = 180;
+const DEFAULT_MAX_THREADS = 500;
+const DEFAULT_OBSERVE_DELAY_MS = 500;
+
+interface ObservedThread {
+  // Null until a conversation snapshot has been seen for the thread.
+  turnStatuses: Map<string, string> | null;
+  requestKeys: Set<string>;
+}
+
+function truncate(value: string, maxLength: number): string {
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function turnKey(turn: ThreadTurn, index: number): string {
+  return turn.id ?? turn.turnId ?? `#${index}`;
+}
+
+function lastAgentMessage(turn: ThreadTurn): string | null {
+  for (let index = turn.items.length - 1; index >= 0; index -= 1) {
+    const item = turn.items[index];
+    if (item?.type === "agentMessage" && item.text.trim()) {
+      return item.text;
+    }
+  }
+  return null;
+}
+
+function turnErrorMessage(turn: ThreadTurn): string {
+  const error = turn.error;
+  if (typeof error === "string" && error.trim()) {
+    return error;
+  }
+  if (error && typeof error === "object" && !Array.isArray(error)) {
+    const message = error["message"];
+    if (typeof message === "string" && message.trim()) {
+      return message;
+    }
+  }
+  for (const item of turn.items) {
+    if (item.type === "error") {
+      return item.message;
+    }
+  }
+  return "The turn failed";
+}
+
+function approvalBody(approval: AgentApprovalRequest): string {
+  switch (approval.kind) {
+    case "commandExecution":
+      return approval.params.command ? `Run ${approval.params.command}` : "Run a command";
+    case "fileChange":
+      return approval.params.reason ?? "Apply file changes";
+    case "opencodePermission":
+    case "acpPermission":
+      return approval.params.title;
+  }
+}
+
+function threadTitle(thread: ThreadConversationState | null): string {
+  return thread?.title?.trim() || "Thread";
+}
+
+/**
+ * Turns successive thread snapshots into notification events. The first
+ * snapshot of a thread only seeds state, so restarting the server does not
+ * replay notifications for work that finished earlier.
+ */
+export class NotificationDetector {
+  private readonly threads = new Map<string, ObservedThread>();
+  private readonly maxThreads: number;
+  private readonly now: () => Date;
+
+  public constructor(options: { maxThreads?: number; now?: () => Date } = {}) {
+    this.maxThreads = options.maxThreads ?? DEFAULT_MAX_THREADS;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  public observe(observation: ThreadObservation): NotificationEvent[] {
+    const { thread, threadId } = observation;
+    const previous = this.threads.get(threadId);
+    const knownTurns = previous?.turnStatuses ?? null;
+    const next: ObservedThread = {
+      turnStatuses: thread ? new Map() : knownTurns,
+      requestKeys: new Set<string>()
+    };
+    const events: NotificationEvent[] = [];
+
+    thread?.turns.forEach((turn, index) => {
+      const key = turnKey(turn, index);
+      const previousStatus = knownTurns?.get(key);
+      next.turnStatuses?.set(key, turn.status);
+      if (!knownTurns || previousStatus === turn.status || !TERMINAL_TURN_STATUSES.has(turn.status)) {
+        return;
+      }
+      // An interrupt is something the user just did, not news.
+      if (turn.status === "interrupted") {
+        return;
+      }
+      if (previousStatus !== undefined && TERMINAL_TURN_STATUSES.has(previousStatus)) {
+        return;
+      }
+
+      const turnId = turn.id ?? turn.turnId ?? null;
+      events.push(
+        turn.status === "failed"
+          ? this.createEvent(observation, "turnFailed", turnId, turnErrorMessage(turn))
+          : this.createEvent(
+              observation,
+              "turnCompleted",
+              turnId,
+              lastAgentMessage(turn) ?? "The agent finished its turn"
+            )
+      );
+    });
+
+    for (const request of thread?.requests ?? []) {
+      const parsed = UserInputRequestSchema.safeParse(request);
+      if (!parsed.success || parsed.data.completed === true) {
+        continue;
+      }
+      const key = `input:${parsed.data.id}`;
+      next.requestKeys.add(key);
+      if (previous && !previous.requestKeys.has(key)) {
+        const question = parsed.data.params.questions[0];
+        events.push(
+          this.createEvent(
+            observation,
+            "userInputRequested",
+            parsed.data.params.turnId,
+            question?.question ?? question?.header ?? "The agent is waiting for your answer"
+          )
+        );
+      }
+    }
+
+    for (const approval of observation.approvals) {
+      const key = `approval:${String(approval.requestId)}`;
+      next.requestKeys.add(key);
+      // Approval requests only exist while the server is running, so none are stale.
+      if (!previous?.requestKeys.has(key)) {
+        const turnId =
+          approval.kind === "commandExecution" || approval.kind === "fileChange"
+            ? approval.params.turnId
+            : null;
+        events.push(this.createEvent(observation, "approvalRequested", turnId, approvalBody(approval)));
+      }
+    }
+
+    this.threads.delete(threadId);
+    this.threads.set(threadId, next);
+    if (this.threads.size > this.maxThreads) {
+      const oldest = this.threads.keys().next().value;
+      if (oldest !== undefined) {
+        this.threads.delete(oldest);
+      }
+    }
+    return events;
+  }
+
+  private createEvent(
+    observation: ThreadObservation,
+    kind: NotificationKind,
+    turnId: string | null,
+    body: string
+  ): NotificationEvent {
+    return {
+      id: randomUUID(),
+      kind,
+      agentId: observation.agentId,
+      threadId: observation.threadId,
+      turnId,
+      title: threadTitle(observation.thread),
+      body: truncate(body, BODY_MAX_LENGTH),
+      url: `/threads/${encodeURIComponent(observation.threadId)}`,
+      at: this.now().toISOString()
+    };
+  }
+}
+
+export interface NotificationCenterOptions {
+  store: Pick<NotificationStore, "isMuted">;
+  sinks: NotificationSink[];
+  detector?: NotificationDetector;
+  onError?: (error: unknown, sink: string, event: NotificationEvent) => void;
+}
+
+/** Detects notifications for observed threads and fans them out to every sink. */
+export class NotificationCenter {
+  private readonly store: Pick<NotificationStore, "isMuted">;
+  private readonly sinks: NotificationSink[];
+  private readonly detector: NotificationDetector;
+  private readonly onError: ((error: unknown, sink: string, event: NotificationEvent) => void) | null;
+
+  public constructor(options: NotificationCenterOptions) {
+    this.store = options.store;
+    this.sinks = options.sinks;
+    this.detector = options.detector ?? new NotificationDetector();
+    this.onError = options.onError ?? null;
+  }
+
+  public async observe(observation: ThreadObservation): Promise<NotificationEvent[]> {
+    const events = this.detector.observe(observation);
+    if (events.length === 0 || this.store.isMuted(observation.threadId)) {
+      return [];
+    }
+
+    await Promise.all(
+      events.flatMap((event) =>
+        this.sinks.map(async (sink) => {
+          try {
+            await sink.deliver(event);
+          } catch (error) {
+            this.onError?.(error, sink.name, event);
+          }
+        })
+      )
+    );
+    return events;
+  }
+}
+
+export interface ThreadNotificationSchedulerOptions {
+  /** Reads the thread and hands it to the notification center. */
+  observe: (agentId: AgentId, threadId: string) => Promise<void>;
+  delayMs?: number;
+}
+
+/** Coalesces the stream of updates a running turn produces into one observation per thread. */
+export class ThreadNotificationScheduler {
+  private readonly observe: (agentId: AgentId, threadId: string) => Promise<void>;
+  private readonly delayMs: number;
+  private readonly timersByThreadId = new Map<string, NodeJS.Timeout>();
+
+  public constructor(options: ThreadNotificationSchedulerOptions) {
+    this.observe = options.observe;
+    this.delayMs = options.delayMs ?? DEFAULT_OBSERVE_DELAY_MS;
+  }
+
+  public schedule(agentId: AgentId, threadId: string): void {
+    if (this.timersByThreadId.has(threadId)) {
+      return;
+    }
+
+    this.timersByThreadId.set(
+      threadId,
+      setTimeout(() => {
+        this.timersByThreadId.delete(threadId);
+        void this.observe(agentId, threadId);
+      }, this.delayMs)
+    );
+  }
+
+  public close(): void {
+    for (const timer of this.timersByThreadId.values()) {
+      clearTimeout(timer);
+    }
+    this.timersByThreadId.clear();
+  }
+}
+
+const NTFY_TAGS: Record<NotificationKind, string> = {
+  turnCompleted: "white_check_mark",
+  turnFailed: "x",
+  userInputRequested: "question",
+  approvalRequested: "warning"
+};
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+export type WebhookFormat = "json" | "ntfy";
+
+export interface WebhookSinkOptions {
+  url: string;
+  format: WebhookFormat;
+  // Prefix for the thread link, e.g. the address the web app is served from.
+  publicUrl?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Header values must be Latin-1, so titles with emoji, CJK text or typographic
+ * punctuation go out as an RFC 2047 encoded word, which ntfy decodes.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+export function resolveWebhookSinkOptions(env: NodeJS.ProcessEnv): WebhookSinkOptions | null {
+  const url = env["FARFIELD_NOTIFY_WEBHOOK_URL"]?.trim();
+  if (!url) {
+    return null;
+  }
+
+  const format = env["FARFIELD_NOTIFY_WEBHOOK_FORMAT"]?.trim().toLowerCase() ?? "json";
+  if (format !== "json" && format !== "ntfy") {
+    throw new Error(`FARFIELD_NOTIFY_WEBHOOK_FORMAT must be json or ntfy, got ${format}`);
+  }
+
+  const publicUrl = env["FARFIELD_PUBLIC_URL"]?.trim();
+  return { url, format, ...(publicUrl ? { publicUrl } : {}) };
+}
+
+/**
+ * Posts notifications to a local webhook. `json` sends the event as is;
+ * `ntfy` sends the body as text with the title and tags in ntfy headers.
+ */
+export class WebhookSink implements NotificationSink {
+  public readonly name = "webhook";
+  private readonly options: WebhookSinkOptions;
+
+  public constructor(options: WebhookSinkOptions) {
+    this.options = options;
+  }
+
+  public async deliver(event: NotificationEvent): Promise<void> {
+    const link = this.options.publicUrl
+      ? new URL(event.url, this.options.publicUrl).toString()
+      : null;
+    // A webhook that never answers must not hold up the other sinks.
+    const signal = AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS);
+    const response =
+      this.options.format === "ntfy"
+        ? await fetch(this.options.url, {
+            method: "POST",
+            headers: {
+              Title: encodeHeaderValue(event.title),
+              Tags: NTFY_TAGS[event.kind],
+              Priority: event.kind === "turnCompleted" ? "default" : "high",
+              ...(link ? { Click: link } : {})
+            },
+            body: event.body,
+            signal
+          })
+        : await fetch(this.options.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...event, ...(link ? { link } : {}) }),
+            signal
+          });
+    await response.arrayBuffer().catch(() => undefined);
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+export interface WebPushSinkOptions {
+  store: Pick<NotificationStore, "listSubscriptions" | "removeSubscription">;
+  vapidKeys: () => VapidKeys;
+  subject: string;
+}
+
+/** Sends notifications to every browser that subscribed through the web app. */
+export class WebPushSink implements NotificationSink {
+  public readonly name = "web-push";
+  private readonly options: WebPushSinkOptions;
+
+  public constructor(options: WebPushSinkOptions) {
+    this.options = options;
+  }
+
+  public async deliver(event: NotificationEvent): Promise<void> {
+    const subscriptions = this.options.store.listSubscriptions();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload = JSON.stringify(event);
+    const failures: string[] = [];
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        try {
+          const result = await sendWebPush(subscription, payload, {
+            vapidKeys: this.options.vapidKeys(),
+            subject: this.options.subject
+          });
+          if (result.expired) {
+            this.options.store.removeSubscription(subscription.endpoint);
+          }
+        } catch (error) {
+          failures.push(error instanceof Error ? error.message : String(error));
+        }
+      })
+    );
+    if (failures.length > 0) {
+      throw new Error(failures.join("; "));
+    }
+  }
+}
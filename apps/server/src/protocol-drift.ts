@@ -0,0 +1,153 @@
+import type { ProtocolValidationIssue } from "@farfield/protocol";
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_SAMPLES = 3;
+const MAX_SAMPLE_CHARS = 8_000;
+
+export type ProtocolDriftSource = "ipc" | "app-server";
+
+export interface ProtocolDriftFailure {
+  source: ProtocolDriftSource;
+  method: string;
+  details: ProtocolValidationIssue[];
+  /** The value that was validated; issue paths are relative to it. */
+  payload: unknown;
+}
+
+export interface ProtocolDriftSample {
+  at: string;
+  /** The concrete path, with array indexes, of this occurrence. */
+  path: Array<string | number>;
+  /** The object holding the rejected field, or the payload when the issue is at its root. */
+  value: unknown;
+  truncated: boolean;
+}
+
+export interface ProtocolDriftEntry {
+  source: ProtocolDriftSource;
+  method: string;
+  /** Schema path with array indexes collapsed to `[]`, e.g. `turns[].items[].type`. */
+  path: string;
+  code: string;
+  message: string;
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  samples: ProtocolDriftSample[];
+}
+
+export interface ProtocolDriftTrackerOptions {
+  maxEntries?: number;
+  maxSamples?: number;
+  now?: () => Date;
+}
+
+export function formatSchemaPath(path: Array<string | number>): string {
+  let formatted = "";
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      formatted += "[]";
+    } else {
+      formatted += formatted.length === 0 ? segment : `.${segment}`;
+    }
+  }
+  return formatted.length === 0 ? "(root)" : formatted;
+}
+
+function valueAt(payload: unknown, path: Array<string | number>): unknown {
+  let current = payload;
+  for (const segment of path) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function toSample(at: string, payload: unknown, path: Array<string | number>): ProtocolDriftSample {
+  const value = valueAt(payload, path.slice(0, -1));
+  const serialized = JSON.stringify(value) ?? "null";
+  if (serialized.length <= MAX_SAMPLE_CHARS) {
+    return { at, path, value: value ?? null, truncated: false };
+  }
+  return { at, path, value: `${serialized.slice(0, MAX_SAMPLE_CHARS)}…`, truncated: true };
+}
+
+/**
+ * Aggregates schema validation failures by source, method, schema path and
+ * issue code, so fields a new Codex build sends that our schemas reject show
+ * up once with a count and a few sample payloads instead of as log noise.
+ */
+export class ProtocolDriftTracker {
+  private readonly maxEntries: number;
+  private readonly maxSamples: number;
+  private readonly now: () => Date;
+  private readonly entries = new Map<string, ProtocolDriftEntry>();
+  private failureCount = 0;
+
+  public constructor(options: ProtocolDriftTrackerOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxSamples = options.maxSamples ?? DEFAULT_MAX_SAMPLES;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Payloads rejected since start or the last clear; one payload can produce several entries. */
+  public get totalFailures(): number {
+    return this.failureCount;
+  }
+
+  public record(failure: ProtocolDriftFailure): void {
+    this.failureCount += 1;
+    const at = this.now().toISOString();
+
+    for (const issue of failure.details) {
+      const path = formatSchemaPath(issue.path);
+      const key = JSON.stringify([failure.source, failure.method, path, issue.code]);
+      const existing = this.entries.get(key);
+      if (existing) {
+        // Re-insert so iteration order stays least recently seen first.
+        this.entries.delete(key);
+        existing.count += 1;
+        existing.lastSeenAt = at;
+        existing.message = issue.message;
+        existing.samples.push(toSample(at, failure.payload, issue.path));
+        if (existing.samples.length > this.maxSamples) {
+          existing.samples.splice(0, existing.samples.length - this.maxSamples);
+        }
+        this.entries.set(key, existing);
+        continue;
+      }
+
+      this.entries.set(key, {
+        source: failure.source,
+        method: failure.method,
+        path,
+        code: issue.code,
+        message: issue.message,
+        count: 1,
+        firstSeenAt: at,
+        lastSeenAt: at,
+        samples: [toSample(at, failure.payload, issue.path)]
+      });
+      if (this.entries.size > this.maxEntries) {
+        const oldest = this.entries.keys().next().value;
+        if (oldest !== undefined) {
+          this.entries.delete(oldest);
+        }
+      }
+    }
+  }
+
+  /** Most recently seen first. */
+  public list(): ProtocolDriftEntry[] {
+    return Array.from(this.entries.values())
+      .reverse()
+      .map((entry) => ({ ...entry, samples: entry.samples.slice() }));
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.failureCount = 0;
+  }
+}
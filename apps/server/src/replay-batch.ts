@@ -0,0 +1,245 @@
+import { randomUUID } from "node:crypto";
+import type { IpcRequestFrame } from "@farfield/protocol";
+
+// Recorded gaps longer than this are squashed so an idle capture does not stall a batch.
+const MAX_RECORDED_GAP_MS = 60_000;
+
+export interface ReplayFrame {
+  type: "request" | "broadcast";
+  method: string;
+  params: IpcRequestFrame["params"];
+  targetClientId?: string;
+  version?: number;
+}
+
+export interface ReplayableEntry {
+  id: string;
+  at: string;
+  payload: unknown;
+}
+
+export interface ObservedMethod {
+  method: string;
+  type: ReplayFrame["type"];
+  count: number;
+  lastEntryId: string;
+}
+
+export interface ReplayBatchStep {
+  entryId: string;
+  method: string;
+  ok: boolean;
+  response?: unknown;
+  error?: string;
+}
+
+export interface ReplayBatchResult {
+  id: string;
+  steps: ReplayBatchStep[];
+  cancelled: boolean;
+}
+
+export interface ReplayBatchProgress extends ReplayBatchResult {
+  total: number;
+  finished: boolean;
+}
+
+export type ReplayBatchProgressListener = (progress: ReplayBatchProgress) => void;
+
+export interface ReplayBatchOptions {
+  /** Entries in the order they should be sent. */
+  entries: ReplayableEntry[];
+  delayMs: number;
+  /** `recorded` waits the captured gap between entries instead of `delayMs`. */
+  timing: "fixed" | "recorded";
+  /** Sends one frame, resolving with the response for requests. */
+  send: (frame: ReplayFrame) => Promise<unknown>;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function parseReplayFrame(payload: unknown): ReplayFrame {
+  if (!payload || typeof payload !== "object") {
+    throw new Error("Entry payload is unavailable");
+  }
+
+  const record = payload as Record<string, unknown>;
+  const type = record["type"];
+  if (type !== "request" && type !== "broadcast") {
+    throw new Error("Only captured request and broadcast entries can be replayed");
+  }
+
+  const method = record["method"];
+  if (typeof method !== "string" || method.trim().length === 0) {
+    throw new Error("Captured IPC frame has invalid method");
+  }
+
+  const targetClientId = record["targetClientId"];
+  const version = record["version"];
+
+  return {
+    type,
+    method,
+    params: record["params"],
+    ...(typeof targetClientId === "string" ? { targetClientId } : {}),
+    ...(typeof version === "number" ? { version } : {})
+  };
+}
+
+/** Methods seen in captured request and broadcast frames, for composing new ones. */
+export function collectObservedMethods(entries: ReplayableEntry[]): ObservedMethod[] {
+  const byKey = new Map<string, ObservedMethod>();
+  for (const entry of entries) {
+    let frame: ReplayFrame;
+    try {
+      frame = parseReplayFrame(entry.payload);
+    } catch {
+      continue;
+    }
+
+    const key = `${frame.type}:${frame.method}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.lastEntryId = entry.id;
+    } else {
+      byKey.set(key, { method: frame.method, type: frame.type, count: 1, lastEntryId: entry.id });
+    }
+  }
+
+  return Array.from(byKey.values()).sort(
+    (left, right) => left.method.localeCompare(right.method) || left.type.localeCompare(right.type)
+  );
+}
+
+/**
+ * Replays captured entries one after another. Requests wait for their
+ * response before the next frame goes out; a failed step is recorded and the
+ * batch carries on.
+ */
+export class ReplayBatch {
+  public readonly id = randomUUID();
+  private readonly frames: Array<{ entry: ReplayableEntry; frame: ReplayFrame }>;
+  private readonly delayMs: number;
+  private readonly timing: ReplayBatchOptions["timing"];
+  private readonly send: ReplayBatchOptions["send"];
+  private readonly steps: ReplayBatchStep[] = [];
+  private readonly progressListeners = new Set<ReplayBatchProgressListener>();
+  private cancelled = false;
+  private finished = false;
+  private wake: (() => void) | null = null;
+
+  public constructor(options: ReplayBatchOptions) {
+    this.frames = options.entries.map((entry) => {
+      try {
+        return { entry, frame: parseReplayFrame(entry.payload) };
+      } catch (error) {
+        throw new Error(`Entry ${entry.id}: ${toErrorMessage(error)}`);
+      }
+    });
+    this.delayMs = options.delayMs;
+    this.timing = options.timing;
+    this.send = options.send;
+  }
+
+  public get total(): number {
+    return this.frames.length;
+  }
+
+  public get isFinished(): boolean {
+    return this.finished;
+  }
+
+  public get progress(): ReplayBatchProgress {
+    return {
+      id: this.id,
+      total: this.total,
+      steps: this.steps.slice(),
+      cancelled: this.cancelled,
+      finished: this.finished
+    };
+  }
+
+  /** Called after every step and once more when the batch finishes. */
+  public onProgress(listener: ReplayBatchProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  public cancel(): void {
+    if (this.finished) {
+      return;
+    }
+    this.cancelled = true;
+    this.wake?.();
+  }
+
+  public async run(): Promise<ReplayBatchResult> {
+    for (const [index, { entry, frame }] of this.frames.entries()) {
+      if (index > 0) {
+        await this.wait(this.gapBefore(index));
+      }
+      if (this.cancelled) {
+        break;
+      }
+
+      try {
+        const response = await this.send(frame);
+        this.steps.push({
+          entryId: entry.id,
+          method: frame.method,
+          ok: true,
+          ...(frame.type === "request" ? { response } : {})
+        });
+      } catch (error) {
+        this.steps.push({ entryId: entry.id, method: frame.method, ok: false, error: toErrorMessage(error) });
+      }
+      this.emitProgress();
+    }
+
+    this.finished = true;
+    this.emitProgress();
+    return { id: this.id, steps: this.steps.slice(), cancelled: this.cancelled };
+  }
+
+  private emitProgress(): void {
+    const progress = this.progress;
+    for (const listener of this.progressListeners) {
+      listener(progress);
+    }
+  }
+
+  private gapBefore(index: number): number {
+    if (this.timing === "fixed") {
+      return this.delayMs;
+    }
+
+    const previous = Date.parse(this.frames[index - 1]?.entry.at ?? "");
+    const current = Date.parse(this.frames[index]?.entry.at ?? "");
+    if (Number.isNaN(previous) || Number.isNaN(current)) {
+      return this.delayMs;
+    }
+    return Math.min(Math.max(current - previous, 0), MAX_RECORDED_GAP_MS);
+  }
+
+  private wait(ms: number): Promise<void> {
+    if (ms <= 0 || this.cancelled) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
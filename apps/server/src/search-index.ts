@@ -0,0 +1,352 @@
+import type { ThreadConversationState } from "@farfield/protocol";
+import { logger } from "./logger.js";
+import type { AgentAdapter, AgentId, AgentThreadListItem } from "./agents/types.js";
+
+export type SearchEntryKind = "title" | "userMessage" | "agentMessage" | "command" | "fileChange";
+
+export interface SearchEntry {
+  // Null for thread-level entries such as the title.
+  turnId: string | null;
+  kind: SearchEntryKind;
+  text: string;
+}
+
+export interface SearchDocument {
+  threadId: string;
+  agentId: AgentId;
+  title: string;
+  cwd: string | null;
+  // Unix seconds, as reported by the thread list.
+  updatedAt: number;
+  entries: SearchEntry[];
+}
+
+export interface SearchQuery {
+  q: string;
+  agentId?: AgentId;
+  // Matches threads whose working directory is this path or inside it.
+  project?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export interface SearchResult {
+  threadId: string;
+  agentId: AgentId;
+  title: string;
+  cwd: string | null;
+  updatedAt: number;
+  turnId: string | null;
+  kind: SearchEntryKind;
+  snippet: string;
+  score: number;
+}
+
+export interface SearchRefreshOptions {
+  maxThreadsPerAgent?: number;
+}
+
+export interface SearchIndexOptions {
+  /** How long `scheduleRefresh` waits, coalescing every request made meanwhile. */
+  refreshDelayMs?: number;
+  /** Threads read at the same time per agent while refreshing. */
+  readConcurrency?: number;
+}
+
+const DEFAULT_RESULT_LIMIT = 50;
+const MAX_RESULTS_PER_THREAD = 3;
+const SNIPPET_RADIUS = 60;
+const TITLE_SCORE_BOOST = 3;
+const DEFAULT_MAX_THREADS_PER_AGENT = 200;
+const DEFAULT_REFRESH_DELAY_MS = 5_000;
+const DEFAULT_READ_CONCURRENCY = 4;
+
+function tokenizeQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((term) => term.length > 0)
+    )
+  );
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count += 1;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function buildSnippet(text: string, terms: string[]): string {
+  const collapsed = collapseWhitespace(text);
+  const lower = collapsed.toLowerCase();
+  const firstMatch = terms.reduce((best, term) => {
+    const index = lower.indexOf(term);
+    return index !== -1 && (best === -1 || index < best) ? index : best;
+  }, -1);
+  const center = Math.max(0, firstMatch);
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(collapsed.length, center + SNIPPET_RADIUS * 2);
+
+  return `${start > 0 ? "…" : ""}${collapsed.slice(start, end)}${end < collapsed.length ? "…" : ""}`;
+}
+
+function isInsideProject(cwd: string | null, project: string): boolean {
+  if (!cwd) {
+    return false;
+  }
+  const normalizedProject = project.replace(/\/+$/, "");
+  return cwd === normalizedProject || cwd.startsWith(`${normalizedProject}/`);
+}
+
+export function threadTitle(thread: AgentThreadListItem): string {
+  const name = thread.name?.trim();
+  return name && name.length > 0 ? name : thread.preview;
+}
+
+export function extractSearchEntries(thread: ThreadConversationState): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+
+  for (const turn of thread.turns) {
+    const turnId = turn.id ?? turn.turnId ?? null;
+    for (const item of turn.items) {
+      if (item.type === "userMessage" || item.type === "steeringUserMessage") {
+        const text = item.content
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join("\n")
+          .trim();
+        if (text) {
+          entries.push({ turnId, kind: "userMessage", text });
+        }
+      } else if (item.type === "agentMessage" && item.text.trim()) {
+        entries.push({ turnId, kind: "agentMessage", text: item.text });
+      } else if (item.type === "commandExecution" && item.command.trim()) {
+        entries.push({ turnId, kind: "command", text: item.command });
+      } else if (item.type === "fileChange") {
+        for (const change of item.changes) {
+          entries.push({ turnId, kind: "fileChange", text: change.path });
+        }
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * In-memory full-text index over thread titles and turn content. Threads are
+ * re-read only when the thread list reports a newer `updatedAt`; renames and
+ * moves only update the stored title and working directory.
+ */
+export class SearchIndex {
+  private readonly refreshDelayMs: number;
+  private readonly readConcurrency: number;
+  private readonly documentsByThreadId = new Map<string, SearchDocument>();
+  private refreshInFlight: Promise<void> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  public constructor(options: SearchIndexOptions = {}) {
+    this.refreshDelayMs = options.refreshDelayMs ?? DEFAULT_REFRESH_DELAY_MS;
+    this.readConcurrency = Math.max(1, options.readConcurrency ?? DEFAULT_READ_CONCURRENCY);
+  }
+
+  public get size(): number {
+    return this.documentsByThreadId.size;
+  }
+
+  public upsert(document: SearchDocument): void {
+    this.documentsByThreadId.set(document.threadId, document);
+  }
+
+  public remove(threadId: string): void {
+    this.documentsByThreadId.delete(threadId);
+  }
+
+  public isCurrent(threadId: string, updatedAt: number): boolean {
+    const existing = this.documentsByThreadId.get(threadId);
+    return existing !== undefined && existing.updatedAt >= updatedAt;
+  }
+
+  public refresh(adapters: AgentAdapter[], options: SearchRefreshOptions = {}): Promise<void> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.refreshAdapters(adapters, options).finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /** Refreshes in the background after `refreshDelayMs`; calls made before then share that refresh. */
+  public scheduleRefresh(adapters: AgentAdapter[], options: SearchRefreshOptions = {}): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refresh(adapters, options);
+    }, this.refreshDelayMs);
+  }
+
+  public close(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  public search(query: SearchQuery): SearchResult[] {
+    const terms = tokenizeQuery(query.q);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const document of this.documentsByThreadId.values()) {
+      if (query.agentId && document.agentId !== query.agentId) {
+        continue;
+      }
+      if (query.project && !isInsideProject(document.cwd, query.project)) {
+        continue;
+      }
+      if (query.since !== undefined && document.updatedAt < query.since) {
+        continue;
+      }
+      if (query.until !== undefined && document.updatedAt > query.until) {
+        continue;
+      }
+
+      const titleEntry: SearchEntry = { turnId: null, kind: "title", text: document.title };
+      const documentResults: SearchResult[] = [];
+      for (const entry of [titleEntry, ...document.entries]) {
+        const lower = entry.text.toLowerCase();
+        let score = 0;
+        for (const term of terms) {
+          const occurrences = countOccurrences(lower, term);
+          if (occurrences === 0) {
+            score = 0;
+            break;
+          }
+          score += occurrences;
+        }
+        if (score === 0) {
+          continue;
+        }
+
+        documentResults.push({
+          threadId: document.threadId,
+          agentId: document.agentId,
+          title: document.title,
+          cwd: document.cwd,
+          updatedAt: document.updatedAt,
+          turnId: entry.turnId,
+          kind: entry.kind,
+          snippet: buildSnippet(entry.text, terms),
+          score: entry.kind === "title" ? score * TITLE_SCORE_BOOST : score
+        });
+      }
+
+      documentResults.sort((left, right) => right.score - left.score);
+      results.push(...documentResults.slice(0, MAX_RESULTS_PER_THREAD));
+    }
+
+    results.sort(
+      (left, right) => right.score - left.score || right.updatedAt - left.updatedAt
+    );
+    return results.slice(0, query.limit ?? DEFAULT_RESULT_LIMIT);
+  }
+
+  private async refreshAdapters(
+    adapters: AgentAdapter[],
+    options: SearchRefreshOptions
+  ): Promise<void> {
+    const limit = options.maxThreadsPerAgent ?? DEFAULT_MAX_THREADS_PER_AGENT;
+
+    for (const adapter of adapters) {
+      let threads: AgentThreadListItem[];
+      try {
+        const result = await adapter.listThreads({
+          limit,
+          archived: false,
+          all: true,
+          maxPages: 20,
+          cursor: null
+        });
+        threads = result.data.slice(0, limit);
+      } catch (error) {
+        logger.warn(
+          {
+            agentId: adapter.id,
+            error: error instanceof Error ? error.message : String(error)
+          },
+          "search-index-list-threads-failed"
+        );
+        continue;
+      }
+
+      const listedThreadIds = new Set(threads.map((thread) => thread.id));
+      for (const document of Array.from(this.documentsByThreadId.values())) {
+        if (document.agentId === adapter.id && !listedThreadIds.has(document.threadId)) {
+          this.documentsByThreadId.delete(document.threadId);
+        }
+      }
+
+      const staleThreads: AgentThreadListItem[] = [];
+      for (const thread of threads) {
+        const existing = this.documentsByThreadId.get(thread.id);
+        if (!existing || !this.isCurrent(thread.id, thread.updatedAt ?? 0)) {
+          staleThreads.push(thread);
+          continue;
+        }
+        // Renaming a thread does not always bump updatedAt.
+        existing.title = threadTitle(thread);
+        existing.cwd = thread.cwd ?? null;
+      }
+
+      let next = 0;
+      const readNext = async (): Promise<void> => {
+        while (next < staleThreads.length) {
+          const thread = staleThreads[next]!;
+          next += 1;
+          await this.readIntoIndex(adapter, thread);
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(this.readConcurrency, staleThreads.length) }, () => readNext())
+      );
+    }
+  }
+
+  private async readIntoIndex(adapter: AgentAdapter, thread: AgentThreadListItem): Promise<void> {
+    try {
+      const result = await adapter.readThread({ threadId: thread.id, includeTurns: true });
+      this.upsert({
+        threadId: thread.id,
+        agentId: adapter.id,
+        title: threadTitle(thread),
+        cwd: thread.cwd ?? null,
+        updatedAt: thread.updatedAt ?? 0,
+        entries: extractSearchEntries(result.thread)
+      });
+    } catch (error) {
+      logger.debug(
+        {
+          agentId: adapter.id,
+          threadId: thread.id,
+          error: error instanceof Error ? error.message : String(error)
+        },
+        "search-index-read-thread-failed"
+      );
+    }
+  }
+}
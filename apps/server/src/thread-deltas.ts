@@ -0,0 +1,275 @@
+export type ThreadDeltaView = "liveState" | "thread";
+
+export interface ThreadStatePatch {
+  op: "add" | "replace" | "remove";
+  path: Array<string | number>;
+  value?: unknown;
+}
+
+export type ThreadDeltaEvent =
+  | {
+      type: "thread-snapshot";
+      threadId: string;
+      view: ThreadDeltaView;
+      state: unknown;
+    }
+  | {
+      type: "thread-delta";
+      threadId: string;
+      view: ThreadDeltaView;
+      patches: ThreadStatePatch[];
+    };
+
+export interface ThreadDeltaPublisherOptions<Client> {
+  loadView: (threadId: string, view: ThreadDeltaView) => Promise<unknown>;
+  send: (client: Client, event: ThreadDeltaEvent) => void;
+  onError?: (error: unknown, threadId: string, view: ThreadDeltaView) => void;
+  debounceMs?: number;
+}
+
+const THREAD_DELTA_VIEWS: ThreadDeltaView[] = ["liveState", "thread"];
+const DEFAULT_DEBOUNCE_MS = 150;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function diffArrays(
+  previous: unknown[],
+  next: unknown[],
+  path: Array<string | number>,
+  patches: ThreadStatePatch[]
+): void {
+  const common = Math.min(previous.length, next.length);
+  for (let index = 0; index < common; index += 1) {
+    diffValues(previous[index], next[index], [...path, index], patches);
+  }
+
+  for (let index = common; index < next.length; index += 1) {
+    patches.push({ op: "add", path: [...path, index], value: next[index] });
+  }
+
+  for (let index = previous.length - 1; index >= next.length; index -= 1) {
+    patches.push({ op: "remove", path: [...path, index] });
+  }
+}
+
+function diffRecords(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  path: Array<string | number>,
+  patches: ThreadStatePatch[]
+): void {
+  for (const key of Object.keys(previous)) {
+    if (previous[key] !== undefined && next[key] === undefined) {
+      patches.push({ op: "remove", path: [...path, key] });
+    }
+  }
+
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (previous[key] === undefined) {
+      patches.push({ op: "add", path: [...path, key], value });
+      continue;
+    }
+    diffValues(previous[key], value, [...path, key], patches);
+  }
+}
+
+function diffValues(
+  previous: unknown,
+  next: unknown,
+  path: Array<string | number>,
+  patches: ThreadStatePatch[]
+): void {
+  if (previous === next) {
+    return;
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    diffArrays(previous, next, path, patches);
+    return;
+  }
+
+  if (isRecord(previous) && isRecord(next)) {
+    diffRecords(previous, next, path, patches);
+    return;
+  }
+
+  patches.push({ op: "replace", path, value: next });
+}
+
+/**
+ * Computes the patches that turn `previous` into `next`. Arrays are compared by
+ * index, so appended turns and items become `add` patches and edited items become
+ * patches scoped to the fields that changed. Returns null when the roots cannot be
+ * patched into each other and a snapshot is required instead.
+ */
+export function diffThreadState(previous: unknown, next: unknown): ThreadStatePatch[] | null {
+  if (!isRecord(previous) || !isRecord(next)) {
+    return null;
+  }
+
+  const patches: ThreadStatePatch[] = [];
+  diffRecords(previous, next, [], patches);
+  return patches;
+}
+
+function viewKey(threadId: string, view: ThreadDeltaView): string {
+  return `${view}:${threadId}`;
+}
+
+export class ThreadDeltaPublisher<Client> {
+  private readonly loadView: ThreadDeltaPublisherOptions<Client>["loadView"];
+  private readonly send: ThreadDeltaPublisherOptions<Client>["send"];
+  private readonly onError: ThreadDeltaPublisherOptions<Client>["onError"];
+  private readonly debounceMs: number;
+
+  private readonly subscribersByThreadId = new Map<string, Set<Client>>();
+  private readonly primedClientsByKey = new Map<string, Set<Client>>();
+  private readonly statesByKey = new Map<string, unknown>();
+  private readonly flushTimersByKey = new Map<string, NodeJS.Timeout>();
+  private readonly flushChainsByKey = new Map<string, Promise<void>>();
+
+  public constructor(options: ThreadDeltaPublisherOptions<Client>) {
+    this.loadView = options.loadView;
+    this.send = options.send;
+    this.onError = options.onError;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  public subscribe(threadId: string, client: Client): () => void {
+    const subscribers = this.subscribersByThreadId.get(threadId) ?? new Set<Client>();
+    subscribers.add(client);
+    this.subscribersByThreadId.set(threadId, subscribers);
+
+    for (const view of THREAD_DELTA_VIEWS) {
+      void this.flush(threadId, view);
+    }
+
+    return () => {
+      this.unsubscribe(threadId, client);
+    };
+  }
+
+  public getSubscriberCount(): number {
+    let count = 0;
+    for (const subscribers of this.subscribersByThreadId.values()) {
+      count += subscribers.size;
+    }
+    return count;
+  }
+
+  public invalidate(threadId: string, view: ThreadDeltaView): void {
+    if (!this.subscribersByThreadId.has(threadId)) {
+      return;
+    }
+
+    const key = viewKey(threadId, view);
+    if (this.flushTimersByKey.has(key)) {
+      return;
+    }
+
+    this.flushTimersByKey.set(
+      key,
+      setTimeout(() => {
+        this.flushTimersByKey.delete(key);
+        void this.flush(threadId, view);
+      }, this.debounceMs)
+    );
+  }
+
+  public flush(threadId: string, view: ThreadDeltaView): Promise<void> {
+    const key = viewKey(threadId, view);
+    const previous = this.flushChainsByKey.get(key) ?? Promise.resolve();
+    const next = previous.then(() => this.publish(threadId, view));
+    this.flushChainsByKey.set(key, next);
+    void next.finally(() => {
+      if (this.flushChainsByKey.get(key) === next) {
+        this.flushChainsByKey.delete(key);
+      }
+    });
+    return next;
+  }
+
+  public close(): void {
+    for (const timer of this.flushTimersByKey.values()) {
+      clearTimeout(timer);
+    }
+    this.flushTimersByKey.clear();
+    this.subscribersByThreadId.clear();
+    this.primedClientsByKey.clear();
+    this.statesByKey.clear();
+  }
+
+  private unsubscribe(threadId: string, client: Client): void {
+    const subscribers = this.subscribersByThreadId.get(threadId);
+    if (!subscribers) {
+      return;
+    }
+
+    subscribers.delete(client);
+    for (const view of THREAD_DELTA_VIEWS) {
+      this.primedClientsByKey.get(viewKey(threadId, view))?.delete(client);
+    }
+
+    if (subscribers.size > 0) {
+      return;
+    }
+
+    this.subscribersByThreadId.delete(threadId);
+    for (const view of THREAD_DELTA_VIEWS) {
+      const key = viewKey(threadId, view);
+      const timer = this.flushTimersByKey.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        this.flushTimersByKey.delete(key);
+      }
+      this.primedClientsByKey.delete(key);
+      this.statesByKey.delete(key);
+    }
+  }
+
+  private async publish(threadId: string, view: ThreadDeltaView): Promise<void> {
+    const subscribers = this.subscribersByThreadId.get(threadId);
+    if (!subscribers || subscribers.size === 0) {
+      return;
+    }
+
+    let next: unknown;
+    try {
+      next = await this.loadView(threadId, view);
+    } catch (error) {
+      this.onError?.(error, threadId, view);
+      return;
+    }
+
+    // Subscribers may have left while the view was loading.
+    const currentSubscribers = this.subscribersByThreadId.get(threadId);
+    if (!currentSubscribers || currentSubscribers.size === 0 || next === undefined) {
+      return;
+    }
+
+    const key = viewKey(threadId, view);
+    const previous = this.statesByKey.get(key);
+    const patches = previous === undefined ? null : diffThreadState(previous, next);
+    this.statesByKey.set(key, next);
+
+    const primed = this.primedClientsByKey.get(key) ?? new Set<Client>();
+    this.primedClientsByKey.set(key, primed);
+
+    for (const client of currentSubscribers) {
+      if (patches && primed.has(client)) {
+        if (patches.length > 0) {
+          this.send(client, { type: "thread-delta", threadId, view, patches });
+        }
+        continue;
+      }
+
+      this.send(client, { type: "thread-snapshot", threadId, view, state: next });
+      primed.add(client);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import { redactValue, type ThreadConversationState } from "@farfield/protocol";
+
+export type ThreadExportFormat = "md" | "json" | "html";
+
+export interface ThreadExportInput {
+  thread: ThreadConversationState;
+  title: string;
+  format: ThreadExportFormat;
+  redact: boolean;
+  exportedAt?: Date;
+}
+
+export interface ThreadExport {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+type ThreadTurn = ThreadConversationState["turns"][number];
+type TurnItem = ThreadTurn["items"][number];
+
+const CONTENT_TYPES: Record<ThreadExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8"
+};
+
+/** A block of an exported transcript, rendered to Markdown or HTML. */
+type TranscriptBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "text"; text: string }
+  | { kind: "code"; text: string; language: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "note"; text: string };
+
+interface TranscriptSection {
+  role: string;
+  blocks: TranscriptBlock[];
+}
+
+function toFileSlug(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug.length > 0 ? slug : "thread";
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs >= 1000 ? `${(durationMs / 1000).toFixed(1)}s` : `${durationMs}ms`;
+}
+
+function userMessageText(item: Extract<TurnItem, { type: "userMessage" | "steeringUserMessage" }>): string {
+  return item.content
+    .map((part) => (part.type === "text" ? part.text : `[image: ${part.url}]`))
+    .join("\n")
+    .trim();
+}
+
+function renderItem(item: TurnItem): TranscriptSection | null {
+  switch (item.type) {
+    case "userMessage":
+      return { role: "User", blocks: [{ kind: "text", text: userMessageText(item) }] };
+    case "steeringUserMessage":
+      return { role: "User (steering)", blocks: [{ kind: "text", text: userMessageText(item) }] };
+    case "agentMessage":
+      return { role: "Assistant", blocks: [{ kind: "text", text: item.text }] };
+    case "reasoning": {
+      const summary = item.summary?.filter((line) => line.trim().length > 0) ?? [];
+      const text = summary.length > 0 ? summary.join("\n\n") : (item.text ?? "");
+      return text.trim() ? { role: "Reasoning", blocks: [{ kind: "text", text }] } : null;
+    }
+    case "plan":
+      return { role: "Plan", blocks: [{ kind: "text", text: item.text }] };
+    case "planImplementation":
+      return {
+        role: item.isCompleted ? "Plan implemented" : "Plan implementation",
+        blocks: [{ kind: "text", text: item.planContent }]
+      };
+    case "userInputResponse":
+      return {
+        role: "User input",
+        blocks: [
+          {
+            kind: "list",
+            items: item.questions.map((question) => {
+              const answers = item.answers[question.id] ?? [];
+              const prompt = question.question ?? question.header ?? question.id;
+              return `${prompt}: ${answers.length > 0 ? answers.join(", ") : "(no answer)"}`;
+            })
+          }
+        ]
+      };
+    case "commandExecution": {
+      const details = [
+        item.status,
+        typeof item.exitCode === "number" ? `exit ${item.exitCode}` : null,
+        typeof item.durationMs === "number" ? formatDuration(item.durationMs) : null,
+        item.cwd ? `in ${item.cwd}` : null
+      ].filter((detail): detail is string => detail !== null);
+      const output = item.aggregatedOutput?.trimEnd() ?? "";
+      return {
+        role: "Command",
+        blocks: [
+          { kind: "note", text: details.join(" · ") },
+          { kind: "code", language: "sh", text: `$ ${item.command}${output ? `\n${output}` : ""}` }
+        ]
+      };
+    }
+    case "fileChange":
+      return {
+        role: "File changes",
+        blocks: item.changes.flatMap((change): TranscriptBlock[] => {
+          const movedTo = change.kind.move_path ? ` → ${change.kind.move_path}` : "";
+          const heading: TranscriptBlock = {
+            kind: "heading",
+            text: `${change.kind.type} ${change.path}${movedTo}`
+          };
+          return change.diff ? [heading, { kind: "code", language: "diff", text: change.diff }] : [heading];
+        })
+      };
+    case "webSearch": {
+      const queries = item.action.queries ?? (item.action.query ? [item.action.query] : []);
+      return {
+        role: "Web search",
+        blocks: [{ kind: "list", items: queries.length > 0 ? queries : [item.query] }]
+      };
+    }
+    case "error":
+      return {
+        role: "Error",
+        blocks: [{ kind: "text", text: item.willRetry ? `${item.message} (retrying)` : item.message }]
+      };
+    case "contextCompaction":
+      return { role: "Context compacted", blocks: [] };
+    case "modelChanged":
+      return {
+        role: "Model changed",
+        blocks: [{ kind: "note", text: `${item.fromModel ?? "default"} → ${item.toModel ?? "default"}` }]
+      };
+  }
+}
+
+function collectTurnSections(turn: ThreadTurn): TranscriptSection[] {
+  return turn.items
+    .map((item) => renderItem(item))
+    .filter((section): section is TranscriptSection => section !== null);
+}
+
+function markdownFence(text: string, language: string): string {
+  const longestRun = Math.max(2, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function renderMarkdownBlock(block: TranscriptBlock): string {
+  switch (block.kind) {
+    case "heading":
+      return `**${block.text}**`;
+    case "text":
+      return block.text;
+    case "code":
+      return markdownFence(block.text, block.language);
+    case "list":
+      return block.items.map((item) => `- ${item}`).join("\n");
+    case "note":
+      return `_${block.text}_`;
+  }
+}
+
+function renderMarkdown(input: ThreadExportInput, exportedAt: string): string {
+  const { thread } = input;
+  const lines = [
+    `# ${input.title}`,
+    "",
+    `- Thread: \`${thread.id}\``,
+    ...(thread.cwd ? [`- Working directory: \`${thread.cwd}\``] : []),
+    ...(thread.latestModel ? [`- Model: ${thread.latestModel}`] : []),
+    `- Exported: ${exportedAt}`
+  ];
+
+  thread.turns.forEach((turn, index) => {
+    lines.push("", `## Turn ${index + 1}`);
+    for (const section of collectTurnSections(turn)) {
+      lines.push("", `### ${section.role}`);
+      for (const block of section.blocks) {
+        lines.push("", renderMarkdownBlock(block));
+      }
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtmlBlock(block: TranscriptBlock): string {
+  switch (block.kind) {
+    case "heading":
+      return `<h4>${escapeHtml(block.text)}</h4>`;
+    case "text":
+      return `<div class="text">${escapeHtml(block.text)}</div>`;
+    case "code":
+      return `<pre class="code language-${block.language}"><code>${escapeHtml(block.text)}</code></pre>`;
+    case "list":
+      return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+    case "note":
+      return `<p class="note">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+const HTML_STYLES = `
+body { font: 14px/1.55 system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #59636e; }
+section.turn { border-top: 1px solid #d1d9e0; margin-top: 1.5rem; }
+.item { margin: 1rem 0; }
+.item h3 { font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.04em; color: #59636e; margin: 0 0 0.25rem; }
+.item.user { background: #f6f8fa; border-radius: 8px; padding: 0.5rem 0.75rem; }
+.text { white-space: pre-wrap; }
+.note { color: #59636e; font-style: italic; margin: 0.25rem 0; }
+pre.code { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 12px; }
+h4 { font-family: ui-monospace, monospace; font-size: 12px; margin: 0.75rem 0 0.25rem; }
+`.trim();
+
+function renderHtml(input: ThreadExportInput, exportedAt: string): string {
+  const { thread } = input;
+  const metadata: Array<[string, string]> = [["Thread", thread.id]];
+  if (thread.cwd) {
+    metadata.push(["Working directory", thread.cwd]);
+  }
+  if (thread.latestModel) {
+    metadata.push(["Model", thread.latestModel]);
+  }
+  metadata.push(["Exported", exportedAt]);
+
+  const turns = thread.turns.map((turn, index) => {
+    const items = collectTurnSections(turn).map((section) => {
+      const roleClass = section.role.startsWith("User") ? "item user" : "item";
+      return [
+        `<div class="${roleClass}">`,
+        `<h3>${escapeHtml(section.role)}</h3>`,
+        ...section.blocks.map((block) => renderHtmlBlock(block)),
+        "</div>"
+      ].join("\n");
+    });
+    return [`<section class="turn">`, `<h2>Turn ${index + 1}</h2>`, ...items, "</section>"].join("\n");
+  });
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(input.title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    "<header>",
+    `<h1>${escapeHtml(input.title)}</h1>`,
+    `<dl>${metadata.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join("")}</dl>`,
+    "</header>",
+    ...turns,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
+
+/** Renders a thread as a readable transcript, optionally redacting sensitive strings first. */
+export function exportThread(input: ThreadExportInput): ThreadExport {
+  const prepared: ThreadExportInput = input.redact
+    ? { ...input, thread: redactValue(input.thread), title: redactValue(input.title) }
+    : input;
+  const exportedAt = (input.exportedAt ?? new Date()).toISOString();
+
+  const body =
+    input.format === "json"
+      ? `${JSON.stringify({ title: prepared.title, exportedAt, redacted: input.redact, thread: prepared.thread }, null, 2)}\n`
+      : input.format === "html"
+        ? renderHtml(prepared, exportedAt)
+        : renderMarkdown(prepared, exportedAt);
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[input.format],
+    fileName: `${toFileSlug(prepared.title)}.${input.format}`
+  };
+}
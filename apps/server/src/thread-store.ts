@@ -0,0 +1,247 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import type { AgentId } from "./agents/types.js";
+
+const STORE_VERSION = 1;
+const DEFAULT_OWNER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_FLUSH_DELAY_MS = 250;
+
+const ThreadStoreRecordSchema = z
+  .object({
+    agentId: z.string().min(1).optional(),
+    agentUpdatedAt: z.number().int().nonnegative().optional(),
+    ownerClientId: z.string().min(1).optional(),
+    ownerUpdatedAt: z.number().int().nonnegative().optional(),
+    name: z.string().min(1).optional()
+  })
+  .strict();
+
+const ThreadStoreFileSchema = z
+  .object({
+    version: z.literal(STORE_VERSION),
+    threads: z.record(ThreadStoreRecordSchema)
+  })
+  .strict();
+
+type ThreadStoreRecord = z.infer<typeof ThreadStoreRecordSchema>;
+
+export interface ThreadOwnerStore {
+  listOwners(): Array<{ threadId: string; ownerClientId: string }>;
+  setOwner(threadId: string, ownerClientId: string): void;
+}
+
+export interface ThreadAgentStore {
+  listAgents(): Array<{ threadId: string; agentId: AgentId }>;
+  setAgent(threadId: string, agentId: AgentId): void;
+}
+
+export interface ThreadNameStore {
+  listNames(): Array<{ threadId: string; name: string }>;
+  setName(threadId: string, name: string | null): void;
+}
+
+export interface ThreadStoreOptions {
+  filePath: string;
+  ownerTtlMs?: number;
+  flushDelayMs?: number;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+}
+
+export function resolveDataDir(env: NodeJS.ProcessEnv, cwd: string): string {
+  const dataDir = env["FARFIELD_DATA_DIR"]?.trim();
+  return dataDir ? path.resolve(cwd, dataDir) : path.resolve(cwd, ".farfield");
+}
+
+export function resolveThreadStorePath(env: NodeJS.ProcessEnv, cwd: string): string {
+  return path.join(resolveDataDir(env, cwd), "threads.json");
+}
+
+export class ThreadStore implements ThreadAgentStore, ThreadOwnerStore, ThreadNameStore {
+  private readonly filePath: string;
+  private readonly ownerTtlMs: number;
+  private readonly flushDelayMs: number;
+  private readonly now: () => number;
+  private readonly onError: ((error: unknown) => void) | null;
+  private readonly records = new Map<string, ThreadStoreRecord>();
+
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writeInFlight: Promise<void> = Promise.resolve();
+
+  public constructor(options: ThreadStoreOptions) {
+    this.filePath = options.filePath;
+    this.ownerTtlMs = options.ownerTtlMs ?? DEFAULT_OWNER_TTL_MS;
+    this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+    this.now = options.now ?? Date.now;
+    this.onError = options.onError ?? null;
+  }
+
+  public load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.onError?.(error);
+      }
+      return;
+    }
+
+    let parsed: z.infer<typeof ThreadStoreFileSchema>;
+    try {
+      parsed = ThreadStoreFileSchema.parse(JSON.parse(raw));
+    } catch (error) {
+      this.onError?.(error);
+      return;
+    }
+
+    this.records.clear();
+    for (const [threadId, record] of Object.entries(parsed.threads)) {
+      this.records.set(threadId, record);
+    }
+
+    if (this.pruneExpiredOwners()) {
+      this.scheduleFlush();
+    }
+  }
+
+  public listAgents(): Array<{ threadId: string; agentId: AgentId }> {
+    const agents: Array<{ threadId: string; agentId: AgentId }> = [];
+    for (const [threadId, record] of this.records) {
+      if (record.agentId) {
+        agents.push({ threadId, agentId: record.agentId });
+      }
+    }
+    return agents;
+  }
+
+  public setAgent(threadId: string, agentId: AgentId): void {
+    const record = this.records.get(threadId) ?? {};
+    if (record.agentId === agentId) {
+      return;
+    }
+
+    this.records.set(threadId, { ...record, agentId, agentUpdatedAt: this.now() });
+    this.scheduleFlush();
+  }
+
+  public listOwners(): Array<{ threadId: string; ownerClientId: string }> {
+    if (this.pruneExpiredOwners()) {
+      this.scheduleFlush();
+    }
+
+    const owners: Array<{ threadId: string; ownerClientId: string }> = [];
+    for (const [threadId, record] of this.records) {
+      if (record.ownerClientId) {
+        owners.push({ threadId, ownerClientId: record.ownerClientId });
+      }
+    }
+    return owners;
+  }
+
+  public setOwner(threadId: string, ownerClientId: string): void {
+    const record = this.records.get(threadId) ?? {};
+    const now = this.now();
+    // Owners republish on every stream event, so only refresh the timestamp occasionally.
+    if (
+      record.ownerClientId === ownerClientId &&
+      record.ownerUpdatedAt !== undefined &&
+      now - record.ownerUpdatedAt < this.ownerTtlMs / 100
+    ) {
+      return;
+    }
+
+    this.records.set(threadId, { ...record, ownerClientId, ownerUpdatedAt: now });
+    this.scheduleFlush();
+  }
+
+  public listNames(): Array<{ threadId: string; name: string }> {
+    const names: Array<{ threadId: string; name: string }> = [];
+    for (const [threadId, record] of this.records) {
+      if (record.name) {
+        names.push({ threadId, name: record.name });
+      }
+    }
+    return names;
+  }
+
+  public setName(threadId: string, name: string | null): void {
+    const record = this.records.get(threadId) ?? {};
+    if ((record.name ?? null) === name) {
+      return;
+    }
+
+    const { name: _name, ...rest } = record;
+    if (name) {
+      this.records.set(threadId, { ...rest, name });
+    } else if (rest.agentId || rest.ownerClientId) {
+      this.records.set(threadId, rest);
+    } else {
+      this.records.delete(threadId);
+    }
+    this.scheduleFlush();
+  }
+
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const payload = JSON.stringify(
+      {
+        version: STORE_VERSION,
+        threads: Object.fromEntries(this.records)
+      },
+      null,
+      2
+    );
+
+    this.writeInFlight = this.writeInFlight.then(() => this.write(payload));
+    return this.writeInFlight;
+  }
+
+  private async write(payload: string): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, payload, { encoding: "utf8", mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushDelayMs);
+  }
+
+  private pruneExpiredOwners(): boolean {
+    const cutoff = this.now() - this.ownerTtlMs;
+    let changed = false;
+
+    for (const [threadId, record] of this.records) {
+      if (!record.ownerClientId || (record.ownerUpdatedAt ?? 0) >= cutoff) {
+        continue;
+      }
+
+      const { ownerClientId: _ownerClientId, ownerUpdatedAt: _ownerUpdatedAt, ...rest } = record;
+      changed = true;
+      if (rest.agentId || rest.name) {
+        this.records.set(threadId, rest);
+      } else {
+        this.records.delete(threadId);
+      }
+    }
+
+    return changed;
+  }
+}
@@ -0,0 +1,367 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { ThreadStreamReducer } from "@farfield/api";
+import { ThreadStreamStateChangedBroadcastSchema, type ThreadConversationState } from "@farfield/protocol";
+import { z } from "zod";
+
+export const MAX_TRACE_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export interface TraceSummary {
+  id: string;
+  label: string;
+  startedAt: string;
+  stoppedAt: string | null;
+  eventCount: number;
+  path: string;
+}
+
+export type TraceEntry =
+  | {
+      type: "history";
+      index: number;
+      id: string;
+      at: string;
+      source: string;
+      direction: string;
+      payload: unknown;
+      meta: Record<string, unknown>;
+    }
+  | {
+      type: "trace-marker";
+      index: number;
+      at: string;
+      note: string;
+    };
+
+export interface TraceThreadState {
+  threadId: string;
+  ownerClientId: string | null;
+  conversationState: ThreadConversationState | null;
+  // Set when a patch up to this point failed to apply.
+  error: string | null;
+}
+
+export interface TraceStoreOptions {
+  dir: string;
+}
+
+interface CachedTraceSummary {
+  mtimeMs: number;
+  size: number;
+  summary: TraceSummary;
+}
+
+const TraceStartLineSchema = z
+  .object({
+    type: z.literal("trace-start"),
+    label: z.string(),
+    startedAt: z.string()
+  })
+  .passthrough();
+
+const TraceStopLineSchema = z.object({ type: z.literal("trace-stop"), at: z.string() }).passthrough();
+
+const HistoryLineSchema = z
+  .object({
+    type: z.literal("history"),
+    id: z.string(),
+    at: z.string(),
+    source: z.string(),
+    direction: z.string(),
+    payload: z.unknown(),
+    meta: z.record(z.unknown()).default({})
+  })
+  .passthrough();
+
+const MarkerLineSchema = z
+  .object({
+    type: z.literal("trace-marker"),
+    at: z.string(),
+    note: z.string().default("")
+  })
+  .passthrough();
+
+const TRACE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+function traceIdFromName(name: string): string {
+  const stem = path.basename(name.replace(/\\/g, "/")).replace(/\.ndjson$/i, "");
+  const safe = stem.replace(/[^A-Za-z0-9._-]/g, "_").replace(/^[._-]+/, "").slice(0, 80);
+  return safe || "trace";
+}
+
+// Summaries need only the first line, the last line and a line count.
+const SUMMARY_CHUNK_BYTES = 64 * 1024;
+const NEWLINE = 0x0a;
+
+interface TraceFileOutline {
+  firstLine: string | undefined;
+  lastLine: string | undefined;
+  lineCount: number;
+}
+
+/**
+ * Reads the first and last non-empty lines from one bounded chunk at each end
+ * of the file and counts lines a chunk at a time, so a summary never holds a
+ * whole trace in memory. A line longer than a chunk comes back cut off and
+ * simply fails to parse.
+ */
+function outlineTraceFile(filePath: string, size: number): TraceFileOutline {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const chunk = Buffer.alloc(Math.min(size, SUMMARY_CHUNK_BYTES));
+    const readAt = (position: number): Buffer => {
+      const length = Math.min(chunk.length, size - position);
+      return chunk.subarray(0, fs.readSync(fd, chunk, 0, length, position));
+    };
+
+    const head = readAt(0).toString("utf8").split("\n");
+    if (size > chunk.length) {
+      head.pop();
+    }
+    const firstLine = head.find((line) => line.trim());
+
+    const tailStart = size - chunk.length;
+    const tail = readAt(tailStart).toString("utf8").split("\n");
+    if (tailStart > 0) {
+      tail.shift();
+    }
+    const lastLine = tail.reverse().find((line) => line.trim());
+
+    let lineCount = 0;
+    let lineLength = 0;
+    for (let position = 0; position < size; ) {
+      const bytes = readAt(position);
+      if (bytes.length === 0) {
+        break;
+      }
+      let lineStart = 0;
+      for (let newline = bytes.indexOf(NEWLINE); newline !== -1; newline = bytes.indexOf(NEWLINE, lineStart)) {
+        if (lineLength + newline - lineStart > 0) {
+          lineCount += 1;
+        }
+        lineLength = 0;
+        lineStart = newline + 1;
+      }
+      lineLength += bytes.length - lineStart;
+      position += bytes.length;
+    }
+    if (lineLength > 0) {
+      lineCount += 1;
+    }
+
+    return { firstLine, lastLine, lineCount };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function parseLine(line: string | undefined): unknown {
+  try {
+    return line === undefined ? undefined : JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseLines(contents: string): unknown[] {
+  const lines: unknown[] = [];
+  for (const [index, line] of contents.split("\n").entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      lines.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Trace line ${String(index + 1)} is not valid JSON`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Owns the `.ndjson` files under the trace directory, so recorded and
+ * uploaded traces survive restarts. Each file opens with a `trace-start`
+ * line holding its label; the recorder appends `trace-stop` when it ends.
+ */
+export class TraceStore {
+  private readonly dir: string;
+  // Listing runs on every poll of the traces panel; files only change while recording.
+  private readonly summaries = new Map<string, CachedTraceSummary>();
+
+  public constructor(options: TraceStoreOptions) {
+    this.dir = options.dir;
+  }
+
+  public create(label: string): TraceSummary {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const id = `${Date.now()}-${randomUUID()}`;
+    const startedAt = new Date().toISOString();
+    const filePath = this.pathFor(id)!;
+    fs.writeFileSync(filePath, `${JSON.stringify({ type: "trace-start", id, label, startedAt })}\n`);
+    return { id, label, startedAt, stoppedAt: null, eventCount: 0, path: filePath };
+  }
+
+  public list(): TraceSummary[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    const summaries: TraceSummary[] = [];
+    const ids = new Set<string>();
+    for (const name of fs.readdirSync(this.dir)) {
+      if (!name.endsWith(".ndjson")) {
+        continue;
+      }
+      const id = name.slice(0, -".ndjson".length);
+      ids.add(id);
+      const summary = this.get(id);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+    for (const id of this.summaries.keys()) {
+      if (!ids.has(id)) {
+        this.summaries.delete(id);
+      }
+    }
+    return summaries.sort((left, right) => right.startedAt.localeCompare(left.startedAt));
+  }
+
+  public get(id: string): TraceSummary | null {
+    const filePath = this.pathFor(id);
+    if (!filePath) {
+      return null;
+    }
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      this.summaries.delete(id);
+      return null;
+    }
+
+    const cached = this.summaries.get(id);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+      return { ...cached.summary };
+    }
+
+    // Only the first and last lines carry summary fields; every other line is an event.
+    const outline = outlineTraceFile(filePath, stat.size);
+    const start = TraceStartLineSchema.safeParse(parseLine(outline.firstLine));
+    const stop = outline.lineCount > 1 ? TraceStopLineSchema.safeParse(parseLine(outline.lastLine)) : null;
+    const summary: TraceSummary = {
+      id,
+      label: start.success ? start.data.label : id,
+      startedAt: start.success ? start.data.startedAt : stat.birthtime.toISOString(),
+      stoppedAt: stop?.success ? stop.data.at : null,
+      eventCount: outline.lineCount - (start.success ? 1 : 0) - (stop?.success ? 1 : 0),
+      path: filePath
+    };
+    this.summaries.set(id, { mtimeMs: stat.mtimeMs, size: stat.size, summary });
+    return { ...summary };
+  }
+
+  public readEntries(id: string): TraceEntry[] | null {
+    const filePath = this.pathFor(id);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const entries: TraceEntry[] = [];
+    for (const line of parseLines(fs.readFileSync(filePath, "utf8"))) {
+      const history = HistoryLineSchema.safeParse(line);
+      if (history.success) {
+        const { id: entryId, at, source, direction, payload, meta } = history.data;
+        entries.push({ type: "history", index: entries.length, id: entryId, at, source, direction, payload, meta });
+        continue;
+      }
+      const marker = MarkerLineSchema.safeParse(line);
+      if (marker.success) {
+        entries.push({ type: "trace-marker", index: entries.length, at: marker.data.at, note: marker.data.note });
+      }
+    }
+    return entries;
+  }
+
+  /** Stores an uploaded trace under a fresh id, adding a `trace-start` line when it has none. */
+  public save(name: string, data: Buffer): TraceSummary {
+    const contents = data.toString("utf8");
+    const lines = parseLines(contents);
+    if (lines.some((line) => !line || typeof line !== "object" || Array.isArray(line))) {
+      throw new Error("Trace lines must be JSON objects");
+    }
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const id = `${Date.now()}-${traceIdFromName(name)}`;
+    const filePath = this.pathFor(id)!;
+    const firstAt = lines
+      .map((line) => (line as Record<string, unknown>)["at"])
+      .find((at): at is string => typeof at === "string");
+    const header = TraceStartLineSchema.safeParse(lines[0]).success
+      ? ""
+      : `${JSON.stringify({
+          type: "trace-start",
+          id,
+          label: traceIdFromName(name),
+          startedAt: firstAt ?? new Date().toISOString()
+        })}\n`;
+    fs.writeFileSync(filePath, header + contents.replace(/\n*$/, "\n"));
+    return this.get(id)!;
+  }
+
+  public delete(id: string): boolean {
+    const filePath = this.pathFor(id);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return false;
+    }
+    fs.rmSync(filePath);
+    this.summaries.delete(id);
+    return true;
+  }
+
+  /**
+   * Folds the thread's recorded stream broadcasts up to and including the
+   * given entry, giving the state the server held at that moment.
+   */
+  public readThreadStateAt(id: string, entryIndex: number, threadId: string): TraceThreadState | null {
+    const entries = this.readEntries(id);
+    if (!entries || entryIndex < 0 || entryIndex >= entries.length) {
+      return null;
+    }
+
+    const reducer = new ThreadStreamReducer();
+    let error: string | null = null;
+    for (const entry of entries.slice(0, entryIndex + 1)) {
+      if (entry.type !== "history" || entry.source !== "ipc" || entry.direction !== "in") {
+        continue;
+      }
+      const broadcast = ThreadStreamStateChangedBroadcastSchema.safeParse(entry.payload);
+      if (!broadcast.success || broadcast.data.params.conversationId !== threadId) {
+        continue;
+      }
+      try {
+        reducer.apply(broadcast.data, entry.index);
+        // After a failed patch the thread waits for the next snapshot to recover.
+        if (broadcast.data.params.change.type === "snapshot") {
+          error = null;
+        }
+      } catch (reductionError) {
+        error = reductionError instanceof Error ? reductionError.message : String(reductionError);
+      }
+    }
+
+    const state = reducer.get(threadId);
+    return {
+      threadId,
+      ownerClientId: state?.ownerClientId ?? null,
+      conversationState: state?.conversationState ?? null,
+      error
+    };
+  }
+
+  private pathFor(id: string): string | null {
+    return TRACE_ID_PATTERN.test(id) ? path.join(this.dir, `${id}.ndjson`) : null;
+  }
+}
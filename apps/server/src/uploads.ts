@@ -0,0 +1,148 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { resolveDataDir } from "./thread-store.js";
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const DEFAULT_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface StagedUpload {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  path: string;
+  createdAtMs: number;
+}
+
+export interface SaveUploadInput {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface UploadStoreOptions {
+  dir: string;
+  /** Uploads older than this are deleted, including ones left by an earlier run. */
+  ttlMs?: number;
+  cleanupIntervalMs?: number;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+}
+
+export function resolveUploadDir(env: NodeJS.ProcessEnv, cwd: string): string {
+  return path.join(resolveDataDir(env, cwd), "uploads");
+}
+
+export function sanitizeUploadName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, "/")).trim();
+  const safe = base.replace(/[^A-Za-z0-9._ -]/g, "_").replace(/^\.+/, "");
+  return safe.length > 0 ? safe.slice(0, 120) : "upload";
+}
+
+/**
+ * Stages uploaded files on local disk so agents running on this machine can
+ * read them by path. Each upload gets its own directory to keep the original
+ * file name. Staged files only need to outlive the turn that reads them, so
+ * they are removed once they pass `ttlMs`.
+ */
+export class UploadStore {
+  private readonly dir: string;
+  private readonly ttlMs: number;
+  private readonly cleanupIntervalMs: number;
+  private readonly now: () => number;
+  private readonly onError: ((error: unknown) => void) | null;
+  private readonly uploads = new Map<string, StagedUpload>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  public constructor(options: UploadStoreOptions) {
+    this.dir = options.dir;
+    this.ttlMs = options.ttlMs ?? DEFAULT_UPLOAD_TTL_MS;
+    this.cleanupIntervalMs = options.cleanupIntervalMs ?? DEFAULT_CLEANUP_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+    this.onError = options.onError ?? null;
+  }
+
+  /** Sweeps expired uploads now and then every `cleanupIntervalMs`. */
+  public startCleanup(): void {
+    this.removeExpired();
+    if (this.cleanupTimer) {
+      return;
+    }
+    this.cleanupTimer = setInterval(() => {
+      this.removeExpired();
+    }, this.cleanupIntervalMs);
+    this.cleanupTimer.unref();
+  }
+
+  public close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /** Deletes upload directories older than the TTL, judged by their modification time. */
+  public removeExpired(): number {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.onError?.(error);
+      }
+      return 0;
+    }
+
+    const cutoff = this.now() - this.ttlMs;
+    let removed = 0;
+    for (const name of names) {
+      const uploadDir = path.join(this.dir, name);
+      try {
+        if (fs.statSync(uploadDir).mtimeMs > cutoff) {
+          continue;
+        }
+        fs.rmSync(uploadDir, { recursive: true, force: true });
+        this.uploads.delete(name);
+        removed += 1;
+      } catch (error) {
+        this.onError?.(error);
+      }
+    }
+    return removed;
+  }
+
+  public save(input: SaveUploadInput): StagedUpload {
+    const id = randomUUID();
+    const name = sanitizeUploadName(input.name);
+    const uploadDir = path.join(this.dir, id);
+    fs.mkdirSync(uploadDir, { recursive: true });
+
+    const filePath = path.join(uploadDir, name);
+    fs.writeFileSync(filePath, input.data);
+
+    const upload: StagedUpload = {
+      id,
+      name,
+      mimeType: input.mimeType.trim() || "application/octet-stream",
+      size: input.data.length,
+      path: filePath,
+      createdAtMs: this.now()
+    };
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  public get(id: string): StagedUpload | null {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return null;
+    }
+    // The sweep runs hourly; an expired upload may already be gone from disk.
+    if (upload.createdAtMs <= this.now() - this.ttlMs) {
+      return null;
+    }
+    return upload;
+  }
+}
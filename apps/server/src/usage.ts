@@ -0,0 +1,126 @@
+import type {
+  AppServerThreadTokenUsage,
+  AppServerTokenUsageBreakdown
+} from "@farfield/protocol";
+
+export interface TurnTokenUsage {
+  turnId: string;
+  usage: AppServerTokenUsageBreakdown;
+}
+
+export interface ThreadTokenUsage {
+  threadId: string;
+  // Cumulative usage across every turn the agent reported.
+  total: AppServerTokenUsageBreakdown;
+  // Usage of the most recent model request, which is what fills the context window.
+  last: AppServerTokenUsageBreakdown;
+  modelContextWindow: number | null;
+  turns: TurnTokenUsage[];
+  updatedAt: string;
+}
+
+export interface UsageTrackerOptions {
+  maxThreads?: number;
+  maxTurnsPerThread?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_MAX_THREADS = 500;
+const DEFAULT_MAX_TURNS_PER_THREAD = 200;
+
+function emptyBreakdown(): AppServerTokenUsageBreakdown {
+  return {
+    cachedInputTokens: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningOutputTokens: 0,
+    totalTokens: 0
+  };
+}
+
+function addBreakdowns(
+  left: AppServerTokenUsageBreakdown,
+  right: AppServerTokenUsageBreakdown
+): AppServerTokenUsageBreakdown {
+  return {
+    cachedInputTokens: left.cachedInputTokens + right.cachedInputTokens,
+    inputTokens: left.inputTokens + right.inputTokens,
+    outputTokens: left.outputTokens + right.outputTokens,
+    reasoningOutputTokens: left.reasoningOutputTokens + right.reasoningOutputTokens,
+    totalTokens: left.totalTokens + right.totalTokens
+  };
+}
+
+function copyBreakdown(value: AppServerTokenUsageBreakdown): AppServerTokenUsageBreakdown {
+  return addBreakdowns(emptyBreakdown(), value);
+}
+
+/**
+ * Keeps the latest token usage reported for each thread, plus a per-turn
+ * breakdown summed from the per-request usage in each update.
+ */
+export class UsageTracker {
+  private readonly usageByThreadId = new Map<string, ThreadTokenUsage>();
+  private readonly maxThreads: number;
+  private readonly maxTurnsPerThread: number;
+  private readonly now: () => Date;
+
+  public constructor(options: UsageTrackerOptions = {}) {
+    this.maxThreads = options.maxThreads ?? DEFAULT_MAX_THREADS;
+    this.maxTurnsPerThread = options.maxTurnsPerThread ?? DEFAULT_MAX_TURNS_PER_THREAD;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  public record(threadId: string, turnId: string, tokenUsage: AppServerThreadTokenUsage): ThreadTokenUsage {
+    const previous = this.usageByThreadId.get(threadId);
+    const turns = previous ? [...previous.turns] : [];
+    const turnIndex = turns.findIndex((turn) => turn.turnId === turnId);
+    const existingTurn = turnIndex >= 0 ? turns[turnIndex] : undefined;
+
+    if (existingTurn) {
+      turns[turnIndex] = {
+        turnId,
+        usage: addBreakdowns(existingTurn.usage, tokenUsage.last)
+      };
+    } else {
+      turns.push({ turnId, usage: copyBreakdown(tokenUsage.last) });
+    }
+
+    const next: ThreadTokenUsage = {
+      threadId,
+      total: copyBreakdown(tokenUsage.total),
+      last: copyBreakdown(tokenUsage.last),
+      modelContextWindow: tokenUsage.modelContextWindow ?? previous?.modelContextWindow ?? null,
+      turns: turns.slice(-this.maxTurnsPerThread),
+      updatedAt: this.now().toISOString()
+    };
+
+    // Re-insert so the map stays ordered by most recent update.
+    this.usageByThreadId.delete(threadId);
+    this.usageByThreadId.set(threadId, next);
+    this.evictOldest();
+    return next;
+  }
+
+  public get(threadId: string): ThreadTokenUsage | null {
+    return this.usageByThreadId.get(threadId) ?? null;
+  }
+
+  public list(): ThreadTokenUsage[] {
+    return Array.from(this.usageByThreadId.values()).reverse();
+  }
+
+  public forget(threadId: string): void {
+    this.usageByThreadId.delete(threadId);
+  }
+
+  private evictOldest(): void {
+    while (this.usageByThreadId.size > this.maxThreads) {
+      const oldest = this.usageByThreadId.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      this.usageByThreadId.delete(oldest.value);
+    }
+  }
+}
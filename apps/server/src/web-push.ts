@@ -0,0 +1,155 @@
+import crypto from "node:crypto";
+import type { PushSubscriptionRecord, VapidKeys } from "./notification-store.js";
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_PUSH_TIMEOUT_MS = 10_000;
+
+export interface WebPushOptions {
+  vapidKeys: VapidKeys;
+  /** `mailto:` or `https:` contact the push service can use to reach the operator. */
+  subject: string;
+  ttlSeconds?: number;
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+export interface WebPushResult {
+  status: number;
+  /** The push service no longer knows this subscription; it should be forgotten. */
+  expired: boolean;
+}
+
+function toBase64Url(value: Buffer): string {
+  return value.toString("base64url");
+}
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, "base64url");
+}
+
+export function generateVapidKeys(): VapidKeys {
+  const { privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const jwk = privateKey.export({ format: "jwk" });
+  if (!jwk.x || !jwk.y || !jwk.d) {
+    throw new Error("Generated VAPID key is missing JWK coordinates");
+  }
+  return {
+    publicKey: toBase64Url(Buffer.concat([Buffer.from([4]), fromBase64Url(jwk.x), fromBase64Url(jwk.y)])),
+    privateKey: jwk.d
+  };
+}
+
+function vapidSigningKey(keys: VapidKeys): crypto.KeyObject {
+  const publicKey = fromBase64Url(keys.publicKey);
+  return crypto.createPrivateKey({
+    format: "jwk",
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+      d: keys.privateKey
+    }
+  });
+}
+
+/** Builds the RFC 8292 `Authorization` header for a push service endpoint. */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  subject: string,
+  nowMs: number
+): string {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(nowMs / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: subject
+      })
+    )
+  );
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: vapidSigningKey(keys),
+    dsaEncoding: "ieee-p1363"
+  });
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${keys.publicKey}`;
+}
+
+/** Encrypts a push message body for one subscription (RFC 8291, `aes128gcm`). */
+export function encryptPushPayload(
+  payload: Buffer,
+  subscription: Pick<PushSubscriptionRecord, "keys">
+): Buffer {
+  const userAgentPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  const ecdh = crypto.createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    serverPublicKey
+  ]);
+  const inputKey = Buffer.from(crypto.hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(
+    crypto.hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: nonce\0"), 12)
+  );
+
+  // A single record: the payload followed by the 0x02 last-record delimiter.
+  const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag()
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+export async function sendWebPush(
+  subscription: PushSubscriptionRecord,
+  payload: string,
+  options: WebPushOptions
+): Promise<WebPushResult> {
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(
+        subscription.endpoint,
+        options.vapidKeys,
+        options.subject,
+        (options.now ?? Date.now)()
+      ),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(options.ttlSeconds ?? DEFAULT_PUSH_TTL_SECONDS),
+      Urgency: "high"
+    },
+    body: new Uint8Array(encryptPushPayload(Buffer.from(payload, "utf8"), subscription)),
+    // A push service that never answers must not hold up the other sinks.
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_PUSH_TIMEOUT_MS)
+  });
+  await response.arrayBuffer().catch(() => undefined);
+
+  if (response.status === 404 || response.status === 410) {
+    return { status: response.status, expired: true };
+  }
+  if (!response.ok) {
+    throw new Error(`Push service rejected notification with HTTP ${response.status}`);
+  }
+  return { status: response.status, expired: false };
+}
@@ -0,0 +1,289 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadAcpAgentConfigs, resolveAcpAgentsPath } from "../src/agents/acp-config.js";
+import { AcpAgentAdapter, type AcpSessionEvent } from "../src/agents/adapters/acp-agent.js";
+
+// A minimal ACP agent: answers each prompt with a message chunk and a tool
+// call that needs permission, then ends the turn. The prompt "crash" makes it
+// exit, and --load-session makes it replay a fixed history on session/load.
+const FAKE_AGENT_SOURCE = String.raw`
+const readline = require("node:readline");
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+const update = (sessionId, value) => send({ method: "session/update", params: { sessionId, update: value } });
+const canLoadSession = process.argv.includes("--load-session");
+let pendingPrompt = null;
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line);
+  if (message.method === "initialize") {
+    send({ id: message.id, result: { protocolVersion: 1, agentCapabilities: { loadSession: canLoadSession } } });
+  } else if (message.method === "session/new") {
+    send({ id: message.id, result: { sessionId: "sess-1" } });
+  } else if (message.method === "session/load") {
+    const { sessionId } = message.params;
+    update(sessionId, { sessionUpdate: "user_message_chunk", content: { type: "text", text: "Earlier" } });
+    update(sessionId, { sessionUpdate: "user_message_chunk", content: { type: "text", text: " question" } });
+    update(sessionId, { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "Earlier answer" } });
+    send({ id: message.id, result: {} });
+  } else if (message.method === "session/prompt" && message.params.prompt[0].text === "crash") {
+    process.exit(1);
+  } else if (message.method === "session/prompt") {
+    pendingPrompt = message;
+    const { sessionId } = message.params;
+    update(sessionId, { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "Looking" } });
+    update(sessionId, { sessionUpdate: "agent_message_chunk", content: { type: "text", text: " now" } });
+    update(sessionId, { sessionUpdate: "tool_call", toolCallId: "call-1", title: "npm test", kind: "execute", status: "pending" });
+    send({
+      id: "perm-1",
+      method: "session/request_permission",
+      params: {
+        sessionId,
+        toolCall: { toolCallId: "call-1" },
+        options: [
+          { optionId: "yes", name: "Allow", kind: "allow_once" },
+          { optionId: "no", name: "Deny", kind: "reject_once" }
+        ]
+      }
+    });
+  } else if (message.id === "perm-1" && message.result.outcome.outcome === "selected") {
+    const { sessionId } = pendingPrompt.params;
+    const allowed = message.result.outcome.optionId === "yes";
+    update(sessionId, {
+      sessionUpdate: "tool_call_update",
+      toolCallId: "call-1",
+      status: allowed ? "completed" : "failed",
+      content: [{ type: "content", content: { type: "text", text: allowed ? "42 passed" : "denied" } }]
+    });
+    send({ id: pendingPrompt.id, result: { stopReason: "end_turn" } });
+  } else if (message.method === "session/cancel") {
+    send({ id: pendingPrompt.id, result: { stopReason: "cancelled" } });
+  }
+});
+`;
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-acp-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function writeAgentsFile(value: unknown): string {
+  const filePath = path.join(tempDir, "agents.json");
+  fs.writeFileSync(filePath, typeof value === "string" ? value : JSON.stringify(value));
+  return filePath;
+}
+
+describe("loadAcpAgentConfigs", () => {
+  it("resolves the config file inside the data dir", () => {
+    expect(resolveAcpAgentsPath({ FARFIELD_DATA_DIR: "/var/farfield" }, "/srv")).toBe(
+      path.join("/var/farfield", "agents.json")
+    );
+    expect(resolveAcpAgentsPath({ FARFIELD_AGENTS_FILE: "conf/agents.json" }, "/srv")).toBe(
+      path.join("/srv", "conf", "agents.json")
+    );
+  });
+
+  it("treats a missing file as no agents", () => {
+    expect(loadAcpAgentConfigs(path.join(tempDir, "missing.json"))).toEqual([]);
+  });
+
+  it("fills defaults and maps capabilities", () => {
+    const filePath = writeAgentsFile({
+      agents: [
+        {
+          id: "gemini",
+          label: "Gemini CLI",
+          command: "gemini",
+          args: ["--experimental-acp"],
+          cwd: "work",
+          capabilities: { canRenameThreads: false }
+        }
+      ]
+    });
+
+    const [config] = loadAcpAgentConfigs(filePath);
+    expect(config).toMatchObject({
+      id: "gemini",
+      label: "Gemini CLI",
+      command: "gemini",
+      args: ["--experimental-acp"],
+      env: {},
+      cwd: path.join(tempDir, "work")
+    });
+    expect(config?.capabilities).toMatchObject({
+      canReadLiveState: true,
+      canSubmitApprovals: true,
+      canRenameThreads: false,
+      canForkThreads: false
+    });
+  });
+
+  it("rejects malformed entries, taken ids and unsupported capabilities", () => {
+    expect(() => loadAcpAgentConfigs(writeAgentsFile("{"))).toThrow("not valid JSON");
+    expect(() => loadAcpAgentConfigs(writeAgentsFile({ agents: [{ id: "Gemini", command: "g" }] }))).toThrow(
+      "agents.0.id"
+    );
+    expect(() => loadAcpAgentConfigs(writeAgentsFile({ agents: [{ id: "codex", command: "g" }] }))).toThrow(
+      "already taken"
+    );
+    expect(() =>
+      loadAcpAgentConfigs(
+        writeAgentsFile({ agents: [{ id: "gemini", command: "g", capabilities: { canForkThreads: true } }] })
+      )
+    ).toThrow("ACP agents cannot support canForkThreads");
+  });
+});
+
+describe("AcpAgentAdapter", () => {
+  function createAdapter(agentArgs: string[] = []): AcpAgentAdapter {
+    const scriptPath = path.join(tempDir, "fake-agent.cjs");
+    fs.writeFileSync(scriptPath, FAKE_AGENT_SOURCE);
+    const filePath = writeAgentsFile({
+      agents: [{ id: "fake", label: "Fake agent", command: process.execPath, args: [scriptPath, ...agentArgs] }]
+    });
+    const [config] = loadAcpAgentConfigs(filePath);
+    return new AcpAgentAdapter({ config: config!, userAgent: "farfield/test", workspaceDir: tempDir });
+  }
+
+  function waitForEvent(
+    adapter: AcpAgentAdapter,
+    predicate: (event: AcpSessionEvent) => boolean
+  ): Promise<AcpSessionEvent> {
+    return new Promise((resolve) => {
+      const unsubscribe = adapter.onSessionEvent((event) => {
+        if (predicate(event)) {
+          unsubscribe();
+          resolve(event);
+        }
+      });
+    });
+  }
+
+  it("runs a prompt through a permission request into the transcript", async () => {
+    const adapter = createAdapter();
+    await adapter.start();
+    try {
+      expect(adapter.isConnected()).toBe(true);
+
+      const { threadId } = await adapter.createThread({});
+      expect(threadId).toBe("sess-1");
+
+      const permissionRequested = waitForEvent(adapter, (event) => event.method === "session/request_permission");
+      await adapter.sendMessage({ threadId, text: "Run the tests" });
+      await permissionRequested;
+
+      const [approval] = await adapter.listPendingApprovals(threadId);
+      expect(approval).toMatchObject({
+        kind: "acpPermission",
+        threadId,
+        params: { toolCallId: "call-1", title: "npm test", toolKind: "execute" }
+      });
+
+      const finished = waitForEvent(adapter, (event) => event.method === "session/prompt/finished");
+      await adapter.submitApproval({ threadId, requestId: approval!.requestId, decision: "once" });
+      await finished;
+
+      expect(await adapter.listPendingApprovals(threadId)).toEqual([]);
+      const { thread } = await adapter.readThread({ threadId, includeTurns: true });
+      expect(thread.turns).toHaveLength(1);
+      expect(thread.turns[0]).toMatchObject({
+        status: "completed",
+        items: [
+          { type: "userMessage", content: [{ type: "text", text: "Run the tests" }] },
+          { type: "agentMessage", text: "Looking now" },
+          { type: "commandExecution", id: "call-1", command: "npm test", status: "completed", aggregatedOutput: "42 passed" }
+        ]
+      });
+
+      const { data } = await adapter.listThreads({ limit: 20, archived: false, all: false, maxPages: 1, cursor: null });
+      expect(data).toMatchObject([{ id: threadId, preview: "Run the tests", source: "acp" }]);
+    } finally {
+      await adapter.stop();
+    }
+  });
+
+  it("cancels pending permissions when interrupted", async () => {
+    const adapter = createAdapter();
+    await adapter.start();
+    try {
+      const { threadId } = await adapter.createThread({});
+      const permissionRequested = waitForEvent(adapter, (event) => event.method === "session/request_permission");
+      await adapter.sendMessage({ threadId, text: "Run the tests" });
+      await permissionRequested;
+
+      await expect(adapter.sendMessage({ threadId, text: "Again" })).rejects.toThrow("still working");
+
+      const finished = waitForEvent(adapter, (event) => event.method === "session/prompt/finished");
+      await adapter.interrupt({ threadId });
+      expect((await finished).payload).toMatchObject({ status: "interrupted" });
+      expect(await adapter.listPendingApprovals(threadId)).toEqual([]);
+    } finally {
+      await adapter.stop();
+    }
+  });
+
+  it("restores sessions with session/load after the agent exits or the server restarts", async () => {
+    const adapter = createAdapter(["--load-session"]);
+    await adapter.start();
+    try {
+      const { threadId } = await adapter.createThread({});
+      const finished = waitForEvent(adapter, (event) => event.method === "session/prompt/finished");
+      await adapter.sendMessage({ threadId, text: "crash" });
+      expect((await finished).payload).toMatchObject({ status: "failed" });
+      expect(adapter.isConnected()).toBe(false);
+
+      // The transcript stays readable without respawning the agent.
+      const { thread: crashed } = await adapter.readThread({ threadId, includeTurns: true });
+      expect(crashed.turns[0]).toMatchObject({ status: "failed" });
+      expect(adapter.isConnected()).toBe(false);
+
+      const permissionRequested = waitForEvent(adapter, (event) => event.method === "session/request_permission");
+      await adapter.sendMessage({ threadId, text: "Run the tests" });
+      await permissionRequested;
+      expect(adapter.isConnected()).toBe(true);
+      const { thread } = await adapter.readThread({ threadId, includeTurns: true });
+      expect(thread.turns.map((turn) => turn.items[0])).toMatchObject([
+        { type: "userMessage", content: [{ type: "text", text: "Earlier question" }] },
+        { type: "userMessage", content: [{ type: "text", text: "Run the tests" }] }
+      ]);
+      expect(thread.turns[0]?.items[1]).toMatchObject({ type: "agentMessage", text: "Earlier answer" });
+    } finally {
+      await adapter.stop();
+    }
+
+    const restarted = createAdapter(["--load-session"]);
+    await restarted.start();
+    try {
+      const { thread } = await restarted.readThread({ threadId: "sess-1", includeTurns: true });
+      expect(thread).toMatchObject({ id: "sess-1", title: "Earlier question" });
+      expect(thread.turns).toHaveLength(1);
+    } finally {
+      await restarted.stop();
+    }
+  });
+
+  it("fails clearly when the agent exits and cannot load sessions", async () => {
+    const adapter = createAdapter();
+    await adapter.start();
+    try {
+      const { threadId } = await adapter.createThread({});
+      const finished = waitForEvent(adapter, (event) => event.method === "session/prompt/finished");
+      await adapter.sendMessage({ threadId, text: "crash" });
+      await finished;
+
+      await expect(adapter.sendMessage({ threadId, text: "Again" })).rejects.toThrow(
+        "Fake agent restarted and cannot resume session sess-1"
+      );
+      await expect(adapter.readThread({ threadId: "sess-2", includeTurns: true })).rejects.toThrow(
+        "Unknown Fake agent session: sess-2"
+      );
+    } finally {
+      await adapter.stop();
+    }
+  });
+});
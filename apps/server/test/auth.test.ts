@@ -0,0 +1,80 @@
+import type { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import {
+  AuthGuard,
+  SESSION_COOKIE_NAME,
+  parseCookieHeader,
+  readBearerToken,
+  resolveAuthToken
+} from "../src/auth.js";
+
+function buildRequest(headers: Record<string, string>): IncomingMessage {
+  return { headers } as IncomingMessage;
+}
+
+function extractCookieValue(setCookie: string): string {
+  const pair = setCookie.split(";")[0] ?? "";
+  return pair.slice(pair.indexOf("=") + 1);
+}
+
+describe("resolveAuthToken", () => {
+  it("uses the configured token when present", () => {
+    expect(resolveAuthToken({ FARFIELD_AUTH_TOKEN: " secret " })).toEqual({
+      token: "secret",
+      generated: false
+    });
+  });
+
+  it("generates a pairing token when none is configured", () => {
+    const result = resolveAuthToken({});
+    expect(result.generated).toBe(true);
+    expect(result.token.length).toBeGreaterThanOrEqual(20);
+  });
+});
+
+describe("auth header parsing", () => {
+  it("parses cookie headers", () => {
+    const cookies = parseCookieHeader("a=1; farfield_session=abc%20def; broken");
+    expect(cookies.get("a")).toBe("1");
+    expect(cookies.get("farfield_session")).toBe("abc def");
+    expect(cookies.has("broken")).toBe(false);
+  });
+
+  it("reads bearer tokens", () => {
+    expect(readBearerToken("Bearer abc")).toBe("abc");
+    expect(readBearerToken("bearer  abc ")).toBe("abc");
+    expect(readBearerToken("Basic abc")).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+});
+
+describe("AuthGuard", () => {
+  it("accepts matching bearer tokens only", () => {
+    const guard = new AuthGuard({ token: "secret" });
+    expect(guard.isAuthorized(buildRequest({ authorization: "Bearer secret" }))).toBe(true);
+    expect(guard.isAuthorized(buildRequest({ authorization: "Bearer nope" }))).toBe(false);
+    expect(guard.isAuthorized(buildRequest({}))).toBe(false);
+  });
+
+  it("accepts issued session cookies until they expire", () => {
+    let now = 1_000;
+    const guard = new AuthGuard({ token: "secret", sessionTtlMs: 5_000, now: () => now });
+    const setCookie = guard.createSessionCookie();
+    expect(setCookie).toContain("HttpOnly");
+
+    const request = buildRequest({
+      cookie: `${SESSION_COOKIE_NAME}=${extractCookieValue(setCookie)}`
+    });
+    expect(guard.isAuthorized(request)).toBe(true);
+
+    now = 7_000;
+    expect(guard.isAuthorized(request)).toBe(false);
+  });
+
+  it("rejects session cookies signed with another token", () => {
+    const issuer = new AuthGuard({ token: "other" });
+    const guard = new AuthGuard({ token: "secret" });
+    const cookie = `${SESSION_COOKIE_NAME}=${extractCookieValue(issuer.createSessionCookie())}`;
+    expect(guard.isAuthorized(buildRequest({ cookie }))).toBe(false);
+  });
+});
@@ -22,4 +22,13 @@ describe("server cli options", () => {
       /Unknown agent id/
     );
   });
+
+  it("accepts configured agent ids alongside the built-in ones", () => {
+    const knownAgentIds = ["codex", "opencode", "gemini"];
+    expect(parseServerCliOptions(["--agents=gemini,codex"], knownAgentIds).agentIds).toEqual([
+      "gemini",
+      "codex"
+    ]);
+    expect(parseServerCliOptions(["--agents=all"], knownAgentIds).agentIds).toEqual(knownAgentIds);
+  });
 });
@@ -0,0 +1,143 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HistoryStore, type HistoryEntry } from "../src/history-store.js";
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-history-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function entry(index: number, overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id: `entry-${String(index)}`,
+    at: new Date(Date.UTC(2026, 1, 17, 0, 0, index)).toISOString(),
+    source: "ipc",
+    direction: index % 2 === 0 ? "in" : "out",
+    payload: { type: "broadcast", method: "thread-stream-state-changed", index },
+    meta: { method: "thread-stream-state-changed", threadId: index < 5 ? "thread-1" : "thread-2" },
+    ...overrides
+  };
+}
+
+describe("HistoryStore", () => {
+  it("pages newest first with cursors and filters", async () => {
+    const store = new HistoryStore({ dir: tempDir });
+    await store.load();
+    for (let index = 0; index < 10; index += 1) {
+      store.append(entry(index));
+    }
+
+    const first = store.query({ limit: 4 });
+    expect(first.entries.map((item) => item.id)).toEqual(["entry-6", "entry-7", "entry-8", "entry-9"]);
+    expect(first.nextCursor).toBe("entry-6");
+
+    const second = store.query({ limit: 4, before: "entry-6" });
+    expect(second.entries.map((item) => item.id)).toEqual(["entry-2", "entry-3", "entry-4", "entry-5"]);
+
+    const last = store.query({ limit: 4, before: "entry-2" });
+    expect(last.entries.map((item) => item.id)).toEqual(["entry-0", "entry-1"]);
+    expect(last.nextCursor).toBeNull();
+
+    const filtered = store.query({
+      limit: 10,
+      threadId: "thread-1",
+      direction: "in",
+      since: Date.parse(entry(1).at)
+    });
+    expect(filtered.entries.map((item) => item.id)).toEqual(["entry-2", "entry-4"]);
+    expect(filtered.nextCursor).toBeNull();
+    await store.close();
+  });
+
+  it("reloads persisted entries and skips a truncated last line", async () => {
+    const store = new HistoryStore({ dir: tempDir, recentLimit: 1 });
+    await store.load();
+    store.append(entry(0));
+    store.append(entry(1));
+    await store.close();
+    fs.appendFileSync(path.join(tempDir, "history-000001.ndjson"), '{"id":"cut-off",');
+
+    const reopened = new HistoryStore({ dir: tempDir, recentLimit: 1 });
+    await reopened.load();
+    expect(reopened.size).toBe(2);
+    // entry-0 is outside the recent window, so its payload comes back from disk.
+    expect(reopened.get("entry-0")).toEqual(entry(0));
+    expect(reopened.getInOrder(["entry-1", "missing", "entry-0"]).map((item) => item.id)).toEqual([
+      "entry-0",
+      "entry-1"
+    ]);
+
+    reopened.append(entry(2));
+    expect(reopened.query({ limit: 10 }).entries.map((item) => item.id)).toEqual([
+      "entry-0",
+      "entry-1",
+      "entry-2"
+    ]);
+    await reopened.close();
+  });
+
+  it("rotates segments and drops the oldest beyond the limit", async () => {
+    const lineBytes = Buffer.byteLength(`${JSON.stringify(entry(0))}\n`);
+    const store = new HistoryStore({ dir: tempDir, maxSegmentBytes: lineBytes * 2 + 8, maxSegments: 2, recentLimit: 1 });
+    await store.load();
+    for (let index = 0; index < 6; index += 1) {
+      store.append(entry(index));
+    }
+    await store.close();
+
+    expect(fs.readdirSync(tempDir).sort()).toEqual(["history-000002.ndjson", "history-000003.ndjson"]);
+    expect(store.size).toBe(4);
+    expect(store.get("entry-1")).toBeNull();
+    expect(store.query({ limit: 10, before: "entry-1" }).entries).toEqual([]);
+    expect(store.query({ limit: 10 }).entries.map((item) => item.id)).toEqual([
+      "entry-2",
+      "entry-3",
+      "entry-4",
+      "entry-5"
+    ]);
+  });
+
+  it("serves entries from memory until their lines are written", async () => {
+    const store = new HistoryStore({ dir: tempDir, recentLimit: 1 });
+    await store.load();
+    store.append(entry(0));
+    store.append(entry(1));
+
+    // entry-0 has left the recent window but may not be on disk yet.
+    expect(store.get("entry-0")).toEqual(entry(0));
+    await store.flush();
+    expect(fs.readFileSync(path.join(tempDir, "history-000001.ndjson"), "utf8").trim().split("\n")).toHaveLength(2);
+    expect(store.get("entry-0")).toEqual(entry(0));
+    await store.close();
+  });
+
+  it("writes entries appended during a load after the stored ones", async () => {
+    const first = new HistoryStore({ dir: tempDir });
+    await first.load();
+    first.append(entry(0));
+    first.append(entry(1));
+    await first.close();
+
+    const reopened = new HistoryStore({ dir: tempDir, recentLimit: 2 });
+    const loading = reopened.load();
+    reopened.append(entry(2));
+    await loading;
+    await reopened.flush();
+
+    expect(reopened.recent().map((item) => item.id)).toEqual(["entry-1", "entry-2"]);
+    expect(reopened.query({ limit: 10 }).entries.map((item) => item.id)).toEqual([
+      "entry-0",
+      "entry-1",
+      "entry-2"
+    ]);
+    expect(reopened.get("entry-0")).toEqual(entry(0));
+    await reopened.close();
+  });
+});
@@ -1,11 +1,21 @@
 import { describe, expect, it } from "vitest";
 import {
+  ForkThreadBodySchema,
+  HistoryQuerySchema,
+  NotificationMuteBodySchema,
   parseBody,
+  PushSubscribeBodySchema,
+  RenameThreadBodySchema,
+  ReplayBatchBodySchema,
   ReplayBodySchema,
+  RollbackThreadBodySchema,
+  SearchQuerySchema,
   SendMessageBodySchema,
   StartThreadBodySchema,
   SetModeBodySchema,
-  SubmitUserInputBodySchema
+  SubmitApprovalBodySchema,
+  SubmitUserInputBodySchema,
+  ThreadExportQuerySchema
 } from "../src/http-schemas.js";
 
 describe("server request schemas", () => {
@@ -16,6 +26,21 @@ describe("server request schemas", () => {
     });
 
     expect(parsed.text).toBe("hello");
+    expect(
+      parseBody(SendMessageBodySchema, { text: "hello", model: "anthropic/claude-sonnet" }).model
+    ).toBe("anthropic/claude-sonnet");
+  });
+
+  it("accepts message attachments by upload id", () => {
+    const parsed = parseBody(SendMessageBodySchema, {
+      text: "what is wrong here?",
+      attachments: [{ uploadId: "upload-1" }]
+    });
+
+    expect(parsed.attachments).toEqual([{ uploadId: "upload-1" }]);
+    expect(() =>
+      parseBody(SendMessageBodySchema, { text: "hello", attachments: [{ uploadId: "" }] })
+    ).toThrow();
   });
 
   it("rejects unknown fields", () => {
@@ -51,6 +76,27 @@ describe("server request schemas", () => {
     ).toThrowError(/Expected number/);
   });
 
+  it("validates approval decisions", () => {
+    const parsed = parseBody(SubmitApprovalBodySchema, {
+      requestId: 4,
+      decision: { acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] } }
+    });
+
+    expect(parsed.requestId).toBe(4);
+    expect(parseBody(SubmitApprovalBodySchema, { requestId: "req-1", decision: "decline" }).decision).toBe(
+      "decline"
+    );
+    expect(parseBody(SubmitApprovalBodySchema, { requestId: "per_1", decision: "always" }).decision).toBe(
+      "always"
+    );
+    expect(() =>
+      parseBody(SubmitApprovalBodySchema, {
+        requestId: 4,
+        decision: "approve"
+      })
+    ).toThrow();
+  });
+
   it("validates replay body", () => {
     const parsed = parseBody(ReplayBodySchema, {
       entryId: "abc",
@@ -60,6 +106,49 @@ describe("server request schemas", () => {
     expect(parsed.waitForResponse).toBe(true);
   });
 
+  it("validates edited replay frames", () => {
+    const parsed = parseBody(ReplayBodySchema, {
+      frame: { type: "request", method: "thread-follower-start-turn", params: { text: "hi" }, version: 2 }
+    });
+
+    expect("frame" in parsed && parsed.frame.version).toBe(2);
+    expect(() => parseBody(ReplayBodySchema, { frame: { type: "response", method: "x" } })).toThrow();
+    expect(() =>
+      parseBody(ReplayBodySchema, { entryId: "abc", frame: { type: "request", method: "x" } })
+    ).toThrow();
+  });
+
+  it("parses history query filters", () => {
+    expect(
+      HistoryQuerySchema.parse({
+        source: "ipc",
+        threadId: "thread-1",
+        since: "2026-02-17T00:00:01.500Z",
+        before: "entry-1",
+        limit: "50"
+      })
+    ).toEqual({
+      source: "ipc",
+      threadId: "thread-1",
+      since: Date.parse("2026-02-17T00:00:01.500Z"),
+      before: "entry-1",
+      limit: 50
+    });
+    expect(HistoryQuerySchema.parse({}).limit).toBe(120);
+    expect(HistoryQuerySchema.safeParse({ until: "yesterday" }).success).toBe(false);
+    expect(HistoryQuerySchema.safeParse({ direction: "sideways" }).success).toBe(false);
+  });
+
+  it("defaults replay batch timing", () => {
+    expect(parseBody(ReplayBatchBodySchema, { entryIds: ["a", "b"] })).toEqual({
+      entryIds: ["a", "b"],
+      delayMs: 0,
+      timing: "fixed"
+    });
+    expect(() => parseBody(ReplayBatchBodySchema, { entryIds: [] })).toThrow();
+    expect(() => parseBody(ReplayBatchBodySchema, { entryIds: ["a"], delayMs: -1 })).toThrow();
+  });
+
   it("validates start thread body with agentId", () => {
     const parsed = parseBody(StartThreadBodySchema, {
       agentId: "opencode",
@@ -69,6 +158,61 @@ describe("server request schemas", () => {
     expect(parsed.agentId).toBe("opencode");
   });
 
+  it("validates fork and rollback bodies", () => {
+    expect(parseBody(ForkThreadBodySchema, {})).toEqual({});
+    expect(parseBody(RollbackThreadBodySchema, { turnId: "turn-2" }).turnId).toBe("turn-2");
+    expect(() => parseBody(RollbackThreadBodySchema, {})).toThrowError();
+  });
+
+  it("trims thread names and rejects blank ones", () => {
+    expect(parseBody(RenameThreadBodySchema, { name: "  Release prep " }).name).toBe("Release prep");
+    expect(() => parseBody(RenameThreadBodySchema, { name: "   " })).toThrowError();
+  });
+
+  it("parses search query parameters", () => {
+    expect(
+      parseBody(SearchQuerySchema, {
+        q: "  flaky test ",
+        agentId: "codex",
+        since: "2026-01-01",
+        limit: "20"
+      })
+    ).toEqual({
+      q: "flaky test",
+      agentId: "codex",
+      since: 1767225600,
+      limit: 20
+    });
+    expect(() => parseBody(SearchQuerySchema, { q: "  " })).toThrowError();
+    expect(() => parseBody(SearchQuerySchema, { q: "x", until: "yesterday" })).toThrowError(
+      /Invalid date/
+    );
+  });
+
+  it("parses thread export query parameters", () => {
+    expect(parseBody(ThreadExportQuerySchema, {})).toEqual({ format: "md", redact: false });
+    expect(parseBody(ThreadExportQuerySchema, { format: "html", redact: "1" })).toEqual({
+      format: "html",
+      redact: true
+    });
+    expect(() => parseBody(ThreadExportQuerySchema, { format: "pdf" })).toThrowError();
+    expect(() => parseBody(ThreadExportQuerySchema, { format: "md", redact: "yes" })).toThrowError();
+  });
+
+  it("validates notification mute and push subscription bodies", () => {
+    expect(parseBody(NotificationMuteBodySchema, { threadId: "thread-1", muted: true })).toEqual({
+      threadId: "thread-1",
+      muted: true
+    });
+    expect(() => parseBody(NotificationMuteBodySchema, { threadId: "thread-1" })).toThrowError();
+    expect(() =>
+      parseBody(PushSubscribeBodySchema, {
+        endpoint: "not a url",
+        keys: { p256dh: "key", auth: "secret" }
+      })
+    ).toThrowError();
+  });
+
   it("rejects deprecated agentKind field", () => {
     expect(() =>
       parseBody(StartThreadBodySchema, {
@@ -0,0 +1,57 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NotificationStore, resolveNotificationStorePath } from "../src/notification-store.js";
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-notification-store-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const subscription = {
+  endpoint: "https://push.example.com/send/abc",
+  keys: { p256dh: "BPublicKey", auth: "secret" }
+};
+
+describe("NotificationStore", () => {
+  it("stores its file next to the thread store", () => {
+    expect(resolveNotificationStorePath({ FARFIELD_DATA_DIR: "/var/farfield" }, "/srv")).toBe(
+      path.join("/var/farfield", "notifications.json")
+    );
+  });
+
+  it("reloads mutes, subscriptions and VAPID keys after a restart", async () => {
+    const filePath = path.join(tempDir, "notifications.json");
+    const first = new NotificationStore({ filePath, now: () => 1000 });
+    const keys = first.getVapidKeys(() => ({ publicKey: "public", privateKey: "private" }));
+    first.setMuted("thread-1", true);
+    first.setMuted("thread-2", true);
+    first.setMuted("thread-2", false);
+    first.addSubscription(subscription);
+    await first.flush();
+
+    const second = new NotificationStore({ filePath });
+    second.load();
+
+    expect(second.isMuted("thread-1")).toBe(true);
+    expect(second.listMuted()).toEqual(["thread-1"]);
+    expect(second.listSubscriptions()).toEqual([{ ...subscription, createdAt: 1000 }]);
+    expect(second.getVapidKeys(() => ({ publicKey: "other", privateKey: "other" }))).toEqual(keys);
+    expect(second.removeSubscription(subscription.endpoint)).toBe(true);
+    expect(second.removeSubscription(subscription.endpoint)).toBe(false);
+  });
+
+  it("drops subscriptions made against previous VAPID keys", () => {
+    const store = new NotificationStore({ filePath: path.join(tempDir, "notifications.json") });
+    store.addSubscription(subscription);
+    store.getVapidKeys(() => ({ publicKey: "public", privateKey: "private" }));
+
+    expect(store.listSubscriptions()).toEqual([]);
+  });
+});
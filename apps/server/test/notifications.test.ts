@@ -0,0 +1,297 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ThreadConversationState } from "@farfield/protocol";
+import {
+  NotificationCenter,
+  NotificationDetector,
+  resolveWebhookSinkOptions,
+  ThreadNotificationScheduler,
+  WebhookSink,
+  type NotificationEvent,
+  type ThreadObservation
+} from "../src/notifications.js";
+
+const now = () => new Date("2026-01-01T00:00:00.000Z");
+
+function thread(
+  turns: ThreadConversationState["turns"],
+  requests: ThreadConversationState["requests"] = []
+): ThreadConversationState {
+  return { id: "thread-1", title: "Release prep", turns, requests };
+}
+
+function observation(state: ThreadConversationState | null): ThreadObservation {
+  return { agentId: "codex", threadId: "thread-1", thread: state, approvals: [] };
+}
+
+const runningTurn = { id: "turn-1", status: "inProgress", items: [] };
+const completedTurn = {
+  id: "turn-1",
+  status: "completed",
+  items: [{ id: "item-1", type: "agentMessage" as const, text: "All tests pass." }]
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("NotificationDetector", () => {
+  it("seeds on the first snapshot and reports turns that finish later", () => {
+    const detector = new NotificationDetector({ now });
+
+    expect(detector.observe(observation(thread([completedTurn])))).toEqual([]);
+    expect(
+      detector.observe(observation(thread([completedTurn, { ...runningTurn, id: "turn-2" }])))
+    ).toEqual([]);
+
+    const events = detector.observe(
+      observation(
+        thread([
+          completedTurn,
+          { id: "turn-2", status: "failed", error: { message: "Rate limited" }, items: [] }
+        ])
+      )
+    );
+    expect(events).toMatchObject([
+      {
+        kind: "turnFailed",
+        threadId: "thread-1",
+        turnId: "turn-2",
+        title: "Release prep",
+        body: "Rate limited",
+        url: "/threads/thread-1",
+        at: "2026-01-01T00:00:00.000Z"
+      }
+    ]);
+  });
+
+  it("reports completed turns with the last agent message and skips interrupts", () => {
+    const detector = new NotificationDetector({ now });
+    detector.observe(observation(thread([runningTurn, { ...runningTurn, id: "turn-2" }])));
+
+    const events = detector.observe(
+      observation(thread([completedTurn, { id: "turn-2", status: "interrupted", items: [] }]))
+    );
+    expect(events).toMatchObject([{ kind: "turnCompleted", turnId: "turn-1", body: "All tests pass." }]);
+    expect(detector.observe(observation(thread([completedTurn])))).toEqual([]);
+  });
+
+  it("reports new user input and approval requests once", () => {
+    const detector = new NotificationDetector({ now });
+    detector.observe(observation(thread([runningTurn])));
+
+    const inputRequest = {
+      method: "item/tool/requestUserInput" as const,
+      id: 7,
+      params: {
+        threadId: "thread-1",
+        turnId: "turn-1",
+        itemId: "item-2",
+        questions: [
+          {
+            id: "q1",
+            header: "Deploy",
+            question: "Deploy to staging?",
+            isOther: false,
+            isSecret: false,
+            options: []
+          }
+        ]
+      }
+    };
+    const approval = {
+      kind: "commandExecution" as const,
+      requestId: 3,
+      threadId: "thread-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      params: { threadId: "thread-1", turnId: "turn-1", itemId: "item-3", command: "rm -rf dist" }
+    };
+
+    const events = detector.observe({
+      ...observation(thread([runningTurn], [inputRequest])),
+      approvals: [approval]
+    });
+    expect(events.map((event) => [event.kind, event.body])).toEqual([
+      ["userInputRequested", "Deploy to staging?"],
+      ["approvalRequested", "Run rm -rf dist"]
+    ]);
+
+    expect(
+      detector.observe({ ...observation(thread([runningTurn], [inputRequest])), approvals: [approval] })
+    ).toEqual([]);
+  });
+});
+
+describe("NotificationCenter", () => {
+  it("delivers to every sink unless the thread is muted", async () => {
+    const muted = new Set<string>();
+    const delivered: NotificationEvent[] = [];
+    const failures: string[] = [];
+    const center = new NotificationCenter({
+      store: { isMuted: (threadId) => muted.has(threadId) },
+      sinks: [
+        {
+          name: "memory",
+          deliver: async (event) => {
+            delivered.push(event);
+          }
+        },
+        {
+          name: "broken",
+          deliver: async () => {
+            throw new Error("offline");
+          }
+        }
+      ],
+      detector: new NotificationDetector({ now }),
+      onError: (error, sink) => {
+        failures.push(`${sink}: ${(error as Error).message}`);
+      }
+    });
+
+    await center.observe(observation(thread([runningTurn])));
+    expect(await center.observe(observation(thread([completedTurn])))).toHaveLength(1);
+    expect(delivered).toHaveLength(1);
+    expect(failures).toEqual(["broken: offline"]);
+
+    muted.add("thread-1");
+    await center.observe(observation(thread([completedTurn, { ...runningTurn, id: "turn-2" }])));
+    expect(
+      await center.observe(
+        observation(thread([completedTurn, { ...completedTurn, id: "turn-2" }]))
+      )
+    ).toEqual([]);
+    expect(delivered).toHaveLength(1);
+  });
+});
+
+describe("ThreadNotificationScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("observes each updated thread once per burst and delivers what it finds", async () => {
+    vi.useFakeTimers();
+    const delivered: NotificationEvent[] = [];
+    const center = new NotificationCenter({
+      store: { isMuted: () => false },
+      sinks: [
+        {
+          name: "memory",
+          deliver: async (event) => {
+            delivered.push(event);
+          }
+        }
+      ],
+      detector: new NotificationDetector({ now })
+    });
+    let current = thread([runningTurn]);
+    const observe = vi.fn(async (agentId: string, threadId: string) => {
+      await center.observe({ agentId, threadId, thread: current, approvals: [] });
+    });
+    const scheduler = new ThreadNotificationScheduler({ observe, delayMs: 500 });
+
+    scheduler.schedule("codex", "thread-1");
+    scheduler.schedule("codex", "thread-1");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(observe).toHaveBeenCalledTimes(1);
+
+    current = thread([completedTurn]);
+    scheduler.schedule("codex", "thread-1");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(observe).toHaveBeenCalledTimes(2);
+    expect(delivered).toMatchObject([{ kind: "turnCompleted", threadId: "thread-1" }]);
+
+    // Nothing stays armed once the burst has been observed.
+    expect(vi.getTimerCount()).toBe(0);
+    scheduler.close();
+  });
+});
+
+describe("WebhookSink", () => {
+  const event: NotificationEvent = {
+    id: "event-1",
+    kind: "userInputRequested",
+    agentId: "codex",
+    threadId: "thread-1",
+    turnId: "turn-1",
+    title: "Release prep",
+    body: "Deploy to staging?",
+    url: "/threads/thread-1",
+    at: "2026-01-01T00:00:00.000Z"
+  };
+
+  it("reads its configuration from the environment", () => {
+    expect(resolveWebhookSinkOptions({})).toBeNull();
+    expect(
+      resolveWebhookSinkOptions({
+        FARFIELD_NOTIFY_WEBHOOK_URL: "http://127.0.0.1:8080/farfield",
+        FARFIELD_NOTIFY_WEBHOOK_FORMAT: "NTFY",
+        FARFIELD_PUBLIC_URL: "https://farfield.example"
+      })
+    ).toEqual({
+      url: "http://127.0.0.1:8080/farfield",
+      format: "ntfy",
+      publicUrl: "https://farfield.example"
+    });
+    expect(() =>
+      resolveWebhookSinkOptions({
+        FARFIELD_NOTIFY_WEBHOOK_URL: "http://127.0.0.1:8080/hook",
+        FARFIELD_NOTIFY_WEBHOOK_FORMAT: "xml"
+      })
+    ).toThrowError(/json or ntfy/);
+  });
+
+  it("posts ntfy messages with title, tags and a click link", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new WebhookSink({
+      url: "http://127.0.0.1:8080/farfield",
+      format: "ntfy",
+      publicUrl: "https://farfield.example"
+    }).deliver(event);
+
+    expect(fetchMock).toHaveBeenCalledWith("http://127.0.0.1:8080/farfield", {
+      method: "POST",
+      headers: {
+        Title: "Release prep",
+        Tags: "question",
+        Priority: "high",
+        Click: "https://farfield.example/threads/thread-1"
+      },
+      body: "Deploy to staging?",
+      signal: expect.any(AbortSignal)
+    });
+  });
+
+  it("encodes ntfy titles that are not plain ASCII", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response("", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new WebhookSink({ url: "http://127.0.0.1:8080/farfield", format: "ntfy" }).deliver({
+      ...event,
+      title: "Fix “login” — 修正 🎉"
+    });
+
+    const init = fetchMock.mock.calls[0]?.[1] ?? {};
+    const title = (init.headers as Record<string, string>)["Title"];
+    expect(title).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+    expect(Buffer.from(title!.slice(10, -2), "base64").toString("utf8")).toBe("Fix “login” — 修正 🎉");
+    expect(() => new Headers({ Title: title! })).not.toThrow();
+  });
+
+  it("posts the event as JSON and surfaces HTTP failures", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 502 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      new WebhookSink({ url: "http://127.0.0.1:8080/hook", format: "json" }).deliver(event)
+    ).rejects.toThrowError("Webhook responded with HTTP 502");
+    expect(fetchMock).toHaveBeenCalledWith("http://127.0.0.1:8080/hook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+      signal: expect.any(AbortSignal)
+    });
+  });
+});
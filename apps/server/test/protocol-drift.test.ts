@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { formatSchemaPath, ProtocolDriftTracker } from "../src/protocol-drift.js";
+
+function frame(index: number, type: string): unknown {
+  return {
+    type: "broadcast",
+    method: "thread-stream-state-changed",
+    params: {
+      conversationId: "thread-1",
+      change: { items: [{ id: `item-${String(index)}`, type }] }
+    }
+  };
+}
+
+const typeIssue = (index: number) => ({
+  path: ["params", "change", "items", 0, "type"],
+  code: "invalid_union_discriminator",
+  message: `Invalid discriminator value (${String(index)})`
+});
+
+describe("ProtocolDriftTracker", () => {
+  it("collapses array indexes in schema paths", () => {
+    expect(formatSchemaPath(["turns", 3, "items", 0, "type"])).toBe("turns[].items[].type");
+    expect(formatSchemaPath([0, "id"])).toBe("[].id");
+    expect(formatSchemaPath([])).toBe("(root)");
+  });
+
+  it("groups failures by path and code and keeps the latest samples", () => {
+    let tick = 0;
+    const tracker = new ProtocolDriftTracker({
+      maxSamples: 2,
+      now: () => new Date(Date.UTC(2026, 9, 19, 0, 0, tick++))
+    });
+
+    for (let index = 0; index < 3; index += 1) {
+      tracker.record({
+        source: "ipc",
+        method: "thread-stream-state-changed",
+        details: [typeIssue(index)],
+        payload: frame(index, "toolCall")
+      });
+    }
+    tracker.record({
+      source: "app-server",
+      method: "turn/completed",
+      details: [{ path: ["turn", "status"], code: "invalid_enum_value", message: "Invalid enum value" }],
+      payload: { threadId: "thread-1", turn: { id: "turn-1", status: "paused" } }
+    });
+
+    expect(tracker.totalFailures).toBe(4);
+    const [appServer, ipc] = tracker.list();
+    expect(appServer).toMatchObject({
+      source: "app-server",
+      path: "turn.status",
+      count: 1,
+      samples: [{ path: ["turn", "status"], value: { id: "turn-1", status: "paused" } }]
+    });
+    expect(ipc).toMatchObject({
+      source: "ipc",
+      path: "params.change.items[].type",
+      code: "invalid_union_discriminator",
+      message: "Invalid discriminator value (2)",
+      count: 3,
+      firstSeenAt: "2026-10-19T00:00:00.000Z",
+      lastSeenAt: "2026-10-19T00:00:02.000Z"
+    });
+    expect(ipc?.samples.map((sample) => sample.value)).toEqual([
+      { id: "item-1", type: "toolCall" },
+      { id: "item-2", type: "toolCall" }
+    ]);
+
+    tracker.clear();
+    expect(tracker.list()).toEqual([]);
+    expect(tracker.totalFailures).toBe(0);
+  });
+
+  it("evicts the least recently seen entry and truncates large samples", () => {
+    const tracker = new ProtocolDriftTracker({ maxEntries: 2 });
+    for (const field of ["a", "b", "a", "c"]) {
+      tracker.record({
+        source: "app-server",
+        method: "item/started",
+        details: [{ path: [field], code: "invalid_type", message: "Required" }],
+        payload: { [field]: "x".repeat(10_000) }
+      });
+    }
+
+    const entries = tracker.list();
+    expect(entries.map((entry) => entry.path)).toEqual(["c", "a"]);
+    expect(entries[0]?.samples[0]?.truncated).toBe(true);
+    expect(typeof entries[0]?.samples[0]?.value).toBe("string");
+  });
+});
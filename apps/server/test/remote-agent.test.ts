@@ -0,0 +1,249 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  REMOTE_REQUEST_HEADER,
+  RemoteAgentAdapter,
+  resolveRemoteHosts
+} from "../src/agents/adapters/remote-agent.js";
+import { parseHostThreadId, qualifyHostThreadId, ThreadIndex } from "../src/agents/thread-index.js";
+import type { AgentHostStatus } from "../src/agents/types.js";
+
+const codexCapabilities = {
+  canListModels: true,
+  canListCollaborationModes: true,
+  canSetCollaborationMode: true,
+  canSubmitUserInput: true,
+  canSteerTurns: true,
+  canReadLiveState: true,
+  canReadStreamEvents: true,
+  canSubmitApprovals: true,
+  canForkThreads: true,
+  canRollbackThreads: true,
+  canCompactThreads: true,
+  canArchiveThreads: true,
+  canUnarchiveThreads: true,
+  canRenameThreads: true,
+  canReadUsage: true
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** Stubs fetch with a Farfield server whose event stream stays open until aborted. */
+function stubRemoteServer(routes: Record<string, unknown>): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string, init: RequestInit = {}) => {
+      const url = new URL(input);
+      if (url.pathname === "/events") {
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            init.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+          }
+        });
+        return new Response(body, { status: 200 });
+      }
+
+      requests.push({
+        url: input,
+        method: init.method ?? "GET",
+        headers: (init.headers ?? {}) as Record<string, string>,
+        body: typeof init.body === "string" ? JSON.parse(init.body) : null
+      });
+      const payload = routes[`${init.method ?? "GET"} ${url.pathname}`];
+      if (payload === undefined) {
+        return Response.json({ ok: false, error: "Not found" }, { status: 404 });
+      }
+      return Response.json({ ok: true, ...(payload as Record<string, unknown>) });
+    })
+  );
+  return requests;
+}
+
+const agentsRoute = {
+  agents: [
+    { id: "codex", enabled: true, connected: true, capabilities: codexCapabilities, projectDirectories: [] }
+  ],
+  defaultAgentId: "codex"
+};
+
+const remoteThread = {
+  id: "thread-1",
+  preview: "Fix the build",
+  createdAt: 1_700_000_000,
+  updatedAt: 1_700_000_100,
+  cwd: "/srv/app",
+  source: "opencode",
+  agentId: "opencode"
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveRemoteHosts", () => {
+  it("parses hosts and picks up per-host tokens", () => {
+    expect(
+      resolveRemoteHosts({
+        FARFIELD_REMOTE_HOSTS: "build-box=http://10.0.0.5:4311/, laptop=https://laptop.local/farfield",
+        FARFIELD_REMOTE_TOKEN_BUILD_BOX: "secret"
+      })
+    ).toEqual([
+      { id: "build-box", label: "build-box", url: "http://10.0.0.5:4311", token: "secret" },
+      { id: "laptop", label: "laptop", url: "https://laptop.local/farfield", token: null }
+    ]);
+    expect(resolveRemoteHosts({})).toEqual([]);
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => resolveRemoteHosts({ FARFIELD_REMOTE_HOSTS: "http://10.0.0.5" })).toThrow(
+      "name=url"
+    );
+    expect(() => resolveRemoteHosts({ FARFIELD_REMOTE_HOSTS: "a:b=http://10.0.0.5" })).toThrow(
+      "may only use"
+    );
+    expect(() => resolveRemoteHosts({ FARFIELD_REMOTE_HOSTS: "box=ftp://10.0.0.5" })).toThrow(
+      "http or https"
+    );
+    expect(() =>
+      resolveRemoteHosts({ FARFIELD_REMOTE_HOSTS: "box=http://a, box=http://b" })
+    ).toThrow("listed twice");
+  });
+});
+
+describe("host-qualified thread ids", () => {
+  it("round-trips and routes unknown qualified ids to the remote agent", () => {
+    const threadId = qualifyHostThreadId("build-box", "thread-1");
+    expect(threadId).toBe("build-box:thread-1");
+    expect(parseHostThreadId(threadId)).toEqual({ hostId: "build-box", threadId: "thread-1" });
+    expect(parseHostThreadId("thread-1")).toBeNull();
+
+    const index = new ThreadIndex(undefined, ["build-box"]);
+    index.register("thread-2", "codex");
+    expect(index.resolve(threadId)).toBe("remote");
+    expect(index.resolve("thread-2")).toBe("codex");
+    expect(index.resolve("thread-3")).toBeNull();
+    // An ACP session id with a colon is not a remote thread unless its prefix is a configured host.
+    expect(index.resolve("session:abc")).toBeNull();
+  });
+});
+
+describe("RemoteAgentAdapter", () => {
+  it("lists remote threads with host-qualified ids", async () => {
+    const requests = stubRemoteServer({
+      "GET /api/agents": agentsRoute,
+      "GET /api/threads": { data: [remoteThread], nextCursor: null }
+    });
+    const statuses: AgentHostStatus[] = [];
+    const adapter = new RemoteAgentAdapter({
+      hosts: [{ id: "build-box", label: "build-box", url: "http://box:4311", token: "secret" }],
+      userAgent: "farfield/test",
+      onHostStatusChange: (status) => statuses.push(status)
+    });
+
+    await adapter.start();
+    try {
+      expect(adapter.isConnected()).toBe(true);
+      expect(adapter.capabilities.canForkThreads).toBe(true);
+      expect(adapter.capabilities.canReadUsage).toBe(false);
+      expect(statuses).toMatchObject([{ id: "build-box", connected: true, lastError: null }]);
+
+      const result = await adapter.listThreads({
+        limit: 20,
+        archived: false,
+        all: false,
+        maxPages: 1,
+        cursor: null
+      });
+      expect(result.data).toMatchObject([
+        {
+          id: "build-box:thread-1",
+          preview: "Fix the build",
+          hostId: "build-box",
+          hostLabel: "build-box",
+          hostAgentId: "opencode"
+        }
+      ]);
+
+      const listRequest = requests.find((request) => request.url.includes("/api/threads"));
+      expect(listRequest?.headers).toMatchObject({
+        Authorization: "Bearer secret",
+        [REMOTE_REQUEST_HEADER]: "1"
+      });
+    } finally {
+      await adapter.stop();
+    }
+  });
+
+  it("routes thread calls to the owning host without the host prefix", async () => {
+    const requests = stubRemoteServer({
+      "GET /api/agents": agentsRoute,
+      "GET /api/threads/thread-1": {
+        thread: { id: "thread-1", turns: [], requests: [] },
+        agentId: "codex"
+      },
+      "POST /api/threads/thread-1/messages": {}
+    });
+    const adapter = new RemoteAgentAdapter({
+      hosts: [{ id: "build-box", label: "build-box", url: "http://box:4311", token: null }],
+      userAgent: "farfield/test"
+    });
+
+    await adapter.start();
+    try {
+      const { thread } = await adapter.readThread({
+        threadId: "build-box:thread-1",
+        includeTurns: false
+      });
+      expect(thread.id).toBe("build-box:thread-1");
+
+      await adapter.sendMessage({ threadId: "build-box:thread-1", text: "Ship it" });
+      expect(requests.at(-1)).toMatchObject({
+        url: "http://box:4311/api/threads/thread-1/messages",
+        method: "POST",
+        body: { text: "Ship it" }
+      });
+
+      await expect(
+        adapter.readThread({ threadId: "laptop:thread-1", includeTurns: true })
+      ).rejects.toThrow("Unknown remote host: laptop");
+    } finally {
+      await adapter.stop();
+    }
+  });
+
+  it("reports hosts that cannot be reached", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ ok: false, error: "Authentication required" }, { status: 401 }))
+    );
+    const adapter = new RemoteAgentAdapter({
+      hosts: [{ id: "laptop", label: "laptop", url: "http://laptop:4311", token: "wrong" }],
+      userAgent: "farfield/test",
+      reconnectDelayMs: 60_000
+    });
+
+    await adapter.start();
+    try {
+      expect(adapter.isConnected()).toBe(false);
+      expect(adapter.listHosts()).toEqual([
+        {
+          id: "laptop",
+          label: "laptop",
+          url: "http://laptop:4311",
+          connected: false,
+          lastError: "laptop rejected the access token"
+        }
+      ]);
+      await expect(
+        adapter.readThread({ threadId: "laptop:thread-1", includeTurns: true })
+      ).rejects.toThrow("Remote host laptop is not connected: laptop rejected the access token");
+    } finally {
+      await adapter.stop();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  collectObservedMethods,
+  ReplayBatch,
+  type ReplayBatchProgress,
+  type ReplayFrame
+} from "../src/replay-batch.js";
+
+function requestEntry(id: string, at: string, method: string): { id: string; at: string; payload: unknown } {
+  return {
+    id,
+    at,
+    payload: { type: "request", requestId: id, method, params: { id }, version: 1 }
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("collectObservedMethods", () => {
+  it("counts request and broadcast methods and skips other frames", () => {
+    const methods = collectObservedMethods([
+      requestEntry("a", "2026-02-17T00:00:00.000Z", "thread-follower-start-turn"),
+      { id: "b", at: "2026-02-17T00:00:01.000Z", payload: { type: "broadcast", method: "thread-stream-state-changed" } },
+      requestEntry("c", "2026-02-17T00:00:02.000Z", "thread-follower-start-turn"),
+      { id: "d", at: "2026-02-17T00:00:03.000Z", payload: { type: "response", requestId: "a" } },
+      { id: "e", at: "2026-02-17T00:00:04.000Z", payload: null }
+    ]);
+
+    expect(methods).toEqual([
+      { method: "thread-follower-start-turn", type: "request", count: 2, lastEntryId: "c" },
+      { method: "thread-stream-state-changed", type: "broadcast", count: 1, lastEntryId: "b" }
+    ]);
+  });
+});
+
+describe("ReplayBatch", () => {
+  it("rejects entries that are not request or broadcast frames", () => {
+    expect(
+      () =>
+        new ReplayBatch({
+          entries: [{ id: "bad", at: "2026-02-17T00:00:00.000Z", payload: { type: "response" } }],
+          delayMs: 0,
+          timing: "fixed",
+          send: async () => undefined
+        })
+    ).toThrow("Entry bad: Only captured request and broadcast entries can be replayed");
+  });
+
+  it("sends entries in order and keeps going after a failure", async () => {
+    const sent: ReplayFrame[] = [];
+    const batch = new ReplayBatch({
+      entries: [
+        requestEntry("a", "2026-02-17T00:00:00.000Z", "first"),
+        requestEntry("b", "2026-02-17T00:00:00.000Z", "second"),
+        { id: "c", at: "2026-02-17T00:00:00.000Z", payload: { type: "broadcast", method: "third", params: {} } }
+      ],
+      delayMs: 0,
+      timing: "fixed",
+      send: async (frame) => {
+        sent.push(frame);
+        if (frame.method === "second") {
+          throw new Error("no-handler-for-request");
+        }
+        return { echoed: frame.method };
+      }
+    });
+
+    const progress: ReplayBatchProgress[] = [];
+    batch.onProgress((update) => progress.push(update));
+    const result = await batch.run();
+
+    expect(sent.map((frame) => frame.method)).toEqual(["first", "second", "third"]);
+    expect(sent[0]).toEqual({ type: "request", method: "first", params: { id: "a" }, version: 1 });
+    expect(result).toEqual({
+      id: batch.id,
+      cancelled: false,
+      steps: [
+        { entryId: "a", method: "first", ok: true, response: { echoed: "first" } },
+        { entryId: "b", method: "second", ok: false, error: "no-handler-for-request" },
+        { entryId: "c", method: "third", ok: true }
+      ]
+    });
+    expect(progress.map((update) => [update.steps.length, update.finished])).toEqual([
+      [1, false],
+      [2, false],
+      [3, false],
+      [3, true]
+    ]);
+    expect(batch.progress).toEqual({ ...result, total: 3, finished: true });
+  });
+
+  it("waits the recorded gaps and stops when cancelled", async () => {
+    vi.useFakeTimers();
+    const sent: string[] = [];
+    const batch = new ReplayBatch({
+      entries: [
+        requestEntry("a", "2026-02-17T00:00:00.000Z", "first"),
+        requestEntry("b", "2026-02-17T00:00:02.000Z", "second"),
+        requestEntry("c", "2026-02-17T00:10:00.000Z", "third")
+      ],
+      delayMs: 0,
+      timing: "recorded",
+      send: async (frame) => {
+        sent.push(frame.method);
+        return null;
+      }
+    });
+
+    const running = batch.run();
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(sent).toEqual(["first"]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(["first", "second"]);
+
+    // The ten minute gap is capped, but cancelling still ends the wait early.
+    batch.cancel();
+    const result = await running;
+    expect(sent).toEqual(["first", "second"]);
+    expect(result.cancelled).toBe(true);
+    expect(result.steps.map((step) => step.entryId)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ThreadConversationState } from "@farfield/protocol";
+import type { AgentAdapter, AgentCapabilities } from "../src/agents/types.js";
+import { buildSnippet, extractSearchEntries, SearchIndex } from "../src/search-index.js";
+
+function buildThread(threadId: string): ThreadConversationState {
+  return {
+    id: threadId,
+    requests: [],
+    turns: [
+      {
+        id: "turn-1",
+        status: "completed",
+        items: [
+          {
+            id: "item-1",
+            type: "userMessage",
+            content: [{ type: "text", text: "Why is the login test flaky?" }]
+          },
+          {
+            id: "item-2",
+            type: "commandExecution",
+            command: "bun run test -- login",
+            status: "completed"
+          },
+          {
+            id: "item-3",
+            type: "fileChange",
+            changes: [{ path: "apps/web/test/login.test.tsx", kind: { type: "update" } }],
+            status: "completed"
+          },
+          { id: "item-4", type: "agentMessage", text: "The login test raced the auth request." }
+        ]
+      }
+    ]
+  };
+}
+
+const capabilities: AgentCapabilities = {
+  canListModels: false,
+  canListCollaborationModes: false,
+  canSetCollaborationMode: false,
+  canSubmitUserInput: false,
+  canSteerTurns: false,
+  canReadLiveState: false,
+  canReadStreamEvents: false,
+  canSubmitApprovals: false,
+  canForkThreads: false,
+  canRollbackThreads: false,
+  canCompactThreads: false,
+  canArchiveThreads: false,
+  canUnarchiveThreads: false,
+  canRenameThreads: false,
+  canReadUsage: false
+};
+
+function buildAdapter(updatedAt: number): AgentAdapter {
+  return {
+    id: "codex",
+    label: "Codex",
+    capabilities,
+    start: vi.fn<AgentAdapter["start"]>(),
+    stop: vi.fn<AgentAdapter["stop"]>(),
+    isEnabled: () => true,
+    isConnected: () => true,
+    listThreads: vi.fn<AgentAdapter["listThreads"]>().mockResolvedValue({
+      data: [
+        {
+          id: "thread-1",
+          preview: "Why is the login test flaky?",
+          name: "Login flake",
+          createdAt: 1700000000,
+          updatedAt,
+          cwd: "/work/farfield",
+          source: "opencode"
+        }
+      ],
+      nextCursor: null
+    }),
+    createThread: vi.fn<AgentAdapter["createThread"]>(),
+    readThread: vi.fn<AgentAdapter["readThread"]>().mockResolvedValue({ thread: buildThread("thread-1") }),
+    sendMessage: vi.fn<AgentAdapter["sendMessage"]>(),
+    interrupt: vi.fn<AgentAdapter["interrupt"]>()
+  };
+}
+
+describe("extractSearchEntries", () => {
+  it("indexes messages, commands and file paths by turn", () => {
+    expect(extractSearchEntries(buildThread("thread-1"))).toEqual([
+      { turnId: "turn-1", kind: "userMessage", text: "Why is the login test flaky?" },
+      { turnId: "turn-1", kind: "command", text: "bun run test -- login" },
+      { turnId: "turn-1", kind: "fileChange", text: "apps/web/test/login.test.tsx" },
+      { turnId: "turn-1", kind: "agentMessage", text: "The login test raced the auth request." }
+    ]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("centers the snippet on the first match", () => {
+    const text = `${"a".repeat(100)} needle ${"b".repeat(200)}`;
+    const snippet = buildSnippet(text, ["needle"]);
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("needle");
+  });
+});
+
+describe("SearchIndex", () => {
+  it("refreshes from adapters and only re-reads updated threads", async () => {
+    const index = new SearchIndex();
+    const adapter = buildAdapter(1700000100);
+
+    await index.refresh([adapter]);
+    await index.refresh([adapter]);
+    expect(adapter.readThread).toHaveBeenCalledTimes(1);
+
+    const results = index.search({ q: "login" });
+    expect(results[0]).toMatchObject({ threadId: "thread-1", kind: "title" });
+    expect(results.map((result) => result.kind)).toContain("userMessage");
+    expect(results.every((result) => result.threadId === "thread-1")).toBe(true);
+    expect(index.search({ q: "raced", project: "/work/farfield" })[0]).toMatchObject({
+      turnId: "turn-1",
+      kind: "agentMessage"
+    });
+  });
+
+  it("applies agent, project and date filters", async () => {
+    const index = new SearchIndex();
+    await index.refresh([buildAdapter(1700000100)]);
+
+    expect(index.search({ q: "login.test.tsx" })[0]?.kind).toBe("fileChange");
+    expect(index.search({ q: "login", agentId: "opencode" })).toEqual([]);
+    expect(index.search({ q: "login", project: "/work/far" })).toEqual([]);
+    expect(index.search({ q: "login", since: 1700000200 })).toEqual([]);
+    expect(index.search({ q: "login", until: 1700000000 })).toEqual([]);
+    expect(index.search({ q: "   " })).toEqual([]);
+  });
+
+  it("drops threads that are no longer listed", async () => {
+    const index = new SearchIndex();
+    const adapter = buildAdapter(1700000100);
+    await index.refresh([adapter]);
+    expect(index.size).toBe(1);
+
+    vi.mocked(adapter.listThreads).mockResolvedValue({ data: [], nextCursor: null });
+    await index.refresh([adapter]);
+    expect(index.size).toBe(0);
+  });
+
+  it("updates renamed titles without re-reading the thread", async () => {
+    const index = new SearchIndex();
+    const adapter = buildAdapter(1700000100);
+    await index.refresh([adapter]);
+
+    const listed = await adapter.listThreads({ limit: 1, archived: false, all: true, maxPages: 1, cursor: null });
+    vi.mocked(adapter.listThreads).mockResolvedValue({
+      ...listed,
+      data: listed.data.map((thread) => ({ ...thread, name: "Auth race" }))
+    });
+    await index.refresh([adapter]);
+
+    expect(adapter.readThread).toHaveBeenCalledTimes(1);
+    expect(index.search({ q: "auth race" })[0]).toMatchObject({ kind: "title", title: "Auth race" });
+  });
+
+  it("coalesces scheduled refreshes and bounds concurrent reads", async () => {
+    vi.useFakeTimers();
+    try {
+      const index = new SearchIndex({ refreshDelayMs: 1_000, readConcurrency: 2 });
+      const adapter = buildAdapter(1700000100);
+      vi.mocked(adapter.listThreads).mockResolvedValue({
+        data: Array.from({ length: 6 }, (_, position) => ({
+          id: `thread-${String(position)}`,
+          preview: "preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000100,
+          source: "opencode"
+        })),
+        nextCursor: null
+      });
+      let reading = 0;
+      let maxReading = 0;
+      vi.mocked(adapter.readThread).mockImplementation(async ({ threadId }) => {
+        reading += 1;
+        maxReading = Math.max(maxReading, reading);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        reading -= 1;
+        return { thread: buildThread(threadId) };
+      });
+
+      index.scheduleRefresh([adapter]);
+      index.scheduleRefresh([adapter]);
+      expect(adapter.listThreads).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1_100);
+      expect(adapter.listThreads).toHaveBeenCalledTimes(1);
+      expect(index.size).toBe(6);
+      expect(maxReading).toBe(2);
+      index.close();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffThreadState,
+  ThreadDeltaPublisher,
+  type ThreadDeltaEvent
+} from "../src/thread-deltas.js";
+
+describe("diffThreadState", () => {
+  it("emits item and status patches for an active turn", () => {
+    const previous = {
+      id: "thread-1",
+      turns: [
+        {
+          status: "inProgress",
+          items: [{ id: "item-1", type: "agentMessage", text: "Hel" }]
+        }
+      ]
+    };
+    const next = {
+      id: "thread-1",
+      turns: [
+        {
+          status: "completed",
+          items: [
+            { id: "item-1", type: "agentMessage", text: "Hello" },
+            { id: "item-2", type: "agentMessage", text: "Done" }
+          ]
+        }
+      ]
+    };
+
+    expect(diffThreadState(previous, next)).toEqual([
+      { op: "replace", path: ["turns", 0, "status"], value: "completed" },
+      { op: "replace", path: ["turns", 0, "items", 0, "text"], value: "Hello" },
+      {
+        op: "add",
+        path: ["turns", 0, "items", 1],
+        value: { id: "item-2", type: "agentMessage", text: "Done" }
+      }
+    ]);
+  });
+
+  it("removes trailing entries and missing keys", () => {
+    expect(
+      diffThreadState(
+        { title: "old", turns: [{ items: [] }, { items: [] }] },
+        { turns: [{ items: [] }] }
+      )
+    ).toEqual([
+      { op: "remove", path: ["title"] },
+      { op: "remove", path: ["turns", 1] }
+    ]);
+  });
+
+  it("requires a snapshot when either side is not an object", () => {
+    expect(diffThreadState(null, { turns: [] })).toBeNull();
+  });
+});
+
+describe("ThreadDeltaPublisher", () => {
+  it("sends a snapshot on subscribe and deltas afterwards", async () => {
+    let state = { turns: [{ status: "inProgress", items: [] as string[] }] };
+    const events: ThreadDeltaEvent[] = [];
+    const publisher = new ThreadDeltaPublisher<string>({
+      loadView: async (_threadId, view) => (view === "liveState" ? state : undefined),
+      send: (_client, event) => events.push(event)
+    });
+
+    publisher.subscribe("thread-1", "client-1");
+    await publisher.flush("thread-1", "liveState");
+    expect(events.map((event) => event.type)).toEqual(["thread-snapshot"]);
+
+    state = { turns: [{ status: "completed", items: ["done"] }] };
+    await publisher.flush("thread-1", "liveState");
+    expect(events[1]).toEqual({
+      type: "thread-delta",
+      threadId: "thread-1",
+      view: "liveState",
+      patches: [
+        { op: "replace", path: ["turns", 0, "status"], value: "completed" },
+        { op: "add", path: ["turns", 0, "items", 0], value: "done" }
+      ]
+    });
+
+    publisher.close();
+  });
+});
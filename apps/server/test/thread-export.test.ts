@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { ThreadConversationState } from "@farfield/protocol";
+import { exportThread } from "../src/thread-export.js";
+
+const exportedAt = new Date("2026-01-01T00:00:00.000Z");
+
+function buildThread(): ThreadConversationState {
+  return {
+    id: "thread-1",
+    cwd: "/Users/alice/app",
+    requests: [],
+    turns: [
+      {
+        id: "turn-1",
+        status: "completed",
+        items: [
+          {
+            id: "item-1",
+            type: "userMessage",
+            content: [{ type: "text", text: "Fix the <login> test" }]
+          },
+          { id: "item-2", type: "reasoning", summary: ["Looking at the auth flow"] },
+          {
+            id: "item-3",
+            type: "commandExecution",
+            command: "bun run test",
+            status: "completed",
+            exitCode: 1,
+            durationMs: 2300,
+            aggregatedOutput: "FAIL login.test.tsx\n```nested fence```"
+          },
+          {
+            id: "item-4",
+            type: "fileChange",
+            status: "completed",
+            changes: [
+              {
+                path: "src/login.ts",
+                kind: { type: "update" },
+                diff: "-await wait()\n+await waitFor()"
+              }
+            ]
+          },
+          { id: "item-5", type: "plan", text: "1. Fix the race" },
+          {
+            id: "item-6",
+            type: "webSearch",
+            query: "vitest waitFor",
+            action: { type: "search", query: "vitest waitFor" }
+          },
+          { id: "item-7", type: "agentMessage", text: "Fixed, see https://example.com/run/1" },
+          { id: "item-8", type: "contextCompaction" },
+          { id: "item-9", type: "modelChanged", fromModel: "gpt-5", toModel: "gpt-5-codex" }
+        ]
+      }
+    ]
+  };
+}
+
+describe("exportThread", () => {
+  it("renders every item kind as Markdown", () => {
+    const exported = exportThread({
+      thread: buildThread(),
+      title: "Login flake",
+      format: "md",
+      redact: false,
+      exportedAt
+    });
+
+    expect(exported.fileName).toBe("login-flake.md");
+    expect(exported.contentType).toBe("text/markdown; charset=utf-8");
+    expect(exported.body).toContain("# Login flake");
+    expect(exported.body).toContain("- Exported: 2026-01-01T00:00:00.000Z");
+    expect(exported.body).toContain("### User\n\nFix the <login> test");
+    expect(exported.body).toContain("### Reasoning\n\nLooking at the auth flow");
+    expect(exported.body).toContain("_completed · exit 1 · 2.3s_");
+    expect(exported.body).toContain("````sh\n$ bun run test\nFAIL login.test.tsx\n```nested fence```\n````");
+    expect(exported.body).toContain("**update src/login.ts**\n\n```diff\n-await wait()\n+await waitFor()\n```");
+    expect(exported.body).toContain("### Plan\n\n1. Fix the race");
+    expect(exported.body).toContain("### Web search\n\n- vitest waitFor");
+    expect(exported.body).toContain("### Context compacted");
+    expect(exported.body).toContain("_gpt-5 → gpt-5-codex_");
+  });
+
+  it("escapes content in HTML transcripts", () => {
+    const exported = exportThread({
+      thread: buildThread(),
+      title: "Login <flake>",
+      format: "html",
+      redact: false,
+      exportedAt
+    });
+
+    expect(exported.contentType).toBe("text/html; charset=utf-8");
+    expect(exported.body.startsWith("<!doctype html>")).toBe(true);
+    expect(exported.body).toContain("<title>Login &lt;flake&gt;</title>");
+    expect(exported.body).toContain('<div class="text">Fix the &lt;login&gt; test</div>');
+    expect(exported.body).not.toContain("<login>");
+  });
+
+  it("redacts sensitive strings in every format", () => {
+    for (const format of ["md", "json", "html"] as const) {
+      const exported = exportThread({
+        thread: buildThread(),
+        title: "Login flake",
+        format,
+        redact: true,
+        exportedAt
+      });
+      expect(exported.body).not.toContain("/Users/alice");
+      expect(exported.body).not.toContain("https://example.com");
+      expect(exported.body).toContain("[redacted url]");
+    }
+
+    const json = exportThread({
+      thread: buildThread(),
+      title: "Login flake",
+      format: "json",
+      redact: true,
+      exportedAt
+    });
+    expect(JSON.parse(json.body)).toMatchObject({
+      title: "Login flake",
+      redacted: true,
+      thread: { id: "thread-1", cwd: "/Users/[redacted]/app" }
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ThreadIndex } from "../src/agents/thread-index.js";
+import { resolveThreadStorePath, ThreadStore } from "../src/thread-store.js";
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-thread-store-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("resolveThreadStorePath", () => {
+  it("uses the configured data dir", () => {
+    expect(resolveThreadStorePath({ FARFIELD_DATA_DIR: "/var/farfield" }, "/srv")).toBe(
+      path.join("/var/farfield", "threads.json")
+    );
+    expect(resolveThreadStorePath({}, "/srv")).toBe(path.join("/srv", ".farfield", "threads.json"));
+  });
+});
+
+describe("ThreadStore", () => {
+  it("reloads agent and owner mappings after a restart", async () => {
+    const filePath = path.join(tempDir, "threads.json");
+    const first = new ThreadStore({ filePath });
+    new ThreadIndex(first).register("thread-1", "opencode");
+    first.setOwner("thread-2", "client-a");
+    first.setName("thread-2", "Release prep");
+    await first.flush();
+
+    const second = new ThreadStore({ filePath });
+    second.load();
+
+    expect(new ThreadIndex(second).resolve("thread-1")).toBe("opencode");
+    expect(second.listOwners()).toEqual([{ threadId: "thread-2", ownerClientId: "client-a" }]);
+    expect(second.listNames()).toEqual([{ threadId: "thread-2", name: "Release prep" }]);
+  });
+
+  it("expires owners older than the ttl", async () => {
+    const filePath = path.join(tempDir, "threads.json");
+    let now = 1_000;
+    const first = new ThreadStore({ filePath, ownerTtlMs: 10_000, now: () => now });
+    first.setAgent("thread-1", "codex");
+    first.setOwner("thread-1", "client-a");
+    await first.flush();
+
+    now = 20_000;
+    const second = new ThreadStore({ filePath, ownerTtlMs: 10_000, now: () => now });
+    second.load();
+
+    expect(second.listOwners()).toEqual([]);
+    expect(second.listAgents()).toEqual([{ threadId: "thread-1", agentId: "codex" }]);
+    await second.flush();
+  });
+
+  it("ignores unreadable store files", () => {
+    const filePath = path.join(tempDir, "threads.json");
+    fs.writeFileSync(filePath, "{not json", "utf8");
+    const errors: unknown[] = [];
+    const store = new ThreadStore({ filePath, onError: (error) => errors.push(error) });
+
+    store.load();
+
+    expect(store.listAgents()).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TraceStore } from "../src/trace-store.js";
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-traces-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+function streamLine(at: string, change: unknown): string {
+  return JSON.stringify({
+    type: "history",
+    id: `entry-${at}`,
+    at,
+    source: "ipc",
+    direction: "in",
+    payload: {
+      type: "broadcast",
+      method: "thread-stream-state-changed",
+      sourceClientId: "desktop-1",
+      version: 1,
+      params: { conversationId: "thread-1", type: "thread-stream-state-changed", version: 1, change }
+    },
+    meta: { method: "thread-stream-state-changed", threadId: "thread-1" }
+  });
+}
+
+const UPLOADED_TRACE = [
+  streamLine("2026-02-17T00:00:01.000Z", {
+    type: "snapshot",
+    conversationState: { id: "thread-1", turns: [], requests: [], title: "First" }
+  }),
+  JSON.stringify({ type: "trace-marker", at: "2026-02-17T00:00:01.500Z", note: "renamed" }),
+  streamLine("2026-02-17T00:00:02.000Z", {
+    type: "patches",
+    patches: [{ op: "replace", path: ["title"], value: "Second" }]
+  }),
+  streamLine("2026-02-17T00:00:03.000Z", {
+    type: "patches",
+    patches: [{ op: "replace", path: ["missing", 0], value: "x" }]
+  })
+].join("\n");
+
+describe("TraceStore", () => {
+  it("lists recorded traces from disk with their labels", () => {
+    const store = new TraceStore({ dir: tempDir });
+    const created = store.create("capture");
+    fs.appendFileSync(
+      created.path,
+      `${JSON.stringify({ type: "trace-marker", at: "2026-02-17T00:00:01.000Z", note: "here" })}\n` +
+        `${JSON.stringify({ type: "trace-stop", at: "2026-02-17T00:00:02.000Z" })}\n`
+    );
+
+    const reopened = new TraceStore({ dir: tempDir });
+    expect(reopened.list()).toEqual([
+      { ...created, stoppedAt: "2026-02-17T00:00:02.000Z", eventCount: 1 }
+    ]);
+  });
+
+  it("reuses cached summaries until the file changes", () => {
+    const store = new TraceStore({ dir: tempDir });
+    const created = store.create("capture");
+    expect(store.list()).toEqual([created]);
+
+    const readFileSync = vi.spyOn(fs, "readFileSync");
+    expect(store.list()).toEqual([created]);
+    expect(readFileSync).not.toHaveBeenCalled();
+    readFileSync.mockRestore();
+
+    fs.appendFileSync(created.path, `${JSON.stringify({ type: "trace-marker", at: "2026-02-17T00:00:01.000Z" })}\n`);
+    expect(store.get(created.id)?.eventCount).toBe(1);
+
+    store.delete(created.id);
+    expect(store.list()).toEqual([]);
+  });
+
+  it("summarizes traces larger than one read chunk without reading them whole", () => {
+    const store = new TraceStore({ dir: tempDir });
+    const created = store.create("long capture");
+    const note = "x".repeat(50_000);
+    const markers = Array.from({ length: 5 }, (_, index) =>
+      JSON.stringify({ type: "trace-marker", at: `2026-02-17T00:00:0${String(index)}.000Z`, note })
+    );
+    fs.appendFileSync(
+      created.path,
+      `${markers.join("\n")}\n\n${JSON.stringify({ type: "trace-stop", at: "2026-02-17T00:00:09.000Z" })}\n`
+    );
+
+    const readFileSync = vi.spyOn(fs, "readFileSync");
+    expect(store.get(created.id)).toEqual({ ...created, stoppedAt: "2026-02-17T00:00:09.000Z", eventCount: 5 });
+    expect(readFileSync).not.toHaveBeenCalled();
+    readFileSync.mockRestore();
+  });
+
+  it("stores uploads under a fresh id and reads their entries", () => {
+    const store = new TraceStore({ dir: tempDir });
+    const trace = store.save("../Repro Trace.ndjson", Buffer.from(UPLOADED_TRACE));
+
+    expect(trace.id).toMatch(/^\d+-Repro_Trace$/);
+    expect(trace).toMatchObject({ label: "Repro_Trace", startedAt: "2026-02-17T00:00:01.000Z", eventCount: 4 });
+    expect(store.readEntries(trace.id)?.map((entry) => entry.type)).toEqual([
+      "history",
+      "trace-marker",
+      "history",
+      "history"
+    ]);
+
+    expect(() => store.save("bad.ndjson", Buffer.from("{\n[1]"))).toThrow("Trace line 1 is not valid JSON");
+    expect(() => store.save("bad.ndjson", Buffer.from("[1]"))).toThrow("JSON objects");
+  });
+
+  it("reduces a thread's state up to a given entry", () => {
+    const store = new TraceStore({ dir: tempDir });
+    const { id } = store.save("repro.ndjson", Buffer.from(UPLOADED_TRACE));
+
+    expect(store.readThreadStateAt(id, 1, "thread-1")).toMatchObject({
+      ownerClientId: "desktop-1",
+      conversationState: { title: "First" },
+      error: null
+    });
+    expect(store.readThreadStateAt(id, 2, "thread-1")?.conversationState?.title).toBe("Second");
+
+    const failed = store.readThreadStateAt(id, 3, "thread-1");
+    expect(failed?.conversationState).toBeNull();
+    expect(failed?.error).toContain("Thread stream reduction failed");
+
+    expect(store.readThreadStateAt(id, 9, "thread-1")).toBeNull();
+  });
+
+  it("refuses ids that would leave the trace directory", () => {
+    const store = new TraceStore({ dir: path.join(tempDir, "traces") });
+    fs.writeFileSync(path.join(tempDir, "secret.ndjson"), "{}\n");
+
+    expect(store.get("../secret")).toBeNull();
+    expect(store.delete("../secret")).toBe(false);
+    expect(fs.existsSync(path.join(tempDir, "secret.ndjson"))).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolveUploadDir, sanitizeUploadName, UploadStore } from "../src/uploads.js";
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-uploads-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("resolveUploadDir", () => {
+  it("stages uploads inside the data dir", () => {
+    expect(resolveUploadDir({ FARFIELD_DATA_DIR: "/var/farfield" }, "/srv")).toBe(
+      path.join("/var/farfield", "uploads")
+    );
+    expect(resolveUploadDir({}, "/srv")).toBe(path.join("/srv", ".farfield", "uploads"));
+  });
+});
+
+describe("sanitizeUploadName", () => {
+  it("keeps the base name and drops unsafe characters", () => {
+    expect(sanitizeUploadName("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeUploadName("C:\\Users\\me\\Screen Shot 1.png")).toBe("Screen Shot 1.png");
+    expect(sanitizeUploadName("notes$?.md")).toBe("notes__.md");
+    expect(sanitizeUploadName("..")).toBe("upload");
+  });
+});
+
+describe("UploadStore", () => {
+  it("writes uploads to disk and looks them up by id", () => {
+    const store = new UploadStore({ dir: tempDir });
+    const upload = store.save({
+      name: "screenshot.png",
+      mimeType: "image/png",
+      data: Buffer.from("png-bytes")
+    });
+
+    expect(upload).toMatchObject({ name: "screenshot.png", mimeType: "image/png", size: 9 });
+    expect(path.dirname(path.dirname(upload.path))).toBe(tempDir);
+    expect(fs.readFileSync(upload.path, "utf8")).toBe("png-bytes");
+    expect(store.get(upload.id)).toEqual(upload);
+    expect(store.get("missing")).toBeNull();
+  });
+
+  it("removes uploads past the TTL, including ones from an earlier run", () => {
+    let now = Date.now();
+    const orphanDir = path.join(tempDir, "left-by-last-run");
+    fs.mkdirSync(orphanDir);
+    fs.writeFileSync(path.join(orphanDir, "old.png"), "old");
+    const staleTime = new Date(now - 2 * 60 * 60 * 1000);
+    fs.utimesSync(orphanDir, staleTime, staleTime);
+
+    const store = new UploadStore({ dir: tempDir, ttlMs: 60 * 60 * 1000, now: () => now });
+    const upload = store.save({ name: "fresh.png", mimeType: "image/png", data: Buffer.from("new") });
+
+    expect(store.removeExpired()).toBe(1);
+    expect(fs.existsSync(orphanDir)).toBe(false);
+    expect(fs.existsSync(upload.path)).toBe(true);
+
+    now += 2 * 60 * 60 * 1000;
+    expect(store.get(upload.id)).toBeNull();
+    expect(store.removeExpired()).toBe(1);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+});
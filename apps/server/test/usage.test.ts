@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { UsageTracker } from "../src/usage.js";
+
+function breakdown(inputTokens: number, outputTokens: number) {
+  return {
+    cachedInputTokens: 0,
+    inputTokens,
+    outputTokens,
+    reasoningOutputTokens: 0,
+    totalTokens: inputTokens + outputTokens
+  };
+}
+
+describe("UsageTracker", () => {
+  it("keeps thread totals and sums request usage per turn", () => {
+    const tracker = new UsageTracker({ now: () => new Date("2026-01-01T00:00:00.000Z") });
+
+    tracker.record("thread-1", "turn-1", {
+      last: breakdown(100, 10),
+      total: breakdown(100, 10),
+      modelContextWindow: 200000
+    });
+    tracker.record("thread-1", "turn-1", {
+      last: breakdown(150, 20),
+      total: breakdown(250, 30)
+    });
+    const usage = tracker.record("thread-1", "turn-2", {
+      last: breakdown(200, 5),
+      total: breakdown(450, 35),
+      modelContextWindow: null
+    });
+
+    expect(usage.total.totalTokens).toBe(485);
+    expect(usage.last.inputTokens).toBe(200);
+    expect(usage.modelContextWindow).toBe(200000);
+    expect(usage.updatedAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(usage.turns).toEqual([
+      { turnId: "turn-1", usage: breakdown(250, 30) },
+      { turnId: "turn-2", usage: breakdown(200, 5) }
+    ]);
+    expect(tracker.get("thread-2")).toBeNull();
+  });
+
+  it("lists the most recently updated threads first and evicts the oldest", () => {
+    const tracker = new UsageTracker({ maxThreads: 2, maxTurnsPerThread: 1 });
+    const tokenUsage = { last: breakdown(1, 1), total: breakdown(1, 1) };
+
+    tracker.record("thread-1", "turn-1", tokenUsage);
+    tracker.record("thread-2", "turn-1", tokenUsage);
+    tracker.record("thread-1", "turn-2", tokenUsage);
+    tracker.record("thread-3", "turn-1", tokenUsage);
+
+    expect(tracker.list().map((entry) => entry.threadId)).toEqual(["thread-3", "thread-1"]);
+    expect(tracker.get("thread-1")?.turns.map((turn) => turn.turnId)).toEqual(["turn-2"]);
+
+    tracker.forget("thread-3");
+    expect(tracker.list().map((entry) => entry.threadId)).toEqual(["thread-1"]);
+  });
+});
@@ -0,0 +1,125 @@
+import crypto from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createVapidAuthorization,
+  encryptPushPayload,
+  generateVapidKeys,
+  sendWebPush
+} from "../src/web-push.js";
+
+function createBrowserSubscription() {
+  const ecdh = crypto.createECDH("prime256v1");
+  const publicKey = ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  return {
+    ecdh,
+    auth,
+    record: {
+      endpoint: "https://push.example.com/send/abc",
+      keys: { p256dh: publicKey.toString("base64url"), auth: auth.toString("base64url") },
+      createdAt: 0
+    }
+  };
+}
+
+// The user agent side of RFC 8291, used to check what the server produces.
+function decryptPushPayload(body: Buffer, subscription: ReturnType<typeof createBrowserSubscription>) {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = subscription.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    subscription.ecdh.getPublicKey(),
+    serverPublicKey
+  ]);
+  const inputKey = Buffer.from(crypto.hkdfSync("sha256", sharedSecret, subscription.auth, keyInfo, 32));
+  const contentKey = Buffer.from(
+    crypto.hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync("sha256", inputKey, salt, Buffer.from("Content-Encoding: nonce\0"), 12)
+  );
+
+  const decipher = crypto.createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final()
+  ]);
+  return { recordSize: body.readUInt32BE(16), plaintext };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("web push", () => {
+  it("encrypts payloads the subscribing browser can decrypt", () => {
+    const subscription = createBrowserSubscription();
+    const body = encryptPushPayload(Buffer.from('{"title":"Done"}'), subscription.record);
+
+    const { recordSize, plaintext } = decryptPushPayload(body, subscription);
+    expect(recordSize).toBe(4096);
+    expect(plaintext.toString("utf8")).toBe('{"title":"Done"}\u0002');
+  });
+
+  it("signs VAPID tokens for the push service origin", () => {
+    const keys = generateVapidKeys();
+    expect(Buffer.from(keys.publicKey, "base64url")).toHaveLength(65);
+
+    const header = createVapidAuthorization(
+      "https://push.example.com/send/abc",
+      keys,
+      "mailto:ops@example.com",
+      Date.UTC(2026, 0, 1)
+    );
+    const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(header);
+    expect(match?.[4]).toBe(keys.publicKey);
+
+    const [, encodedHeader, encodedClaims, encodedSignature] = match!;
+    expect(JSON.parse(Buffer.from(encodedClaims!, "base64url").toString("utf8"))).toEqual({
+      aud: "https://push.example.com",
+      exp: Date.UTC(2026, 0, 1) / 1000 + 12 * 60 * 60,
+      sub: "mailto:ops@example.com"
+    });
+
+    const publicKey = Buffer.from(keys.publicKey, "base64url");
+    const verifyKey = crypto.createPublicKey({
+      format: "jwk",
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33).toString("base64url")
+      }
+    });
+    expect(
+      crypto.verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifyKey, dsaEncoding: "ieee-p1363" },
+        Buffer.from(encodedSignature!, "base64url")
+      )
+    ).toBe(true);
+  });
+
+  it("reports subscriptions the push service has dropped", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response("", { status: 410 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const subscription = createBrowserSubscription();
+
+    await expect(
+      sendWebPush(subscription.record, "{}", {
+        vapidKeys: generateVapidKeys(),
+        subject: "mailto:ops@example.com"
+      })
+    ).resolves.toEqual({ status: 410, expired: true });
+    expect(fetchMock).toHaveBeenCalledWith(
+      subscription.record.endpoint,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+});
@@ -0,0 +1,174 @@
+// Service worker for Farfield: offline app shell, a cache of recently read
+// threads, and notifications. Push payloads are the server's notification
+// events: { kind, threadId, title, body, url, ... }.
+
+// Keep in sync with OFFLINE_CACHE_NAMES in src/lib/offline.ts, which clears the
+// thread cache on logout and when the session expires.
+const SHELL_CACHE = "farfield-shell-v1";
+const THREAD_CACHE = "farfield-threads-v1";
+const MAX_CACHED_THREADS = 20;
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-192.png", "/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = new Set([SHELL_CACHE, THREAD_CACHE]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith("farfield-") && !current.has(name))
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/** `/api/threads/:id` reads; live state, stream events and the rest stay uncached. */
+function isThreadRead(url) {
+  const segments = url.pathname.split("/").filter(Boolean);
+  return segments.length === 3 && segments[0] === "api" && segments[1] === "threads";
+}
+
+async function networkFirst(request, cacheName, cacheKey) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(cacheKey, { cacheName });
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/** Caches full thread reads, keeping only the most recently viewed ones. */
+async function readThread(request, url) {
+  const cacheKey = url.origin + url.pathname;
+  const withTurns = url.searchParams.get("includeTurns") !== "false";
+  try {
+    const response = await fetch(request);
+    if (response.ok && withTurns) {
+      const cache = await caches.open(THREAD_CACHE);
+      // Re-inserting moves the thread to the end of the key order.
+      await cache.delete(cacheKey);
+      await cache.put(cacheKey, response.clone());
+      const keys = await cache.keys();
+      const threadKeys = keys.filter((key) => isThreadRead(new URL(key.url)));
+      await Promise.all(
+        threadKeys.slice(0, Math.max(0, threadKeys.length - MAX_CACHED_THREADS)).map((key) => cache.delete(key))
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(cacheKey, { cacheName: THREAD_CACHE });
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    // Every route renders the same shell.
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/")) {
+    // Build output is content-hashed, so a cached file never goes stale.
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (url.pathname === "/api/threads") {
+    event.respondWith(networkFirst(request, THREAD_CACHE, request));
+    return;
+  }
+
+  if (isThreadRead(url)) {
+    event.respondWith(readThread(request, url));
+  }
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let notification;
+  try {
+    notification = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((clients) => {
+      // The user is already looking at this thread.
+      const watching = clients.some(
+        (client) => client.focused && new URL(client.url).pathname.startsWith(notification.url)
+      );
+      if (watching) {
+        return undefined;
+      }
+      return self.registration.showNotification(notification.title, {
+        body: notification.body,
+        tag: `farfield:${notification.threadId}`,
+        renotify: true,
+        data: { url: notification.url }
+      });
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated ?? client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
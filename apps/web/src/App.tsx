@@ -1,4 +1,5 @@
 import {
+  Fragment,
   startTransition,
   useCallback,
   useDeferredValue,
@@ -9,7 +10,10 @@ import {
 } from "react";
 import {
   Activity,
+  Archive,
   ArrowDown,
+  Bell,
+  BellOff,
   Bug,
   Circle,
   CircleDot,
@@ -17,44 +21,83 @@ import {
   FolderOpen,
   Github,
   Loader2,
+  LogOut,
   Menu,
   Moon,
   PanelLeft,
   Plus,
   RefreshCcw,
+  Shrink,
   Sun,
   X
 } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
 import {
+  archiveThread,
+  compactThread,
   createThread,
+  forkThread,
   getHealth,
   getHistoryEntry,
   getLiveState,
+  getPendingApprovals,
   getPendingUserInputRequests,
   getStreamEvents,
   readThread,
   getTraceStatus,
+  getUsage,
   interruptThread,
   listAgents,
   listCollaborationModes,
   listModels,
   listDebugHistory,
   listThreads,
+  logout,
   markTrace,
+  NotificationEventSchema,
+  onUnauthorized,
+  parseLiveStateView,
+  parseThreadView,
   replayHistoryEntry,
+  toReplayFrame,
+  renameThread,
+  rollbackThread,
+  searchThreads,
   sendMessage,
   setCollaborationMode,
   startTrace,
   stopTrace,
+  submitApproval,
   submitUserInput,
-  type AgentId
+  unarchiveThread,
+  uploadFile,
+  type AgentId,
+  type ApprovalDecision,
+  type ApprovalRequest,
+  type SearchResult,
+  type UploadedFile
 } from "@/lib/api";
+import { clearOfflineThreadCache, isNetworkError, whenOffline } from "@/lib/offline";
+import { applyThreadPatches } from "@/lib/thread-patches";
+import { useNotifications } from "@/hooks/useNotifications";
+import { useOutbox, type OutboxMessage } from "@/hooks/useOutbox";
 import { useTheme } from "@/hooks/useTheme";
 import { ConversationItem } from "@/components/ConversationItem";
 import { ChatComposer } from "@/components/ChatComposer";
-import { PendingRequestCard } from "@/components/PendingRequestCard";
+import { LoginScreen } from "@/components/LoginScreen";
+import { IpcFrameEditor } from "@/components/IpcFrameEditor";
+import { OutboxList } from "@/components/OutboxList";
+import { RemoteHostHeader } from "@/components/RemoteHostHeader";
+import { ApprovalRequestCard, PendingRequestCard } from "@/components/PendingRequestCard";
+import { ProtocolDriftPanel } from "@/components/ProtocolDriftPanel";
+import { ReplayBatchControls } from "@/components/ReplayBatchControls";
 import { StreamEventCard } from "@/components/StreamEventCard";
+import { ThreadActionsMenu } from "@/components/ThreadActionsMenu";
+import { ThreadExportMenu } from "@/components/ThreadExportMenu";
+import { ThreadSearch, type ThreadSearchFilters } from "@/components/ThreadSearch";
+import { TraceBrowser } from "@/components/TraceBrowser";
+import { TraceTimeline } from "@/components/TraceTimeline";
+import { RateLimitIndicator, ThreadUsageMeter } from "@/components/UsageIndicators";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
@@ -78,6 +121,7 @@ import {
   SelectTrigger,
   SelectValue
 } from "@/components/ui/select";
+import { ThreadStreamPatchSchema } from "@farfield/protocol";
 import { z } from "zod";
 
 /* ── Types ─────────────────────────────────────────────────── */
@@ -90,6 +134,7 @@ type StreamEventsResponse = Awaited<ReturnType<typeof getStreamEvents>>;
 type ReadThreadResponse = Awaited<ReturnType<typeof readThread>>;
 type AgentsResponse = Awaited<ReturnType<typeof listAgents>>;
 type TraceStatus = Awaited<ReturnType<typeof getTraceStatus>>;
+type UsageResponse = Awaited<ReturnType<typeof getUsage>>;
 type HistoryResponse = Awaited<ReturnType<typeof listDebugHistory>>;
 type HistoryDetail = Awaited<ReturnType<typeof getHistoryEntry>>;
 type PendingRequest = ReturnType<typeof getPendingUserInputRequests>[number];
@@ -107,6 +152,11 @@ interface FlatConversationItem {
   previousItemType: ConversationItemType | undefined;
   nextItemType: ConversationItemType | undefined;
   spacingTop: number;
+  // Set on the last rendered item of each finished turn.
+  turnId: string | undefined;
+  // Set on the first rendered item of each turn, for deep links.
+  anchorTurnId: string | undefined;
+  isLastTurn: boolean;
 }
 
 const SseStateEventSchema = z
@@ -122,6 +172,7 @@ const SseHistoryEventSchema = z
     entry: z
       .object({
         source: z.enum(["ipc", "app", "system"]),
+        direction: z.enum(["in", "out", "system"]).optional(),
         meta: z
           .object({
             method: z.string().optional(),
@@ -133,12 +184,74 @@ const SseHistoryEventSchema = z
   })
   .passthrough();
 
-const SseEventSchema = z.union([SseStateEventSchema, SseHistoryEventSchema]);
+const ThreadDeltaViewSchema = z.enum(["liveState", "thread"]);
+
+const SseThreadSnapshotEventSchema = z
+  .object({
+    type: z.literal("thread-snapshot"),
+    threadId: z.string(),
+    view: ThreadDeltaViewSchema,
+    state: z.unknown()
+  })
+  .passthrough();
+
+const SseThreadDeltaEventSchema = z
+  .object({
+    type: z.literal("thread-delta"),
+    threadId: z.string(),
+    view: ThreadDeltaViewSchema,
+    patches: z.array(ThreadStreamPatchSchema)
+  })
+  .passthrough();
+
+const SseNotificationEventSchema = z
+  .object({
+    type: z.literal("notification"),
+    notification: NotificationEventSchema
+  })
+  .passthrough();
+
+const SseEventSchema = z.union([
+  SseStateEventSchema,
+  SseHistoryEventSchema,
+  SseThreadSnapshotEventSchema,
+  SseThreadDeltaEventSchema,
+  SseNotificationEventSchema
+]);
+
+type SseThreadEvent =
+  | z.infer<typeof SseThreadSnapshotEventSchema>
+  | z.infer<typeof SseThreadDeltaEventSchema>;
+
+const APPROVAL_HISTORY_METHODS = new Set([
+  "item/commandExecution/requestApproval",
+  "item/fileChange/requestApproval",
+  "approval/resolved",
+  "permission.updated",
+  "permission.replied"
+]);
+
+const CORE_REFRESH_NOTIFICATION_METHODS = new Set([
+  "thread/started",
+  "thread/archived",
+  "thread/unarchived",
+  "thread/name/updated",
+  "turn/completed",
+  "session.updated",
+  "session.idle"
+]);
 
 interface RefreshFlags {
   refreshCore: boolean;
   refreshHistory: boolean;
   refreshSelectedThread: boolean;
+  refreshApprovals: boolean;
+}
+
+interface ThreadViewState {
+  threadId: string | null;
+  liveState: unknown;
+  thread: unknown;
 }
 
 /* ── Helpers ────────────────────────────────────────────────── */
@@ -153,6 +266,8 @@ function formatDate(value: number | string | null | undefined): string {
 }
 
 function threadLabel(thread: Thread): string {
+  const name = thread.name?.trim();
+  if (name) return name;
   const text = thread.preview.trim();
   if (!text) return `thread ${thread.id.slice(0, 8)}`;
   return text;
@@ -185,6 +300,23 @@ function shouldRenderConversationItem(item: ConversationTurnItem): boolean {
   }
 }
 
+/**
+ * Refreshes the newest history page without dropping older pages loaded with
+ * "Load older". If the new page no longer overlaps what is loaded, it replaces it.
+ */
+function mergeLatestHistory(
+  prev: HistoryResponse["history"],
+  latest: HistoryResponse["history"]
+): HistoryResponse["history"] {
+  const first = latest[0];
+  const overlap = first ? prev.findIndex((entry) => entry.id === first.id) : -1;
+  const merged = overlap === -1 ? latest : [...prev.slice(0, overlap), ...latest];
+  if (merged.length === prev.length && prev[prev.length - 1]?.id === merged[merged.length - 1]?.id) {
+    return prev;
+  }
+  return merged;
+}
+
 function signaturesMatch(prev: string[], next: string[]): boolean {
   if (prev.length !== next.length) {
     return false;
@@ -194,17 +326,23 @@ function signaturesMatch(prev: string[], next: string[]): boolean {
 
 const DEFAULT_EFFORT_OPTIONS = ["minimal", "low", "medium", "high", "xhigh"] as const;
 const INITIAL_VISIBLE_CHAT_ITEMS = 90;
+// Leaves room for the floating chat header when scrolling to a turn.
+const FOCUSED_TURN_SCROLL_OFFSET_PX = 64;
 const VISIBLE_CHAT_ITEMS_STEP = 80;
+const HISTORY_PAGE_SIZE = 120;
+const EVENTS_RECONNECT_BASE_MS = 500;
+const EVENTS_RECONNECT_MAX_MS = 30_000;
 const APP_DEFAULT_VALUE = "__app_default__";
 const ASSUMED_APP_DEFAULT_MODEL = "gpt-5.3-codex";
 const ASSUMED_APP_DEFAULT_EFFORT = "medium";
 const SIDEBAR_COLLAPSED_GROUPS_STORAGE_KEY = "farfield.sidebar.collapsed-groups.v1";
-const AGENT_FAVICON_BY_ID: Record<AgentId, string> = {
+// Keyed by plain strings so remote threads can show the agent running on their host.
+const AGENT_FAVICON_BY_ID: Record<string, string> = {
   codex: "https://openai.com/favicon.ico",
   opencode: "https://opencode.ai/favicon.ico"
 };
 
-function agentFavicon(agentId: AgentId | null | undefined): string | null {
+function agentFavicon(agentId: string | null | undefined): string | null {
   if (!agentId) {
     return null;
   }
@@ -216,7 +354,7 @@ function AgentFavicon({
   label,
   className
 }: {
-  agentId: AgentId;
+  agentId: string;
   label: string;
   className?: string;
 }) {
@@ -403,34 +541,52 @@ function writeSidebarCollapsedGroupsToStorage(value: Record<string, boolean>): v
   }
 }
 
-function parseUiStateFromPath(pathname: string): { threadId: string | null; tab: "chat" | "debug" } {
+function parseUiStateFromPath(pathname: string): {
+  threadId: string | null;
+  tab: "chat" | "debug";
+  turnId: string | null;
+} {
   const segments = pathname.split("/").filter((segment) => segment.length > 0);
   if (segments.length === 0) {
-    return { threadId: null, tab: "chat" };
+    return { threadId: null, tab: "chat", turnId: null };
   }
   if (segments.length === 1 && segments[0] === "debug") {
-    return { threadId: null, tab: "debug" };
+    return { threadId: null, tab: "debug", turnId: null };
   }
   if (segments[0] === "threads" && typeof segments[1] === "string" && segments[1].length > 0) {
     const threadId = decodeURIComponent(segments[1]);
     if (segments[2] === "debug") {
-      return { threadId, tab: "debug" };
+      return { threadId, tab: "debug", turnId: null };
+    }
+    if (segments[2] === "turns" && typeof segments[3] === "string" && segments[3].length > 0) {
+      return { threadId, tab: "chat", turnId: decodeURIComponent(segments[3]) };
     }
-    return { threadId, tab: "chat" };
+    return { threadId, tab: "chat", turnId: null };
   }
-  return { threadId: null, tab: "chat" };
+  return { threadId: null, tab: "chat", turnId: null };
 }
 
-function buildPathFromUiState(threadId: string | null, tab: "chat" | "debug"): string {
+function buildPathFromUiState(
+  threadId: string | null,
+  tab: "chat" | "debug",
+  turnId: string | null = null
+): string {
   if (!threadId) {
     return tab === "debug" ? "/debug" : "/";
   }
   if (tab === "debug") {
     return `/threads/${encodeURIComponent(threadId)}/debug`;
   }
+  if (turnId) {
+    return `/threads/${encodeURIComponent(threadId)}/turns/${encodeURIComponent(turnId)}`;
+  }
   return `/threads/${encodeURIComponent(threadId)}`;
 }
 
+function turnAnchorId(turnId: string): string {
+  return `turn-${turnId}`;
+}
+
 function IconBtn({
   onClick,
   disabled,
@@ -449,6 +605,7 @@ function IconBtn({
       type="button"
       onClick={onClick}
       disabled={disabled}
+      aria-label={title}
       variant="ghost"
       size="icon"
       className={`h-8 w-8 rounded-lg ${
@@ -480,25 +637,40 @@ export function App(): React.JSX.Element {
 
   /* State */
   const [error, setError] = useState("");
+  const [authRequired, setAuthRequired] = useState(false);
+  const notifications = useNotifications(!authRequired);
+  const showNotificationEventRef = useRef(notifications.showEvent);
+  showNotificationEventRef.current = notifications.showEvent;
   const [health, setHealth] = useState<Health | null>(null);
   const [threads, setThreads] = useState<ThreadsResponse["data"]>([]);
   const [selectedThreadId, setSelectedThreadId] = useState<string | null>(initialUiState.threadId);
   const [liveState, setLiveState] = useState<LiveStateResponse | null>(null);
   const [readThreadState, setReadThreadState] = useState<ReadThreadResponse | null>(null);
   const [streamEvents, setStreamEvents] = useState<StreamEventsResponse["events"]>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequest[]>([]);
   const [modes, setModes] = useState<ModesResponse["data"]>([]);
   const [models, setModels] = useState<ModelsResponse["data"]>([]);
   const [selectedModeKey, setSelectedModeKey] = useState("");
   const [selectedModelId, setSelectedModelId] = useState("");
+  // Model for the next message, for agents that choose models per message.
+  const [messageModelId, setMessageModelId] = useState("");
   const [selectedReasoningEffort, setSelectedReasoningEffort] = useState("");
   const [isBusy, setIsBusy] = useState(false);
   const [traceStatus, setTraceStatus] = useState<TraceStatus | null>(null);
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
   const [traceLabel, setTraceLabel] = useState("capture");
   const [traceNote, setTraceNote] = useState("");
+  const [openTraceId, setOpenTraceId] = useState<string | null>(null);
   const [history, setHistory] = useState<HistoryResponse["history"]>([]);
   const [selectedHistoryId, setSelectedHistoryId] = useState("");
+  // Id of the oldest stored entry once a page has reached it.
+  const [historyStartId, setHistoryStartId] = useState<string | null>(null);
+  const [isLoadingOlderHistory, setIsLoadingOlderHistory] = useState(false);
   const [historyDetail, setHistoryDetail] = useState<HistoryDetail | null>(null);
   const [waitForReplayResponse, setWaitForReplayResponse] = useState(false);
+  const [replaySelection, setReplaySelection] = useState<string[]>([]);
+  const [replayAnchorId, setReplayAnchorId] = useState<string | null>(null);
+  const [frameEditorMode, setFrameEditorMode] = useState<"edit" | "compose" | null>(null);
   const [selectedRequestId, setSelectedRequestId] = useState<number | null>(null);
   const [answerDraft, setAnswerDraft] = useState<Record<string, { option: string; freeform: string }>>({});
   const [agentDescriptors, setAgentDescriptors] = useState<AgentDescriptor[]>([]);
@@ -506,8 +678,15 @@ export function App(): React.JSX.Element {
 
   /* UI state */
   const [activeTab, setActiveTab] = useState<"chat" | "debug">(initialUiState.tab);
+  // Turn to scroll to, from a search result or a /threads/:id/turns/:turnId link.
+  const [focusedTurn, setFocusedTurn] = useState<{ threadId: string; turnId: string } | null>(
+    initialUiState.threadId && initialUiState.turnId
+      ? { threadId: initialUiState.threadId, turnId: initialUiState.turnId }
+      : null
+  );
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [desktopSidebarOpen, setDesktopSidebarOpen] = useState(true);
+  const [showArchivedThreads, setShowArchivedThreads] = useState(false);
   const [isChatAtBottom, setIsChatAtBottom] = useState(true);
   const [visibleChatItemLimit, setVisibleChatItemLimit] = useState(INITIAL_VISIBLE_CHAT_ITEMS);
   const [hasHydratedModeFromLiveState, setHasHydratedModeFromLiveState] = useState(false);
@@ -515,26 +694,39 @@ export function App(): React.JSX.Element {
   const [sidebarCollapsedGroups, setSidebarCollapsedGroups] = useState<Record<string, boolean>>(
     () => readSidebarCollapsedGroupsFromStorage()
   );
+  // Bumped to open a new event stream after the browser gave up on the old one.
+  const [eventsConnection, setEventsConnection] = useState(0);
 
   /* Refs */
   const selectedThreadIdRef = useRef<string | null>(null);
   const activeTabRef = useRef<"chat" | "debug">(initialUiState.tab);
+  const showArchivedThreadsRef = useRef(false);
   const refreshTimerRef = useRef<number | null>(null);
   const pendingRefreshFlagsRef = useRef<RefreshFlags>({
     refreshCore: false,
     refreshHistory: false,
-    refreshSelectedThread: false
+    refreshSelectedThread: false,
+    refreshApprovals: false
   });
+  const threadViewsRef = useRef<ThreadViewState>({
+    threadId: null,
+    liveState: undefined,
+    thread: undefined
+  });
+  const eventsReconnectAttemptRef = useRef(0);
+  const eventsResyncRef = useRef(false);
   const coreRefreshIntervalRef = useRef<number | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const chatContentRef = useRef<HTMLDivElement>(null);
   const isChatAtBottomRef = useRef(true);
+  const scrolledFocusedTurnRef = useRef<string | null>(null);
   const lastAppliedModeSignatureRef = useRef("");
   const hasHydratedAgentSelectionRef = useRef(false);
   const pendingMaterializationThreadIdsRef = useRef<Set<string>>(new Set());
   const threadsSignatureRef = useRef<string[]>([]);
   const modesSignatureRef = useRef<string[]>([]);
   const modelsSignatureRef = useRef<string[]>([]);
+  const usageSignatureRef = useRef<string[]>([]);
 
   /* Derived */
   const selectedThread = useMemo(
@@ -552,6 +744,12 @@ export function App(): React.JSX.Element {
     () => agentDescriptors.filter((descriptor) => descriptor.enabled).map((descriptor) => descriptor.id),
     [agentDescriptors]
   );
+  // The remote agent only ever creates threads on a specific host, from that host's groups.
+  const localAgentIds = useMemo(
+    () => availableAgentIds.filter((agentId) => agentId !== "remote"),
+    [availableAgentIds]
+  );
+  const remoteHosts = useMemo(() => agentsById["remote"]?.hosts ?? [], [agentsById]);
   const selectedAgentDescriptor = useMemo(
     () => agentsById[selectedAgentId] ?? null,
     [agentsById, selectedAgentId]
@@ -563,6 +761,7 @@ export function App(): React.JSX.Element {
       key: string;
       label: string;
       projectPath: string | null;
+      hostId: string | null;
       latestUpdatedAt: number;
       preferredAgentId: AgentId | null;
       threads: Thread[];
@@ -573,7 +772,9 @@ export function App(): React.JSX.Element {
       const cwd = typeof thread.cwd === "string" && thread.cwd.trim() ? thread.cwd.trim() : null;
       const path = typeof thread.path === "string" && thread.path.trim() ? thread.path.trim() : null;
       const projectPath = cwd ?? path;
-      const key = projectPath ? `project:${projectPath}` : "project:unknown";
+      const hostId = thread.hostId ?? null;
+      const projectKey = projectPath ? `project:${projectPath}` : "project:unknown";
+      const key = hostId ? `host:${hostId}:${projectKey}` : projectKey;
       const label = projectPath ? basenameFromPath(projectPath) : "Unknown";
       const updatedAt = typeof thread.updatedAt === "number" ? thread.updatedAt : 0;
       const threadAgentId = thread.agentId;
@@ -592,6 +793,7 @@ export function App(): React.JSX.Element {
           key,
           label,
           projectPath,
+          hostId,
           latestUpdatedAt: updatedAt,
           preferredAgentId: threadAgentId,
           threads: [thread]
@@ -613,6 +815,7 @@ export function App(): React.JSX.Element {
           key,
           label: basenameFromPath(normalized),
           projectPath: normalized,
+          hostId: null,
           latestUpdatedAt: 0,
           preferredAgentId: descriptor.id,
           threads: []
@@ -620,8 +823,14 @@ export function App(): React.JSX.Element {
       }
     }
 
-    return Array.from(groups.values()).sort((left, right) => right.latestUpdatedAt - left.latestUpdatedAt);
-  }, [agentDescriptors, threads]);
+    // Local projects first, then each remote host's projects in configured order.
+    const hostOrder = (hostId: string | null): number =>
+      hostId === null ? -1 : remoteHosts.findIndex((host) => host.id === hostId);
+    return Array.from(groups.values()).sort(
+      (left, right) =>
+        hostOrder(left.hostId) - hostOrder(right.hostId) || right.latestUpdatedAt - left.latestUpdatedAt
+    );
+  }, [agentDescriptors, remoteHosts, threads]);
   const conversationState = useMemo(() => {
     const liveConversationState = liveState?.conversationState ?? null;
     const readConversationState = readThreadState?.thread ?? null;
@@ -657,6 +866,21 @@ export function App(): React.JSX.Element {
   const canListModels = Boolean(activeAgentCapabilities?.canListModels);
   const canListCollaborationModes = Boolean(activeAgentCapabilities?.canListCollaborationModes);
   const canSubmitUserInputForActiveAgent = Boolean(activeAgentCapabilities?.canSubmitUserInput);
+  const canForkThreads = Boolean(activeAgentCapabilities?.canForkThreads);
+  const canRollbackThreads = Boolean(activeAgentCapabilities?.canRollbackThreads);
+  const canCompactThreads = Boolean(activeAgentCapabilities?.canCompactThreads);
+  const canSteerTurns = Boolean(activeAgentCapabilities?.canSteerTurns);
+  const canSubmitApprovalsForActiveAgent = Boolean(activeAgentCapabilities?.canSubmitApprovals);
+  const activeApproval = pendingApprovals[0] ?? null;
+  const selectedThreadUsage = useMemo(() => {
+    const polled = usage?.threads.find((entry) => entry.threadId === selectedThreadId) ?? null;
+    const read =
+      readThreadState?.thread.id === selectedThreadId ? (readThreadState?.usage ?? null) : null;
+    if (polled && read) {
+      return read.updatedAt > polled.updatedAt ? read : polled;
+    }
+    return polled ?? read;
+  }, [readThreadState, selectedThreadId, usage]);
 
   const planModeOption = useMemo(
     () => modes.find((mode) => isPlanModeOption(mode)) ?? null,
@@ -727,10 +951,19 @@ export function App(): React.JSX.Element {
           turnIsInProgress: turnInProgress,
           previousItemType: items[itemIndexInTurn - 1]?.type,
           nextItemType: items[itemIndexInTurn + 1]?.type,
-          spacingTop
+          spacingTop,
+          turnId: undefined,
+          anchorTurnId: startsNewTurn ? (turn.id ?? turn.turnId ?? undefined) : undefined,
+          isLastTurn
         });
         previousRenderedTurnIndex = turnIndex;
       });
+
+      const turnId = turn.id ?? turn.turnId ?? undefined;
+      const lastEntry = flattened[flattened.length - 1];
+      if (turnId && !turnInProgress && lastEntry && previousRenderedTurnIndex === turnIndex) {
+        lastEntry.turnId = turnId;
+      }
     });
 
     if (flattened.length > 0) {
@@ -747,8 +980,8 @@ export function App(): React.JSX.Element {
     [flatConversationItems, firstVisibleChatItemIndex]
   );
   const commitLabel = health?.state.gitCommit ?? "unknown";
-  const codexConfigured = agentsById.codex?.enabled === true;
-  const openCodeConnected = agentsById.opencode?.connected === true;
+  const codexConfigured = agentsById["codex"]?.enabled === true;
+  const openCodeConnected = agentsById["opencode"]?.connected === true;
   const allSystemsReady = codexConfigured
     ? (
       health?.state.appReady === true &&
@@ -765,14 +998,14 @@ export function App(): React.JSX.Element {
     : !openCodeConnected;
   /* Data loading */
   const loadCoreData = useCallback(async () => {
-    const [nh, nt, nm, nmo, ntr, nhist, nag] = await Promise.all([
+    const [nh, nt, nm, ntr, nhist, nag, nu] = await Promise.all([
       getHealth(),
-      listThreads({ limit: 80, archived: false, all: true, maxPages: 20 }),
+      listThreads({ limit: 80, archived: showArchivedThreadsRef.current, all: true, maxPages: 20 }),
       listCollaborationModes(),
-      listModels(),
       getTraceStatus(),
-      listDebugHistory(120),
-      listAgents().catch(() => null)
+      listDebugHistory({ limit: HISTORY_PAGE_SIZE }),
+      listAgents().catch(() => null),
+      getUsage().catch(() => null)
     ]);
     let preferredAgentId: AgentId | null = null;
     const nextThreadsSignature = nt.data.map((thread) =>
@@ -780,6 +1013,7 @@ export function App(): React.JSX.Element {
         thread.id,
         String(thread.updatedAt ?? 0),
         thread.preview,
+        thread.name ?? "",
         thread.agentId,
         thread.cwd ?? "",
         thread.path ?? ""
@@ -788,9 +1022,12 @@ export function App(): React.JSX.Element {
     const nextModesSignature = nm.data.map((mode) =>
       [mode.mode, mode.name, mode.reasoning_effort ?? ""].join("|")
     );
-    const nextModelsSignature = nmo.data.map((model) =>
-      [model.id, model.displayName ?? ""].join("|")
-    );
+    const nextUsageSignature = nu
+      ? [
+          ...nu.threads.map((entry) => [entry.threadId, entry.updatedAt].join("|")),
+          ...nu.rateLimits.map((entry) => [entry.agentId, entry.updatedAt ?? ""].join("|"))
+        ]
+      : [];
 
     startTransition(() => {
       setHealth((prev) => {
@@ -816,9 +1053,9 @@ export function App(): React.JSX.Element {
         modesSignatureRef.current = nextModesSignature;
         setModes(nm.data);
       }
-      if (!signaturesMatch(modelsSignatureRef.current, nextModelsSignature)) {
-        modelsSignatureRef.current = nextModelsSignature;
-        setModels(nmo.data);
+      if (nu && !signaturesMatch(usageSignatureRef.current, nextUsageSignature)) {
+        usageSignatureRef.current = nextUsageSignature;
+        setUsage(nu);
       }
       setTraceStatus((prev) => {
         if (
@@ -833,15 +1070,10 @@ export function App(): React.JSX.Element {
         }
         return ntr;
       });
-      setHistory((prev) => {
-        if (
-          prev.length === nhist.history.length &&
-          prev[prev.length - 1]?.id === nhist.history[nhist.history.length - 1]?.id
-        ) {
-          return prev;
-        }
-        return nhist.history;
-      });
+      setHistory((prev) => mergeLatestHistory(prev, nhist.history));
+      if (nhist.nextCursor === null) {
+        setHistoryStartId(nhist.history[0]?.id ?? null);
+      }
       if (nag) {
         setAgentDescriptors((prev) => {
           if (
@@ -900,25 +1132,23 @@ export function App(): React.JSX.Element {
     const descriptor = agentsById[threadAgentId];
     const canReadLiveState = descriptor?.capabilities.canReadLiveState ?? (threadAgentId === "codex");
     const canReadStreamEvents = descriptor?.capabilities.canReadStreamEvents ?? (threadAgentId === "codex");
+    const canSubmitApprovals = descriptor?.capabilities.canSubmitApprovals ?? false;
+    const noLiveState = { ok: true as const, threadId, ownerClientId: null, conversationState: null };
+    const noStreamEvents = { ok: true as const, threadId, ownerClientId: null, events: [] };
+    const noApprovals = { ok: true as const, threadId, approvals: [] };
 
-    const [live, stream, read] = await Promise.all([
+    // Offline, the service worker can still answer readThread from its cache.
+    const [live, stream, read, approvals] = await Promise.all([
       canReadLiveState
-        ? getLiveState(threadId)
-        : Promise.resolve({
-            ok: true as const,
-            threadId,
-            ownerClientId: null,
-            conversationState: null
-          }),
+        ? getLiveState(threadId).catch(whenOffline(noLiveState))
+        : Promise.resolve(noLiveState),
       canReadStreamEvents
-        ? getStreamEvents(threadId)
-        : Promise.resolve({
-            ok: true as const,
-            threadId,
-            ownerClientId: null,
-            events: []
-          }),
-      readThread(threadId, { includeTurns })
+        ? getStreamEvents(threadId).catch(whenOffline(noStreamEvents))
+        : Promise.resolve(noStreamEvents),
+      readThread(threadId, { includeTurns }),
+      canSubmitApprovals
+        ? getPendingApprovals(threadId).catch(whenOffline(noApprovals))
+        : Promise.resolve(noApprovals)
     ]);
     if ((live.conversationState?.turns.length ?? 0) > 0 || read.thread.turns.length > 0) {
       pendingMaterializationThreadIdsRef.current.delete(threadId);
@@ -946,36 +1176,86 @@ export function App(): React.JSX.Element {
         }
         return stream.events;
       });
+      setPendingApprovals(approvals.approvals);
     });
   }, [agentsById, selectedAgentId, threads]);
 
+  // The thread list the service worker kept from the last successful load.
+  const loadCachedThreads = useCallback(async () => {
+    const cached = await listThreads({
+      limit: 80,
+      archived: showArchivedThreadsRef.current,
+      all: true,
+      maxPages: 20
+    });
+    threadsSignatureRef.current = [];
+    startTransition(() => {
+      setThreads(cached.data);
+      setSelectedThreadId((cur) => cur ?? cached.data[0]?.id ?? null);
+    });
+  }, []);
+
   const refreshAll = useCallback(async () => {
     try {
       setError("");
       await loadCoreData();
       if (selectedThreadIdRef.current) await loadSelectedThread(selectedThreadIdRef.current);
     } catch (e) {
+      if (isNetworkError(e)) {
+        await loadCachedThreads().catch(() => undefined);
+        return;
+      }
       setError(toErrorMessage(e));
     }
-  }, [loadCoreData, loadSelectedThread]);
+  }, [loadCachedThreads, loadCoreData, loadSelectedThread]);
+
+  const sendQueuedMessage = useCallback(async (message: OutboxMessage) => {
+    await sendMessage({
+      threadId: message.threadId,
+      text: message.text,
+      ...(message.attachments.length > 0 ? { attachments: message.attachments } : {}),
+      ...(message.model ? { model: message.model } : {})
+    });
+  }, []);
 
-  useEffect(() => {
-    selectedThreadIdRef.current = selectedThreadId;
-  }, [selectedThreadId]);
+  const outbox = useOutbox({
+    active: !authRequired,
+    send: sendQueuedMessage,
+    onSent: () => void refreshAll()
+  });
+  const queuedMessages = useMemo(
+    () => outbox.messages.filter((message) => message.threadId === selectedThreadId),
+    [outbox.messages, selectedThreadId]
+  );
 
-  useEffect(() => {
-    if (!isGenerating || !selectedThreadId) {
-      return;
+  const handleAuthenticated = useCallback(() => {
+    setAuthRequired(false);
+    setError("");
+    void refreshAll();
+  }, [refreshAll]);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await logout();
+      await clearOfflineThreadCache();
+    } finally {
+      setAuthRequired(true);
     }
+  }, []);
 
-    const intervalId = window.setInterval(() => {
-      void loadSelectedThread(selectedThreadId).catch((e) => setError(toErrorMessage(e)));
-    }, 1200);
+  // An expired session on a shared device should not leave transcripts in Cache Storage.
+  useEffect(
+    () =>
+      onUnauthorized(() => {
+        setAuthRequired(true);
+        void clearOfflineThreadCache().catch(() => undefined);
+      }),
+    []
+  );
 
-    return () => {
-      window.clearInterval(intervalId);
-    };
-  }, [isGenerating, loadSelectedThread, selectedThreadId]);
+  useEffect(() => {
+    selectedThreadIdRef.current = selectedThreadId;
+  }, [selectedThreadId]);
 
   useEffect(() => {
     activeTabRef.current = activeTab;
@@ -986,6 +1266,7 @@ export function App(): React.JSX.Element {
       const next = parseUiStateFromPath(window.location.pathname);
       setSelectedThreadId(next.threadId);
       setActiveTab(next.tab);
+      setFocusedTurn(next.threadId && next.turnId ? { threadId: next.threadId, turnId: next.turnId } : null);
     };
     window.addEventListener("popstate", onPopState);
     return () => {
@@ -994,40 +1275,130 @@ export function App(): React.JSX.Element {
   }, []);
 
   useEffect(() => {
-    const nextPath = buildPathFromUiState(selectedThreadId, activeTab);
+    const turnId = focusedTurn?.threadId === selectedThreadId ? focusedTurn.turnId : null;
+    const nextPath = buildPathFromUiState(selectedThreadId, activeTab, turnId);
     if (window.location.pathname === nextPath) return;
     window.history.replaceState(null, "", nextPath);
-  }, [activeTab, selectedThreadId]);
+  }, [activeTab, focusedTurn, selectedThreadId]);
 
   useEffect(() => {
     void refreshAll();
   }, [refreshAll]);
 
   useEffect(() => {
+    if (authRequired) {
+      return;
+    }
     coreRefreshIntervalRef.current = window.setInterval(() => {
+      if (!navigator.onLine) return;
       void loadCoreData().catch((e) => setError(toErrorMessage(e)));
     }, 5000);
+    const handleOnline = () => {
+      void refreshAll();
+    };
+    window.addEventListener("online", handleOnline);
     return () => {
       if (coreRefreshIntervalRef.current) window.clearInterval(coreRefreshIntervalRef.current);
+      window.removeEventListener("online", handleOnline);
     };
-  }, [loadCoreData]);
+  }, [authRequired, loadCoreData, refreshAll]);
 
   useEffect(() => {
     if (!selectedThreadId) {
       setLiveState(null);
       setReadThreadState(null);
       setStreamEvents([]);
+      setPendingApprovals([]);
       return;
     }
-    void loadSelectedThread(selectedThreadId).catch((e) => setError(toErrorMessage(e)));
+    void loadSelectedThread(selectedThreadId).catch((e) =>
+      setError(isNetworkError(e) ? "This thread is not available offline" : toErrorMessage(e))
+    );
   }, [loadSelectedThread, selectedThreadId]);
 
   useEffect(() => {
-    const source = new EventSource("/events");
+    if (authRequired || !canListModels) {
+      return;
+    }
+    let cancelled = false;
+    void listModels(activeThreadAgentId)
+      .then((result) => {
+        if (cancelled) return;
+        const nextModelsSignature = result.data.map((model) =>
+          [model.id, model.displayName ?? ""].join("|")
+        );
+        if (!signaturesMatch(modelsSignatureRef.current, nextModelsSignature)) {
+          modelsSignatureRef.current = nextModelsSignature;
+          setModels(result.data);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) setError(toErrorMessage(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeThreadAgentId, authRequired, canListModels]);
+
+  useEffect(() => {
+    if (authRequired) {
+      return;
+    }
+
+    threadViewsRef.current = { threadId: selectedThreadId, liveState: undefined, thread: undefined };
+
+    // Apply a pushed thread snapshot or delta. Returns false when the client must refetch.
+    const applyThreadEvent = (threadEvent: SseThreadEvent): boolean => {
+      const views = threadViewsRef.current;
+      if (threadEvent.threadId !== views.threadId) {
+        return true;
+      }
+
+      const base = threadEvent.view === "liveState" ? views.liveState : views.thread;
+      try {
+        let nextState: unknown;
+        if (threadEvent.type === "thread-snapshot") {
+          nextState = threadEvent.state;
+        } else {
+          if (base === undefined) {
+            return false;
+          }
+          nextState = applyThreadPatches(base, threadEvent.patches);
+        }
+
+        if (threadEvent.view === "liveState") {
+          const live = parseLiveStateView(threadEvent.threadId, nextState);
+          views.liveState = nextState;
+          startTransition(() => {
+            setLiveState(live);
+          });
+        } else {
+          const thread = parseThreadView(nextState);
+          views.thread = nextState;
+          startTransition(() => {
+            setReadThreadState((prev) => (prev ? { ...prev, thread } : prev));
+          });
+        }
+        return true;
+      } catch {
+        if (threadEvent.view === "liveState") {
+          views.liveState = undefined;
+        } else {
+          views.thread = undefined;
+        }
+        return false;
+      }
+    };
+
+    const eventsUrl = selectedThreadId
+      ? `/events?threadId=${encodeURIComponent(selectedThreadId)}`
+      : "/events";
+    const source = new EventSource(eventsUrl, { withCredentials: true });
     source.onmessage = (event: MessageEvent<string>) => {
       let refreshCore = false;
       const refreshHistory = activeTabRef.current === "debug";
       let refreshSelectedThread = false;
+      let refreshApprovals = false;
 
       try {
         const parsedEventResult = SseEventSchema.safeParse(JSON.parse(event.data));
@@ -1037,16 +1408,31 @@ export function App(): React.JSX.Element {
           const parsedEvent = parsedEventResult.data;
           if (parsedEvent.type === "state") {
             refreshCore = true;
+          } else if (parsedEvent.type === "thread-snapshot" || parsedEvent.type === "thread-delta") {
+            refreshSelectedThread = !applyThreadEvent(parsedEvent);
+          } else if (parsedEvent.type === "notification") {
+            showNotificationEventRef.current(
+              parsedEvent.notification,
+              parsedEvent.notification.threadId === selectedThreadIdRef.current
+            );
           } else if (parsedEvent.type === "history") {
-            if (parsedEvent.entry.source === "app" || parsedEvent.entry.source === "system") {
+            const isAppServerNotification =
+              parsedEvent.entry.source === "app" && parsedEvent.entry.direction === "in";
+            if (isAppServerNotification) {
+              refreshCore = CORE_REFRESH_NOTIFICATION_METHODS.has(parsedEvent.entry.meta.method ?? "");
+            } else if (parsedEvent.entry.source === "app" || parsedEvent.entry.source === "system") {
               refreshCore = true;
             }
             const eventThreadId = parsedEvent.entry.meta.threadId;
-            if (
+            const isSelectedThreadEvent = Boolean(
               eventThreadId &&
               selectedThreadIdRef.current &&
               eventThreadId === selectedThreadIdRef.current
-            ) {
+            );
+            // Thread content arrives as pushed deltas; only our own actions need a refetch.
+            if (isSelectedThreadEvent && APPROVAL_HISTORY_METHODS.has(parsedEvent.entry.meta.method ?? "")) {
+              refreshApprovals = true;
+            } else if (isSelectedThreadEvent && parsedEvent.entry.source !== "ipc" && !isAppServerNotification) {
               refreshSelectedThread = true;
             }
           }
@@ -1059,7 +1445,8 @@ export function App(): React.JSX.Element {
       pendingRefreshFlagsRef.current = {
         refreshCore: previousFlags.refreshCore || refreshCore,
         refreshHistory: previousFlags.refreshHistory || refreshHistory,
-        refreshSelectedThread: previousFlags.refreshSelectedThread || refreshSelectedThread
+        refreshSelectedThread: previousFlags.refreshSelectedThread || refreshSelectedThread,
+        refreshApprovals: previousFlags.refreshApprovals || refreshApprovals
       };
 
       if (refreshTimerRef.current) {
@@ -1071,28 +1458,28 @@ export function App(): React.JSX.Element {
         pendingRefreshFlagsRef.current = {
           refreshCore: false,
           refreshHistory: false,
-          refreshSelectedThread: false
+          refreshSelectedThread: false,
+          refreshApprovals: false
         };
         void (async () => {
           try {
             if (flags.refreshCore) {
               await loadCoreData();
             } else if (flags.refreshHistory && activeTabRef.current === "debug") {
-              const nextHistory = await listDebugHistory(120);
+              const nextHistory = await listDebugHistory({ limit: HISTORY_PAGE_SIZE });
               startTransition(() => {
-                setHistory((prev) => {
-                  if (
-                    prev.length === nextHistory.history.length &&
-                    prev[prev.length - 1]?.id === nextHistory.history[nextHistory.history.length - 1]?.id
-                  ) {
-                    return prev;
-                  }
-                  return nextHistory.history;
-                });
+                setHistory((prev) => mergeLatestHistory(prev, nextHistory.history));
+                if (nextHistory.nextCursor === null) {
+                  setHistoryStartId(nextHistory.history[0]?.id ?? null);
+                }
               });
             }
-            if (flags.refreshSelectedThread && selectedThreadIdRef.current) {
-              await loadSelectedThread(selectedThreadIdRef.current);
+            const threadId = selectedThreadIdRef.current;
+            if (flags.refreshSelectedThread && threadId) {
+              await loadSelectedThread(threadId);
+            } else if (flags.refreshApprovals && threadId) {
+              const approvals = await getPendingApprovals(threadId);
+              setPendingApprovals(approvals.approvals);
             }
           } catch (e) {
             setError(toErrorMessage(e));
@@ -1100,17 +1487,48 @@ export function App(): React.JSX.Element {
         })();
       }, 200);
     };
-    source.onerror = () => source.close();
+    source.onopen = () => {
+      eventsReconnectAttemptRef.current = 0;
+      if (!eventsResyncRef.current) {
+        return;
+      }
+      // Deltas sent while we were disconnected are gone; start again from a fresh snapshot.
+      eventsResyncRef.current = false;
+      threadViewsRef.current = { threadId: selectedThreadId, liveState: undefined, thread: undefined };
+      const threadId = selectedThreadIdRef.current;
+      if (threadId) {
+        void loadSelectedThread(threadId).catch((e: unknown) => setError(toErrorMessage(e)));
+      }
+    };
+    let reconnectTimer: number | null = null;
+    source.onerror = () => {
+      eventsResyncRef.current = true;
+      // EventSource retries dropped connections on its own but gives up after an HTTP error.
+      // Core polling notices a 401 and sets authRequired, which stops these retries.
+      if (source.readyState !== EventSource.CLOSED) {
+        return;
+      }
+      const delay = Math.min(
+        EVENTS_RECONNECT_BASE_MS * 2 ** eventsReconnectAttemptRef.current,
+        EVENTS_RECONNECT_MAX_MS
+      );
+      eventsReconnectAttemptRef.current += 1;
+      reconnectTimer = window.setTimeout(() => {
+        setEventsConnection((value) => value + 1);
+      }, delay);
+    };
     return () => {
+      if (reconnectTimer) window.clearTimeout(reconnectTimer);
       if (refreshTimerRef.current) window.clearTimeout(refreshTimerRef.current);
       pendingRefreshFlagsRef.current = {
         refreshCore: false,
         refreshHistory: false,
-        refreshSelectedThread: false
+        refreshSelectedThread: false,
+        refreshApprovals: false
       };
       source.close();
     };
-  }, [loadCoreData, loadSelectedThread]);
+  }, [authRequired, eventsConnection, loadCoreData, loadSelectedThread, selectedThreadId]);
 
   useEffect(() => {
     if (!activeRequest) {
@@ -1190,6 +1608,7 @@ export function App(): React.JSX.Element {
     lastAppliedModeSignatureRef.current = "";
     setHasHydratedModeFromLiveState(false);
     setIsModeSyncing(false);
+    setMessageModelId("");
   }, [selectedThreadId]);
 
   useEffect(() => {
@@ -1280,10 +1699,54 @@ export function App(): React.JSX.Element {
     setVisibleChatItemLimit(INITIAL_VISIBLE_CHAT_ITEMS);
   }, [activeTab, selectedThreadId]);
 
+  // Scroll to a deep-linked turn once its items have loaded.
+  useEffect(() => {
+    if (activeTab !== "chat" || !focusedTurn || focusedTurn.threadId !== selectedThreadId) return;
+    const focusKey = `${focusedTurn.threadId}:${focusedTurn.turnId}`;
+    if (scrolledFocusedTurnRef.current === focusKey) return;
+    const itemIndex = flatConversationItems.findIndex(
+      (entry) => entry.anchorTurnId === focusedTurn.turnId
+    );
+    if (itemIndex === -1) return;
+    const requiredLimit = conversationItemCount - itemIndex;
+    if (requiredLimit > visibleChatItemLimit) {
+      setVisibleChatItemLimit(requiredLimit);
+      return;
+    }
+    const scroller = scrollRef.current;
+    const anchor = document.getElementById(turnAnchorId(focusedTurn.turnId));
+    if (!scroller || !anchor) return;
+    scrolledFocusedTurnRef.current = focusKey;
+    isChatAtBottomRef.current = false;
+    setIsChatAtBottom(false);
+    scroller.scrollTop +=
+      anchor.getBoundingClientRect().top -
+      scroller.getBoundingClientRect().top -
+      FOCUSED_TURN_SCROLL_OFFSET_PX;
+  }, [
+    activeTab,
+    conversationItemCount,
+    flatConversationItems,
+    focusedTurn,
+    selectedThreadId,
+    visibleChatItemLimit
+  ]);
+
   /* Actions */
-  const submitMessage = useCallback(async (draft: string) => {
+  const submitMessage = useCallback(async (draft: string, attachments: UploadedFile[] = []) => {
     if (!draft.trim()) return;
 
+    const attachmentRefs = attachments.map((attachment) => ({ uploadId: attachment.id }));
+    const model = !canSetCollaborationMode && messageModelId ? messageModelId : null;
+    const queue = (threadId: string) => {
+      outbox.enqueue({ threadId, text: draft, attachments: attachmentRefs, ...(model ? { model } : {}) });
+    };
+
+    if (selectedThreadId && !navigator.onLine) {
+      queue(selectedThreadId);
+      return;
+    }
+
     setIsBusy(true);
     try {
       setError("");
@@ -1301,7 +1764,18 @@ export function App(): React.JSX.Element {
         selectedThreadIdRef.current = threadId;
       }
 
-      await sendMessage({ threadId, text: draft });
+      try {
+        await sendMessage({
+          threadId,
+          text: draft,
+          ...(attachmentRefs.length > 0 ? { attachments: attachmentRefs } : {}),
+          ...(model ? { model } : {})
+        });
+      } catch (e) {
+        if (!isNetworkError(e)) throw e;
+        queue(threadId);
+        return;
+      }
       pendingMaterializationThreadIdsRef.current.delete(threadId);
       await refreshAll();
     } catch (e) {
@@ -1309,7 +1783,46 @@ export function App(): React.JSX.Element {
     } finally {
       setIsBusy(false);
     }
-  }, [refreshAll, selectedAgentId, selectedThreadId]);
+  }, [
+    canSetCollaborationMode,
+    messageModelId,
+    outbox.enqueue,
+    refreshAll,
+    selectedAgentId,
+    selectedThreadId
+  ]);
+
+  const steerMessage = useCallback(async (draft: string, attachments: UploadedFile[] = []) => {
+    if (!draft.trim() || !selectedThreadId) return;
+
+    setIsBusy(true);
+    try {
+      setError("");
+      await sendMessage({
+        threadId: selectedThreadId,
+        text: draft,
+        ...(attachments.length > 0
+          ? { attachments: attachments.map((attachment) => ({ uploadId: attachment.id })) }
+          : {}),
+        isSteering: true
+      });
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll, selectedThreadId]);
+
+  const uploadAttachment = useCallback(async (file: File): Promise<UploadedFile | null> => {
+    try {
+      setError("");
+      return await uploadFile(file);
+    } catch (e) {
+      setError(toErrorMessage(e));
+      return null;
+    }
+  }, []);
 
   const applyModeDraft = useCallback(async (draft: {
     modeKey: string;
@@ -1397,6 +1910,24 @@ export function App(): React.JSX.Element {
     }
   }, [activeRequest, refreshAll, selectedThreadId]);
 
+  const submitApprovalDecision = useCallback(async (decision: ApprovalDecision) => {
+    if (!selectedThreadId || !activeApproval) return;
+    setIsBusy(true);
+    try {
+      setError("");
+      await submitApproval({
+        threadId: selectedThreadId,
+        requestId: activeApproval.requestId,
+        decision
+      });
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [activeApproval, refreshAll, selectedThreadId]);
+
   const runInterrupt = useCallback(async () => {
     if (!selectedThreadId) return;
     setIsBusy(true);
@@ -1411,6 +1942,203 @@ export function App(): React.JSX.Element {
     }
   }, [refreshAll, selectedThreadId]);
 
+  const runForkFromTurn = useCallback(async (turnId: string) => {
+    if (!selectedThreadId) return;
+    setIsBusy(true);
+    try {
+      setError("");
+      const forked = await forkThread({ threadId: selectedThreadId, turnId });
+      setSelectedThreadId(forked.threadId);
+      selectedThreadIdRef.current = forked.threadId;
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll, selectedThreadId]);
+
+  const runRollbackToTurn = useCallback(async (turnId: string) => {
+    if (!selectedThreadId) return;
+    setIsBusy(true);
+    try {
+      setError("");
+      await rollbackThread({ threadId: selectedThreadId, turnId });
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll, selectedThreadId]);
+
+  const runCompact = useCallback(async () => {
+    if (!selectedThreadId) return;
+    setIsBusy(true);
+    try {
+      setError("");
+      await compactThread(selectedThreadId);
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll, selectedThreadId]);
+
+  const runArchiveThread = useCallback(async (threadId: string) => {
+    setIsBusy(true);
+    try {
+      setError("");
+      await archiveThread(threadId);
+      if (selectedThreadIdRef.current === threadId) {
+        setSelectedThreadId(null);
+        selectedThreadIdRef.current = null;
+      }
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll]);
+
+  const runUnarchiveThread = useCallback(async (threadId: string) => {
+    setIsBusy(true);
+    try {
+      setError("");
+      await unarchiveThread(threadId);
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll]);
+
+  const runRenameThread = useCallback(async (threadId: string, name: string) => {
+    setIsBusy(true);
+    try {
+      setError("");
+      await renameThread({ threadId, name });
+      await refreshAll();
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshAll]);
+
+  const runToggleThreadMuted = useCallback(async (threadId: string, muted: boolean) => {
+    try {
+      setError("");
+      await notifications.setMuted(threadId, muted);
+    } catch (e) {
+      setError(toErrorMessage(e));
+    }
+  }, [notifications.setMuted]);
+
+  const toggleNotifications = useCallback(async () => {
+    try {
+      setError("");
+      if (notifications.mode === "push" || notifications.mode === "local") {
+        await notifications.disable();
+      } else {
+        await notifications.enable();
+      }
+    } catch (e) {
+      setError(toErrorMessage(e));
+    }
+  }, [notifications.disable, notifications.enable, notifications.mode]);
+
+  const toggleArchivedThreads = useCallback(() => {
+    const next = !showArchivedThreadsRef.current;
+    showArchivedThreadsRef.current = next;
+    setShowArchivedThreads(next);
+    void loadCoreData().catch((e) => setError(toErrorMessage(e)));
+  }, [loadCoreData]);
+
+  const runSearch = useCallback(
+    async (filters: ThreadSearchFilters) => (await searchThreads(filters)).results,
+    []
+  );
+
+  const openSearchResult = useCallback((result: SearchResult) => {
+    scrolledFocusedTurnRef.current = null;
+    setFocusedTurn(result.turnId ? { threadId: result.threadId, turnId: result.turnId } : null);
+    setSelectedThreadId(result.threadId);
+    setActiveTab("chat");
+    setMobileSidebarOpen(false);
+  }, []);
+
+  const searchAgents = useMemo(
+    () => availableAgentIds.map((agentId) => ({ id: agentId, label: agentsById[agentId]?.label ?? agentId })),
+    [agentsById, availableAgentIds]
+  );
+  const searchProjects = useMemo(
+    () =>
+      groupedThreads.flatMap((group) =>
+        group.projectPath ? [{ path: group.projectPath, label: group.label }] : []
+      ),
+    [groupedThreads]
+  );
+
+  const handleForkFromTurn = useCallback((turnId: string) => {
+    void runForkFromTurn(turnId);
+  }, [runForkFromTurn]);
+
+  const handleRollbackToTurn = useCallback((turnId: string) => {
+    void runRollbackToTurn(turnId);
+  }, [runRollbackToTurn]);
+
+  const historyReplayFrame = useMemo(
+    () => (historyDetail ? toReplayFrame(historyDetail.fullPayload) : null),
+    [historyDetail]
+  );
+
+  // Entries can age out of the history buffer while they are selected.
+  const replayEntryIds = useMemo(() => {
+    const selected = new Set(replaySelection);
+    return history.filter((entry) => selected.has(entry.id)).map((entry) => entry.id);
+  }, [history, replaySelection]);
+
+  // Shift-click selects every entry between the last clicked one and this one.
+  const toggleReplaySelection = useCallback(
+    (entryId: string, extendRange: boolean) => {
+      setReplaySelection((prev) => {
+        const ids = history.map((entry) => entry.id);
+        const from = replayAnchorId ? ids.indexOf(replayAnchorId) : -1;
+        const to = ids.indexOf(entryId);
+        if (extendRange && from !== -1 && to !== -1) {
+          const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+          return Array.from(new Set([...prev, ...range]));
+        }
+        return prev.includes(entryId) ? prev.filter((id) => id !== entryId) : [...prev, entryId];
+      });
+      setReplayAnchorId(entryId);
+    },
+    [history, replayAnchorId]
+  );
+
+  const loadOlderHistory = useCallback(async () => {
+    const oldest = history[0];
+    if (!oldest) {
+      return;
+    }
+    setIsLoadingOlderHistory(true);
+    try {
+      const page = await listDebugHistory({ limit: HISTORY_PAGE_SIZE, before: oldest.id });
+      setHistory((prev) => (prev[0]?.id === oldest.id ? [...page.history, ...prev] : prev));
+      if (page.nextCursor === null) {
+        setHistoryStartId(page.history[0]?.id ?? oldest.id);
+      }
+    } catch (e) {
+      setError(toErrorMessage(e));
+    } finally {
+      setIsLoadingOlderHistory(false);
+    }
+  }, [history]);
+
   const loadHistoryDetail = useCallback(async (id: string) => {
     if (!id) { setHistoryDetail(null); return; }
     const detail = await getHistoryEntry(id);
@@ -1431,7 +2159,7 @@ export function App(): React.JSX.Element {
     []
   );
 
-  const createNewThread = useCallback(async (projectPath: string, agentId?: AgentId) => {
+  const createNewThread = useCallback(async (projectPath: string, agentId?: AgentId, hostId?: string) => {
     const trimmedProjectPath = projectPath.trim();
     if (!trimmedProjectPath) {
       setError("Cannot create thread: missing project path");
@@ -1442,7 +2170,8 @@ export function App(): React.JSX.Element {
       setError("");
       const created = await createThread({
         cwd: trimmedProjectPath,
-        ...(agentId ? { agentId } : {})
+        ...(agentId ? { agentId } : {}),
+        ...(hostId ? { hostId } : {})
       });
       pendingMaterializationThreadIdsRef.current.add(created.threadId);
       setSelectedThreadId(created.threadId);
@@ -1457,13 +2186,13 @@ export function App(): React.JSX.Element {
   }, [refreshAll]);
 
   const createThreadForSingleAgent = useCallback((projectPath: string) => {
-    const onlyAgentId = availableAgentIds[0];
+    const onlyAgentId = localAgentIds[0];
     if (!onlyAgentId) {
       setError("Cannot create thread: no enabled agent");
       return;
     }
     void createNewThread(projectPath, onlyAgentId);
-  }, [availableAgentIds, createNewThread]);
+  }, [createNewThread, localAgentIds]);
 
   const renderSidebarContent = (viewport: "desktop" | "mobile"): React.JSX.Element => (
     <>
@@ -1473,8 +2202,20 @@ export function App(): React.JSX.Element {
           className="pointer-events-none absolute inset-x-0 top-0 -bottom-3 bg-gradient-to-b from-sidebar from-58% via-sidebar/88 via-80% to-transparent to-100%"
         />
         <div className="relative z-10 flex items-center justify-between h-full">
-          <span className="text-sm font-semibold">Farfield</span>
+          <span className="text-sm font-semibold">
+            Farfield
+            {showArchivedThreads && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">Archived</span>
+            )}
+          </span>
           <div className="flex items-center gap-1">
+            <IconBtn
+              onClick={toggleArchivedThreads}
+              title={showArchivedThreads ? "Show active threads" : "Show archived threads"}
+              active={showArchivedThreads}
+            >
+              <Archive size={15} />
+            </IconBtn>
             {viewport === "desktop" && (
               <IconBtn onClick={() => setDesktopSidebarOpen(false)} title="Hide sidebar">
                 <PanelLeft size={15} />
@@ -1496,203 +2237,263 @@ export function App(): React.JSX.Element {
       </div>
 
       <div className="relative flex-1 min-h-0">
-        <div className="h-full min-h-0 overflow-y-auto overflow-x-hidden py-2 pl-2 pr-0">
-          {threads.length === 0 && (
-            <div className="px-4 py-6 text-xs text-muted-foreground text-center space-y-3">
-              <div>No threads</div>
-              {availableAgentIds.length > 0 && (
-                availableAgentIds.length === 1 ? (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    className="rounded-full"
-                    disabled={isBusy}
-                    onClick={() => {
-                      const defaultProjectPath = selectedAgentDescriptor?.projectDirectories[0] ?? ".";
-                      createThreadForSingleAgent(defaultProjectPath);
-                    }}
-                  >
-                    <Plus size={13} className="mr-1.5" />
-                    New {selectedAgentLabel} thread
-                  </Button>
-                ) : (
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        className="rounded-full"
-                        disabled={isBusy}
-                      >
-                        <Plus size={13} className="mr-1.5" />
-                        New thread
-                      </Button>
-                    </DropdownMenuTrigger>
-                        <DropdownMenuContent align="center" sideOffset={6}>
-                      {availableAgentIds.map((agentId) => (
-                        <DropdownMenuItem
-                          key={agentId}
-                          onSelect={() => {
-                            const defaultProjectPath = agentsById[agentId]?.projectDirectories[0] ?? ".";
-                            void createNewThread(defaultProjectPath, agentId);
-                          }}
-                        >
-                          <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
-                            <AgentFavicon
-                              agentId={agentId}
-                              label={agentsById[agentId]?.label ?? "Agent"}
-                              className="h-3.5 w-3.5"
-                            />
-                          </span>
-                          New {agentsById[agentId]?.label ?? agentId} thread
-                        </DropdownMenuItem>
-                      ))}
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                )
-              )}
-            </div>
-          )}
-          <div className="space-y-2 pr-2">
-            {groupedThreads.map((group) => {
-              const hasSelectedThread = group.threads.some((thread) => thread.id === selectedThreadId);
-              const isCollapsed = hasSelectedThread ? false : Boolean(sidebarCollapsedGroups[group.key]);
-              const nextAgentId = group.preferredAgentId ?? selectedAgentId;
-              const nextAgentLabel = agentsById[nextAgentId]?.label ?? nextAgentId;
-              return (
-                <div key={group.key} className="space-y-1">
-                  <div className="flex items-center gap-1">
+        <ThreadSearch
+          agents={searchAgents}
+          projects={searchProjects}
+          onSearch={runSearch}
+          onOpenResult={openSearchResult}
+        >
+          <div className="h-full min-h-0 overflow-y-auto overflow-x-hidden py-2 pl-2 pr-0">
+            {threads.length === 0 && (
+              <div className="px-4 py-6 text-xs text-muted-foreground text-center space-y-3">
+                <div>{showArchivedThreads ? "No archived threads" : "No threads"}</div>
+                {availableAgentIds.length > 0 && (
+                  availableAgentIds.length === 1 ? (
                     <Button
                       type="button"
-                      onClick={() =>
-                        setSidebarCollapsedGroups((prev) => ({
-                          ...prev,
-                          [group.key]: !isCollapsed
-                        }))
-                      }
-                      variant="ghost"
-                      className="h-6 flex-1 justify-start gap-2 rounded-lg px-2 py-1 text-left text-[13px] tracking-tight font-normal text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full"
+                      disabled={isBusy}
+                      onClick={() => {
+                        const defaultProjectPath = selectedAgentDescriptor?.projectDirectories[0] ?? ".";
+                        createThreadForSingleAgent(defaultProjectPath);
+                      }}
                     >
-                      {isCollapsed ? (
-                        <Folder size={13} className="shrink-0" />
-                      ) : (
-                        <FolderOpen size={13} className="shrink-0" />
-                      )}
-                      <span className="min-w-0 truncate">{group.label}</span>
+                      <Plus size={13} className="mr-1.5" />
+                      New {selectedAgentLabel} thread
                     </Button>
-                    {availableAgentIds.length <= 1 ? (
-                      <IconBtn
-                        onClick={() => {
-                          if (!group.projectPath) {
-                            return;
+                  ) : (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="rounded-full"
+                          disabled={isBusy}
+                        >
+                          <Plus size={13} className="mr-1.5" />
+                          New thread
+                        </Button>
+                      </DropdownMenuTrigger>
+                          <DropdownMenuContent align="center" sideOffset={6}>
+                        {availableAgentIds.map((agentId) => (
+                          <DropdownMenuItem
+                            key={agentId}
+                            onSelect={() => {
+                              const defaultProjectPath = agentsById[agentId]?.projectDirectories[0] ?? ".";
+                              void createNewThread(defaultProjectPath, agentId);
+                            }}
+                          >
+                            <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
+                              <AgentFavicon
+                                agentId={agentId}
+                                label={agentsById[agentId]?.label ?? "Agent"}
+                                className="h-3.5 w-3.5"
+                              />
+                            </span>
+                            New {agentsById[agentId]?.label ?? agentId} thread
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )
+                )}
+              </div>
+            )}
+            <div className="space-y-2 pr-2">
+              {groupedThreads.map((group, groupIndex) => {
+                const hasSelectedThread = group.threads.some((thread) => thread.id === selectedThreadId);
+                const isCollapsed = hasSelectedThread ? false : Boolean(sidebarCollapsedGroups[group.key]);
+                const nextAgentId = group.preferredAgentId ?? selectedAgentId;
+                const nextAgentLabel = agentsById[nextAgentId]?.label ?? nextAgentId;
+                const groupHost = group.hostId
+                  ? remoteHosts.find((host) => host.id === group.hostId) ?? null
+                  : null;
+                const startsHost =
+                  groupHost !== null && groupedThreads[groupIndex - 1]?.hostId !== group.hostId;
+                return (
+                  <Fragment key={group.key}>
+                    {startsHost && <RemoteHostHeader host={groupHost} />}
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1">
+                        <Button
+                          type="button"
+                          onClick={() =>
+                            setSidebarCollapsedGroups((prev) => ({
+                              ...prev,
+                              [group.key]: !isCollapsed
+                            }))
                           }
-                          createThreadForSingleAgent(group.projectPath);
-                        }}
-                        title={
-                          group.projectPath
-                            ? `New ${nextAgentLabel} thread in ${group.label}`
-                            : "Cannot create thread: missing project path"
-                        }
-                        disabled={isBusy || !group.projectPath}
-                      >
-                        <Plus size={14} />
-                      </IconBtn>
-                    ) : (
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            type="button"
-                            disabled={isBusy || !group.projectPath}
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted"
+                          variant="ghost"
+                          className="h-6 flex-1 justify-start gap-2 rounded-lg px-2 py-1 text-left text-[13px] tracking-tight font-normal text-muted-foreground hover:bg-muted/60 hover:text-foreground"
+                        >
+                          {isCollapsed ? (
+                            <Folder size={13} className="shrink-0" />
+                          ) : (
+                            <FolderOpen size={13} className="shrink-0" />
+                          )}
+                          <span className="min-w-0 truncate">{group.label}</span>
+                        </Button>
+                        {groupHost || localAgentIds.length <= 1 ? (
+                          <IconBtn
+                            onClick={() => {
+                              if (!group.projectPath) {
+                                return;
+                              }
+                              if (groupHost) {
+                                void createNewThread(group.projectPath, "remote", groupHost.id);
+                                return;
+                              }
+                              createThreadForSingleAgent(group.projectPath);
+                            }}
                             title={
-                              group.projectPath
-                                ? `New thread in ${group.label}`
-                                : "Cannot create thread: missing project path"
+                              !group.projectPath
+                                ? "Cannot create thread: missing project path"
+                                : groupHost
+                                  ? `New thread on ${groupHost.label} in ${group.label}`
+                                  : `New ${nextAgentLabel} thread in ${group.label}`
                             }
+                            disabled={isBusy || !group.projectPath}
                           >
                             <Plus size={14} />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end" sideOffset={6}>
-                          {availableAgentIds.map((agentId) => (
-                            <DropdownMenuItem
-                              key={agentId}
-                              onSelect={() => {
-                                if (!group.projectPath) {
-                                  return;
+                          </IconBtn>
+                        ) : (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                type="button"
+                                disabled={isBusy || !group.projectPath}
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted"
+                                title={
+                                  group.projectPath
+                                    ? `New thread in ${group.label}`
+                                    : "Cannot create thread: missing project path"
                                 }
-                                void createNewThread(group.projectPath, agentId);
-                              }}
-                            >
-                              <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
-                                <AgentFavicon
-                                  agentId={agentId}
-                                  label={agentsById[agentId]?.label ?? "Agent"}
-                                  className="h-3.5 w-3.5"
-                                />
-                              </span>
-                              New {agentsById[agentId]?.label ?? agentId} thread
-                            </DropdownMenuItem>
-                          ))}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    )}
-                  </div>
-                  {!isCollapsed && (
-                    <div className="space-y-1 pl-4 pt-0.5">
-                      {group.threads.length === 0 && (
-                        <div className="px-2.5 py-1 text-[11px] text-muted-foreground/70">
-                          No threads yet
+                              >
+                                <Plus size={14} />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" sideOffset={6}>
+                              {localAgentIds.map((agentId) => (
+                                <DropdownMenuItem
+                                  key={agentId}
+                                  onSelect={() => {
+                                    if (!group.projectPath) {
+                                      return;
+                                    }
+                                    void createNewThread(group.projectPath, agentId);
+                                  }}
+                                >
+                                  <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
+                                    <AgentFavicon
+                                      agentId={agentId}
+                                      label={agentsById[agentId]?.label ?? "Agent"}
+                                      className="h-3.5 w-3.5"
+                                    />
+                                  </span>
+                                  New {agentsById[agentId]?.label ?? agentId} thread
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                      {!isCollapsed && (
+                        <div className="space-y-1 pl-4 pt-0.5">
+                          {group.threads.length === 0 && (
+                            <div className="px-2.5 py-1 text-[11px] text-muted-foreground/70">
+                              No threads yet
+                            </div>
+                          )}
+                          {group.threads.map((thread) => {
+                            const isSelected = thread.id === selectedThreadId;
+                            const threadAgent = agentsById[thread.agentId];
+                            const canRename = threadAgent?.capabilities.canRenameThreads === true;
+                            const canArchive = threadAgent?.capabilities.canArchiveThreads === true;
+                            const canUnarchive = threadAgent?.capabilities.canUnarchiveThreads === true;
+                            const hasThreadActions = canRename || (showArchivedThreads ? canUnarchive : canArchive);
+                            return (
+                              <ThreadActionsMenu
+                                key={thread.id}
+                                label={threadLabel(thread)}
+                                archived={showArchivedThreads}
+                                canRename={canRename}
+                                canArchive={canArchive}
+                                canUnarchive={canUnarchive}
+                                archiveDeletes={canArchive && !canUnarchive}
+                                disabled={isBusy}
+                                onRename={(name) => void runRenameThread(thread.id, name)}
+                                onArchive={() => void runArchiveThread(thread.id)}
+                                onUnarchive={() => void runUnarchiveThread(thread.id)}
+                                muted={notifications.mutedThreadIds.has(thread.id)}
+                                onToggleMute={() =>
+                                  void runToggleThreadMuted(
+                                    thread.id,
+                                    !notifications.mutedThreadIds.has(thread.id)
+                                  )
+                                }
+                              >
+                                <Button
+                                  type="button"
+                                  onClick={() => {
+                                    setSelectedThreadId(thread.id);
+                                    setMobileSidebarOpen(false);
+                                  }}
+                                  variant="ghost"
+                                  className={`w-full min-w-0 h-auto flex items-center justify-between gap-2 rounded-xl px-2.5 py-1.5 text-left text-[13px] tracking-tight font-normal transition-colors ${
+                                    hasThreadActions ? "pr-8" : ""
+                                  } ${
+                                    isSelected
+                                      ? "bg-muted/90 text-foreground shadow-sm"
+                                      : "text-muted-foreground hover:bg-muted/70 hover:text-foreground"
+                                  }`}
+                                >
+                                  <span className="min-w-0 flex-1 flex items-center gap-1.5 truncate leading-5">
+                                    {thread.agentId && (
+                                      <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
+                                        <AgentFavicon
+                                          agentId={thread.hostAgentId ?? thread.agentId}
+                                          label={agentsById[thread.agentId]?.label ?? "Agent"}
+                                          className="h-3.5 w-3.5"
+                                        />
+                                      </span>
+                                    )}
+                                    <span className="truncate">{threadLabel(thread)}</span>
+                                  </span>
+                                  {thread.updatedAt && (
+                                    <span className="shrink-0 text-[10px] text-muted-foreground/50">
+                                      {formatDate(thread.updatedAt)}
+                                    </span>
+                                  )}
+                                </Button>
+                              </ThreadActionsMenu>
+                            );
+                          })}
                         </div>
                       )}
-                      {group.threads.map((thread) => {
-                        const isSelected = thread.id === selectedThreadId;
-                        return (
-                          <Button
-                            key={thread.id}
-                            type="button"
-                            onClick={() => {
-                              setSelectedThreadId(thread.id);
-                              setMobileSidebarOpen(false);
-                            }}
-                            variant="ghost"
-                            className={`w-full min-w-0 h-auto flex items-center justify-between gap-2 rounded-xl px-2.5 py-1.5 text-left text-[13px] tracking-tight font-normal transition-colors ${
-                              isSelected
-                                ? "bg-muted/90 text-foreground shadow-sm"
-                                : "text-muted-foreground hover:bg-muted/70 hover:text-foreground"
-                            }`}
-                          >
-                            <span className="min-w-0 flex-1 flex items-center gap-1.5 truncate leading-5">
-                              {thread.agentId && (
-                                <span className="shrink-0 h-4 w-4 rounded-sm bg-muted/30 ring-1 ring-border/60 flex items-center justify-center overflow-hidden">
-                                  <AgentFavicon
-                                    agentId={thread.agentId}
-                                    label={agentsById[thread.agentId]?.label ?? "Agent"}
-                                    className="h-3.5 w-3.5"
-                                  />
-                                </span>
-                              )}
-                              <span className="truncate">{threadLabel(thread)}</span>
-                            </span>
-                            {thread.updatedAt && (
-                              <span className="shrink-0 text-[10px] text-muted-foreground/50">
-                                {formatDate(thread.updatedAt)}
-                              </span>
-                            )}
-                          </Button>
-                        );
-                      })}
                     </div>
-                  )}
-                </div>
-              );
-            })}
+                  </Fragment>
+                );
+              })}
+              {remoteHosts
+                .filter((host) => !groupedThreads.some((group) => group.hostId === host.id))
+                .map((host) => (
+                  <div key={`host:${host.id}`}>
+                    <RemoteHostHeader host={host} />
+                    <div className="pl-4">
+                      <div className="px-2.5 py-1 text-[11px] text-muted-foreground/70">
+                        {host.connected ? "No threads yet" : "Not connected"}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+            </div>
           </div>
-        </div>
+        </ThreadSearch>
       </div>
 
       <div className="relative z-20 shrink-0 p-3">
@@ -1700,6 +2501,11 @@ export function App(): React.JSX.Element {
           aria-hidden="true"
           className="pointer-events-none absolute inset-x-0 -top-3 bottom-0 bg-gradient-to-t from-sidebar from-58% via-sidebar/88 via-80% to-transparent to-100%"
         />
+        {usage?.rateLimits.map((entry) => (
+          <div key={entry.agentId} className="relative z-10">
+            <RateLimitIndicator snapshot={entry.snapshot} />
+          </div>
+        ))}
         <div className="relative z-10 flex items-center justify-between gap-2">
           <Tooltip>
             <TooltipTrigger asChild>
@@ -1758,6 +2564,10 @@ export function App(): React.JSX.Element {
   );
 
   /* ── Render ─────────────────────────────────────────────── */
+  if (authRequired) {
+    return <LoginScreen onAuthenticated={handleAuthenticated} />;
+  }
+
   return (
     <TooltipProvider delayDuration={120}>
       <div className="app-shell flex bg-background text-foreground font-sans">
@@ -1859,6 +2669,17 @@ export function App(): React.JSX.Element {
           </div>
 
           <div className="flex items-center gap-0.5 shrink-0">
+            {selectedThreadId && <ThreadUsageMeter usage={selectedThreadUsage} />}
+            {selectedThreadId && <ThreadExportMenu threadId={selectedThreadId} />}
+            {selectedThreadId && canCompactThreads && (
+              <IconBtn
+                onClick={() => void runCompact()}
+                disabled={isBusy || isGenerating}
+                title="Compact context"
+              >
+                <Shrink size={14} />
+              </IconBtn>
+            )}
             <IconBtn
               onClick={() => void refreshAll()}
               disabled={isBusy}
@@ -1873,12 +2694,51 @@ export function App(): React.JSX.Element {
             >
               <Bug size={14} />
             </IconBtn>
+            {notifications.mode !== "unsupported" && (
+              <IconBtn
+                onClick={() => void toggleNotifications()}
+                disabled={notifications.mode === "denied"}
+                active={notifications.mode === "push" || notifications.mode === "local"}
+                title={
+                  notifications.mode === "denied"
+                    ? "Notifications blocked by the browser"
+                    : notifications.mode === "off"
+                      ? "Enable notifications"
+                      : "Disable notifications"
+                }
+              >
+                {notifications.mode === "off" || notifications.mode === "denied" ? (
+                  <BellOff size={14} />
+                ) : (
+                  <Bell size={14} />
+                )}
+              </IconBtn>
+            )}
             <IconBtn onClick={toggleTheme} title="Toggle theme">
               {theme === "dark" ? <Sun size={14} /> : <Moon size={14} />}
             </IconBtn>
+            <IconBtn onClick={() => void handleLogout()} title="Sign out">
+              <LogOut size={14} />
+            </IconBtn>
           </div>
         </header>
 
+        {/* Offline bar */}
+        <AnimatePresence>
+          {!outbox.online && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: "auto", opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              className="overflow-hidden shrink-0"
+            >
+              <div className="px-4 py-2 bg-muted border-b border-border text-sm text-muted-foreground truncate">
+                You're offline. Showing saved threads; messages you send are queued.
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Error bar */}
         <AnimatePresence>
           {error && (
@@ -1951,13 +2811,23 @@ export function App(): React.JSX.Element {
                         </div>
                       )}
                       {visibleConversationItems.map((entry) => (
-                        <div key={entry.key} style={{ paddingTop: `${entry.spacingTop}px` }}>
+                        <div
+                          key={entry.key}
+                          id={entry.anchorTurnId ? turnAnchorId(entry.anchorTurnId) : undefined}
+                          style={{ paddingTop: `${entry.spacingTop}px` }}
+                        >
                           <ConversationItem
                             item={entry.item}
                             isLast={entry.isLast}
                             turnIsInProgress={entry.turnIsInProgress}
                             previousItemType={entry.previousItemType}
                             nextItemType={entry.nextItemType}
+                            turnId={entry.turnId}
+                            turnActionsDisabled={isBusy || isGenerating}
+                            onForkFromTurn={canForkThreads ? handleForkFromTurn : undefined}
+                            onRollbackToTurn={
+                              canRollbackThreads && !entry.isLastTurn ? handleRollbackToTurn : undefined
+                            }
                           />
                         </div>
                       ))}
@@ -2000,6 +2870,18 @@ export function App(): React.JSX.Element {
               />
               <div className="relative max-w-3xl mx-auto space-y-2">
 
+                {/* Pending approvals */}
+                <AnimatePresence>
+                  {activeApproval && canSubmitApprovalsForActiveAgent && (
+                    <ApprovalRequestCard
+                      key={String(activeApproval.requestId)}
+                      approval={activeApproval}
+                      onDecision={(decision) => void submitApprovalDecision(decision)}
+                      isBusy={isBusy}
+                    />
+                  )}
+                </AnimatePresence>
+
                 {/* Pending user input */}
                 <AnimatePresence>
                   {activeRequest && canSubmitUserInputForActiveAgent && (
@@ -2014,12 +2896,25 @@ export function App(): React.JSX.Element {
                   )}
                 </AnimatePresence>
 
+                {/* Messages waiting to be sent */}
+                <AnimatePresence>
+                  {queuedMessages.length > 0 && (
+                    <OutboxList
+                      messages={queuedMessages}
+                      online={outbox.online}
+                      onRetry={outbox.retry}
+                      onDiscard={outbox.discard}
+                    />
+                  )}
+                </AnimatePresence>
+
                 {/* Composer */}
                 <div className="flex flex-col gap-2">
                   <ChatComposer
                     canSend={Boolean(selectedThreadId) || availableAgentIds.length > 0}
                     isBusy={isBusy}
                     isGenerating={isGenerating}
+                    canSteer={canSteerTurns && Boolean(selectedThreadId)}
                     placeholder={
                       selectedThreadId
                         ? `Message ${activeAgentLabel}…`
@@ -2027,6 +2922,8 @@ export function App(): React.JSX.Element {
                     }
                     onInterrupt={runInterrupt}
                     onSend={submitMessage}
+                    onSteer={steerMessage}
+                    onUpload={uploadAttachment}
                   />
 
                   {/* Toolbar */}
@@ -2087,6 +2984,30 @@ export function App(): React.JSX.Element {
                         </SelectContent>
                       </Select>
                     )}
+                    {!canSetCollaborationMode && canListModels && (
+                      <Select
+                        value={messageModelId || APP_DEFAULT_VALUE}
+                        onValueChange={(value) => {
+                          setMessageModelId(value === APP_DEFAULT_VALUE ? "" : value);
+                        }}
+                      >
+                        <SelectTrigger className="h-8 w-[132px] sm:w-[176px] shrink-0 rounded-full border-0 bg-transparent dark:bg-transparent px-2 text-xs text-muted-foreground shadow-none hover:text-foreground focus-visible:ring-0">
+                          <SelectValue placeholder="Model" />
+                        </SelectTrigger>
+                        <SelectContent position="popper">
+                          <SelectItem value={APP_DEFAULT_VALUE}>
+                            {conversationState?.latestModel ?? "Default model"}
+                          </SelectItem>
+                          {models
+                            .filter((model) => !model.hidden)
+                            .map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.displayName || model.id}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     {canSetCollaborationMode && canListCollaborationModes && (
                       <Select
                         value={selectedReasoningEffort || APP_DEFAULT_VALUE}
@@ -2140,95 +3061,160 @@ export function App(): React.JSX.Element {
           <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
             <div className="flex-1 grid grid-cols-1 md:grid-cols-[minmax(0,1fr)_300px] min-h-0 divide-y md:divide-y-0 md:divide-x divide-border overflow-hidden">
 
-              {/* Left: History */}
-              <div className="flex flex-col min-h-0 overflow-hidden">
-                <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
-                  <Activity size={13} className="text-muted-foreground" />
-                  <span className="text-sm font-medium">History</span>
-                  <span className="text-xs text-muted-foreground/60">{history.length} entries</span>
-                </div>
+              {/* Left: History, or the open trace */}
+              {openTraceId ? (
+                <TraceTimeline traceId={openTraceId} onClose={() => setOpenTraceId(null)} />
+              ) : (
+                <div className="flex flex-col min-h-0 overflow-hidden">
+                  <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
+                    <Activity size={13} className="text-muted-foreground" />
+                    <span className="text-sm font-medium">History</span>
+                    <span className="text-xs text-muted-foreground/60">{history.length} entries</span>
+                    <Button
+                      type="button"
+                      onClick={() => setFrameEditorMode(frameEditorMode === "compose" ? null : "compose")}
+                      variant={frameEditorMode === "compose" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="ml-auto h-7 text-xs"
+                    >
+                      Compose
+                    </Button>
+                  </div>
 
-                <div className="flex-1 grid grid-cols-[200px_minmax(0,1fr)] min-h-0 divide-x divide-border overflow-hidden">
-                  {/* Entry list */}
-                  <div className="overflow-y-auto py-1">
-                    {history
-                      .slice()
-                      .reverse()
-                      .map((entry) => (
+                  {replayEntryIds.length > 0 && (
+                    <ReplayBatchControls
+                      entryIds={replayEntryIds}
+                      onClear={() => setReplaySelection([])}
+                      onFinished={() => void refreshAll()}
+                    />
+                  )}
+
+                  <div className="flex-1 grid grid-cols-[200px_minmax(0,1fr)] min-h-0 divide-x divide-border overflow-hidden">
+                    {/* Entry list */}
+                    <div className="overflow-y-auto py-1">
+                      {history
+                        .slice()
+                        .reverse()
+                        .map((entry) => (
+                          <div key={entry.id} className="flex items-start">
+                            <Checkbox
+                              checked={replaySelection.includes(entry.id)}
+                              onClick={(event) => toggleReplaySelection(entry.id, event.shiftKey)}
+                              aria-label="Select for batch replay"
+                              className="ml-3 mt-2.5 shrink-0"
+                            />
+                            <Button
+                              type="button"
+                              onClick={() => setSelectedHistoryId(entry.id)}
+                              variant="ghost"
+                              className={`min-w-0 flex-1 h-auto flex-col items-start justify-start gap-0 rounded-none px-2 py-2 text-left transition-colors ${
+                                selectedHistoryId === entry.id
+                                  ? "bg-muted text-foreground"
+                                  : "text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                              }`}
+                            >
+                              <div className="flex items-center gap-1.5 mb-0.5">
+                                <span
+                                  className={`text-[9px] px-1.5 py-0.5 rounded font-mono uppercase leading-4 ${
+                                    entry.direction === "in"
+                                      ? "bg-success/15 text-success"
+                                      : entry.direction === "out"
+                                      ? "bg-blue-500/15 text-blue-400"
+                                      : "bg-muted text-muted-foreground"
+                                  }`}
+                                >
+                                  {entry.source} {entry.direction}
+                                </span>
+                              </div>
+                              <div className="text-[10px] text-muted-foreground/50 font-mono truncate">
+                                {entry.at}
+                              </div>
+                            </Button>
+                          </div>
+                        ))}
+                      {history.length > 0 && history[0]?.id !== historyStartId && (
                         <Button
-                          key={entry.id}
                           type="button"
-                          onClick={() => setSelectedHistoryId(entry.id)}
+                          onClick={() => void loadOlderHistory()}
+                          disabled={isLoadingOlderHistory}
                           variant="ghost"
-                          className={`w-full h-auto flex-col items-start justify-start gap-0 rounded-none px-3 py-2 text-left transition-colors ${
-                            selectedHistoryId === entry.id
-                              ? "bg-muted text-foreground"
-                              : "text-muted-foreground hover:bg-muted/50 hover:text-foreground"
-                          }`}
+                          size="sm"
+                          className="w-full h-8 rounded-none text-xs text-muted-foreground"
                         >
-                          <div className="flex items-center gap-1.5 mb-0.5">
-                            <span
-                              className={`text-[9px] px-1.5 py-0.5 rounded font-mono uppercase leading-4 ${
-                                entry.direction === "in"
-                                  ? "bg-success/15 text-success"
-                                  : entry.direction === "out"
-                                  ? "bg-blue-500/15 text-blue-400"
-                                  : "bg-muted text-muted-foreground"
-                              }`}
-                            >
-                              {entry.source} {entry.direction}
-                            </span>
-                          </div>
-                          <div className="text-[10px] text-muted-foreground/50 font-mono truncate">
-                            {entry.at}
-                          </div>
+                          {isLoadingOlderHistory ? <Loader2 size={12} className="animate-spin" /> : "Load older"}
                         </Button>
-                      ))}
-                  </div>
+                      )}
+                    </div>
 
-                  {/* Payload detail */}
-                  <div className="overflow-y-auto p-3 space-y-3">
-                    {!historyDetail ? (
-                      <div className="text-xs text-muted-foreground py-4">Select an entry</div>
-                    ) : (
-                      <>
-                        <div className="flex items-center gap-2">
-                          <Label
-                            htmlFor="wait-for-replay-response"
-                            className="flex items-center gap-1.5 text-xs font-normal text-muted-foreground cursor-pointer"
-                          >
-                            <Checkbox
-                              id="wait-for-replay-response"
-                              checked={waitForReplayResponse}
-                              onCheckedChange={(checked) =>
-                                setWaitForReplayResponse(checked === true)
+                    {/* Payload detail */}
+                    <div className="overflow-y-auto p-3 space-y-3">
+                      {frameEditorMode === "compose" ? (
+                        <IpcFrameEditor
+                          key="compose"
+                          frame={null}
+                          onClose={() => setFrameEditorMode(null)}
+                          onSent={() => void refreshAll()}
+                        />
+                      ) : !historyDetail ? (
+                        <div className="text-xs text-muted-foreground py-4">Select an entry</div>
+                      ) : (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <Label
+                              htmlFor="wait-for-replay-response"
+                              className="flex items-center gap-1.5 text-xs font-normal text-muted-foreground cursor-pointer"
+                            >
+                              <Checkbox
+                                id="wait-for-replay-response"
+                                checked={waitForReplayResponse}
+                                onCheckedChange={(checked) =>
+                                  setWaitForReplayResponse(checked === true)
+                                }
+                              />
+                              wait for response
+                            </Label>
+                            <Button
+                              type="button"
+                              onClick={() =>
+                                void replayHistoryEntry({
+                                  entryId: historyDetail.entry.id,
+                                  waitForResponse: waitForReplayResponse
+                                }).then(refreshAll)
                               }
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                            >
+                              Replay
+                            </Button>
+                            <Button
+                              type="button"
+                              onClick={() => setFrameEditorMode(frameEditorMode === "edit" ? null : "edit")}
+                              disabled={!historyReplayFrame}
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 text-xs"
+                            >
+                              Edit
+                            </Button>
+                          </div>
+                          {frameEditorMode === "edit" && historyReplayFrame && (
+                            <IpcFrameEditor
+                              key={historyDetail.entry.id}
+                              frame={historyReplayFrame}
+                              onClose={() => setFrameEditorMode(null)}
+                              onSent={() => void refreshAll()}
                             />
-                            wait for response
-                          </Label>
-                          <Button
-                            type="button"
-                            onClick={() =>
-                              void replayHistoryEntry({
-                                entryId: historyDetail.entry.id,
-                                waitForResponse: waitForReplayResponse
-                              }).then(refreshAll)
-                            }
-                            variant="outline"
-                            size="sm"
-                            className="h-7 text-xs"
-                          >
-                            Replay
-                          </Button>
-                        </div>
-                        <pre className="font-mono text-[11px] text-muted-foreground leading-5 whitespace-pre-wrap break-words">
-                          {JSON.stringify(historyDetail.fullPayload, null, 2)}
-                        </pre>
-                      </>
-                    )}
+                          )}
+                          <pre className="font-mono text-[11px] text-muted-foreground leading-5 whitespace-pre-wrap break-words">
+                            {JSON.stringify(historyDetail.fullPayload, null, 2)}
+                          </pre>
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Right: Trace + Stream Events */}
               <div className="flex flex-col min-h-0 overflow-hidden divide-y divide-border">
@@ -2283,6 +3269,14 @@ export function App(): React.JSX.Element {
                   </div>
                 </div>
 
+                <TraceBrowser
+                  activeTraceId={traceStatus?.active?.id ?? null}
+                  openTraceId={openTraceId}
+                  onOpen={setOpenTraceId}
+                />
+
+                <ProtocolDriftPanel />
+
                 {/* Stream events */}
                 <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
                   <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border shrink-0">
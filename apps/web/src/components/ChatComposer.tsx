@@ -1,27 +1,48 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { ArrowUp, CirclePause, Loader2 } from "lucide-react";
+import { ArrowUp, CirclePause, CornerDownRight, FileText, Loader2, Paperclip, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import type { UploadedFile } from "@/lib/api";
+
+type ComposerAttachment = {
+  key: number;
+  name: string;
+  previewUrl: string | null;
+  /** Null while the file is still uploading. */
+  upload: UploadedFile | null;
+};
 
 type ChatComposerProps = {
   canSend: boolean;
   isBusy: boolean;
   isGenerating: boolean;
+  /** Whether messages can be added to the running turn instead of waiting for it. */
+  canSteer?: boolean;
   placeholder?: string;
   onInterrupt: () => void | Promise<void>;
-  onSend: (text: string) => void | Promise<void>;
+  onSend: (text: string, attachments: UploadedFile[]) => void | Promise<void>;
+  onSteer?: (text: string, attachments: UploadedFile[]) => void | Promise<void>;
+  /** Stages a file on the server. Resolves to null when the upload failed. */
+  onUpload?: (file: File) => Promise<UploadedFile | null>;
 };
 
 export function ChatComposer({
   canSend,
   isBusy,
   isGenerating,
+  canSteer = false,
   placeholder = "Message Codex…",
   onInterrupt,
-  onSend
+  onSend,
+  onSteer,
+  onUpload
 }: ChatComposerProps): React.JSX.Element {
   const [draft, setDraft] = useState("");
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextAttachmentKeyRef = useRef(0);
+  const attachmentsRef = useRef<ComposerAttachment[]>([]);
   const resizeFrameRef = useRef<number | null>(null);
   const previousHeightRef = useRef(0);
 
@@ -75,62 +96,249 @@ export function ChatComposer({
     };
   }, []);
 
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
+  useEffect(() => {
+    return () => {
+      for (const attachment of attachmentsRef.current) {
+        if (attachment.previewUrl) {
+          URL.revokeObjectURL(attachment.previewUrl);
+        }
+      }
+    };
+  }, []);
+
+  const removeAttachment = useCallback((key: number) => {
+    setAttachments((current) =>
+      current.filter((attachment) => {
+        if (attachment.key !== key) {
+          return true;
+        }
+        if (attachment.previewUrl) {
+          URL.revokeObjectURL(attachment.previewUrl);
+        }
+        return false;
+      })
+    );
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    if (!onUpload) {
+      return;
+    }
+
+    for (const file of files) {
+      const key = nextAttachmentKeyRef.current++;
+      const previewUrl = file.type.startsWith("image/") ? URL.createObjectURL(file) : null;
+      setAttachments((current) => [...current, { key, name: file.name, previewUrl, upload: null }]);
+
+      void onUpload(file).then((upload) => {
+        if (!upload) {
+          removeAttachment(key);
+          return;
+        }
+        setAttachments((current) =>
+          current.map((attachment) => (attachment.key === key ? { ...attachment, upload } : attachment))
+        );
+      });
+    }
+  }, [onUpload, removeAttachment]);
+
+  const clearComposer = useCallback(() => {
+    for (const attachment of attachments) {
+      if (attachment.previewUrl) {
+        URL.revokeObjectURL(attachment.previewUrl);
+      }
+    }
+    setAttachments([]);
+    setDraft("");
+    previousHeightRef.current = 0;
+  }, [attachments]);
+
+  const isUploading = attachments.some((attachment) => attachment.upload === null);
+  const uploadedFiles = attachments.flatMap((attachment) => (attachment.upload ? [attachment.upload] : []));
+  const isSteering = isGenerating && canSteer && Boolean(onSteer);
+
+  const steerDraft = useCallback(async () => {
+    if (!onSteer || !draft.trim() || !canSend || isBusy || isUploading) {
+      return;
+    }
+
+    await onSteer(draft, uploadedFiles);
+    clearComposer();
+  }, [canSend, clearComposer, draft, isBusy, isUploading, onSteer, uploadedFiles]);
+
   const sendDraft = useCallback(async () => {
     if (isGenerating) {
+      if (isSteering && draft.trim()) {
+        await steerDraft();
+        return;
+      }
       await onInterrupt();
       return;
     }
-    if (!draft.trim() || !canSend || isBusy) {
+    if (!draft.trim() || !canSend || isBusy || isUploading) {
       return;
     }
 
-    await onSend(draft);
-    setDraft("");
-    previousHeightRef.current = 0;
-  }, [canSend, draft, isBusy, isGenerating, onInterrupt, onSend]);
+    await onSend(draft, uploadedFiles);
+    clearComposer();
+  }, [
+    canSend,
+    clearComposer,
+    draft,
+    isBusy,
+    isGenerating,
+    isSteering,
+    isUploading,
+    onInterrupt,
+    onSend,
+    steerDraft,
+    uploadedFiles
+  ]);
 
-  const disableSend = isGenerating ? !canSend || isBusy : !canSend || isBusy || !draft.trim();
+  const disableSend = isGenerating
+    ? !canSend || isBusy
+    : !canSend || isBusy || isUploading || !draft.trim();
 
   return (
-    <div className="flex items-end gap-2 rounded-[28px] border border-border bg-card pl-4 pr-2.5 py-2.5 focus-within:border-muted-foreground/40 transition-colors">
-      <Textarea
-        ref={textareaRef}
-        value={draft}
-        onChange={(e) => {
-          setDraft(e.target.value);
-          resizeTextarea();
-        }}
-        onKeyDown={(e) => {
-          if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+    <div
+      className="flex flex-col gap-2 rounded-[28px] border border-border bg-card pl-4 pr-2.5 py-2.5 focus-within:border-muted-foreground/40 transition-colors"
+      onDragOver={(e) => {
+        if (onUpload && e.dataTransfer.types.includes("Files")) {
+          e.preventDefault();
+        }
+      }}
+      onDrop={(e) => {
+        if (!onUpload || e.dataTransfer.files.length === 0) {
+          return;
+        }
+        e.preventDefault();
+        addFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.key}
+              className="flex max-w-[200px] items-center gap-1.5 rounded-xl border border-border bg-muted/40 py-1 pl-1 pr-1.5 text-xs"
+            >
+              {attachment.previewUrl ? (
+                <img src={attachment.previewUrl} alt="" className="h-7 w-7 shrink-0 rounded-lg object-cover" />
+              ) : (
+                <FileText size={14} className="mx-1 shrink-0 text-muted-foreground" />
+              )}
+              <span className="min-w-0 truncate">{attachment.name}</span>
+              {attachment.upload === null ? (
+                <Loader2 size={12} className="shrink-0 animate-spin text-muted-foreground" />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => removeAttachment(attachment.key)}
+                  aria-label={`Remove ${attachment.name}`}
+                  className="shrink-0 text-muted-foreground hover:text-foreground"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-end gap-2">
+        {onUpload && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canSend}
+              variant="ghost"
+              size="icon"
+              aria-label="Attach files"
+              className="-ml-2 h-9 w-9 shrink-0 self-end rounded-full text-muted-foreground hover:text-foreground"
+            >
+              <Paperclip size={14} />
+            </Button>
+          </>
+        )}
+        <Textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            resizeTextarea();
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              void sendDraft();
+            }
+          }}
+          onPaste={(e) => {
+            if (!onUpload || e.clipboardData.files.length === 0) {
+              return;
+            }
             e.preventDefault();
-            void sendDraft();
-          }
-        }}
-        placeholder={placeholder}
-        rows={1}
-        className="flex-1 min-h-9 max-h-[200px] resize-none overflow-y-auto border-0 bg-transparent px-0 py-2 text-base leading-5 shadow-none transition-[height] duration-90 ease-out focus-visible:ring-0 md:text-sm"
-      />
-      <Button
-        type="button"
-        onClick={() => {
-          void sendDraft();
-        }}
-        disabled={disableSend}
-        size="icon"
-        className={`h-9 w-9 shrink-0 self-end rounded-full disabled:opacity-30 ${
-          isGenerating
-            ? "bg-destructive text-destructive-foreground hover:bg-destructive/85"
-            : "bg-foreground text-background hover:bg-foreground/80"
-        }`}
-      >
-        {isGenerating ? (
-          <CirclePause size={13} />
-        ) : isBusy ? (
-          <Loader2 size={13} className="animate-spin" />
-        ) : (
-          <ArrowUp size={13} />
+            addFiles(Array.from(e.clipboardData.files));
+          }}
+          placeholder={isSteering ? "Steer the current turn…" : placeholder}
+          rows={1}
+          className="flex-1 min-h-9 max-h-[200px] resize-none overflow-y-auto border-0 bg-transparent px-0 py-2 text-base leading-5 shadow-none transition-[height] duration-90 ease-out focus-visible:ring-0 md:text-sm"
+        />
+        {isSteering && (
+          <Button
+            type="button"
+            onClick={() => {
+              void steerDraft();
+            }}
+            disabled={!canSend || isBusy || isUploading || !draft.trim()}
+            size="icon"
+            aria-label="Steer"
+            title="Send to the running turn"
+            className="h-9 w-9 shrink-0 self-end rounded-full bg-foreground text-background hover:bg-foreground/80 disabled:opacity-30"
+          >
+            {isBusy ? <Loader2 size={13} className="animate-spin" /> : <CornerDownRight size={13} />}
+          </Button>
         )}
-      </Button>
+        <Button
+          type="button"
+          onClick={() => {
+            if (isGenerating) {
+              void onInterrupt();
+              return;
+            }
+            void sendDraft();
+          }}
+          disabled={disableSend}
+          size="icon"
+          className={`h-9 w-9 shrink-0 self-end rounded-full disabled:opacity-30 ${
+            isGenerating
+              ? "bg-destructive text-destructive-foreground hover:bg-destructive/85"
+              : "bg-foreground text-background hover:bg-foreground/80"
+          }`}
+        >
+          {isGenerating ? (
+            <CirclePause size={13} />
+          ) : isBusy ? (
+            <Loader2 size={13} className="animate-spin" />
+          ) : (
+            <ArrowUp size={13} />
+          )}
+        </Button>
+      </div>
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { memo } from "react";
 import type { z } from "zod";
 import type { TurnItemSchema } from "@farfield/protocol";
+import { GitFork, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { ReasoningBlock } from "./ReasoningBlock";
 import { CommandBlock } from "./CommandBlock";
 import { DiffBlock } from "./DiffBlock";
@@ -15,6 +17,11 @@ interface Props {
   turnIsInProgress: boolean;
   previousItemType?: TurnItem["type"] | undefined;
   nextItemType?: TurnItem["type"] | undefined;
+  /** Set on the last item of a finished turn to show the turn actions below it. */
+  turnId?: string | undefined;
+  turnActionsDisabled?: boolean | undefined;
+  onForkFromTurn?: ((turnId: string) => void) | undefined;
+  onRollbackToTurn?: ((turnId: string) => void) | undefined;
 }
 
 const TOOL_BLOCK_TYPES: readonly TurnItem["type"][] = [
@@ -50,7 +57,7 @@ function assertNever(value: never): never {
   throw new Error(`Unhandled turn item type: ${String(value)}`);
 }
 
-function ConversationItemComponent({
+function renderItemContent({
   item,
   isLast,
   turnIsInProgress,
@@ -203,13 +210,59 @@ function ConversationItemComponent({
   }
 }
 
+function ConversationItemComponent(props: Props) {
+  const content = renderItemContent(props);
+  const { turnId, turnActionsDisabled, onForkFromTurn, onRollbackToTurn } = props;
+  if (!content || !turnId || (!onForkFromTurn && !onRollbackToTurn)) {
+    return content;
+  }
+
+  return (
+    <div className="group/turn">
+      {content}
+      <div className="mt-1 flex justify-end gap-1 transition-opacity md:opacity-0 md:group-hover/turn:opacity-100 md:focus-within:opacity-100">
+        {onRollbackToTurn && (
+          <Button
+            type="button"
+            onClick={() => onRollbackToTurn(turnId)}
+            disabled={turnActionsDisabled}
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Undo2 size={12} />
+            Roll back to here
+          </Button>
+        )}
+        {onForkFromTurn && (
+          <Button
+            type="button"
+            onClick={() => onForkFromTurn(turnId)}
+            disabled={turnActionsDisabled}
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 px-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <GitFork size={12} />
+            Fork from here
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function areConversationItemPropsEqual(prev: Props, next: Props): boolean {
   return (
     prev.item === next.item &&
     prev.isLast === next.isLast &&
     prev.turnIsInProgress === next.turnIsInProgress &&
     prev.previousItemType === next.previousItemType &&
-    prev.nextItemType === next.nextItemType
+    prev.nextItemType === next.nextItemType &&
+    prev.turnId === next.turnId &&
+    prev.turnActionsDisabled === next.turnActionsDisabled &&
+    prev.onForkFromTurn === next.onForkFromTurn &&
+    prev.onRollbackToTurn === next.onRollbackToTurn
   );
 }
 
@@ -0,0 +1,35 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+/** Compact select for list filters; option values must be non-empty. */
+export function FilterSelect({
+  value,
+  onChange,
+  label,
+  options
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+  options: Array<{ value: string; label: string }>;
+}): React.JSX.Element {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger aria-label={label} className="h-7 min-w-0 flex-1 rounded-lg px-2 text-[11px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value} className="text-xs">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getHistoryEntry,
+  listReplayMethods,
+  replayHistoryEntry,
+  toReplayFrame,
+  type ObservedMethod,
+  type ReplayFrame
+} from "@/lib/api";
+
+// The editable part of a frame; type and method are fixed by the frame or the picker.
+const EditableFieldsSchema = z
+  .object({
+    params: z.unknown(),
+    targetClientId: z.string().min(1).optional(),
+    version: z.number().int().nonnegative().optional()
+  })
+  .strict();
+
+function formatFields(frame: ReplayFrame | null): string {
+  return JSON.stringify(
+    {
+      params: frame?.params ?? {},
+      ...(frame?.targetClientId ? { targetClientId: frame.targetClientId } : {}),
+      ...(typeof frame?.version === "number" ? { version: frame.version } : {})
+    },
+    null,
+    2
+  );
+}
+
+function methodKey(method: Pick<ObservedMethod, "type" | "method">): string {
+  return `${method.type}:${method.method}`;
+}
+
+/**
+ * Sends an IPC frame after editing its params, targetClientId and version.
+ * Without a captured frame it composes a new one from the methods seen so far,
+ * starting from the last captured frame of the picked method. Key it by the
+ * entry so switching entries starts a fresh edit.
+ */
+export function IpcFrameEditor({
+  frame,
+  onClose,
+  onSent
+}: {
+  frame: ReplayFrame | null;
+  onClose: () => void;
+  onSent: () => void;
+}): React.JSX.Element {
+  const [methods, setMethods] = useState<ObservedMethod[]>([]);
+  const [pickedKey, setPickedKey] = useState("");
+  const [text, setText] = useState(() => formatFields(frame));
+  const [waitForResponse, setWaitForResponse] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [response, setResponse] = useState<{ value: unknown } | null>(null);
+
+  const isComposing = frame === null;
+
+  useEffect(() => {
+    if (!isComposing) {
+      return;
+    }
+    void listReplayMethods()
+      .then(setMethods)
+      .catch((caught: unknown) => setError(caught instanceof Error ? caught.message : String(caught)));
+  }, [isComposing]);
+
+  const picked = methods.find((method) => methodKey(method) === pickedKey) ?? null;
+  const target = frame ?? (picked ? { type: picked.type, method: picked.method } : null);
+
+  const pickMethod = async (key: string): Promise<void> => {
+    setPickedKey(key);
+    setResponse(null);
+    const method = methods.find((candidate) => methodKey(candidate) === key);
+    if (!method) {
+      return;
+    }
+    try {
+      const detail = await getHistoryEntry(method.lastEntryId);
+      setText(formatFields(toReplayFrame(detail.fullPayload)));
+    } catch {
+      // The template entry may have aged out of history; start from empty params.
+      setText(formatFields(null));
+    }
+  };
+
+  const send = async (): Promise<void> => {
+    if (!target) {
+      return;
+    }
+
+    let fields: z.infer<typeof EditableFieldsSchema>;
+    try {
+      fields = EditableFieldsSchema.parse(JSON.parse(text));
+    } catch (caught) {
+      setError(
+        caught instanceof z.ZodError
+          ? caught.issues.map((issue) => `${issue.path.join(".") || "frame"}: ${issue.message}`).join("; ")
+          : "Frame is not valid JSON"
+      );
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    setResponse(null);
+    try {
+      const result = await replayHistoryEntry({
+        frame: {
+          type: target.type,
+          method: target.method,
+          params: fields.params ?? {},
+          ...(fields.targetClientId ? { targetClientId: fields.targetClientId } : {}),
+          ...(fields.version !== undefined ? { version: fields.version } : {})
+        },
+        waitForResponse
+      });
+      if ("response" in result) {
+        setResponse({ value: result.response });
+      }
+      onSent();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+          {frame ? "Edit frame" : "Compose frame"}
+        </span>
+        <Button
+          type="button"
+          onClick={onClose}
+          variant="ghost"
+          size="icon"
+          aria-label="Close frame editor"
+          className="ml-auto h-6 w-6 text-muted-foreground hover:text-foreground"
+        >
+          <X size={12} />
+        </Button>
+      </div>
+
+      {frame ? (
+        <div className="text-xs font-mono text-muted-foreground">
+          {frame.type} · {frame.method}
+        </div>
+      ) : (
+        <Select value={pickedKey} onValueChange={(key) => void pickMethod(key)}>
+          <SelectTrigger aria-label="IPC method" className="h-7 rounded-lg px-2 text-[11px]">
+            <SelectValue placeholder={methods.length > 0 ? "Pick an observed method" : "No methods observed yet"} />
+          </SelectTrigger>
+          <SelectContent>
+            {methods.map((method) => (
+              <SelectItem key={methodKey(method)} value={methodKey(method)} className="text-xs">
+                {method.method} ({method.type}, {method.count}×)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        spellCheck={false}
+        aria-label="Frame params, targetClientId and version"
+        className="min-h-48 font-mono text-[11px] md:text-[11px] leading-5"
+      />
+
+      <div className="flex items-center gap-2">
+        <Label
+          htmlFor="wait-for-edited-response"
+          className="flex items-center gap-1.5 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          <Checkbox
+            id="wait-for-edited-response"
+            checked={waitForResponse}
+            onCheckedChange={(checked) => setWaitForResponse(checked === true)}
+          />
+          wait for response
+        </Label>
+        <Button
+          type="button"
+          onClick={() => void send()}
+          disabled={!target || isSending}
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+        >
+          {isSending && <Loader2 size={12} className="animate-spin" />}
+          Send
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-danger">{error}</div>}
+      {response && (
+        <pre className="max-h-60 overflow-auto font-mono text-[11px] text-muted-foreground leading-5 whitespace-pre-wrap break-words rounded-lg bg-muted/40 p-2">
+          {JSON.stringify(response.value, null, 2) ?? "undefined"}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { login } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type LoginScreenProps = {
+  onAuthenticated: () => void;
+};
+
+function readPairingTokenFromLocation(): string | null {
+  const token = new URLSearchParams(window.location.search).get("token");
+  return token && token.trim() ? token.trim() : null;
+}
+
+function clearPairingTokenFromLocation(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has("token")) {
+    return;
+  }
+  url.searchParams.delete("token");
+  window.history.replaceState(null, "", `${url.pathname}${url.search}${url.hash}`);
+}
+
+export function LoginScreen({ onAuthenticated }: LoginScreenProps): React.JSX.Element {
+  const [token, setToken] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const attemptedPairingRef = useRef(false);
+
+  const submit = useCallback(
+    async (value: string) => {
+      const trimmed = value.trim();
+      if (!trimmed) {
+        return;
+      }
+      setIsSubmitting(true);
+      setError("");
+      try {
+        await login(trimmed);
+        clearPairingTokenFromLocation();
+        onAuthenticated();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [onAuthenticated]
+  );
+
+  useEffect(() => {
+    if (attemptedPairingRef.current) {
+      return;
+    }
+    attemptedPairingRef.current = true;
+    const pairingToken = readPairingTokenFromLocation();
+    if (pairingToken) {
+      void submit(pairingToken);
+    }
+  }, [submit]);
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-background text-foreground px-4">
+      <form
+        className="w-full max-w-sm rounded-xl border border-border bg-card p-5 space-y-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void submit(token);
+        }}
+      >
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <KeyRound size={15} />
+          Sign in to Farfield
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Enter the access token from <code>FARFIELD_AUTH_TOKEN</code> or the pairing token printed by
+          the server at startup.
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="farfield-access-token" className="text-xs">
+            Access token
+          </Label>
+          <Input
+            id="farfield-access-token"
+            type="password"
+            autoComplete="current-password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            disabled={isSubmitting}
+            autoFocus
+          />
+        </div>
+        {error && <div className="text-xs text-destructive">{error}</div>}
+        <Button type="submit" className="w-full" disabled={isSubmitting || !token.trim()}>
+          {isSubmitting && <Loader2 size={14} className="mr-1.5 animate-spin" />}
+          Sign in
+        </Button>
+      </form>
+    </div>
+  );
+}
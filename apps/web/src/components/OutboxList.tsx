@@ -0,0 +1,86 @@
+import { motion } from "framer-motion";
+import { CloudOff, Loader2, RotateCcw, TriangleAlert, X } from "lucide-react";
+import type { OutboxMessage } from "@/hooks/useOutbox";
+import { Button } from "@/components/ui/button";
+
+function statusLabel(message: OutboxMessage, online: boolean): string {
+  switch (message.status) {
+    case "queued":
+      return online ? "Queued" : "Queued · sends when you're back online";
+    case "sending":
+      return "Sending…";
+    case "failed":
+      return message.error ? `Failed: ${message.error}` : "Failed";
+  }
+}
+
+export function OutboxList({
+  messages,
+  online,
+  onRetry,
+  onDiscard
+}: {
+  messages: OutboxMessage[];
+  online: boolean;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}): React.JSX.Element {
+  return (
+    <motion.ul
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      aria-label="Outbox"
+      className="rounded-xl border border-border bg-card divide-y divide-border"
+    >
+      {messages.map((message) => (
+        <li key={message.id} className="flex items-start gap-2.5 px-3 py-2">
+          <span className="mt-0.5 shrink-0 text-muted-foreground">
+            {message.status === "sending" ? (
+              <Loader2 size={13} className="animate-spin" />
+            ) : message.status === "failed" ? (
+              <TriangleAlert size={13} className="text-destructive" />
+            ) : (
+              <CloudOff size={13} />
+            )}
+          </span>
+          <span className="min-w-0 flex-1">
+            <span className="block text-sm text-foreground line-clamp-2 whitespace-pre-wrap break-words">
+              {message.text}
+            </span>
+            <span
+              className={`block text-xs mt-0.5 ${
+                message.status === "failed" ? "text-destructive" : "text-muted-foreground"
+              }`}
+            >
+              {statusLabel(message, online)}
+            </span>
+          </span>
+          {message.status === "failed" && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              aria-label="Retry message"
+              onClick={() => onRetry(message.id)}
+            >
+              <RotateCcw size={12} />
+            </Button>
+          )}
+          {message.status !== "sending" && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              aria-label="Discard message"
+              onClick={() => onDiscard(message.id)}
+            >
+              <X size={12} />
+            </Button>
+          )}
+        </li>
+      ))}
+    </motion.ul>
+  );
+}
@@ -1,5 +1,9 @@
 import { motion } from "framer-motion";
-import { getPendingUserInputRequests } from "@/lib/api";
+import {
+  getPendingUserInputRequests,
+  type ApprovalDecision,
+  type ApprovalRequest
+} from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -109,3 +113,219 @@ export function PendingRequestCard({
     </motion.div>
   );
 }
+
+export function ApprovalRequestCard({
+  approval,
+  onDecision,
+  isBusy
+}: {
+  approval: ApprovalRequest;
+  onDecision: (decision: ApprovalDecision) => void;
+  isBusy: boolean;
+}): React.JSX.Element {
+  if (approval.kind === "opencodePermission") {
+    return <PermissionRequestCard approval={approval} onDecision={onDecision} isBusy={isBusy} />;
+  }
+  if (approval.kind === "acpPermission") {
+    return <AcpPermissionCard approval={approval} onDecision={onDecision} isBusy={isBusy} />;
+  }
+
+  const amendment =
+    approval.kind === "commandExecution" ? approval.params.proposedExecpolicyAmendment ?? null : null;
+  const reason = approval.params.reason ?? null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-border bg-card p-4 space-y-3"
+    >
+      <div className="space-y-2">
+        <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+          {approval.kind === "commandExecution" ? "Run command?" : "Apply file changes?"}
+        </div>
+        {approval.kind === "commandExecution" && approval.params.command && (
+          <pre className="text-xs font-mono bg-muted rounded-lg px-3 py-2 overflow-x-auto whitespace-pre-wrap break-all">
+            {approval.params.command}
+          </pre>
+        )}
+        {approval.kind === "commandExecution" && approval.params.cwd && (
+          <div className="text-xs text-muted-foreground font-mono truncate">{approval.params.cwd}</div>
+        )}
+        {approval.kind === "fileChange" && approval.params.grantRoot && (
+          <div className="text-xs text-muted-foreground">
+            Grant write access under <span className="font-mono">{approval.params.grantRoot}</span>
+          </div>
+        )}
+        {reason && <div className="text-sm text-foreground">{reason}</div>}
+      </div>
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <Button
+          type="button"
+          onClick={() => onDecision("decline")}
+          disabled={isBusy}
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Deny
+        </Button>
+        <Button
+          type="button"
+          onClick={() => onDecision("acceptForSession")}
+          disabled={isBusy}
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Approve for session
+        </Button>
+        {amendment && amendment.length > 0 && (
+          <Button
+            type="button"
+            onClick={() =>
+              onDecision({ acceptWithExecpolicyAmendment: { execpolicy_amendment: amendment } })
+            }
+            disabled={isBusy}
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            title={amendment.join(" ")}
+          >
+            Always allow
+          </Button>
+        )}
+        <Button
+          type="button"
+          onClick={() => onDecision("accept")}
+          disabled={isBusy}
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Approve
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
+
+function PermissionRequestCard({
+  approval,
+  onDecision,
+  isBusy
+}: {
+  approval: Extract<ApprovalRequest, { kind: "opencodePermission" }>;
+  onDecision: (decision: ApprovalDecision) => void;
+  isBusy: boolean;
+}): React.JSX.Element {
+  const pattern = approval.params.pattern;
+  const patterns = pattern === undefined ? [] : Array.isArray(pattern) ? pattern : [pattern];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-border bg-card p-4 space-y-3"
+    >
+      <div className="space-y-2">
+        <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+          Allow {approval.params.type}?
+        </div>
+        <div className="text-sm text-foreground">{approval.params.title}</div>
+        {patterns.length > 0 && (
+          <pre className="text-xs font-mono bg-muted rounded-lg px-3 py-2 overflow-x-auto whitespace-pre-wrap break-all">
+            {patterns.join("\n")}
+          </pre>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <Button
+          type="button"
+          onClick={() => onDecision("reject")}
+          disabled={isBusy}
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Reject
+        </Button>
+        <Button
+          type="button"
+          onClick={() => onDecision("always")}
+          disabled={isBusy}
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Always allow
+        </Button>
+        <Button
+          type="button"
+          onClick={() => onDecision("once")}
+          disabled={isBusy}
+          size="sm"
+          className="h-8 text-xs"
+        >
+          Allow once
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
+
+const ACP_DECISIONS = [
+  { decision: "reject", kinds: ["reject_once", "reject_always"] },
+  { decision: "always", kinds: ["allow_always"] },
+  { decision: "once", kinds: ["allow_once"] }
+] as const;
+
+function AcpPermissionCard({
+  approval,
+  onDecision,
+  isBusy
+}: {
+  approval: Extract<ApprovalRequest, { kind: "acpPermission" }>;
+  onDecision: (decision: ApprovalDecision) => void;
+  isBusy: boolean;
+}): React.JSX.Element {
+  // Only offer the choices the agent listed, under the agent's own wording.
+  const choices = ACP_DECISIONS.flatMap(({ decision, kinds }) => {
+    const option = approval.params.options.find((candidate) =>
+      (kinds as readonly string[]).includes(candidate.kind)
+    );
+    return option ? [{ decision, label: option.name }] : [];
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-xl border border-border bg-card p-4 space-y-3"
+    >
+      <div className="space-y-2">
+        <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+          Allow {approval.params.toolKind ?? "tool"}?
+        </div>
+        <div className="text-sm text-foreground">{approval.params.title}</div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        {choices.map(({ decision, label }) => (
+          <Button
+            key={decision}
+            type="button"
+            onClick={() => onDecision(decision)}
+            disabled={isBusy}
+            variant={decision === "once" ? "default" : "outline"}
+            size="sm"
+            className="h-8 text-xs"
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { clearProtocolDrift, getProtocolDrift, type ProtocolDriftEntry } from "@/lib/api";
+
+function entryKey(entry: ProtocolDriftEntry): string {
+  return `${entry.source}:${entry.method}:${entry.path}:${entry.code}`;
+}
+
+/**
+ * Payload fields the connected Codex build sends that our protocol schemas
+ * reject, grouped by schema path and issue code, with sample values.
+ */
+export function ProtocolDriftPanel(): React.JSX.Element {
+  const [entries, setEntries] = useState<ProtocolDriftEntry[]>([]);
+  const [totalFailures, setTotalFailures] = useState(0);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const report = await getProtocolDrift();
+      setEntries(report.entries);
+      setTotalFailures(report.totalFailures);
+      setError(null);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleClear = async (): Promise<void> => {
+    try {
+      await clearProtocolDrift();
+      setExpandedKey(null);
+      await refresh();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 max-h-72 shrink-0">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border shrink-0">
+        <span className="text-xs font-medium">Protocol Drift</span>
+        <span className="text-xs text-muted-foreground/60">
+          {totalFailures} rejected {totalFailures === 1 ? "payload" : "payloads"}
+        </span>
+        <div className="ml-auto flex gap-0.5">
+          <Button
+            type="button"
+            onClick={() => void refresh()}
+            variant="ghost"
+            size="icon"
+            aria-label="Refresh protocol drift"
+            className="h-6 w-6 text-muted-foreground hover:text-foreground"
+          >
+            <RefreshCw size={12} />
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void handleClear()}
+            disabled={entries.length === 0}
+            variant="ghost"
+            size="icon"
+            aria-label="Clear protocol drift"
+            className="h-6 w-6 text-muted-foreground hover:text-danger"
+          >
+            <Trash2 size={12} />
+          </Button>
+        </div>
+      </div>
+      {error && <div className="px-4 py-2 text-xs text-danger">{error}</div>}
+      <div className="flex-1 overflow-y-auto py-1">
+        {entries.length === 0 && (
+          <div className="px-4 py-2 text-xs text-muted-foreground">Every payload matched the schemas</div>
+        )}
+        {entries.map((entry) => {
+          const key = entryKey(entry);
+          const isExpanded = expandedKey === key;
+          return (
+            <div key={key} className={isExpanded ? "bg-muted/50" : undefined}>
+              <Button
+                type="button"
+                onClick={() => setExpandedKey(isExpanded ? null : key)}
+                variant="ghost"
+                className="h-auto w-full items-start justify-start gap-1.5 rounded-none px-4 py-1.5 text-left hover:bg-muted/50"
+              >
+                {isExpanded ? (
+                  <ChevronDown size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+                ) : (
+                  <ChevronRight size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+                )}
+                <span className="min-w-0 flex-1">
+                  <span className="flex items-center gap-1.5">
+                    <span className="truncate font-mono text-xs text-foreground">{entry.path}</span>
+                    <span className="shrink-0 rounded-full bg-danger/15 px-1.5 py-0.5 text-[10px] text-danger">
+                      {entry.code}
+                    </span>
+                    <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">×{entry.count}</span>
+                  </span>
+                  <span className="block truncate text-[10px] font-normal text-muted-foreground/80">
+                    {entry.source} · {entry.method} · {entry.message}
+                  </span>
+                </span>
+              </Button>
+              {isExpanded && (
+                <div className="space-y-1.5 px-4 pb-2">
+                  <div className="text-[10px] text-muted-foreground">
+                    First seen {new Date(entry.firstSeenAt).toLocaleString()}, last seen{" "}
+                    {new Date(entry.lastSeenAt).toLocaleString()}
+                  </div>
+                  {entry.samples.map((sample, index) => (
+                    <div key={`${sample.at}-${String(index)}`} className="space-y-0.5">
+                      <div className="font-mono text-[10px] text-muted-foreground/80">
+                        {sample.path.join(".")}
+                        {sample.truncated && " (truncated)"}
+                      </div>
+                      <pre className="max-h-48 overflow-auto rounded bg-background p-2 font-mono text-[11px] leading-relaxed">
+                        {typeof sample.value === "string" ? sample.value : JSON.stringify(sample.value, null, 2)}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { Server } from "lucide-react";
+import type { RemoteHost } from "@/lib/api";
+
+export function RemoteHostHeader({ host }: { host: RemoteHost }): React.JSX.Element {
+  const status = host.connected ? "Connected" : host.lastError ? `Offline: ${host.lastError}` : "Offline";
+  return (
+    <div
+      className="flex items-center gap-2 px-2 pt-3 pb-0.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground/80"
+      title={`${host.url} · ${status}`}
+    >
+      <Server size={12} className="shrink-0" />
+      <span className="min-w-0 truncate">{host.label}</span>
+      <span
+        role="status"
+        aria-label={`${host.label} ${host.connected ? "connected" : "offline"}`}
+        className={`h-1.5 w-1.5 shrink-0 rounded-full ${host.connected ? "bg-success" : "bg-danger"}`}
+      />
+    </div>
+  );
+}
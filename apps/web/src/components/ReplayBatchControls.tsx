@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  cancelReplayBatch,
+  replayHistoryBatch,
+  watchReplayBatch,
+  type ReplayBatchProgress
+} from "@/lib/api";
+
+/**
+ * Replays the selected history entries in capture order, with a fixed or
+ * recorded delay between them. Unmounting stops following the batch, which
+ * cancels it on the server.
+ */
+export function ReplayBatchControls({
+  entryIds,
+  onClear,
+  onFinished
+}: {
+  entryIds: string[];
+  onClear: () => void;
+  onFinished: () => void;
+}): React.JSX.Element {
+  const [delayMs, setDelayMs] = useState("250");
+  const [useRecordedTiming, setUseRecordedTiming] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<ReplayBatchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopWatchingRef.current?.(), []);
+
+  const parsedDelay = Number(delayMs);
+  const delayIsValid = Number.isInteger(parsedDelay) && parsedDelay >= 0 && parsedDelay <= 60_000;
+
+  const run = async (): Promise<void> => {
+    setIsRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const { id } = await replayHistoryBatch({
+        entryIds,
+        delayMs: delayIsValid ? parsedDelay : 0,
+        timing: useRecordedTiming ? "recorded" : "fixed"
+      });
+      stopWatchingRef.current = watchReplayBatch(
+        id,
+        (next) => {
+          setProgress(next);
+          if (next.finished) {
+            stopWatchingRef.current = null;
+            setIsRunning(false);
+            onFinished();
+          }
+        },
+        (message) => {
+          stopWatchingRef.current = null;
+          setError(message);
+          setIsRunning(false);
+        }
+      );
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+      setIsRunning(false);
+    }
+  };
+
+  const failed = progress?.steps.filter((step) => !step.ok) ?? [];
+
+  return (
+    <div className="px-3 py-2 border-b border-border shrink-0 space-y-1.5">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">{entryIds.length} selected</span>
+        <Input
+          value={delayMs}
+          onChange={(event) => setDelayMs(event.target.value)}
+          disabled={useRecordedTiming || isRunning}
+          inputMode="numeric"
+          aria-label="Delay between frames in milliseconds"
+          className="h-7 w-20 text-base md:text-xs"
+        />
+        <span className="text-xs text-muted-foreground">ms</span>
+        <Label
+          htmlFor="replay-recorded-timing"
+          className="flex items-center gap-1.5 text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          <Checkbox
+            id="replay-recorded-timing"
+            checked={useRecordedTiming}
+            disabled={isRunning}
+            onCheckedChange={(checked) => setUseRecordedTiming(checked === true)}
+          />
+          recorded timing
+        </Label>
+        <div className="ml-auto flex gap-1.5">
+          {isRunning ? (
+            <Button
+              type="button"
+              onClick={() => void cancelReplayBatch().catch(() => undefined)}
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+            >
+              <Loader2 size={12} className="animate-spin" />
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                onClick={() => void run()}
+                disabled={!useRecordedTiming && !delayIsValid}
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+              >
+                Replay {entryIds.length}
+              </Button>
+              <Button type="button" onClick={onClear} variant="ghost" size="sm" className="h-7 text-xs">
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+      {error && <div className="text-xs text-danger">{error}</div>}
+      {progress && (
+        <div className="text-xs text-muted-foreground">
+          Sent {progress.steps.length - failed.length} of {progress.total}
+          {failed.length > 0 && `, ${String(failed.length)} failed`}
+          {progress.cancelled && " (cancelled)"}
+          {failed.map((step) => (
+            <div key={step.entryId} className="font-mono text-[11px] text-danger truncate">
+              {step.method}: {step.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Bell, BellOff, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+
+export function ThreadActionsMenu({
+  label,
+  archived,
+  canRename,
+  canArchive,
+  canUnarchive,
+  archiveDeletes,
+  disabled,
+  onRename,
+  onArchive,
+  onUnarchive,
+  muted,
+  onToggleMute,
+  children
+}: {
+  label: string;
+  archived: boolean;
+  canRename: boolean;
+  canArchive: boolean;
+  canUnarchive: boolean;
+  /** The agent cannot restore archived threads, so archiving deletes them. */
+  archiveDeletes: boolean;
+  disabled: boolean;
+  onRename: (name: string) => void;
+  onArchive: () => void;
+  onUnarchive: () => void;
+  /** Notifications for this thread are muted on the server. */
+  muted: boolean;
+  onToggleMute: () => void;
+  children: React.ReactNode;
+}): React.JSX.Element {
+  const [open, setOpen] = useState(false);
+  // Set while the menu asks before a delete that cannot be undone.
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const showArchive = !archived && canArchive;
+  const showUnarchive = archived && canUnarchive;
+  const showMute = !archived;
+
+  if (!canRename && !showArchive && !showUnarchive && !showMute) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div
+      className="group/thread relative"
+      onContextMenu={(event) => {
+        event.preventDefault();
+        setOpen(true);
+      }}
+    >
+      {children}
+      <DropdownMenu
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen);
+          if (!nextOpen) {
+            setConfirmingDelete(false);
+          }
+        }}
+      >
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            disabled={disabled}
+            variant="ghost"
+            size="icon"
+            aria-label={`Actions for ${label}`}
+            className="absolute right-1 top-1/2 h-6 w-6 -translate-y-1/2 rounded-md bg-muted text-muted-foreground hover:text-foreground md:opacity-0 md:group-hover/thread:opacity-100 data-[state=open]:opacity-100"
+          >
+            <MoreHorizontal size={13} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" sideOffset={4}>
+          {confirmingDelete ? (
+            <>
+              <DropdownMenuLabel className="max-w-56 text-xs font-normal text-muted-foreground">
+                This agent cannot archive threads, so &ldquo;{label}&rdquo; will be deleted. This cannot be undone.
+              </DropdownMenuLabel>
+              <DropdownMenuItem variant="destructive" onSelect={onArchive}>
+                <Trash2 size={13} />
+                Delete permanently
+              </DropdownMenuItem>
+              <DropdownMenuItem>Cancel</DropdownMenuItem>
+            </>
+          ) : (
+            <>
+              {canRename && (
+                <DropdownMenuItem
+                  onSelect={() => {
+                    const name = window.prompt("Rename thread", label)?.trim();
+                    if (name && name !== label) {
+                      onRename(name);
+                    }
+                  }}
+                >
+                  <Pencil size={13} />
+                  Rename
+                </DropdownMenuItem>
+              )}
+              {showMute && (
+                <DropdownMenuItem onSelect={onToggleMute}>
+                  {muted ? <Bell size={13} /> : <BellOff size={13} />}
+                  {muted ? "Unmute notifications" : "Mute notifications"}
+                </DropdownMenuItem>
+              )}
+              {showArchive && (
+                <DropdownMenuItem
+                  onSelect={(event) => {
+                    if (archiveDeletes) {
+                      event.preventDefault();
+                      setConfirmingDelete(true);
+                      return;
+                    }
+                    onArchive();
+                  }}
+                >
+                  {archiveDeletes ? <Trash2 size={13} /> : <Archive size={13} />}
+                  {archiveDeletes ? "Delete…" : "Archive"}
+                </DropdownMenuItem>
+              )}
+              {showUnarchive && (
+                <DropdownMenuItem onSelect={onUnarchive}>
+                  <ArchiveRestore size={13} />
+                  Unarchive
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { threadExportUrl, type ThreadExportFormat } from "@/lib/api";
+
+const EXPORT_FORMATS: Array<{ format: ThreadExportFormat; label: string }> = [
+  { format: "md", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "html", label: "HTML" }
+];
+
+/** Header menu that downloads the thread transcript; the server sets the file name. */
+export function ThreadExportMenu({ threadId }: { threadId: string }): React.JSX.Element {
+  const [redact, setRedact] = useState(true);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label="Export thread"
+          title="Export thread"
+          className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground hover:bg-muted"
+        >
+          <Download size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" sideOffset={6}>
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Export transcript</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={threadExportUrl(threadId, format, redact)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={redact}
+          onCheckedChange={(checked) => setRedact(checked === true)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Redact sensitive content
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
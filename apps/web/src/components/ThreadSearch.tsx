@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FilterSelect } from "@/components/FilterSelect";
+import type { AgentId, SearchResult } from "@/lib/api";
+
+export interface ThreadSearchFilters {
+  q: string;
+  agentId?: AgentId;
+  project?: string;
+  since?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const ALL_VALUE = "__all__";
+
+const DATE_RANGES: Array<{ value: string; label: string; days: number | null }> = [
+  { value: ALL_VALUE, label: "Any time", days: null },
+  { value: "day", label: "Past day", days: 1 },
+  { value: "week", label: "Past week", days: 7 },
+  { value: "month", label: "Past month", days: 30 }
+];
+
+const KIND_LABELS: Record<SearchResult["kind"], string> = {
+  title: "Title",
+  userMessage: "You",
+  agentMessage: "Agent",
+  command: "Command",
+  fileChange: "File"
+};
+
+function buildFilters(
+  query: string,
+  agentId: string,
+  project: string,
+  dateRange: string
+): ThreadSearchFilters {
+  const days = DATE_RANGES.find((range) => range.value === dateRange)?.days ?? null;
+  return {
+    q: query.trim(),
+    ...(agentId !== ALL_VALUE ? { agentId: agentId as AgentId } : {}),
+    ...(project !== ALL_VALUE ? { project } : {}),
+    ...(days !== null ? { since: new Date(Date.now() - days * 86_400_000).toISOString() } : {})
+  };
+}
+
+/** Sidebar search box; shows matches in place of the thread list while a query is entered. */
+export function ThreadSearch({
+  agents,
+  projects,
+  onSearch,
+  onOpenResult,
+  children
+}: {
+  agents: Array<{ id: AgentId; label: string }>;
+  projects: Array<{ path: string; label: string }>;
+  onSearch: (filters: ThreadSearchFilters) => Promise<SearchResult[]>;
+  onOpenResult: (result: SearchResult) => void;
+  children: React.ReactNode;
+}): React.JSX.Element {
+  const [query, setQuery] = useState("");
+  const [agentId, setAgentId] = useState(ALL_VALUE);
+  const [project, setProject] = useState(ALL_VALUE);
+  const [dateRange, setDateRange] = useState(ALL_VALUE);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState("");
+  const requestSeqRef = useRef(0);
+  const isActive = query.trim().length > 0;
+
+  useEffect(() => {
+    const requestSeq = ++requestSeqRef.current;
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      setError("");
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = window.setTimeout(() => {
+      onSearch(buildFilters(query, agentId, project, dateRange))
+        .then((next) => {
+          if (requestSeq !== requestSeqRef.current) return;
+          setResults(next);
+          setError("");
+        })
+        .catch((e: unknown) => {
+          if (requestSeq !== requestSeqRef.current) return;
+          setError(e instanceof Error ? e.message : String(e));
+        })
+        .finally(() => {
+          if (requestSeq !== requestSeqRef.current) return;
+          setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [agentId, dateRange, onSearch, project, query]);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="shrink-0 space-y-1.5 px-2 pb-1">
+        <div className="relative">
+          <Search
+            size={13}
+            className="pointer-events-none absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground"
+          />
+          <Input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") setQuery("");
+            }}
+            placeholder="Search threads"
+            aria-label="Search threads"
+            className="h-8 rounded-lg pl-7 pr-7 text-[13px] md:text-[13px]"
+          />
+          {isActive && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setQuery("")}
+              aria-label="Clear search"
+              className="absolute right-1 top-1/2 h-6 w-6 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              <X size={12} />
+            </Button>
+          )}
+        </div>
+        {isActive && (
+          <div className="flex gap-1">
+            {agents.length > 1 && (
+              <FilterSelect
+                value={agentId}
+                onChange={setAgentId}
+                label="Filter by agent"
+                options={[
+                  { value: ALL_VALUE, label: "All agents" },
+                  ...agents.map((agent) => ({ value: agent.id, label: agent.label }))
+                ]}
+              />
+            )}
+            {projects.length > 1 && (
+              <FilterSelect
+                value={project}
+                onChange={setProject}
+                label="Filter by project"
+                options={[
+                  { value: ALL_VALUE, label: "All projects" },
+                  ...projects.map((entry) => ({ value: entry.path, label: entry.label }))
+                ]}
+              />
+            )}
+            <FilterSelect
+              value={dateRange}
+              onChange={setDateRange}
+              label="Filter by date"
+              options={DATE_RANGES}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {isActive ? (
+          <div className="h-full min-h-0 overflow-y-auto overflow-x-hidden px-2 py-1 space-y-1">
+            {error && <div className="px-2 py-3 text-xs text-danger">{error}</div>}
+            {!error && isSearching && results.length === 0 && (
+              <div className="flex items-center justify-center gap-1.5 px-2 py-6 text-xs text-muted-foreground">
+                <Loader2 size={12} className="animate-spin" />
+                Searching…
+              </div>
+            )}
+            {!error && !isSearching && results.length === 0 && (
+              <div className="px-2 py-6 text-center text-xs text-muted-foreground">No matches</div>
+            )}
+            {results.map((result) => (
+              <Button
+                key={`${result.threadId}:${result.turnId ?? ""}:${result.kind}:${result.snippet}`}
+                type="button"
+                variant="ghost"
+                onClick={() => onOpenResult(result)}
+                className="w-full h-auto flex-col items-start gap-0.5 rounded-xl px-2.5 py-1.5 text-left font-normal text-muted-foreground hover:bg-muted/70 hover:text-foreground"
+              >
+                <span className="w-full truncate text-[13px] tracking-tight text-foreground">
+                  {result.title}
+                </span>
+                <span className="w-full whitespace-normal break-words text-[11px] leading-4">
+                  <span className="mr-1 text-muted-foreground/70">{KIND_LABELS[result.kind]}:</span>
+                  {result.snippet}
+                </span>
+              </Button>
+            ))}
+          </div>
+        ) : (
+          children
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Download, Loader2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { deleteTrace, listTraces, traceDownloadUrl, uploadTrace, type TraceSummary } from "@/lib/api";
+
+function formatStartedAt(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+/** Traces saved in the server's trace directory, with upload, download and delete. */
+export function TraceBrowser({
+  activeTraceId,
+  openTraceId,
+  onOpen
+}: {
+  activeTraceId: string | null;
+  openTraceId: string | null;
+  onOpen: (traceId: string | null) => void;
+}): React.JSX.Element {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTraces((await listTraces()).traces);
+      setError(null);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    }
+  }, []);
+
+  // Starting or stopping a recording changes the list.
+  useEffect(() => {
+    void refresh();
+  }, [refresh, activeTraceId]);
+
+  const handleUpload = async (file: File): Promise<void> => {
+    setIsUploading(true);
+    try {
+      const trace = await uploadTrace(file);
+      await refresh();
+      onOpen(trace.id);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (traceId: string): Promise<void> => {
+    try {
+      await deleteTrace(traceId);
+      if (openTraceId === traceId) {
+        onOpen(null);
+      }
+      await refresh();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : String(caught));
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 max-h-72 shrink-0">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border shrink-0">
+        <span className="text-xs font-medium">Saved Traces</span>
+        <span className="text-xs text-muted-foreground/60">{traces.length}</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ndjson,application/x-ndjson"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void handleUpload(file);
+            }
+          }}
+        />
+        <Button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          variant="ghost"
+          size="icon"
+          aria-label="Upload trace"
+          className="ml-auto h-6 w-6 text-muted-foreground hover:text-foreground"
+        >
+          {isUploading ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+        </Button>
+      </div>
+      {error && <div className="px-4 py-2 text-xs text-danger">{error}</div>}
+      <div className="flex-1 overflow-y-auto py-1">
+        {traces.length === 0 && (
+          <div className="px-4 py-2 text-xs text-muted-foreground">No traces recorded yet</div>
+        )}
+        {traces.map((trace) => {
+          const isActive = trace.id === activeTraceId;
+          return (
+            <div
+              key={trace.id}
+              className={`group flex items-center gap-1 pr-2 ${
+                openTraceId === trace.id ? "bg-muted" : "hover:bg-muted/50"
+              }`}
+            >
+              <Button
+                type="button"
+                onClick={() => onOpen(openTraceId === trace.id ? null : trace.id)}
+                variant="ghost"
+                className="h-auto min-w-0 flex-1 flex-col items-start gap-0 rounded-none px-4 py-1.5 text-left hover:bg-transparent"
+              >
+                <span className="w-full truncate text-xs text-foreground">
+                  {trace.label}
+                  {isActive && <span className="ml-1.5 text-[10px] text-success">recording</span>}
+                </span>
+                <span className="text-[10px] text-muted-foreground/60 font-mono">
+                  {formatStartedAt(trace.startedAt)} · {trace.eventCount} events
+                </span>
+              </Button>
+              <Button
+                asChild
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0 text-muted-foreground hover:text-foreground"
+              >
+                <a href={traceDownloadUrl(trace.id)} download aria-label={`Download ${trace.label}`}>
+                  <Download size={12} />
+                </a>
+              </Button>
+              <Button
+                type="button"
+                onClick={() => void handleDelete(trace.id)}
+                disabled={isActive}
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${trace.label}`}
+                className="h-6 w-6 shrink-0 text-muted-foreground hover:text-danger"
+              >
+                <Trash2 size={12} />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
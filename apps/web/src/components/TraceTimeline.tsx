@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from "react";
+import { Activity, Flag, Loader2, X } from "lucide-react";
+import { FilterSelect } from "@/components/FilterSelect";
+import { Button } from "@/components/ui/button";
+import {
+  getTrace,
+  getTraceThreadState,
+  type TraceEntry,
+  type TraceSummary,
+  type TraceThreadState
+} from "@/lib/api";
+
+const ALL_VALUE = "all";
+
+type HistoryTraceEntry = Extract<TraceEntry, { type: "history" }>;
+
+function entryMethod(entry: HistoryTraceEntry): string {
+  const method = entry.meta["method"];
+  if (typeof method === "string") {
+    return method;
+  }
+  const payload = entry.payload as Record<string, unknown> | null;
+  const fallback = payload?.["method"] ?? payload?.["type"];
+  return typeof fallback === "string" ? fallback : entry.source;
+}
+
+function entryThreadId(entry: HistoryTraceEntry): string | null {
+  const threadId = entry.meta["threadId"];
+  return typeof threadId === "string" ? threadId : null;
+}
+
+function formatOffset(at: string, startAt: number): string {
+  const offset = Date.parse(at) - startAt;
+  return Number.isNaN(offset) ? at : `+${(offset / 1000).toFixed(3)}s`;
+}
+
+function distinct(values: Array<string | null>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => value !== null))).sort();
+}
+
+/**
+ * Replaces the live history panel while a saved trace is open. Markers stay
+ * visible through every filter so they keep working as landmarks.
+ */
+export function TraceTimeline({
+  traceId,
+  onClose
+}: {
+  traceId: string;
+  onClose: () => void;
+}): React.JSX.Element {
+  const [trace, setTrace] = useState<TraceSummary | null>(null);
+  const [entries, setEntries] = useState<TraceEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [method, setMethod] = useState(ALL_VALUE);
+  const [threadId, setThreadId] = useState(ALL_VALUE);
+  const [direction, setDirection] = useState(ALL_VALUE);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [threadState, setThreadState] = useState<TraceThreadState | null>(null);
+  const [threadStateError, setThreadStateError] = useState<string | null>(null);
+  const [isLoadingState, setIsLoadingState] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTrace(null);
+    setEntries([]);
+    setLoadError(null);
+    setSelectedIndex(null);
+    setMethod(ALL_VALUE);
+    setThreadId(ALL_VALUE);
+    setDirection(ALL_VALUE);
+    void getTrace(traceId)
+      .then((detail) => {
+        if (!cancelled) {
+          setTrace(detail.trace);
+          setEntries(detail.entries);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [traceId]);
+
+  const historyEntries = useMemo(
+    () => entries.filter((entry): entry is HistoryTraceEntry => entry.type === "history"),
+    [entries]
+  );
+  const methods = useMemo(() => distinct(historyEntries.map(entryMethod)), [historyEntries]);
+  const threadIds = useMemo(() => distinct(historyEntries.map(entryThreadId)), [historyEntries]);
+  const directions = useMemo(
+    () => distinct(historyEntries.map((entry) => entry.direction)),
+    [historyEntries]
+  );
+  const startAt = useMemo(() => {
+    const first = entries[0];
+    return first ? Date.parse(first.at) : 0;
+  }, [entries]);
+
+  const visibleEntries = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          entry.type === "trace-marker" ||
+          ((method === ALL_VALUE || entryMethod(entry) === method) &&
+            (threadId === ALL_VALUE || entryThreadId(entry) === threadId) &&
+            (direction === ALL_VALUE || entry.direction === direction))
+      ),
+    [entries, method, threadId, direction]
+  );
+
+  const selectedEntry =
+    selectedIndex !== null && entries[selectedIndex]?.type === "history"
+      ? (entries[selectedIndex] as HistoryTraceEntry)
+      : null;
+  const stateThreadId = selectedEntry
+    ? entryThreadId(selectedEntry) ?? (threadId !== ALL_VALUE ? threadId : null)
+    : null;
+
+  useEffect(() => {
+    setThreadState(null);
+    setThreadStateError(null);
+    if (selectedIndex === null || !stateThreadId) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingState(true);
+    void getTraceThreadState({ traceId, entryIndex: selectedIndex, threadId: stateThreadId })
+      .then((state) => {
+        if (!cancelled) {
+          setThreadState(state);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setThreadStateError(error instanceof Error ? error.message : String(error));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingState(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [traceId, selectedIndex, stateThreadId]);
+
+  return (
+    <div className="flex flex-col min-h-0 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
+        <Activity size={13} className="text-muted-foreground" />
+        <span className="min-w-0 truncate text-sm font-medium">{trace?.label ?? "Trace"}</span>
+        <span className="text-xs text-muted-foreground/60">
+          {visibleEntries.length} of {entries.length} entries
+        </span>
+        <Button
+          type="button"
+          onClick={onClose}
+          variant="ghost"
+          size="icon"
+          aria-label="Close trace"
+          className="ml-auto h-6 w-6 text-muted-foreground hover:text-foreground"
+        >
+          <X size={13} />
+        </Button>
+      </div>
+
+      <div className="flex gap-1 px-3 py-2 border-b border-border shrink-0">
+        <FilterSelect
+          value={method}
+          onChange={setMethod}
+          label="Filter by method"
+          options={[{ value: ALL_VALUE, label: "All methods" }, ...methods.map((value) => ({ value, label: value }))]}
+        />
+        <FilterSelect
+          value={threadId}
+          onChange={setThreadId}
+          label="Filter by thread"
+          options={[{ value: ALL_VALUE, label: "All threads" }, ...threadIds.map((value) => ({ value, label: value }))]}
+        />
+        <FilterSelect
+          value={direction}
+          onChange={setDirection}
+          label="Filter by direction"
+          options={[
+            { value: ALL_VALUE, label: "All directions" },
+            ...directions.map((value) => ({ value, label: value }))
+          ]}
+        />
+      </div>
+
+      {loadError ? (
+        <div className="px-4 py-4 text-xs text-danger">{loadError}</div>
+      ) : (
+        <div className="flex-1 grid grid-cols-[220px_minmax(0,1fr)] min-h-0 divide-x divide-border overflow-hidden">
+          <div className="overflow-y-auto py-1">
+            {visibleEntries.map((entry) =>
+              entry.type === "trace-marker" ? (
+                <div
+                  key={`marker-${String(entry.index)}`}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-[11px] text-warning border-y border-border/50 bg-warning/5"
+                >
+                  <Flag size={11} className="shrink-0" />
+                  <span className="min-w-0 truncate">{entry.note || "marker"}</span>
+                  <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">
+                    {formatOffset(entry.at, startAt)}
+                  </span>
+                </div>
+              ) : (
+                <Button
+                  key={entry.index}
+                  type="button"
+                  onClick={() => setSelectedIndex(entry.index)}
+                  variant="ghost"
+                  className={`w-full h-auto flex-col items-start justify-start gap-0 rounded-none px-3 py-2 text-left transition-colors ${
+                    selectedIndex === entry.index
+                      ? "bg-muted text-foreground"
+                      : "text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                  }`}
+                >
+                  <div className="flex w-full items-center gap-1.5 mb-0.5">
+                    <span
+                      className={`text-[9px] px-1.5 py-0.5 rounded font-mono uppercase leading-4 ${
+                        entry.direction === "in"
+                          ? "bg-success/15 text-success"
+                          : entry.direction.startsWith("out")
+                          ? "bg-blue-500/15 text-blue-400"
+                          : "bg-muted text-muted-foreground"
+                      }`}
+                    >
+                      {entry.source} {entry.direction}
+                    </span>
+                    <span className="ml-auto font-mono text-[10px] text-muted-foreground/60">
+                      {formatOffset(entry.at, startAt)}
+                    </span>
+                  </div>
+                  <div className="w-full text-[11px] font-mono truncate">{entryMethod(entry)}</div>
+                </Button>
+              )
+            )}
+          </div>
+
+          <div className="overflow-y-auto p-3 space-y-3">
+            {!selectedEntry ? (
+              <div className="text-xs text-muted-foreground py-4">
+                Select an entry to see the thread state at that point
+              </div>
+            ) : (
+              <>
+                <div className="space-y-1.5">
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+                    Thread state
+                    {stateThreadId && <span className="ml-1.5 normal-case font-mono">{stateThreadId}</span>}
+                  </div>
+                  {!stateThreadId ? (
+                    <div className="text-xs text-muted-foreground">
+                      This entry has no thread; filter by thread to see its state here.
+                    </div>
+                  ) : isLoadingState ? (
+                    <Loader2 size={13} className="animate-spin text-muted-foreground" />
+                  ) : threadStateError ? (
+                    <div className="text-xs text-danger">{threadStateError}</div>
+                  ) : threadState ? (
+                    <>
+                      {threadState.error && <div className="text-xs text-danger">{threadState.error}</div>}
+                      {threadState.conversationState ? (
+                        <>
+                          <div className="text-xs text-muted-foreground">
+                            {threadState.conversationState.title ?? "Untitled"} ·{" "}
+                            {threadState.conversationState.turns.length} turns
+                            {threadState.ownerClientId && ` · owner ${threadState.ownerClientId}`}
+                          </div>
+                          <pre className="max-h-80 overflow-auto font-mono text-[11px] text-muted-foreground leading-5 whitespace-pre-wrap break-words rounded-lg bg-muted/40 p-2">
+                            {JSON.stringify(threadState.conversationState, null, 2)}
+                          </pre>
+                        </>
+                      ) : (
+                        <div className="text-xs text-muted-foreground">
+                          No snapshot for this thread has been recorded yet.
+                        </div>
+                      )}
+                    </>
+                  ) : null}
+                </div>
+                <div className="space-y-1.5">
+                  <div className="text-[10px] text-muted-foreground uppercase tracking-wider font-medium">
+                    Frame
+                  </div>
+                  <pre className="font-mono text-[11px] text-muted-foreground leading-5 whitespace-pre-wrap break-words">
+                    {JSON.stringify(selectedEntry.payload, null, 2)}
+                  </pre>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import type { RateLimitSnapshot, ThreadUsage } from "@/lib/api";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+type RateLimitWindow = NonNullable<RateLimitSnapshot["primary"]>;
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+function formatWindow(minutes: number | null | undefined): string {
+  if (!minutes) return "Limit";
+  if (minutes % 10080 === 0) return minutes === 10080 ? "Weekly" : `${minutes / 10080}w`;
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function formatReset(resetsAt: number | null | undefined): string | null {
+  if (!resetsAt) return null;
+  return new Date(resetsAt * 1000).toLocaleString([], {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+}
+
+function meterColor(percent: number): string {
+  if (percent >= 90) return "bg-danger";
+  if (percent >= 75) return "bg-amber-500";
+  return "bg-foreground/50";
+}
+
+function Meter({ percent }: { percent: number }): React.JSX.Element {
+  const clamped = Math.max(0, Math.min(100, percent));
+  return (
+    <span className="h-1 w-10 shrink-0 overflow-hidden rounded-full bg-muted">
+      <span
+        className={`block h-full rounded-full ${meterColor(clamped)}`}
+        style={{ width: `${clamped}%` }}
+      />
+    </span>
+  );
+}
+
+/** Context window fill and token totals for the selected thread. */
+export function ThreadUsageMeter({ usage }: { usage: ThreadUsage | null }): React.JSX.Element | null {
+  if (!usage) {
+    return null;
+  }
+
+  const contextPercent = usage.modelContextWindow
+    ? Math.round((usage.last.totalTokens / usage.modelContextWindow) * 100)
+    : null;
+  const lastTurn = usage.turns[usage.turns.length - 1];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-[11px] text-muted-foreground cursor-default"
+          aria-label="Token usage"
+        >
+          {contextPercent !== null && <Meter percent={contextPercent} />}
+          <span className="font-mono">
+            {contextPercent !== null
+              ? `${contextPercent}% context`
+              : `${formatTokens(usage.total.totalTokens)} tokens`}
+          </span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" align="end" className="space-y-1 text-xs">
+        {usage.modelContextWindow !== null && (
+          <div>
+            Context: {formatTokens(usage.last.totalTokens)} / {formatTokens(usage.modelContextWindow)}
+          </div>
+        )}
+        {lastTurn && <div>Last turn: {formatTokens(lastTurn.usage.totalTokens)} tokens</div>}
+        <div>
+          Thread: {formatTokens(usage.total.inputTokens)} in ({formatTokens(usage.total.cachedInputTokens)}{" "}
+          cached), {formatTokens(usage.total.outputTokens)} out
+        </div>
+        {usage.total.reasoningOutputTokens > 0 && (
+          <div>Reasoning: {formatTokens(usage.total.reasoningOutputTokens)}</div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+function RateLimitRow({ window }: { window: RateLimitWindow }): React.JSX.Element {
+  const label = formatWindow(window.windowDurationMins);
+  return (
+    <div className="flex items-center gap-1.5" aria-label={`${label} rate limit ${window.usedPercent}% used`}>
+      <span className="w-10 shrink-0">{label}</span>
+      <Meter percent={window.usedPercent} />
+      <span className="font-mono">{window.usedPercent}%</span>
+    </div>
+  );
+}
+
+/** Account rate-limit windows, so throttling does not come as a surprise. */
+export function RateLimitIndicator({
+  snapshot
+}: {
+  snapshot: RateLimitSnapshot | null;
+}): React.JSX.Element | null {
+  const windows = [snapshot?.primary, snapshot?.secondary].filter(
+    (window): window is RateLimitWindow => Boolean(window)
+  );
+  if (windows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="space-y-1 rounded-lg px-2 py-1.5 text-[11px] text-muted-foreground cursor-default">
+          {windows.map((window, index) => (
+            <RateLimitRow key={index} window={window} />
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="top" align="start" className="space-y-1 text-xs">
+        {windows.map((window, index) => {
+          const reset = formatReset(window.resetsAt);
+          return (
+            <div key={index}>
+              {formatWindow(window.windowDurationMins)}: {window.usedPercent}% used
+              {reset ? `, resets ${reset}` : ""}
+            </div>
+          );
+        })}
+        {snapshot?.planType && <div>Plan: {snapshot.planType}</div>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getNotificationSettings,
+  setThreadMuted,
+  subscribePush,
+  unsubscribePush,
+  type NotificationEvent
+} from "@/lib/api";
+import { SERVICE_WORKER_URL } from "@/lib/offline";
+
+export type NotificationMode = "unsupported" | "off" | "denied" | "local" | "push";
+
+function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+}
+
+function pushSupported(): boolean {
+  return notificationsSupported() && "PushManager" in window;
+}
+
+function decodeApplicationServerKey(key: string): Uint8Array<ArrayBuffer> {
+  const base64 = key.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(key.length / 4) * 4, "=");
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let index = 0; index < raw.length; index += 1) {
+    bytes[index] = raw.charCodeAt(index);
+  }
+  return bytes;
+}
+
+async function registerWorker(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+/**
+ * Browser side of server notifications. With a push subscription the service
+ * worker shows them even when no tab is open; otherwise open tabs show the
+ * notification events they receive over `/events`.
+ */
+export function useNotifications(active: boolean) {
+  const [mode, setMode] = useState<NotificationMode>(() =>
+    !notificationsSupported()
+      ? "unsupported"
+      : Notification.permission === "denied"
+        ? "denied"
+        : Notification.permission === "granted"
+          ? "local"
+          : "off"
+  );
+  const [mutedThreadIds, setMutedThreadIds] = useState<ReadonlySet<string>>(() => new Set());
+  const publicKeyRef = useRef<string | null>(null);
+  const endpointRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    let cancelled = false;
+    void getNotificationSettings()
+      .then((settings) => {
+        if (cancelled) return;
+        publicKeyRef.current = settings.pushPublicKey;
+        setMutedThreadIds(new Set(settings.mutedThreadIds));
+      })
+      .catch(() => undefined);
+
+    if (pushSupported() && Notification.permission === "granted") {
+      void registerWorker()
+        .then((registration) => registration.pushManager.getSubscription())
+        .then((subscription) => {
+          if (cancelled || !subscription) return;
+          endpointRef.current = subscription.endpoint;
+          setMode("push");
+        })
+        .catch(() => undefined);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active]);
+
+  const enable = useCallback(async () => {
+    if (!notificationsSupported()) {
+      return;
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") {
+      setMode(permission === "denied" ? "denied" : "off");
+      return;
+    }
+
+    const registration = await registerWorker();
+    const publicKey = publicKeyRef.current;
+    if (!pushSupported() || !publicKey) {
+      setMode("local");
+      return;
+    }
+
+    try {
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeApplicationServerKey(publicKey)
+      });
+      const json = subscription.toJSON();
+      if (!json.endpoint || !json.keys?.["p256dh"] || !json.keys["auth"]) {
+        throw new Error("Push subscription is missing its keys");
+      }
+      await subscribePush({
+        endpoint: json.endpoint,
+        keys: { p256dh: json.keys["p256dh"], auth: json.keys["auth"] }
+      });
+      endpointRef.current = json.endpoint;
+      setMode("push");
+    } catch {
+      // No reachable push service (e.g. plain HTTP); open tabs still notify.
+      setMode("local");
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    const endpoint = endpointRef.current;
+    endpointRef.current = null;
+    setMode(notificationsSupported() && Notification.permission === "denied" ? "denied" : "off");
+    if (!endpoint) {
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    await subscription?.unsubscribe();
+    await unsubscribePush(endpoint);
+  }, []);
+
+  const setMuted = useCallback(async (threadId: string, muted: boolean) => {
+    const update = (shouldMute: boolean) => {
+      setMutedThreadIds((prev) => {
+        const next = new Set(prev);
+        if (shouldMute) {
+          next.add(threadId);
+        } else {
+          next.delete(threadId);
+        }
+        return next;
+      });
+    };
+
+    update(muted);
+    try {
+      await setThreadMuted({ threadId, muted });
+    } catch (error) {
+      update(!muted);
+      throw error;
+    }
+  }, []);
+
+  /** Shows a notification received over `/events` when push is not doing it already. */
+  const showEvent = useCallback(
+    (event: NotificationEvent, isVisibleThread: boolean) => {
+      if (mode !== "local" || (isVisibleThread && document.visibilityState === "visible")) {
+        return;
+      }
+
+      void navigator.serviceWorker
+        .getRegistration(SERVICE_WORKER_URL)
+        .then((registration) => {
+          const options = {
+            body: event.body,
+            tag: `farfield:${event.threadId}`,
+            data: { url: event.url }
+          };
+          if (registration) {
+            return registration.showNotification(event.title, options);
+          }
+          new Notification(event.title, options);
+          return undefined;
+        })
+        .catch(() => undefined);
+    },
+    [mode]
+  );
+
+  return { mode, mutedThreadIds, enable, disable, setMuted, showEvent };
+}
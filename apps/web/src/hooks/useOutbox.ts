@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { UnauthorizedError } from "@/lib/api";
+import { isNetworkError } from "@/lib/offline";
+
+const STORAGE_KEY = "farfield.outbox";
+
+const OutboxMessageSchema = z.object({
+  id: z.string(),
+  threadId: z.string(),
+  text: z.string(),
+  attachments: z.array(z.object({ uploadId: z.string() })),
+  model: z.string().optional(),
+  createdAt: z.string(),
+  status: z.enum(["queued", "sending", "failed"]),
+  error: z.string().optional()
+});
+
+export type OutboxMessage = z.infer<typeof OutboxMessageSchema>;
+export type OutboxDraft = Pick<OutboxMessage, "threadId" | "text" | "attachments" | "model">;
+
+function loadMessages(): OutboxMessage[] {
+  try {
+    const parsed = z.array(OutboxMessageSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]"));
+    if (!parsed.success) {
+      return [];
+    }
+    // A send cut short by a reload never got its answer; try it again.
+    return parsed.data.map((message) =>
+      message.status === "sending" ? { ...message, status: "queued" as const } : message
+    );
+  } catch {
+    return [];
+  }
+}
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine;
+}
+
+/**
+ * Messages composed while the server is unreachable. They survive reloads in
+ * localStorage and go out one at a time, in order, once the browser is back
+ * online.
+ */
+export function useOutbox(options: {
+  active: boolean;
+  send: (message: OutboxMessage) => Promise<void>;
+  onSent: () => void;
+}) {
+  const { active, send, onSent } = options;
+  const [messages, setMessages] = useState<OutboxMessage[]>(loadMessages);
+  const [online, setOnline] = useState(isOnline);
+  const messagesRef = useRef(messages);
+  const flushingRef = useRef(false);
+  const sendRef = useRef(send);
+  const onSentRef = useRef(onSent);
+
+  sendRef.current = send;
+  onSentRef.current = onSent;
+
+  const update = useCallback((next: (prev: OutboxMessage[]) => OutboxMessage[]) => {
+    messagesRef.current = next(messagesRef.current);
+    setMessages(messagesRef.current);
+  }, []);
+
+  const patch = useCallback(
+    (id: string, changes: Partial<OutboxMessage>) => {
+      update((prev) =>
+        prev.map((message) => {
+          if (message.id !== id) {
+            return message;
+          }
+          const { error: _error, ...rest } = message;
+          return { ...rest, ...changes };
+        })
+      );
+    },
+    [update]
+  );
+
+  useEffect(() => {
+    if (messages.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    }
+  }, [messages]);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !isOnline()) {
+      return;
+    }
+
+    flushingRef.current = true;
+    let sent = 0;
+    try {
+      for (;;) {
+        const next = messagesRef.current.find((message) => message.status === "queued");
+        if (!next) {
+          break;
+        }
+
+        patch(next.id, { status: "sending" });
+        try {
+          await sendRef.current(next);
+          update((prev) => prev.filter((message) => message.id !== next.id));
+          sent += 1;
+        } catch (error) {
+          if (isNetworkError(error) || error instanceof UnauthorizedError) {
+            // Still unreachable (or signed out); keep the rest for the next attempt.
+            patch(next.id, { status: "queued" });
+            break;
+          }
+          patch(next.id, {
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+
+    if (sent > 0) {
+      onSentRef.current();
+    }
+  }, [patch, update]);
+
+  const enqueue = useCallback(
+    (draft: OutboxDraft) => {
+      update((prev) => [
+        ...prev,
+        {
+          ...draft,
+          // crypto.randomUUID is missing on plain-HTTP origins.
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+          createdAt: new Date().toISOString(),
+          status: "queued"
+        }
+      ]);
+    },
+    [update]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      patch(id, { status: "queued" });
+      void flush();
+    },
+    [flush, patch]
+  );
+
+  const discard = useCallback(
+    (id: string) => {
+      update((prev) => prev.filter((message) => message.id !== id || message.status === "sending"));
+    },
+    [update]
+  );
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      if (active) {
+        void flush();
+      }
+    };
+    const handleOffline = () => {
+      setOnline(false);
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    if (active) {
+      void flush();
+    }
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [active, flush]);
+
+  return { messages, online, enqueue, flush, retry, discard };
+}
@@ -1,9 +1,15 @@
 import {
   AppServerCollaborationModeListResponseSchema,
+  AppServerCommandExecutionApprovalDecisionSchema,
+  AppServerCommandExecutionRequestApprovalParamsSchema,
+  AppServerFileChangeApprovalDecisionSchema,
+  AppServerFileChangeRequestApprovalParamsSchema,
+  AppServerGetAccountRateLimitsResponseSchema,
   AppServerListModelsResponseSchema,
   AppServerListThreadsResponseSchema,
   AppServerReadThreadResponseSchema,
   AppServerStartThreadResponseSchema,
+  AppServerThreadTokenUsageUpdatedNotificationSchema,
   type CollaborationMode,
   ThreadConversationStateSchema,
   UserInputRequestSchema,
@@ -61,40 +67,279 @@ const StreamEventsResponseSchema = z
   })
   .passthrough();
 
+// Built-in ids plus whatever ACP agents the server has configured.
+const AgentIdSchema = z.string().min(1);
+export type AgentId = z.infer<typeof AgentIdSchema>;
+
+const ApprovalRequestIdSchema = z.union([z.string(), z.number().int()]);
+
+const ApprovalRequestSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("commandExecution"),
+    requestId: ApprovalRequestIdSchema,
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: AppServerCommandExecutionRequestApprovalParamsSchema
+  }),
+  z.object({
+    kind: z.literal("fileChange"),
+    requestId: ApprovalRequestIdSchema,
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: AppServerFileChangeRequestApprovalParamsSchema
+  }),
+  z.object({
+    kind: z.literal("opencodePermission"),
+    requestId: ApprovalRequestIdSchema,
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: z
+      .object({
+        id: z.string(),
+        type: z.string(),
+        pattern: z.union([z.string(), z.array(z.string())]).optional(),
+        title: z.string()
+      })
+      .passthrough()
+  }),
+  z.object({
+    kind: z.literal("acpPermission"),
+    requestId: ApprovalRequestIdSchema,
+    threadId: z.string(),
+    createdAt: z.string(),
+    params: z
+      .object({
+        toolCallId: z.string(),
+        title: z.string(),
+        toolKind: z.string().nullable(),
+        options: z.array(
+          z.object({
+            optionId: z.string(),
+            name: z.string(),
+            kind: z.enum(["allow_once", "allow_always", "reject_once", "reject_always"])
+          })
+        )
+      })
+      .passthrough()
+  })
+]);
+export type ApprovalRequest = z.infer<typeof ApprovalRequestSchema>;
+
+const ApprovalDecisionSchema = z.union([
+  AppServerFileChangeApprovalDecisionSchema,
+  AppServerCommandExecutionApprovalDecisionSchema,
+  z.enum(["once", "always", "reject"])
+]);
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+const PendingApprovalsResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    threadId: z.string(),
+    approvals: z.array(ApprovalRequestSchema)
+  })
+  .passthrough();
+
 const CreateThreadResponseSchema = z
   .object({
     ok: z.literal(true),
     threadId: z.string(),
-    agentId: z.enum(["codex", "opencode"])
+    agentId: AgentIdSchema
   })
   .merge(AppServerStartThreadResponseSchema)
   .passthrough();
 
+const UploadResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    upload: z.object({
+      id: z.string(),
+      name: z.string(),
+      mimeType: z.string(),
+      size: z.number().int().nonnegative()
+    })
+  })
+  .passthrough();
+
+export type UploadedFile = z.infer<typeof UploadResponseSchema>["upload"];
+
+const TraceSummarySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  startedAt: z.string(),
+  stoppedAt: z.string().nullable(),
+  eventCount: z.number().int().nonnegative(),
+  path: z.string()
+});
+export type TraceSummary = z.infer<typeof TraceSummarySchema>;
+
 const TraceStatusSchema = z
   .object({
     ok: z.literal(true),
-    active: z
-      .object({
-        id: z.string(),
-        label: z.string(),
-        startedAt: z.string(),
-        stoppedAt: z.string().nullable(),
-        eventCount: z.number().int().nonnegative(),
-        path: z.string()
-      })
-      .nullable(),
-    recent: z.array(
-      z.object({
-        id: z.string(),
-        label: z.string(),
-        startedAt: z.string(),
-        stoppedAt: z.string().nullable(),
-        eventCount: z.number().int().nonnegative(),
-        path: z.string()
-      })
+    active: TraceSummarySchema.nullable(),
+    recent: z.array(TraceSummarySchema)
+  })
+  .passthrough();
+
+const TraceListSchema = z
+  .object({
+    ok: z.literal(true),
+    active: TraceSummarySchema.nullable(),
+    traces: z.array(TraceSummarySchema)
+  })
+  .passthrough();
+
+const TraceEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("history"),
+    index: z.number().int().nonnegative(),
+    id: z.string(),
+    at: z.string(),
+    source: z.string(),
+    direction: z.string(),
+    payload: z.unknown(),
+    meta: z.record(z.unknown())
+  }),
+  z.object({
+    type: z.literal("trace-marker"),
+    index: z.number().int().nonnegative(),
+    at: z.string(),
+    note: z.string()
+  })
+]);
+export type TraceEntry = z.infer<typeof TraceEntrySchema>;
+
+const TraceDetailSchema = z
+  .object({
+    ok: z.literal(true),
+    trace: TraceSummarySchema,
+    entries: z.array(TraceEntrySchema)
+  })
+  .passthrough();
+
+const TraceUploadResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    trace: TraceSummarySchema
+  })
+  .passthrough();
+
+const TraceThreadStateSchema: z.ZodObject<
+  {
+    ok: z.ZodLiteral<true>;
+    threadId: z.ZodString;
+    ownerClientId: z.ZodNullable<z.ZodString>;
+    conversationState: z.ZodUnion<[typeof ThreadConversationStateSchema, z.ZodNull]>;
+    error: z.ZodNullable<z.ZodString>;
+  },
+  "passthrough"
+> = z
+  .object({
+    ok: z.literal(true),
+    threadId: z.string(),
+    ownerClientId: z.string().nullable(),
+    conversationState: z.union([ThreadConversationStateSchema, z.null()]),
+    error: z.string().nullable()
+  })
+  .passthrough();
+export type TraceThreadState = z.infer<typeof TraceThreadStateSchema>;
+
+const ReplayFrameSchema = z.object({
+  type: z.enum(["request", "broadcast"]),
+  method: z.string(),
+  params: z.unknown(),
+  targetClientId: z.string().optional(),
+  version: z.number().int().optional()
+});
+export type ReplayFrame = z.infer<typeof ReplayFrameSchema>;
+
+const ReplayResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    replayed: z.literal(true),
+    queued: z.boolean().optional(),
+    response: z.unknown().optional()
+  })
+  .passthrough();
+
+const ReplayBatchStartSchema = z
+  .object({
+    ok: z.literal(true),
+    id: z.string(),
+    total: z.number().int()
+  })
+  .passthrough();
+
+const ReplayBatchProgressSchema = z
+  .object({
+    id: z.string(),
+    total: z.number().int(),
+    cancelled: z.boolean(),
+    finished: z.boolean(),
+    steps: z.array(
+      z
+        .object({
+          entryId: z.string(),
+          method: z.string(),
+          ok: z.boolean(),
+          response: z.unknown().optional(),
+          error: z.string().optional()
+        })
+        .passthrough()
     )
   })
   .passthrough();
+export type ReplayBatchProgress = z.infer<typeof ReplayBatchProgressSchema>;
+
+const ObservedMethodSchema = z
+  .object({
+    method: z.string(),
+    type: z.enum(["request", "broadcast"]),
+    count: z.number().int(),
+    lastEntryId: z.string()
+  })
+  .passthrough();
+export type ObservedMethod = z.infer<typeof ObservedMethodSchema>;
+
+const ReplayMethodsSchema = z
+  .object({
+    ok: z.literal(true),
+    methods: z.array(ObservedMethodSchema)
+  })
+  .passthrough();
+
+const ProtocolDriftEntrySchema = z
+  .object({
+    source: z.enum(["ipc", "app-server"]),
+    method: z.string(),
+    path: z.string(),
+    code: z.string(),
+    message: z.string(),
+    count: z.number().int(),
+    firstSeenAt: z.string(),
+    lastSeenAt: z.string(),
+    samples: z.array(
+      z
+        .object({
+          at: z.string(),
+          path: z.array(z.union([z.string(), z.number()])),
+          value: z.unknown(),
+          truncated: z.boolean()
+        })
+        .passthrough()
+    )
+  })
+  .passthrough();
+export type ProtocolDriftEntry = z.infer<typeof ProtocolDriftEntrySchema>;
+
+const ProtocolDriftSchema = z
+  .object({
+    ok: z.literal(true),
+    totalFailures: z.number().int(),
+    entries: z.array(ProtocolDriftEntrySchema)
+  })
+  .passthrough();
+export type ProtocolDriftReport = z.infer<typeof ProtocolDriftSchema>;
 
 const HistoryListSchema = z
   .object({
@@ -108,7 +353,8 @@ const HistoryListSchema = z
         payload: z.unknown(),
         meta: z.record(z.unknown())
       })
-    )
+    ),
+    nextCursor: z.string().nullable()
   })
   .passthrough();
 
@@ -120,11 +366,36 @@ const HistoryDetailSchema = z
   })
   .passthrough();
 
+export class UnauthorizedError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+const unauthorizedListeners = new Set<() => void>();
+
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
 async function request(path: string, init?: RequestInit): Promise<unknown> {
-  const response = await fetch(path, init);
+  const response = await fetch(path, { ...init, credentials: "include" });
   const data = (await response.json()) as unknown;
   const envelope = ApiEnvelopeSchema.parse(data);
 
+  if (response.status === 401) {
+    for (const listener of unauthorizedListeners) {
+      listener();
+    }
+    throw new UnauthorizedError(
+      typeof envelope.error === "string" ? envelope.error : "Authentication required"
+    );
+  }
+
   if (!response.ok || !envelope.ok) {
     throw new Error(typeof envelope.error === "string" ? envelope.error : "Request failed");
   }
@@ -141,24 +412,55 @@ function stripOk(value: unknown): unknown {
   return rest;
 }
 
+export async function login(token: string): Promise<void> {
+  await request("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token })
+  });
+}
+
+export async function logout(): Promise<void> {
+  await request("/api/auth/logout", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({})
+  });
+}
+
 export async function getHealth(): Promise<z.infer<typeof HealthResponseSchema>> {
   return HealthResponseSchema.parse(await request("/api/health"));
 }
 
-const AgentIdSchema = z.enum(["codex", "opencode"]);
-export type AgentId = z.infer<typeof AgentIdSchema>;
-
 const AgentCapabilitiesSchema = z
   .object({
     canListModels: z.boolean(),
     canListCollaborationModes: z.boolean(),
     canSetCollaborationMode: z.boolean(),
     canSubmitUserInput: z.boolean(),
+    canSteerTurns: z.boolean(),
     canReadLiveState: z.boolean(),
-    canReadStreamEvents: z.boolean()
+    canReadStreamEvents: z.boolean(),
+    canSubmitApprovals: z.boolean(),
+    canForkThreads: z.boolean(),
+    canRollbackThreads: z.boolean(),
+    canCompactThreads: z.boolean(),
+    canArchiveThreads: z.boolean(),
+    canUnarchiveThreads: z.boolean(),
+    canRenameThreads: z.boolean(),
+    canReadUsage: z.boolean()
   })
   .strict();
 
+const RemoteHostSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  url: z.string(),
+  connected: z.boolean(),
+  lastError: z.string().nullable()
+});
+export type RemoteHost = z.infer<typeof RemoteHostSchema>;
+
 const AgentsResponseSchema = z
   .object({
     ok: z.literal(true),
@@ -169,7 +471,8 @@ const AgentsResponseSchema = z
         enabled: z.boolean(),
         connected: z.boolean(),
         capabilities: AgentCapabilitiesSchema,
-        projectDirectories: z.array(z.string())
+        projectDirectories: z.array(z.string()),
+        hosts: z.array(RemoteHostSchema).optional()
       })
     ),
     defaultAgentId: AgentIdSchema
@@ -183,8 +486,12 @@ export async function listAgents(): Promise<z.infer<typeof AgentsResponseSchema>
 const ThreadListItemWithAgentSchema = AppServerListThreadsResponseSchema.shape.data.element.and(
   z
     .object({
-      agentId: z.enum(["codex", "opencode"]),
-      source: z.string().optional()
+      agentId: AgentIdSchema,
+      source: z.string().optional(),
+      // Set on threads proxied from another Farfield server.
+      hostId: z.string().optional(),
+      hostLabel: z.string().optional(),
+      hostAgentId: z.string().optional()
     })
     .passthrough()
 );
@@ -213,8 +520,92 @@ export async function listThreads(options: {
   return ThreadListResponseSchema.parse(stripOk(data));
 }
 
+const TokenUsageBreakdownSchema =
+  AppServerThreadTokenUsageUpdatedNotificationSchema.shape.tokenUsage.shape.total;
+
+const ThreadUsageSchema = z.object({
+  threadId: z.string(),
+  total: TokenUsageBreakdownSchema,
+  last: TokenUsageBreakdownSchema,
+  modelContextWindow: z.number().int().nullable(),
+  turns: z.array(
+    z.object({
+      turnId: z.string(),
+      usage: TokenUsageBreakdownSchema
+    })
+  ),
+  updatedAt: z.string()
+});
+export type ThreadUsage = z.infer<typeof ThreadUsageSchema>;
+
+const RateLimitSnapshotSchema = AppServerGetAccountRateLimitsResponseSchema.shape.rateLimits;
+export type RateLimitSnapshot = z.infer<typeof RateLimitSnapshotSchema>;
+
+const UsageResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    threads: z.array(
+      ThreadUsageSchema.extend({
+        agentId: AgentIdSchema
+      })
+    ),
+    rateLimits: z.array(
+      z.object({
+        agentId: AgentIdSchema,
+        snapshot: RateLimitSnapshotSchema.nullable(),
+        updatedAt: z.string().nullable()
+      })
+    )
+  })
+  .strict();
+
+export async function getUsage(): Promise<z.infer<typeof UsageResponseSchema>> {
+  return UsageResponseSchema.parse(await request("/api/usage"));
+}
+
+const SearchResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    query: z.string(),
+    results: z.array(
+      z.object({
+        threadId: z.string(),
+        agentId: AgentIdSchema,
+        title: z.string(),
+        cwd: z.string().nullable(),
+        updatedAt: z.number(),
+        turnId: z.string().nullable(),
+        kind: z.enum(["title", "userMessage", "agentMessage", "command", "fileChange"]),
+        snippet: z.string(),
+        score: z.number()
+      })
+    )
+  })
+  .strict();
+export type SearchResult = z.infer<typeof SearchResponseSchema>["results"][number];
+
+export async function searchThreads(input: {
+  q: string;
+  agentId?: AgentId;
+  project?: string;
+  since?: string;
+}): Promise<z.infer<typeof SearchResponseSchema>> {
+  const params = new URLSearchParams({ q: input.q });
+  if (input.agentId) {
+    params.set("agentId", input.agentId);
+  }
+  if (input.project) {
+    params.set("project", input.project);
+  }
+  if (input.since) {
+    params.set("since", input.since);
+  }
+  return SearchResponseSchema.parse(await request(`/api/search?${params.toString()}`));
+}
+
 const ReadThreadResponseWithAgentSchema = AppServerReadThreadResponseSchema.extend({
-  agentId: z.enum(["codex", "opencode"])
+  agentId: AgentIdSchema,
+  usage: ThreadUsageSchema.nullable().optional()
 });
 
 export async function readThread(
@@ -237,6 +628,7 @@ export async function createThread(input?: {
   sandbox?: string;
   approvalPolicy?: string;
   ephemeral?: boolean;
+  hostId?: string;
 }): Promise<z.infer<typeof CreateThreadResponseSchema>> {
   const data = await request("/api/threads", {
     method: "POST",
@@ -255,11 +647,34 @@ export async function listCollaborationModes(): Promise<
   return AppServerCollaborationModeListResponseSchema.parse(stripOk(data));
 }
 
-export async function listModels(): Promise<z.infer<typeof AppServerListModelsResponseSchema>> {
-  const data = await request("/api/models?limit=200");
+export async function listModels(
+  agentId?: AgentId
+): Promise<z.infer<typeof AppServerListModelsResponseSchema>> {
+  const query = new URLSearchParams({ limit: "200" });
+  if (agentId) {
+    query.set("agentId", agentId);
+  }
+  const data = await request(`/api/models?${query.toString()}`);
   return AppServerListModelsResponseSchema.parse(stripOk(data));
 }
 
+export function parseLiveStateView(
+  threadId: string,
+  state: unknown
+): z.infer<typeof LiveStateResponseSchema> {
+  return LiveStateResponseSchema.parse({
+    ...z.object({}).passthrough().parse(state),
+    ok: true,
+    threadId
+  });
+}
+
+export function parseThreadView(
+  state: unknown
+): z.infer<typeof ReadThreadResponseWithAgentSchema>["thread"] {
+  return ReadThreadResponseWithAgentSchema.shape.thread.parse(state);
+}
+
 export async function getLiveState(threadId: string): Promise<z.infer<typeof LiveStateResponseSchema>> {
   const data = await request(`/api/threads/${encodeURIComponent(threadId)}/live-state`);
   return LiveStateResponseSchema.parse(data);
@@ -274,7 +689,10 @@ export async function sendMessage(input: {
   threadId: string;
   ownerClientId?: string;
   text: string;
+  attachments?: Array<{ uploadId: string }>;
   cwd?: string;
+  isSteering?: boolean;
+  model?: string;
 }): Promise<void> {
   const { threadId, ...body } = input;
 
@@ -287,6 +705,17 @@ export async function sendMessage(input: {
   });
 }
 
+export async function uploadFile(file: File): Promise<UploadedFile> {
+  const data = await request(`/api/uploads?name=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type || "application/octet-stream"
+    },
+    body: file
+  });
+  return UploadResponseSchema.parse(data).upload;
+}
+
 export async function setCollaborationMode(input: {
   threadId: string;
   ownerClientId?: string;
@@ -322,6 +751,31 @@ export async function submitUserInput(input: {
   });
 }
 
+export async function getPendingApprovals(
+  threadId: string
+): Promise<z.infer<typeof PendingApprovalsResponseSchema>> {
+  const data = await request(`/api/threads/${encodeURIComponent(threadId)}/approvals`);
+  return PendingApprovalsResponseSchema.parse(data);
+}
+
+export async function submitApproval(input: {
+  threadId: string;
+  requestId: string | number;
+  decision: ApprovalDecision;
+}): Promise<void> {
+  ApprovalDecisionSchema.parse(input.decision);
+
+  const { threadId, ...body } = input;
+
+  await request(`/api/threads/${encodeURIComponent(threadId)}/approvals`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+}
+
 export async function interruptThread(input: {
   threadId: string;
   ownerClientId?: string;
@@ -337,6 +791,158 @@ export async function interruptThread(input: {
   });
 }
 
+export async function forkThread(input: {
+  threadId: string;
+  turnId?: string;
+}): Promise<z.infer<typeof CreateThreadResponseSchema>> {
+  const { threadId, ...body } = input;
+
+  const data = await request(`/api/threads/${encodeURIComponent(threadId)}/fork`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+  return CreateThreadResponseSchema.parse(data);
+}
+
+export async function rollbackThread(input: {
+  threadId: string;
+  turnId: string;
+}): Promise<void> {
+  const { threadId, ...body } = input;
+
+  await request(`/api/threads/${encodeURIComponent(threadId)}/rollback`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+export async function compactThread(threadId: string): Promise<void> {
+  await request(`/api/threads/${encodeURIComponent(threadId)}/compact`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({})
+  });
+}
+
+export type ThreadExportFormat = "md" | "json" | "html";
+
+export function threadExportUrl(
+  threadId: string,
+  format: ThreadExportFormat,
+  redact: boolean
+): string {
+  const params = new URLSearchParams({ format });
+  if (redact) {
+    params.set("redact", "1");
+  }
+  return `/api/threads/${encodeURIComponent(threadId)}/export?${params.toString()}`;
+}
+
+export async function archiveThread(threadId: string): Promise<void> {
+  await request(`/api/threads/${encodeURIComponent(threadId)}/archive`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({})
+  });
+}
+
+export async function unarchiveThread(threadId: string): Promise<void> {
+  await request(`/api/threads/${encodeURIComponent(threadId)}/unarchive`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({})
+  });
+}
+
+export async function renameThread(input: {
+  threadId: string;
+  name: string;
+}): Promise<void> {
+  const { threadId, ...body } = input;
+
+  await request(`/api/threads/${encodeURIComponent(threadId)}/name`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+export const NotificationEventSchema = z
+  .object({
+    id: z.string(),
+    kind: z.enum(["turnCompleted", "turnFailed", "userInputRequested", "approvalRequested"]),
+    agentId: AgentIdSchema,
+    threadId: z.string(),
+    turnId: z.string().nullable(),
+    title: z.string(),
+    body: z.string(),
+    url: z.string(),
+    at: z.string()
+  })
+  .strict();
+export type NotificationEvent = z.infer<typeof NotificationEventSchema>;
+
+const NotificationSettingsSchema = z
+  .object({
+    ok: z.literal(true),
+    mutedThreadIds: z.array(z.string()),
+    pushPublicKey: z.string(),
+    webhook: z.boolean()
+  })
+  .strict();
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
+
+export async function getNotificationSettings(): Promise<NotificationSettings> {
+  return NotificationSettingsSchema.parse(await request("/api/notifications"));
+}
+
+export async function setThreadMuted(input: { threadId: string; muted: boolean }): Promise<void> {
+  await request("/api/notifications/mute", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(input)
+  });
+}
+
+export async function subscribePush(input: {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}): Promise<void> {
+  await request("/api/notifications/push/subscribe", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(input)
+  });
+}
+
+export async function unsubscribePush(endpoint: string): Promise<void> {
+  await request("/api/notifications/push/unsubscribe", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({ endpoint })
+  });
+}
+
 export async function getTraceStatus(): Promise<z.infer<typeof TraceStatusSchema>> {
   const data = await request("/api/debug/trace/status");
   return TraceStatusSchema.parse(data);
@@ -366,8 +972,71 @@ export async function stopTrace(): Promise<void> {
   });
 }
 
-export async function listDebugHistory(limit = 120): Promise<z.infer<typeof HistoryListSchema>> {
-  const data = await request(`/api/debug/history?limit=${String(limit)}`);
+export async function listTraces(): Promise<z.infer<typeof TraceListSchema>> {
+  const data = await request("/api/debug/traces");
+  return TraceListSchema.parse(data);
+}
+
+export async function uploadTrace(file: File): Promise<TraceSummary> {
+  const data = await request(`/api/debug/traces?name=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-ndjson"
+    },
+    body: file
+  });
+  return TraceUploadResponseSchema.parse(data).trace;
+}
+
+export async function getTrace(traceId: string): Promise<z.infer<typeof TraceDetailSchema>> {
+  const data = await request(`/api/debug/traces/${encodeURIComponent(traceId)}`);
+  return TraceDetailSchema.parse(data);
+}
+
+export async function getTraceThreadState(input: {
+  traceId: string;
+  entryIndex: number;
+  threadId: string;
+}): Promise<TraceThreadState> {
+  const params = new URLSearchParams({
+    entryIndex: String(input.entryIndex),
+    threadId: input.threadId
+  });
+  const data = await request(`/api/debug/traces/${encodeURIComponent(input.traceId)}/state?${params.toString()}`);
+  return TraceThreadStateSchema.parse(data);
+}
+
+export async function deleteTrace(traceId: string): Promise<void> {
+  await request(`/api/debug/traces/${encodeURIComponent(traceId)}/delete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({})
+  });
+}
+
+export function traceDownloadUrl(traceId: string): string {
+  return `/api/debug/trace/${encodeURIComponent(traceId)}/download`;
+}
+
+export async function listDebugHistory(
+  query: {
+    limit?: number;
+    before?: string;
+    source?: "ipc" | "app" | "system";
+    direction?: "in" | "out" | "system";
+    method?: string;
+    threadId?: string;
+    since?: string;
+    until?: string;
+  } = {}
+): Promise<z.infer<typeof HistoryListSchema>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const data = await request(`/api/debug/history?${params.toString()}`);
   return HistoryListSchema.parse(data);
 }
 
@@ -376,15 +1045,94 @@ export async function getHistoryEntry(entryId: string): Promise<z.infer<typeof H
   return HistoryDetailSchema.parse(data);
 }
 
-export async function replayHistoryEntry(input: {
-  entryId: string;
-  waitForResponse: boolean;
-}): Promise<unknown> {
-  return request("/api/debug/replay", {
+export async function replayHistoryEntry(
+  input: ({ entryId: string } | { frame: ReplayFrame }) & { waitForResponse: boolean }
+): Promise<z.infer<typeof ReplayResponseSchema>> {
+  const data = await request("/api/debug/replay", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input)
+  });
+  return ReplayResponseSchema.parse(data);
+}
+
+/** The replayable part of a captured IPC frame, or null for responses and non-IPC entries. */
+export function toReplayFrame(payload: unknown): ReplayFrame | null {
+  const parsed = ReplayFrameSchema.safeParse(payload);
+  return parsed.success ? parsed.data : null;
+}
+
+export async function replayHistoryBatch(input: {
+  entryIds: string[];
+  delayMs: number;
+  timing: "fixed" | "recorded";
+}): Promise<{ id: string; total: number }> {
+  const data = await request("/api/debug/replay/batch", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(input)
   });
+  const { id, total } = ReplayBatchStartSchema.parse(data);
+  return { id, total };
+}
+
+/**
+ * Follows a running batch until it finishes. The server cancels the batch
+ * once every stream following it has closed, so stopping early cancels it.
+ */
+export function watchReplayBatch(
+  id: string,
+  onProgress: (progress: ReplayBatchProgress) => void,
+  onError: (message: string) => void
+): () => void {
+  const source = new EventSource(`/api/debug/replay/batch/${encodeURIComponent(id)}/events`, {
+    withCredentials: true
+  });
+  source.onmessage = (event: MessageEvent<string>) => {
+    const parsed = ReplayBatchProgressSchema.safeParse(JSON.parse(event.data));
+    if (!parsed.success) {
+      source.close();
+      onError("Replay batch progress was malformed");
+      return;
+    }
+    if (parsed.data.finished) {
+      source.close();
+    }
+    onProgress(parsed.data);
+  };
+  source.onerror = () => {
+    // EventSource reconnects on its own unless the stream was refused.
+    if (source.readyState === EventSource.CLOSED) {
+      onError("Lost the replay batch progress stream");
+    }
+  };
+  return () => source.close();
+}
+
+export async function cancelReplayBatch(): Promise<void> {
+  await request("/api/debug/replay/batch/cancel", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: "{}"
+  });
+}
+
+export async function listReplayMethods(): Promise<ObservedMethod[]> {
+  const data = await request("/api/debug/replay/methods");
+  return ReplayMethodsSchema.parse(data).methods;
+}
+
+export async function getProtocolDrift(): Promise<ProtocolDriftReport> {
+  const data = await request("/api/debug/protocol-drift");
+  return ProtocolDriftSchema.parse(data);
+}
+
+export async function clearProtocolDrift(): Promise<void> {
+  await request("/api/debug/protocol-drift/clear", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: "{}"
+  });
 }
 
 export function getPendingUserInputRequests(
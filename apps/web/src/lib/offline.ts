@@ -0,0 +1,39 @@
+export const SERVICE_WORKER_URL = "/sw.js";
+
+// public/sw.js is served as is and cannot import these; keep its SHELL_CACHE and THREAD_CACHE in sync.
+export const OFFLINE_CACHE_NAMES = {
+  shell: "farfield-shell-v1",
+  threads: "farfield-threads-v1"
+} as const;
+
+/** True when a request failed because the server could not be reached. */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+}
+
+/** A `.catch` handler that substitutes `fallback` for network failures only. */
+export function whenOffline<T>(fallback: T): (error: unknown) => T {
+  return (error) => {
+    if (isNetworkError(error)) {
+      return fallback;
+    }
+    throw error;
+  };
+}
+
+export function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator)) {
+    return;
+  }
+  window.addEventListener("load", () => {
+    void navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(() => undefined);
+  });
+}
+
+/** Drops thread content the service worker kept for offline reading. */
+export async function clearOfflineThreadCache(): Promise<void> {
+  if (typeof caches === "undefined") {
+    return;
+  }
+  await caches.delete(OFFLINE_CACHE_NAMES.threads);
+}
@@ -0,0 +1,79 @@
+import type { ThreadStreamPatch } from "@farfield/protocol";
+
+export class ThreadPatchError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "ThreadPatchError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function applyAt(node: unknown, patch: ThreadStreamPatch, depth: number): unknown {
+  const segment = patch.path[depth];
+  const isLast = depth === patch.path.length - 1;
+
+  if (Array.isArray(node) && typeof segment === "number") {
+    const copy = node.slice();
+    if (!isLast) {
+      if (segment >= copy.length) {
+        throw new ThreadPatchError(`Patch path index out of range: ${patch.path.join(".")}`);
+      }
+      copy[segment] = applyAt(copy[segment], patch, depth + 1);
+      return copy;
+    }
+
+    if (patch.op === "add") {
+      if (segment > copy.length) {
+        throw new ThreadPatchError(`Patch add index out of range: ${patch.path.join(".")}`);
+      }
+      copy.splice(segment, 0, patch.value);
+      return copy;
+    }
+
+    if (segment >= copy.length) {
+      throw new ThreadPatchError(`Patch ${patch.op} index out of range: ${patch.path.join(".")}`);
+    }
+    if (patch.op === "replace") {
+      copy[segment] = patch.value;
+    } else {
+      copy.splice(segment, 1);
+    }
+    return copy;
+  }
+
+  if (isRecord(node) && typeof segment === "string") {
+    const copy: Record<string, unknown> = { ...node };
+    if (!isLast) {
+      if (!(segment in copy)) {
+        throw new ThreadPatchError(`Patch path key missing: ${patch.path.join(".")}`);
+      }
+      copy[segment] = applyAt(copy[segment], patch, depth + 1);
+      return copy;
+    }
+
+    if (patch.op === "remove") {
+      delete copy[segment];
+    } else {
+      copy[segment] = patch.value;
+    }
+    return copy;
+  }
+
+  throw new ThreadPatchError(`Patch target type mismatch: ${patch.path.join(".")}`);
+}
+
+/**
+ * Applies server-pushed thread patches without mutating `state`. Untouched turns
+ * and items keep their identity. Throws ThreadPatchError when the patches do not
+ * line up with `state`, in which case the caller should refetch the thread.
+ */
+export function applyThreadPatches(state: unknown, patches: ThreadStreamPatch[]): unknown {
+  let next = state;
+  for (const patch of patches) {
+    next = applyAt(next, patch, 0);
+  }
+  return next;
+}
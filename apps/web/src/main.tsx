@@ -1,6 +1,7 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import { App } from "./App";
+import { registerServiceWorker } from "./lib/offline";
 import "./index.css";
 
 // Apply theme before first render to avoid flash
@@ -10,6 +11,8 @@ if (stored === "dark" || (!stored && prefersDark)) {
   document.documentElement.classList.add("dark");
 }
 
+registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
@@ -1,14 +1,21 @@
-import { cleanup, render, screen, waitFor } from "@testing-library/react";
+import { cleanup, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { App } from "../src/App";
 
 class MockEventSource {
+  public static readonly CONNECTING = 0;
+  public static readonly OPEN = 1;
+  public static readonly CLOSED = 2;
   private static instances: MockEventSource[] = [];
+  public static created = 0;
+  public readyState = MockEventSource.CONNECTING;
+  public onopen: ((event: Event) => void) | null = null;
   public onmessage: ((event: MessageEvent<string>) => void) | null = null;
   public onerror: ((event: Event) => void) | null = null;
 
   public constructor(_url: string) {
     MockEventSource.instances.push(this);
+    MockEventSource.created += 1;
   }
 
   public close(): void {
@@ -24,8 +31,25 @@ class MockEventSource {
     }
   }
 
+  public static open(): void {
+    for (const instance of MockEventSource.instances) {
+      instance.readyState = MockEventSource.OPEN;
+      instance.onopen?.(new Event("open"));
+    }
+  }
+
+  // Mirrors a failed response: the browser closes the stream and does not retry.
+  public static fail(): void {
+    for (const instance of MockEventSource.instances) {
+      instance.readyState = MockEventSource.CLOSED;
+      instance.onerror?.(new Event("error"));
+    }
+    MockEventSource.instances = [];
+  }
+
   public static reset(): void {
     MockEventSource.instances = [];
+    MockEventSource.created = 0;
   }
 }
 
@@ -34,6 +58,9 @@ vi.stubGlobal("EventSource", MockEventSource);
 // jsdom doesn't implement scrollTo or ResizeObserver.
 Element.prototype.scrollTo = vi.fn();
 window.scrollTo = vi.fn();
+const deleteCacheMock = vi.fn(async (_name: string) => true);
+vi.stubGlobal("caches", { delete: deleteCacheMock });
+
 vi.stubGlobal("ResizeObserver", class {
   observe() {}
   unobserve() {}
@@ -56,17 +83,35 @@ const codexCapabilities = {
   canListCollaborationModes: true,
   canSetCollaborationMode: true,
   canSubmitUserInput: true,
+  canSteerTurns: true,
   canReadLiveState: true,
-  canReadStreamEvents: true
+  canReadStreamEvents: true,
+  canSubmitApprovals: true,
+  canForkThreads: true,
+  canRollbackThreads: true,
+  canCompactThreads: true,
+  canArchiveThreads: true,
+  canUnarchiveThreads: true,
+  canRenameThreads: true,
+  canReadUsage: true
 };
 
 const opencodeCapabilities = {
-  canListModels: false,
+  canListModels: true,
   canListCollaborationModes: false,
   canSetCollaborationMode: false,
   canSubmitUserInput: false,
-  canReadLiveState: false,
-  canReadStreamEvents: false
+  canSteerTurns: false,
+  canReadLiveState: true,
+  canReadStreamEvents: true,
+  canSubmitApprovals: true,
+  canForkThreads: false,
+  canRollbackThreads: false,
+  canCompactThreads: false,
+  canArchiveThreads: true,
+  canUnarchiveThreads: false,
+  canRenameThreads: true,
+  canReadUsage: false
 };
 
 type CapabilityFixture = {
@@ -74,19 +119,35 @@ type CapabilityFixture = {
   canListCollaborationModes: boolean;
   canSetCollaborationMode: boolean;
   canSubmitUserInput: boolean;
+  canSteerTurns: boolean;
   canReadLiveState: boolean;
   canReadStreamEvents: boolean;
+  canSubmitApprovals: boolean;
+  canForkThreads: boolean;
+  canRollbackThreads: boolean;
+  canCompactThreads: boolean;
+  canArchiveThreads: boolean;
+  canUnarchiveThreads: boolean;
+  canRenameThreads: boolean;
+  canReadUsage: boolean;
 };
 
 let agentsFixture: {
   ok: true;
   agents: Array<{
-    id: "codex" | "opencode";
+    id: "codex" | "opencode" | "remote";
     label: string;
     enabled: boolean;
     connected: boolean;
     capabilities: CapabilityFixture;
     projectDirectories: string[];
+    hosts?: Array<{
+      id: string;
+      label: string;
+      url: string;
+      connected: boolean;
+      lastError: string | null;
+    }>;
   }>;
   defaultAgentId: "codex" | "opencode";
 };
@@ -96,11 +157,15 @@ let threadsFixture: {
   data: Array<{
     id: string;
     preview: string;
+    name?: string;
     createdAt: number;
     updatedAt: number;
     cwd?: string;
     source: "opencode";
-    agentId: "codex" | "opencode";
+    agentId: "codex" | "opencode" | "remote";
+    hostId?: string;
+    hostLabel?: string;
+    hostAgentId?: string;
   }>;
   nextCursor: null;
   pages: number;
@@ -139,6 +204,29 @@ let modelsFixture: {
   nextCursor: null;
 };
 
+let usageFixture: {
+  ok: true;
+  threads: Array<Record<string, object | string | number | null>>;
+  rateLimits: Array<{
+    agentId: "codex" | "opencode";
+    snapshot: Record<string, object | string | null> | null;
+    updatedAt: string | null;
+  }>;
+};
+
+let searchFixture: {
+  ok: true;
+  query: string;
+  results: Array<Record<string, string | number | null>>;
+};
+
+let notificationSettingsFixture: {
+  ok: true;
+  mutedThreadIds: string[];
+  pushPublicKey: string;
+  webhook: boolean;
+};
+
 let readThreadResolver: (threadId: string) => {
   ok: true;
   thread: Record<string, object | string | number | boolean | null | undefined>;
@@ -152,6 +240,12 @@ let liveStateResolver: (threadId: string) => {
   conversationState: Record<string, object | string | number | boolean | null | undefined> | null;
 };
 
+let approvalsResolver: (threadId: string) => {
+  ok: true;
+  threadId: string;
+  approvals: Array<Record<string, object | string | number | boolean | null>>;
+};
+
 function buildConversationStateFixture(threadId: string, modelId: string): {
   id: string;
   turns: Array<{
@@ -196,8 +290,13 @@ function buildConversationStateFixture(threadId: string, modelId: string): {
   };
 }
 
+let isAuthenticated = true;
+let isServerReachable = true;
+
 beforeEach(() => {
   MockEventSource.reset();
+  isAuthenticated = true;
+  isServerReachable = true;
   agentsFixture = {
     ok: true,
     agents: [
@@ -266,6 +365,25 @@ beforeEach(() => {
     nextCursor: null
   };
 
+  usageFixture = {
+    ok: true,
+    threads: [],
+    rateLimits: []
+  };
+
+  searchFixture = {
+    ok: true,
+    query: "",
+    results: []
+  };
+
+  notificationSettingsFixture = {
+    ok: true,
+    mutedThreadIds: [],
+    pushPublicKey: "BPushPublicKey",
+    webhook: false
+  };
+
   readThreadResolver = (_threadId: string) => null;
   liveStateResolver = (threadId: string) => ({
     ok: true,
@@ -273,10 +391,17 @@ beforeEach(() => {
     ownerClientId: null,
     conversationState: null
   });
+  approvalsResolver = (threadId: string) => ({
+    ok: true,
+    threadId,
+    approvals: []
+  });
 });
 
 afterEach(() => {
   cleanup();
+  window.history.replaceState(null, "", "/");
+  localStorage.removeItem("farfield.outbox");
 });
 
 vi.stubGlobal(
@@ -288,6 +413,21 @@ vi.stubGlobal(
     const segments = pathname.split("/").filter((segment) => segment.length > 0);
     const threadId = segments[2] ? decodeURIComponent(segments[2]) : "";
 
+    if (!isServerReachable) {
+      throw new TypeError("Failed to fetch");
+    }
+
+    if (!isAuthenticated && pathname.startsWith("/api/") && !pathname.startsWith("/api/auth/")) {
+      return {
+        ok: false,
+        status: 401,
+        json: async () => ({
+          ok: false,
+          error: "Authentication required"
+        })
+      } as Response;
+    }
+
     if (pathname === "/api/health") {
       return {
         ok: true,
@@ -324,6 +464,13 @@ vi.stubGlobal(
       } as Response;
     }
 
+    if (pathname.startsWith("/api/threads/") && pathname.endsWith("/approvals")) {
+      return {
+        ok: true,
+        json: async () => approvalsResolver(threadId)
+      } as Response;
+    }
+
     if (pathname.startsWith("/api/threads/") && parsedUrl.searchParams.has("includeTurns")) {
       const readThread = readThreadResolver(threadId);
       if (readThread) {
@@ -371,7 +518,8 @@ vi.stubGlobal(
         ok: true,
         json: async () => ({
           ok: true,
-          history: []
+          history: [],
+          nextCursor: null
         })
       } as Response;
     }
@@ -383,6 +531,42 @@ vi.stubGlobal(
       } as Response;
     }
 
+    if (pathname === "/api/usage") {
+      return {
+        ok: true,
+        json: async () => usageFixture
+      } as Response;
+    }
+
+    if (pathname === "/api/search") {
+      return {
+        ok: true,
+        json: async () => ({ ...searchFixture, query: parsedUrl.searchParams.get("q") ?? "" })
+      } as Response;
+    }
+
+    if (pathname === "/api/notifications") {
+      return {
+        ok: true,
+        json: async () => notificationSettingsFixture
+      } as Response;
+    }
+
+    if (pathname === "/api/uploads") {
+      return {
+        ok: true,
+        json: async () => ({
+          ok: true,
+          upload: {
+            id: "upload-1",
+            name: parsedUrl.searchParams.get("name") ?? "upload",
+            mimeType: "text/plain",
+            size: 5
+          }
+        })
+      } as Response;
+    }
+
     return {
       ok: true,
       json: async () => ({
@@ -403,6 +587,16 @@ describe("App", () => {
     expect(await screen.findByText("No thread selected")).toBeTruthy();
   });
 
+  it("shows the login screen when the server requires authentication", async () => {
+    isAuthenticated = false;
+    deleteCacheMock.mockClear();
+    render(<App />);
+    expect(await screen.findByText("Sign in to Farfield")).toBeTruthy();
+    expect(screen.queryByText("No thread selected")).toBeNull();
+    // An expired session drops the transcripts kept for offline reading.
+    expect(deleteCacheMock).toHaveBeenCalledWith("farfield-threads-v1");
+  });
+
   it("hides mode controls when capability is disabled", async () => {
     agentsFixture = {
       ok: true,
@@ -424,6 +618,33 @@ describe("App", () => {
     expect(screen.queryByText("Plan")).toBeNull();
   });
 
+  it("loads models for the active OpenCode agent", async () => {
+    agentsFixture = {
+      ok: true,
+      agents: [
+        {
+          id: "opencode",
+          label: "OpenCode",
+          enabled: true,
+          connected: true,
+          capabilities: opencodeCapabilities,
+          projectDirectories: []
+        }
+      ],
+      defaultAgentId: "opencode"
+    };
+    vi.mocked(fetch).mockClear();
+
+    render(<App />);
+    await waitFor(() => {
+      expect(
+        vi.mocked(fetch).mock.calls.some(([input]) =>
+          String(input).startsWith("/api/models?limit=200&agentId=opencode")
+        )
+      ).toBe(true);
+    });
+  });
+
   it("shows mode controls when capability is enabled", async () => {
     render(<App />);
     expect(await screen.findByText("Plan")).toBeTruthy();
@@ -528,4 +749,841 @@ describe("App", () => {
 
     expect(await screen.findByText("gpt-new-codex")).toBeTruthy();
   });
+
+  it("applies pushed live-state deltas for the selected thread", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    const baseModel = modelsFixture.data[0]!;
+    modelsFixture = {
+      ok: true,
+      data: [
+        { ...baseModel, id: "gpt-old-codex", model: "gpt-old-codex", displayName: "gpt-old-codex", isDefault: false },
+        { ...baseModel, id: "gpt-new-codex", model: "gpt-new-codex", displayName: "gpt-new-codex" }
+      ],
+      nextCursor: null
+    };
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: buildConversationStateFixture(targetThreadId, "gpt-old-codex"),
+      agentId: "codex"
+    });
+    liveStateResolver = (targetThreadId: string) => ({
+      ok: true,
+      threadId: targetThreadId,
+      ownerClientId: "client-1",
+      conversationState: buildConversationStateFixture(targetThreadId, "gpt-old-codex")
+    });
+
+    render(<App />);
+    expect(await screen.findByText("gpt-old-codex")).toBeTruthy();
+
+    MockEventSource.emit({
+      type: "thread-snapshot",
+      threadId,
+      view: "liveState",
+      state: {
+        ownerClientId: "client-1",
+        conversationState: buildConversationStateFixture(threadId, "gpt-old-codex")
+      }
+    });
+    MockEventSource.emit({
+      type: "thread-delta",
+      threadId,
+      view: "liveState",
+      patches: [
+        { op: "replace", path: ["conversationState", "updatedAt"], value: 1700000100 },
+        { op: "replace", path: ["conversationState", "latestModel"], value: "gpt-new-codex" },
+        {
+          op: "replace",
+          path: ["conversationState", "latestCollaborationMode", "settings", "model"],
+          value: "gpt-new-codex"
+        }
+      ]
+    });
+
+    expect(await screen.findByText("gpt-new-codex")).toBeTruthy();
+    expect(screen.queryByText("gpt-old-codex")).toBeNull();
+  });
+
+  it("reopens the event stream after it fails and refetches the selected thread", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    const baseModel = modelsFixture.data[0]!;
+    modelsFixture = {
+      ok: true,
+      data: [
+        { ...baseModel, id: "gpt-old-codex", model: "gpt-old-codex", displayName: "gpt-old-codex", isDefault: false },
+        { ...baseModel, id: "gpt-new-codex", model: "gpt-new-codex", displayName: "gpt-new-codex" }
+      ],
+      nextCursor: null
+    };
+    let model = "gpt-old-codex";
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: buildConversationStateFixture(targetThreadId, model),
+      agentId: "codex"
+    });
+    liveStateResolver = (targetThreadId: string) => ({
+      ok: true,
+      threadId: targetThreadId,
+      ownerClientId: "client-1",
+      conversationState: buildConversationStateFixture(targetThreadId, model)
+    });
+
+    render(<App />);
+    expect(await screen.findByText("gpt-old-codex")).toBeTruthy();
+    const opened = MockEventSource.created;
+
+    // The thread moves on while the stream is down, so no delta ever describes the change.
+    model = "gpt-new-codex";
+    MockEventSource.fail();
+    await waitFor(() => {
+      expect(MockEventSource.created).toBe(opened + 1);
+    });
+    expect(screen.queryByText("gpt-new-codex")).toBeNull();
+
+    MockEventSource.open();
+    expect(await screen.findByText("gpt-new-codex")).toBeTruthy();
+    expect(screen.queryByText("gpt-old-codex")).toBeNull();
+  });
+
+  it("renders pending command approvals for the selected thread", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: buildConversationStateFixture(targetThreadId, "gpt-5.3-codex"),
+      agentId: "codex"
+    });
+    approvalsResolver = (targetThreadId: string) => ({
+      ok: true,
+      threadId: targetThreadId,
+      approvals: [
+        {
+          kind: "commandExecution",
+          requestId: 7,
+          threadId: targetThreadId,
+          createdAt: "2026-01-01T00:00:00.000Z",
+          params: {
+            threadId: targetThreadId,
+            turnId: "turn-1",
+            itemId: "item-1",
+            command: "npm test",
+            proposedExecpolicyAmendment: ["npm", "test"]
+          }
+        }
+      ]
+    });
+
+    render(<App />);
+    expect(await screen.findByText("npm test")).toBeTruthy();
+    expect(screen.getByText("Approve for session")).toBeTruthy();
+    expect(screen.getByText("Always allow")).toBeTruthy();
+    expect(screen.getByText("Deny")).toBeTruthy();
+  });
+
+  it("renders pending OpenCode permissions for the selected session", async () => {
+    const threadId = "ses_1";
+    agentsFixture = {
+      ok: true,
+      agents: [
+        {
+          id: "opencode",
+          label: "OpenCode",
+          enabled: true,
+          connected: true,
+          capabilities: opencodeCapabilities,
+          projectDirectories: []
+        }
+      ],
+      defaultAgentId: "opencode"
+    };
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "session preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "opencode"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: buildConversationStateFixture(targetThreadId, "anthropic/claude-sonnet"),
+      agentId: "opencode"
+    });
+    approvalsResolver = (targetThreadId: string) => ({
+      ok: true,
+      threadId: targetThreadId,
+      approvals: [
+        {
+          kind: "opencodePermission",
+          requestId: "per_1",
+          threadId: targetThreadId,
+          createdAt: "2026-01-01T00:00:00.000Z",
+          params: {
+            id: "per_1",
+            type: "bash",
+            pattern: "rm -rf dist",
+            sessionID: targetThreadId,
+            messageID: "msg_1",
+            title: "Remove build output",
+            metadata: {},
+            time: { created: 1700000000 }
+          }
+        }
+      ]
+    });
+
+    render(<App />);
+    expect(await screen.findByText("Remove build output")).toBeTruthy();
+    expect(screen.getByText("rm -rf dist")).toBeTruthy();
+    expect(screen.getByText("Allow once")).toBeTruthy();
+    expect(screen.getByText("Always allow")).toBeTruthy();
+    expect(screen.getByText("Reject")).toBeTruthy();
+  });
+
+  it("offers turn actions and rolls back to an earlier turn", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: {
+        ...buildConversationStateFixture(targetThreadId, "gpt-5.3-codex"),
+        turns: [
+          {
+            id: "turn-1",
+            status: "completed",
+            items: [{ id: "item-1", type: "agentMessage", text: "First answer" }]
+          },
+          {
+            id: "turn-2",
+            status: "completed",
+            items: [{ id: "item-2", type: "agentMessage", text: "Second answer" }]
+          }
+        ]
+      },
+      agentId: "codex"
+    });
+
+    render(<App />);
+    expect(await screen.findByText("Second answer")).toBeTruthy();
+    expect(screen.getAllByText("Fork from here")).toHaveLength(2);
+    expect(screen.getAllByText("Roll back to here")).toHaveLength(1);
+    expect(screen.getByRole("button", { name: "Compact context" })).toBeTruthy();
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.click(screen.getByText("Roll back to here"));
+
+    await waitFor(() => {
+      const rollbackCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith(`/api/threads/${threadId}/rollback`));
+      expect(rollbackCall?.[1]?.body).toBe(JSON.stringify({ turnId: "turn-1" }));
+    });
+  });
+
+  it("shows thread names and renames threads from the sidebar actions menu", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          name: "Release notes",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    const promptSpy = vi.spyOn(window, "prompt").mockReturnValue("Changelog draft");
+
+    render(<App />);
+    const trigger = await screen.findByRole("button", { name: "Actions for Release notes" });
+    expect(screen.queryByText("thread preview")).toBeNull();
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.contextMenu(trigger);
+    fireEvent.click(await screen.findByRole("menuitem", { name: "Rename" }));
+
+    await waitFor(() => {
+      const renameCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith(`/api/threads/${threadId}/name`));
+      expect(renameCall?.[1]?.body).toBe(JSON.stringify({ name: "Changelog draft" }));
+    });
+    expect(promptSpy).toHaveBeenCalledWith("Rename thread", "Release notes");
+    promptSpy.mockRestore();
+  });
+
+  it("asks before deleting an OpenCode session from the sidebar actions menu", async () => {
+    const threadId = "session-1";
+    agentsFixture = {
+      ok: true,
+      agents: [
+        {
+          id: "opencode",
+          label: "OpenCode",
+          enabled: true,
+          connected: true,
+          capabilities: opencodeCapabilities,
+          projectDirectories: []
+        }
+      ],
+      defaultAgentId: "opencode"
+    };
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "session preview",
+          name: "Scratch session",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "opencode"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    const isArchiveCall = ([input]: Parameters<typeof fetch>) =>
+      String(input).endsWith(`/api/threads/${threadId}/archive`);
+
+    render(<App />);
+    const trigger = await screen.findByRole("button", { name: "Actions for Scratch session" });
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.contextMenu(trigger);
+    fireEvent.click(await screen.findByRole("menuitem", { name: "Delete…" }));
+    expect(await screen.findByText(/cannot archive threads, so .Scratch session. will be deleted/)).toBeTruthy();
+    expect(vi.mocked(fetch).mock.calls.some(isArchiveCall)).toBe(false);
+
+    fireEvent.click(screen.getByRole("menuitem", { name: "Delete permanently" }));
+    await waitFor(() => {
+      expect(vi.mocked(fetch).mock.calls.some(isArchiveCall)).toBe(true);
+    });
+  });
+
+  it("groups remote threads under their host and creates threads there", async () => {
+    agentsFixture = {
+      ok: true,
+      agents: [
+        {
+          id: "codex",
+          label: "Codex",
+          enabled: true,
+          connected: true,
+          capabilities: codexCapabilities,
+          projectDirectories: []
+        },
+        {
+          id: "remote",
+          label: "Remote",
+          enabled: true,
+          connected: true,
+          capabilities: codexCapabilities,
+          projectDirectories: [],
+          hosts: [
+            {
+              id: "build-box",
+              label: "build-box",
+              url: "http://10.0.0.5:4311",
+              connected: true,
+              lastError: null
+            },
+            {
+              id: "laptop",
+              label: "laptop",
+              url: "http://10.0.0.6:4311",
+              connected: false,
+              lastError: "connect ECONNREFUSED"
+            }
+          ]
+        }
+      ],
+      defaultAgentId: "codex"
+    };
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: "build-box:thread-9",
+          preview: "Nightly build",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/srv/ci",
+          source: "opencode",
+          agentId: "remote",
+          hostId: "build-box",
+          hostLabel: "build-box",
+          hostAgentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+
+    render(<App />);
+    expect(await screen.findByRole("status", { name: "build-box connected" })).toBeTruthy();
+    expect(screen.getByRole("status", { name: "laptop offline" })).toBeTruthy();
+    expect(screen.getByText("Not connected")).toBeTruthy();
+    expect(screen.getAllByText("Nightly build").length).toBeGreaterThan(0);
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.click(screen.getAllByRole("button", { name: "New thread on build-box in ci" })[0]!);
+    await waitFor(() => {
+      const createCall = vi
+        .mocked(fetch)
+        .mock.calls.find(
+          ([input, init]) => String(input) === "/api/threads" && init?.method === "POST"
+        );
+      expect(createCall?.[1]?.body).toBe(
+        JSON.stringify({ cwd: "/srv/ci", agentId: "remote", hostId: "build-box" })
+      );
+    });
+  });
+
+  it("mutes and unmutes thread notifications from the sidebar actions menu", async () => {
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: "thread-1",
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        },
+        {
+          id: "thread-2",
+          preview: "muted preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    notificationSettingsFixture = { ...notificationSettingsFixture, mutedThreadIds: ["thread-2"] };
+
+    render(<App />);
+    const trigger = await screen.findByRole("button", { name: "Actions for thread preview" });
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.contextMenu(trigger);
+    fireEvent.click(await screen.findByRole("menuitem", { name: "Mute notifications" }));
+
+    await waitFor(() => {
+      const muteCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith("/api/notifications/mute"));
+      expect(muteCall?.[1]?.body).toBe(JSON.stringify({ threadId: "thread-1", muted: true }));
+    });
+
+    fireEvent.contextMenu(screen.getByRole("button", { name: "Actions for muted preview" }));
+    expect(await screen.findByRole("menuitem", { name: "Unmute notifications" })).toBeTruthy();
+  });
+
+  it("steers the running turn from the composer", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    readThreadResolver = (targetThreadId: string) => ({
+      ok: true,
+      thread: {
+        ...buildConversationStateFixture(targetThreadId, "gpt-5.3-codex"),
+        turns: [
+          {
+            id: "turn-1",
+            status: "inProgress",
+            items: [{ id: "item-1", type: "agentMessage", text: "Working on it" }]
+          }
+        ]
+      },
+      agentId: "codex"
+    });
+
+    render(<App />);
+    expect(await screen.findByText("Working on it")).toBeTruthy();
+    const composer = await screen.findByPlaceholderText("Steer the current turn…");
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.change(composer, { target: { value: "Also cover the edge cases" } });
+    fireEvent.click(screen.getByRole("button", { name: "Steer" }));
+
+    await waitFor(() => {
+      const messageCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith(`/api/threads/${threadId}/messages`));
+      expect(messageCall?.[1]?.body).toBe(
+        JSON.stringify({ text: "Also cover the edge cases", isSteering: true })
+      );
+    });
+  });
+
+  it("uploads attachments and sends them with the message", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+
+    const { container } = render(<App />);
+    await screen.findByRole("button", { name: "Actions for thread preview" });
+    const fileInput = container.querySelector<HTMLInputElement>("input[type=file]");
+    expect(fileInput).toBeTruthy();
+
+    vi.mocked(fetch).mockClear();
+    fireEvent.change(fileInput as HTMLInputElement, {
+      target: { files: [new File(["notes"], "notes.txt", { type: "text/plain" })] }
+    });
+    expect(await screen.findByRole("button", { name: "Remove notes.txt" })).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText("Message Codex…"), {
+      target: { value: "Summarize the notes" }
+    });
+    fireEvent.keyDown(screen.getByPlaceholderText("Message Codex…"), { key: "Enter" });
+
+    await waitFor(() => {
+      const messageCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith(`/api/threads/${threadId}/messages`));
+      expect(messageCall?.[1]?.body).toBe(
+        JSON.stringify({ text: "Summarize the notes", attachments: [{ uploadId: "upload-1" }] })
+      );
+    });
+    const uploadCall = vi
+      .mocked(fetch)
+      .mock.calls.find(([input]) => String(input) === "/api/uploads?name=notes.txt");
+    expect(uploadCall?.[1]?.headers).toEqual({ "Content-Type": "text/plain" });
+    await waitFor(() => {
+      expect(screen.queryByRole("button", { name: "Remove notes.txt" })).toBeNull();
+    });
+  });
+
+  it("shows thread token usage and account rate limits", async () => {
+    const threadId = "thread-1";
+    const breakdown = {
+      cachedInputTokens: 1000,
+      inputTokens: 80000,
+      outputTokens: 4000,
+      reasoningOutputTokens: 0,
+      totalTokens: 84000
+    };
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    usageFixture = {
+      ok: true,
+      threads: [
+        {
+          threadId,
+          agentId: "codex",
+          total: breakdown,
+          last: breakdown,
+          modelContextWindow: 200000,
+          turns: [{ turnId: "turn-1", usage: breakdown }],
+          updatedAt: "2026-01-01T00:00:00.000Z"
+        }
+      ],
+      rateLimits: [
+        {
+          agentId: "codex",
+          snapshot: {
+            primary: { usedPercent: 30, windowDurationMins: 300, resetsAt: 1700003600 },
+            secondary: { usedPercent: 92, windowDurationMins: 10080, resetsAt: null },
+            planType: "pro"
+          },
+          updatedAt: "2026-01-01T00:00:00.000Z"
+        }
+      ]
+    };
+
+    render(<App />);
+    expect(await screen.findByText("42% context")).toBeTruthy();
+    expect(screen.getAllByLabelText("5h rate limit 30% used").length).toBeGreaterThan(0);
+    expect(screen.getAllByLabelText("Weekly rate limit 92% used").length).toBeGreaterThan(0);
+  });
+
+  it("offers thread transcript downloads with redaction on by default", async () => {
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: "thread-1",
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+
+    render(<App />);
+    fireEvent.keyDown(await screen.findByRole("button", { name: "Export thread" }), { key: "Enter" });
+
+    const markdown = await screen.findByRole("menuitem", { name: "Markdown" });
+    expect(markdown.getAttribute("href")).toBe("/api/threads/thread-1/export?format=md&redact=1");
+    expect(markdown.hasAttribute("download")).toBe(true);
+
+    fireEvent.click(screen.getByRole("menuitemcheckbox", { name: "Redact sensitive content" }));
+    await waitFor(() => {
+      expect(screen.getByRole("menuitem", { name: "HTML" }).getAttribute("href")).toBe(
+        "/api/threads/thread-1/export?format=html"
+      );
+    });
+  });
+
+  it("searches threads and deep-links to the matching turn", async () => {
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: "thread-1",
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        },
+        {
+          id: "thread-2",
+          preview: "flaky login test",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+    searchFixture = {
+      ok: true,
+      query: "",
+      results: [
+        {
+          threadId: "thread-2",
+          agentId: "codex",
+          title: "flaky login test",
+          cwd: "/tmp/project",
+          updatedAt: 1700000000,
+          turnId: "turn-1",
+          kind: "agentMessage",
+          snippet: "The login test raced the auth request.",
+          score: 2
+        }
+      ]
+    };
+
+    render(<App />);
+    fireEvent.change(await screen.findByRole("searchbox", { name: "Search threads" }), {
+      target: { value: "raced" }
+    });
+
+    const result = await screen.findByText("The login test raced the auth request.");
+    expect(
+      vi
+        .mocked(fetch)
+        .mock.calls.some(([input]) => String(input).includes("/api/search?q=raced"))
+    ).toBe(true);
+
+    fireEvent.click(result);
+    await waitFor(() => {
+      expect(window.location.pathname).toBe("/threads/thread-2/turns/turn-1");
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Clear search" }));
+    expect(await screen.findByText("thread preview")).toBeTruthy();
+  });
+
+  it("queues messages sent while the server is unreachable and sends them on reconnect", async () => {
+    const threadId = "thread-1";
+    threadsFixture = {
+      ok: true,
+      data: [
+        {
+          id: threadId,
+          preview: "thread preview",
+          createdAt: 1700000000,
+          updatedAt: 1700000000,
+          cwd: "/tmp/project",
+          source: "opencode",
+          agentId: "codex"
+        }
+      ],
+      nextCursor: null,
+      pages: 1,
+      truncated: false
+    };
+
+    render(<App />);
+    await screen.findByRole("button", { name: "Actions for thread preview" });
+
+    isServerReachable = false;
+    const composer = screen.getByPlaceholderText("Message Codex…");
+    fireEvent.change(composer, { target: { value: "Run the migration" } });
+    fireEvent.keyDown(composer, { key: "Enter" });
+
+    const outbox = await screen.findByRole("list", { name: "Outbox" });
+    expect(within(outbox).getByText("Run the migration")).toBeTruthy();
+    expect(within(outbox).getByText("Queued")).toBeTruthy();
+    expect(JSON.parse(localStorage.getItem("farfield.outbox") ?? "[]")).toMatchObject([
+      { threadId, text: "Run the migration", status: "queued" }
+    ]);
+
+    isServerReachable = true;
+    vi.mocked(fetch).mockClear();
+    fireEvent(window, new Event("online"));
+
+    await waitFor(() => {
+      const messageCall = vi
+        .mocked(fetch)
+        .mock.calls.find(([input]) => String(input).endsWith(`/api/threads/${threadId}/messages`));
+      expect(messageCall?.[1]?.body).toBe(JSON.stringify({ text: "Run the migration" }));
+    });
+    await waitFor(() => {
+      expect(screen.queryByRole("list", { name: "Outbox" })).toBeNull();
+    });
+    expect(localStorage.getItem("farfield.outbox")).toBeNull();
+  });
 });
@@ -1,17 +1,50 @@
 import {
+  AppServerArchiveThreadRequestSchema,
+  AppServerArchiveThreadResponseSchema,
   type AppServerCollaborationModeListResponse,
   AppServerCollaborationModeListResponseSchema,
   type AppServerListModelsResponse,
   AppServerListModelsResponseSchema,
   type AppServerListThreadsResponse,
   AppServerListThreadsResponseSchema,
+  AppServerCompactThreadRequestSchema,
+  AppServerCompactThreadResponseSchema,
+  type AppServerForkThreadResponse,
+  AppServerForkThreadRequestSchema,
+  AppServerForkThreadResponseSchema,
+  type AppServerGetAccountRateLimitsResponse,
+  AppServerGetAccountRateLimitsResponseSchema,
   type AppServerReadThreadResponse,
   AppServerReadThreadResponseSchema,
+  type AppServerRollbackThreadResponse,
+  AppServerRollbackThreadRequestSchema,
+  AppServerRollbackThreadResponseSchema,
   AppServerSendUserMessageRequestSchema,
   AppServerSendUserMessageResponseSchema,
+  AppServerSetThreadNameRequestSchema,
+  AppServerSetThreadNameResponseSchema,
   type AppServerStartThreadResponse,
   AppServerStartThreadRequestSchema,
   AppServerStartThreadResponseSchema,
+  type AppServerSteerTurnResponse,
+  AppServerSteerTurnRequestSchema,
+  AppServerSteerTurnResponseSchema,
+  type AppServerUnarchiveThreadResponse,
+  AppServerUnarchiveThreadRequestSchema,
+  AppServerUnarchiveThreadResponseSchema,
+  type AppServerApprovalRequest,
+  type AppServerCommandExecutionApprovalDecision,
+  AppServerCommandExecutionRequestApprovalResponseSchema,
+  type AppServerFileChangeApprovalDecision,
+  AppServerFileChangeRequestApprovalResponseSchema,
+  type AppServerNotification,
+  type AppServerNotificationMethod,
+  type AppServerNotificationParams,
+  isAppServerApprovalRequestMethod,
+  isAppServerNotificationMethod,
+  parseAppServerApprovalRequest,
+  parseAppServerNotification,
+  type InputPart,
   ThreadTurnSchema,
   TurnStartParamsSchema
 } from "@farfield/protocol";
@@ -22,6 +55,14 @@ import {
   ChildProcessAppServerTransport,
   type ChildProcessAppServerTransportOptions
 } from "./app-server-transport.js";
+import { AppServerTransportError } from "./errors.js";
+import {
+  JSON_RPC_INVALID_PARAMS,
+  JSON_RPC_METHOD_NOT_FOUND,
+  type JsonRpcNotification,
+  type JsonRpcRequestId,
+  type JsonRpcServerRequest
+} from "./json-rpc.js";
 
 function parseWithSchema<T>(
   schema: z.ZodType<T, z.ZodTypeDef, unknown>,
@@ -35,6 +76,10 @@ function parseWithSchema<T>(
   return parsed.data;
 }
 
+function toTurnInput(input: string | InputPart[]): InputPart[] {
+  return typeof input === "string" ? [{ type: "text", text: input }] : input;
+}
+
 const AppServerTurnStartResponseSchema = z
   .object({
     turn: ThreadTurnSchema
@@ -64,16 +109,151 @@ export interface StartThreadOptions {
   ephemeral?: boolean;
 }
 
+export interface ForkThreadOptions {
+  threadId: string;
+  cwd?: string;
+  model?: string;
+  modelProvider?: string;
+}
+
+export type AppServerNotificationListener = (notification: AppServerNotification) => void;
+
+export type AppServerNotificationErrorListener = (
+  error: ProtocolValidationError,
+  notification: JsonRpcNotification | JsonRpcServerRequest
+) => void;
+
+export type AppServerApprovalRequestListener = (
+  requestId: JsonRpcRequestId,
+  request: AppServerApprovalRequest
+) => void;
+
+
 export class AppServerClient {
   private readonly transport: AppServerTransport;
+  private readonly notificationListeners = new Set<AppServerNotificationListener>();
+  private readonly notificationErrorListeners = new Set<AppServerNotificationErrorListener>();
+  private readonly approvalRequestListeners = new Set<AppServerApprovalRequestListener>();
 
   public constructor(transportOrOptions: AppServerTransport | ChildProcessAppServerTransportOptions) {
-    if ("request" in transportOrOptions && "close" in transportOrOptions) {
-      this.transport = transportOrOptions;
+    this.transport =
+      "request" in transportOrOptions && "close" in transportOrOptions
+        ? transportOrOptions
+        : new ChildProcessAppServerTransport(transportOrOptions);
+
+    this.transport.onNotification?.((notification) => {
+      this.handleNotification(notification);
+    });
+    this.transport.onServerRequest?.((request) => {
+      this.handleServerRequest(request);
+    });
+  }
+
+  public onNotification(listener: AppServerNotificationListener): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  public onNotificationMethod<Method extends AppServerNotificationMethod>(
+    method: Method,
+    listener: (params: AppServerNotificationParams<Method>) => void
+  ): () => void {
+    return this.onNotification((notification) => {
+      if (notification.method === method) {
+        listener(notification.params as AppServerNotificationParams<Method>);
+      }
+    });
+  }
+
+  public onNotificationError(listener: AppServerNotificationErrorListener): () => void {
+    this.notificationErrorListeners.add(listener);
+    return () => {
+      this.notificationErrorListeners.delete(listener);
+    };
+  }
+
+  public onApprovalRequest(listener: AppServerApprovalRequestListener): () => void {
+    this.approvalRequestListeners.add(listener);
+    return () => {
+      this.approvalRequestListeners.delete(listener);
+    };
+  }
+
+  public async respondToCommandExecutionApproval(
+    requestId: JsonRpcRequestId,
+    decision: AppServerCommandExecutionApprovalDecision
+  ): Promise<void> {
+    const response = AppServerCommandExecutionRequestApprovalResponseSchema.parse({ decision });
+    await this.respondToServerRequest(requestId, response);
+  }
+
+  public async respondToFileChangeApproval(
+    requestId: JsonRpcRequestId,
+    decision: AppServerFileChangeApprovalDecision
+  ): Promise<void> {
+    const response = AppServerFileChangeRequestApprovalResponseSchema.parse({ decision });
+    await this.respondToServerRequest(requestId, response);
+  }
+
+  private async respondToServerRequest(requestId: JsonRpcRequestId, result: unknown): Promise<void> {
+    if (!this.transport.respond) {
+      throw new AppServerTransportError("app-server transport cannot answer server requests");
+    }
+    await this.transport.respond(requestId, result);
+  }
+
+  private rejectServerRequest(request: JsonRpcServerRequest, code: number, message: string): void {
+    void this.transport.respondError?.(request.id, code, message).catch(() => undefined);
+  }
+
+  private handleServerRequest(raw: JsonRpcServerRequest): void {
+    if (!isAppServerApprovalRequestMethod(raw.method) || this.approvalRequestListeners.size === 0) {
+      this.rejectServerRequest(raw, JSON_RPC_METHOD_NOT_FOUND, `Unsupported server request: ${raw.method}`);
       return;
     }
 
-    this.transport = new ChildProcessAppServerTransport(transportOrOptions);
+    let request: AppServerApprovalRequest;
+    try {
+      request = parseAppServerApprovalRequest(raw.method, raw.params);
+    } catch (error) {
+      if (!(error instanceof ProtocolValidationError)) {
+        throw error;
+      }
+      this.rejectServerRequest(raw, JSON_RPC_INVALID_PARAMS, error.message);
+      for (const listener of this.notificationErrorListeners) {
+        listener(error, raw);
+      }
+      return;
+    }
+
+    for (const listener of this.approvalRequestListeners) {
+      listener(raw.id, request);
+    }
+  }
+
+  private handleNotification(raw: JsonRpcNotification): void {
+    if (!isAppServerNotificationMethod(raw.method)) {
+      return;
+    }
+
+    let notification: AppServerNotification;
+    try {
+      notification = parseAppServerNotification(raw.method, raw.params);
+    } catch (error) {
+      if (!(error instanceof ProtocolValidationError)) {
+        throw error;
+      }
+      for (const listener of this.notificationErrorListeners) {
+        listener(error, raw);
+      }
+      return;
+    }
+
+    for (const listener of this.notificationListeners) {
+      listener(notification);
+    }
   }
 
   public async close(): Promise<void> {
@@ -157,12 +337,69 @@ export class AppServerClient {
     );
   }
 
+  public async readAccountRateLimits(): Promise<AppServerGetAccountRateLimitsResponse> {
+    const result = await this.transport.request("account/rateLimits/read", undefined);
+    return parseWithSchema(
+      AppServerGetAccountRateLimitsResponseSchema,
+      result,
+      "AppServerGetAccountRateLimitsResponse"
+    );
+  }
+
   public async startThread(options: StartThreadOptions): Promise<AppServerStartThreadResponse> {
     const request = AppServerStartThreadRequestSchema.parse(options);
     const result = await this.transport.request("thread/start", request);
     return parseWithSchema(AppServerStartThreadResponseSchema, result, "AppServerStartThreadResponse");
   }
 
+  public async forkThread(options: ForkThreadOptions): Promise<AppServerForkThreadResponse> {
+    const request = AppServerForkThreadRequestSchema.parse(options);
+    const result = await this.transport.request("thread/fork", request);
+    return parseWithSchema(AppServerForkThreadResponseSchema, result, "AppServerForkThreadResponse");
+  }
+
+  /**
+   * Drops the last `numTurns` turns from the thread history. Local file changes
+   * made during those turns are not reverted.
+   */
+  public async rollbackThread(threadId: string, numTurns: number): Promise<AppServerRollbackThreadResponse> {
+    const request = AppServerRollbackThreadRequestSchema.parse({ threadId, numTurns });
+    const result = await this.transport.request("thread/rollback", request);
+    return parseWithSchema(
+      AppServerRollbackThreadResponseSchema,
+      result,
+      "AppServerRollbackThreadResponse"
+    );
+  }
+
+  public async startThreadCompaction(threadId: string): Promise<void> {
+    const request = AppServerCompactThreadRequestSchema.parse({ threadId });
+    const result = await this.transport.request("thread/compact/start", request);
+    parseWithSchema(AppServerCompactThreadResponseSchema, result, "AppServerCompactThreadResponse");
+  }
+
+  public async archiveThread(threadId: string): Promise<void> {
+    const request = AppServerArchiveThreadRequestSchema.parse({ threadId });
+    const result = await this.transport.request("thread/archive", request);
+    parseWithSchema(AppServerArchiveThreadResponseSchema, result, "AppServerArchiveThreadResponse");
+  }
+
+  public async unarchiveThread(threadId: string): Promise<AppServerUnarchiveThreadResponse> {
+    const request = AppServerUnarchiveThreadRequestSchema.parse({ threadId });
+    const result = await this.transport.request("thread/unarchive", request);
+    return parseWithSchema(
+      AppServerUnarchiveThreadResponseSchema,
+      result,
+      "AppServerUnarchiveThreadResponse"
+    );
+  }
+
+  public async setThreadName(threadId: string, name: string): Promise<void> {
+    const request = AppServerSetThreadNameRequestSchema.parse({ threadId, name });
+    const result = await this.transport.request("thread/name/set", request);
+    parseWithSchema(AppServerSetThreadNameResponseSchema, result, "AppServerSetThreadNameResponse");
+  }
+
   public async sendUserMessage(threadId: string, text: string): Promise<void> {
     const request = AppServerSendUserMessageRequestSchema.parse({
       conversationId: threadId,
@@ -179,21 +416,35 @@ export class AppServerClient {
     parseWithSchema(AppServerSendUserMessageResponseSchema, result, "AppServerSendUserMessageResponse");
   }
 
-  public async startTurn(threadId: string, text: string): Promise<void> {
+  public async startTurn(threadId: string, input: string | InputPart[]): Promise<void> {
     const request = TurnStartParamsSchema.parse({
       threadId,
-      input: [
-        {
-          type: "text",
-          text
-        }
-      ]
+      input: toTurnInput(input)
     });
 
     const result = await this.transport.request("turn/start", request);
     parseWithSchema(AppServerTurnStartResponseSchema, result, "AppServerTurnStartResponse");
   }
 
+  /**
+   * Adds input to the running turn. The app-server rejects the call when
+   * expectedTurnId is not the thread's active turn.
+   */
+  public async steerTurn(
+    threadId: string,
+    expectedTurnId: string,
+    input: string | InputPart[]
+  ): Promise<AppServerSteerTurnResponse> {
+    const request = AppServerSteerTurnRequestSchema.parse({
+      threadId,
+      expectedTurnId,
+      input: toTurnInput(input)
+    });
+
+    const result = await this.transport.request("turn/steer", request);
+    return parseWithSchema(AppServerSteerTurnResponseSchema, result, "AppServerSteerTurnResponse");
+  }
+
   public async resumeThread(threadId: string): Promise<void> {
     await this.transport.request("thread/resume", {
       threadId,
@@ -5,11 +5,26 @@ import {
   AppServerRpcError,
   AppServerTransportError
 } from "./errors.js";
-import { JsonRpcRequestSchema, parseJsonRpcIncomingMessage } from "./json-rpc.js";
+import {
+  JSON_RPC_METHOD_NOT_FOUND,
+  JsonRpcRequestSchema,
+  type JsonRpcNotification,
+  type JsonRpcRequestId,
+  type JsonRpcServerRequest,
+  parseJsonRpcIncomingMessage
+} from "./json-rpc.js";
+
+export type AppServerTransportNotificationListener = (notification: JsonRpcNotification) => void;
+export type AppServerTransportServerRequestListener = (request: JsonRpcServerRequest) => void;
+export type AppServerTransportExitListener = (reason: string) => void;
 
 export interface AppServerTransport {
   request(method: string, params: unknown, timeoutMs?: number): Promise<unknown>;
   close(): Promise<void>;
+  onNotification?(listener: AppServerTransportNotificationListener): () => void;
+  onServerRequest?(listener: AppServerTransportServerRequestListener): () => void;
+  respond?(id: JsonRpcRequestId, result: unknown): Promise<void>;
+  respondError?(id: JsonRpcRequestId, code: number, message: string): Promise<void>;
 }
 
 interface PendingRequest {
@@ -21,21 +36,43 @@ interface PendingRequest {
 export interface ChildProcessAppServerTransportOptions {
   executablePath: string;
   userAgent: string;
+  // Defaults to `app-server`, which starts Codex's JSON-RPC server.
+  args?: string[];
+  // Sent as the `initialize` request params. Defaults to Codex's client info.
+  initializeParams?: unknown;
+  // Names the process in error messages.
+  label?: string;
   cwd?: string;
   env?: NodeJS.ProcessEnv;
   requestTimeoutMs?: number;
   onStderr?: (line: string) => void;
 }
 
+const DEFAULT_INITIALIZE_PARAMS = {
+  clientInfo: {
+    name: "farfield",
+    version: "0.2.0"
+  },
+  capabilities: {
+    experimentalApi: true
+  }
+};
+
 export class ChildProcessAppServerTransport implements AppServerTransport {
   private readonly executablePath: string;
   private readonly userAgent: string;
+  private readonly args: string[];
+  private readonly initializeParams: unknown;
+  private readonly label: string;
   private readonly cwd: string | undefined;
   private readonly env: NodeJS.ProcessEnv | undefined;
   private readonly requestTimeoutMs: number;
   private readonly onStderr: ((line: string) => void) | undefined;
   private process: ChildProcessWithoutNullStreams | null = null;
   private readonly pending = new Map<number, PendingRequest>();
+  private readonly notificationListeners = new Set<AppServerTransportNotificationListener>();
+  private readonly serverRequestListeners = new Set<AppServerTransportServerRequestListener>();
+  private readonly exitListeners = new Set<AppServerTransportExitListener>();
   private requestId = 0;
   private initialized = false;
   private initializeInFlight: Promise<void> | null = null;
@@ -43,18 +80,73 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
   public constructor(options: ChildProcessAppServerTransportOptions) {
     this.executablePath = options.executablePath;
     this.userAgent = options.userAgent;
+    this.args = options.args ?? ["app-server"];
+    this.initializeParams = options.initializeParams ?? DEFAULT_INITIALIZE_PARAMS;
+    this.label = options.label ?? "app-server";
     this.cwd = options.cwd;
     this.env = options.env;
     this.requestTimeoutMs = options.requestTimeoutMs ?? 30_000;
     this.onStderr = options.onStderr;
   }
 
+  public onNotification(listener: AppServerTransportNotificationListener): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  public onServerRequest(listener: AppServerTransportServerRequestListener): () => void {
+    this.serverRequestListeners.add(listener);
+    return () => {
+      this.serverRequestListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called when the child process dies on its own; `close()` does not fire it.
+   * The next request spawns and initializes a fresh process.
+   */
+  public onExit(listener: AppServerTransportExitListener): () => void {
+    this.exitListeners.add(listener);
+    return () => {
+      this.exitListeners.delete(listener);
+    };
+  }
+
+  public async respond(id: JsonRpcRequestId, result: unknown): Promise<void> {
+    await this.writeMessage({
+      jsonrpc: "2.0",
+      id,
+      result
+    });
+  }
+
+  public async notify(method: string, params: unknown): Promise<void> {
+    await this.writeMessage({
+      jsonrpc: "2.0",
+      method,
+      params
+    });
+  }
+
+  public async respondError(id: JsonRpcRequestId, code: number, message: string): Promise<void> {
+    await this.writeMessage({
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code,
+        message
+      }
+    });
+  }
+
   private ensureStarted(): void {
     if (this.process) {
       return;
     }
 
-    const child = spawn(this.executablePath, ["app-server"], {
+    const child = spawn(this.executablePath, this.args, {
       cwd: this.cwd,
       env: {
         ...process.env,
@@ -66,18 +158,11 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
     });
 
     child.on("exit", (code, signal) => {
-      const reason = `app-server exited (code=${String(code)}, signal=${String(signal)})`;
-      this.rejectAll(new AppServerTransportError(reason));
-      this.process = null;
-      this.initialized = false;
-      this.initializeInFlight = null;
+      this.handleExit(child, `${this.label} exited (code=${String(code)}, signal=${String(signal)})`);
     });
 
     child.on("error", (error) => {
-      this.rejectAll(new AppServerTransportError(`app-server process error: ${error.message}`));
-      this.process = null;
-      this.initialized = false;
-      this.initializeInFlight = null;
+      this.handleExit(child, `${this.label} process error: ${error.message}`);
     });
 
     const lineReader = readline.createInterface({ input: child.stdout });
@@ -91,7 +176,7 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
       try {
         raw = JSON.parse(trimmed);
       } catch {
-        this.rejectAll(new AppServerTransportError("app-server returned invalid JSON"));
+        this.rejectAll(new AppServerTransportError(`${this.label} returned invalid JSON`));
         return;
       }
 
@@ -101,13 +186,19 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
       } catch (error) {
         this.rejectAll(
           new AppServerTransportError(
-            `app-server response schema mismatch: ${error instanceof Error ? error.message : String(error)}`
+            `${this.label} response schema mismatch: ${error instanceof Error ? error.message : String(error)}`
           )
         );
         return;
       }
 
       if (message.kind === "notification") {
+        this.emitNotification(message.value);
+        return;
+      }
+
+      if (message.kind === "request") {
+        this.emitServerRequest(message.value);
         return;
       }
 
@@ -150,6 +241,73 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
     this.process = child;
   }
 
+  private handleExit(child: ChildProcessWithoutNullStreams, reason: string): void {
+    // A closed or already replaced process has nothing left to clean up.
+    if (this.process !== child) {
+      return;
+    }
+
+    this.rejectAll(new AppServerTransportError(reason));
+    this.process = null;
+    this.initialized = false;
+    this.initializeInFlight = null;
+
+    for (const listener of this.exitListeners) {
+      try {
+        listener(reason);
+      } catch {
+        // Listener failures must not keep the transport from restarting.
+      }
+    }
+  }
+
+  private emitNotification(notification: JsonRpcNotification): void {
+    for (const listener of this.notificationListeners) {
+      try {
+        listener(notification);
+      } catch {
+        // Listener failures must not break the protocol read loop.
+      }
+    }
+  }
+
+  private emitServerRequest(request: JsonRpcServerRequest): void {
+    if (this.serverRequestListeners.size === 0) {
+      void this.respondError(
+        request.id,
+        JSON_RPC_METHOD_NOT_FOUND,
+        `Unsupported server request: ${request.method}`
+      ).catch(() => undefined);
+      return;
+    }
+
+    for (const listener of this.serverRequestListeners) {
+      try {
+        listener(request);
+      } catch {
+        // Listener failures must not break the protocol read loop.
+      }
+    }
+  }
+
+  private async writeMessage(payload: unknown): Promise<void> {
+    const processHandle = this.process;
+    if (!processHandle) {
+      throw new AppServerTransportError(`${this.label} is not running`);
+    }
+
+    const encoded = JSON.stringify(payload) + "\n";
+    await new Promise<void>((resolve, reject) => {
+      processHandle.stdin.write(encoded, (error) => {
+        if (error) {
+          reject(new AppServerTransportError(`failed to write ${this.label} message: ${error.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
   private rejectAll(error: Error): void {
     for (const { timer, reject } of this.pending.values()) {
       clearTimeout(timer);
@@ -161,7 +319,7 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
   private async sendRequest(method: string, params: unknown, timeoutMs?: number): Promise<unknown> {
     const processHandle = this.process;
     if (!processHandle) {
-      throw new AppServerTransportError("app-server failed to start");
+      throw new AppServerTransportError(`${this.label} failed to start`);
     }
 
     const id = ++this.requestId;
@@ -177,7 +335,7 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
     return new Promise((resolve, reject) => {
       const timer = setTimeout(() => {
         this.pending.delete(id);
-        reject(new AppServerTransportError(`app-server request timed out: ${method}`));
+        reject(new AppServerTransportError(`${this.label} request timed out: ${method}`));
       }, timeout);
 
       this.pending.set(id, { timer, resolve, reject });
@@ -194,7 +352,7 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
 
         clearTimeout(pending.timer);
         this.pending.delete(id);
-        pending.reject(new AppServerTransportError(`failed to write app-server request: ${error.message}`));
+        pending.reject(new AppServerTransportError(`failed to write ${this.label} request: ${error.message}`));
       });
     });
   }
@@ -209,22 +367,10 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
     }
 
     this.initializeInFlight = (async () => {
-      const result = await this.sendRequest(
-        "initialize",
-        {
-          clientInfo: {
-            name: "farfield",
-            version: "0.2.0"
-          },
-          capabilities: {
-            experimentalApi: true
-          }
-        },
-        this.requestTimeoutMs
-      );
+      const result = await this.sendRequest("initialize", this.initializeParams, this.requestTimeoutMs);
 
       if (!result || typeof result !== "object") {
-        throw new AppServerTransportError("app-server initialize returned invalid result");
+        throw new AppServerTransportError(`${this.label} initialize returned invalid result`);
       }
 
       this.initialized = true;
@@ -258,7 +404,7 @@ export class ChildProcessAppServerTransport implements AppServerTransport {
     this.process = null;
     this.initialized = false;
     this.initializeInFlight = null;
-    this.rejectAll(new AppServerTransportError("app-server transport closed"));
+    this.rejectAll(new AppServerTransportError(`${this.label} transport closed`));
 
     processHandle.kill("SIGTERM");
   }
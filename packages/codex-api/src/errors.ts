@@ -30,3 +30,10 @@ export class DesktopIpcError extends Error {
     this.name = "DesktopIpcError";
   }
 }
+
+export class IpcTraceError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = "IpcTraceError";
+  }
+}
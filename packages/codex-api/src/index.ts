@@ -2,5 +2,7 @@ export * from "./app-server-client.js";
 export * from "./app-server-transport.js";
 export * from "./errors.js";
 export * from "./ipc-client.js";
+export * from "./ipc-replay.js";
+export * from "./json-rpc.js";
 export * from "./live-state.js";
 export * from "./service.js";
@@ -0,0 +1,344 @@
+import fs from "node:fs";
+import net from "node:net";
+import {
+  IpcResponseFrameSchema,
+  type IpcFrame,
+  type IpcResponseFrame,
+  parseIpcFrame
+} from "@farfield/protocol";
+import { IpcTraceError } from "./errors.js";
+
+export interface IpcTraceFrame {
+  // Milliseconds after the first IPC frame of the trace.
+  offsetMs: number;
+  direction: "in" | "out";
+  frame: IpcFrame;
+}
+
+export interface IpcReplayServerOptions {
+  socketPath: string;
+  frames: IpcTraceFrame[];
+  // Playback rate; 2 halves every gap, Infinity sends frames back to back.
+  speed?: number;
+}
+
+export type IpcReplayFinishedListener = () => void;
+
+const MAX_FRAME_SIZE_BYTES = 256 * 1024 * 1024;
+const REPLAY_DESKTOP_CLIENT_ID = "replay-desktop";
+
+/**
+ * Extracts the IPC frames from a trace written by the server's trace
+ * recorder. Markers and non-IPC history entries are skipped; anything that
+ * is not a valid frame throws with its line number.
+ */
+export function parseIpcTrace(contents: string): IpcTraceFrame[] {
+  const frames: IpcTraceFrame[] = [];
+  let firstAt: number | null = null;
+
+  const lines = contents.split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index]?.trim();
+    if (!line) {
+      continue;
+    }
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new IpcTraceError(`Trace line ${String(index + 1)} is not valid JSON`);
+    }
+
+    if (!entry || typeof entry !== "object") {
+      throw new IpcTraceError(`Trace line ${String(index + 1)} is not an object`);
+    }
+
+    const record = entry as Record<string, unknown>;
+    if (record["type"] !== "history" || record["source"] !== "ipc") {
+      continue;
+    }
+
+    const direction = record["direction"];
+    if (direction !== "in" && direction !== "out") {
+      throw new IpcTraceError(`Trace line ${String(index + 1)} has an invalid direction`);
+    }
+
+    const at = typeof record["at"] === "string" ? Date.parse(record["at"]) : Number.NaN;
+    if (Number.isNaN(at)) {
+      throw new IpcTraceError(`Trace line ${String(index + 1)} has an invalid timestamp`);
+    }
+
+    let frame: IpcFrame;
+    try {
+      frame = parseIpcFrame(record["payload"]);
+    } catch (error) {
+      throw new IpcTraceError(
+        `Trace line ${String(index + 1)}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    firstAt ??= at;
+    frames.push({
+      offsetMs: Math.max(0, at - firstAt),
+      direction,
+      frame
+    });
+  }
+
+  return frames;
+}
+
+export function readIpcTrace(filePath: string): IpcTraceFrame[] {
+  return parseIpcTrace(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Stands in for the Codex desktop app on an IPC socket. Once a client has
+ * initialized, the frames the desktop app sent in the trace are replayed on
+ * their recorded timing, and the client's requests are answered with the
+ * recorded response for the same method.
+ */
+export class IpcReplayServer {
+  private readonly socketPath: string;
+  private readonly playback: IpcTraceFrame[];
+  private readonly responses = new Map<string, IpcResponseFrame[]>();
+  private readonly speed: number;
+  private readonly connections = new Set<ReplayConnection>();
+  private readonly finishedListeners = new Set<IpcReplayFinishedListener>();
+  private server: net.Server | null = null;
+  private nextClientNumber = 0;
+
+  public constructor(options: IpcReplayServerOptions) {
+    const speed = options.speed ?? 1;
+    if (!(speed > 0)) {
+      throw new IpcTraceError("Replay speed must be greater than zero");
+    }
+
+    this.socketPath = options.socketPath;
+    this.speed = speed;
+    // Frames the desktop app sent; "out" frames were the recording client's own.
+    this.playback = options.frames.filter(
+      (entry) =>
+        entry.direction === "in" &&
+        (entry.frame.type === "broadcast" ||
+          entry.frame.type === "request" ||
+          entry.frame.type === "client-discovery-request")
+    );
+
+    for (const entry of options.frames) {
+      if (entry.direction !== "in" || entry.frame.type !== "response" || !entry.frame.method) {
+        continue;
+      }
+      const queue = this.responses.get(entry.frame.method) ?? [];
+      queue.push(entry.frame);
+      this.responses.set(entry.frame.method, queue);
+    }
+  }
+
+  public onFinished(listener: IpcReplayFinishedListener): () => void {
+    this.finishedListeners.add(listener);
+    return () => {
+      this.finishedListeners.delete(listener);
+    };
+  }
+
+  public async listen(): Promise<void> {
+    if (this.server) {
+      throw new IpcTraceError("Replay server is already listening");
+    }
+
+    const server = net.createServer((socket) => {
+      const connection = new ReplayConnection(socket, {
+        clientId: `replay-client-${String(++this.nextClientNumber)}`,
+        responses: this.responses,
+        onInitialized: () => this.startPlayback(connection)
+      });
+      this.connections.add(connection);
+      socket.on("close", () => {
+        connection.stop();
+        this.connections.delete(connection);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  public async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    for (const connection of this.connections) {
+      connection.stop();
+      connection.socket.destroy();
+    }
+    this.connections.clear();
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+    if (process.platform !== "win32") {
+      try {
+        fs.unlinkSync(this.socketPath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private startPlayback(connection: ReplayConnection): void {
+    const finish = (): void => {
+      for (const listener of this.finishedListeners) {
+        listener();
+      }
+    };
+
+    if (this.playback.length === 0) {
+      finish();
+      return;
+    }
+
+    this.playback.forEach((entry, index) => {
+      const delay = Number.isFinite(this.speed) ? entry.offsetMs / this.speed : 0;
+      connection.schedule(delay, () => {
+        connection.write(entry.frame);
+        if (index === this.playback.length - 1) {
+          finish();
+        }
+      });
+    });
+  }
+}
+
+interface ReplayConnectionHandlers {
+  // Assigned to the client in the initialize response.
+  clientId: string;
+  responses: ReadonlyMap<string, IpcResponseFrame[]>;
+  onInitialized: () => void;
+}
+
+class ReplayConnection {
+  private responseQueues = new Map<string, IpcResponseFrame[]>();
+  private buffer = Buffer.alloc(0);
+  private readonly timers = new Set<NodeJS.Timeout>();
+
+  public constructor(
+    public readonly socket: net.Socket,
+    private readonly handlers: ReplayConnectionHandlers
+  ) {
+    socket.on("data", (chunk) => this.handleData(chunk));
+    socket.on("error", () => {
+      socket.destroy();
+    });
+  }
+
+  public schedule(delayMs: number, callback: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  public stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  public write(frame: unknown): void {
+    if (this.socket.destroyed) {
+      return;
+    }
+    const encoded = Buffer.from(JSON.stringify(frame), "utf8");
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(encoded.length, 0);
+    this.socket.write(Buffer.concat([header, encoded]));
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 4) {
+      const size = this.buffer.readUInt32LE(0);
+      if (size > MAX_FRAME_SIZE_BYTES) {
+        this.socket.destroy();
+        return;
+      }
+      if (this.buffer.length < 4 + size) {
+        return;
+      }
+
+      const payload = this.buffer.subarray(4, 4 + size);
+      this.buffer = this.buffer.subarray(4 + size);
+
+      let frame: IpcFrame;
+      try {
+        frame = parseIpcFrame(JSON.parse(payload.toString("utf8")));
+      } catch {
+        this.socket.destroy();
+        return;
+      }
+
+      if (frame.type === "request") {
+        this.handleRequest(frame.requestId, frame.method);
+      }
+    }
+  }
+
+  private handleRequest(requestId: string, method: string): void {
+    if (method === "initialize") {
+      this.write(
+        IpcResponseFrameSchema.parse({
+          type: "response",
+          requestId,
+          method,
+          handledByClientId: REPLAY_DESKTOP_CLIENT_ID,
+          resultType: "success",
+          result: { clientId: this.handlers.clientId }
+        })
+      );
+      // Each initialize replays from the start, so a reconnecting client sees the whole trace.
+      this.stop();
+      this.responseQueues = new Map(
+        Array.from(this.handlers.responses, ([recordedMethod, queue]) => [recordedMethod, [...queue]])
+      );
+      this.handlers.onInitialized();
+      return;
+    }
+
+    const recorded = this.takeResponse(method);
+    this.write(
+      recorded
+        ? { ...recorded, requestId }
+        : {
+            type: "response",
+            requestId,
+            method,
+            resultType: "error",
+            error: "no-handler-for-request"
+          }
+    );
+  }
+
+  private takeResponse(method: string): IpcResponseFrame | null {
+    const queue = this.responseQueues.get(method);
+    if (!queue || queue.length === 0) {
+      return null;
+    }
+    // The last recorded response keeps answering once the earlier ones are used up.
+    return queue.length > 1 ? queue.shift()! : queue[0]!;
+  }
+}
@@ -1,6 +1,9 @@
 import { z } from "zod";
 import { ProtocolValidationError } from "@farfield/protocol";
 
+export const JSON_RPC_METHOD_NOT_FOUND = -32601;
+export const JSON_RPC_INVALID_PARAMS = -32602;
+
 export const JsonRpcRequestSchema = z
   .object({
     jsonrpc: z.literal("2.0"),
@@ -54,11 +57,32 @@ export const JsonRpcNotificationSchema = z
 
 export type JsonRpcNotification = z.infer<typeof JsonRpcNotificationSchema>;
 
+export const JsonRpcServerRequestSchema = z
+  .object({
+    jsonrpc: z.literal("2.0").optional(),
+    id: z.union([z.string().min(1), z.number().int()]),
+    method: z.string().min(1),
+    params: z.unknown().optional()
+  })
+  .passthrough();
+
+export type JsonRpcServerRequest = z.infer<typeof JsonRpcServerRequestSchema>;
+export type JsonRpcRequestId = JsonRpcServerRequest["id"];
+
 export type JsonRpcIncomingMessage =
   | { kind: "response"; value: JsonRpcResponse }
+  | { kind: "request"; value: JsonRpcServerRequest }
   | { kind: "notification"; value: JsonRpcNotification };
 
 export function parseJsonRpcIncomingMessage(value: unknown): JsonRpcIncomingMessage {
+  const parsedRequest = JsonRpcServerRequestSchema.safeParse(value);
+  if (parsedRequest.success) {
+    return {
+      kind: "request",
+      value: parsedRequest.data
+    };
+  }
+
   const parsedResponse = JsonRpcResponseSchema.safeParse(value);
   if (parsedResponse.success) {
     return {
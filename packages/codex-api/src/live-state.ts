@@ -1,13 +1,14 @@
 import {
+  ProtocolValidationError,
+  ThreadConversationStateSchema,
   type ThreadConversationState,
-  parseThreadConversationState,
+  ThreadRequestSchema,
+  ThreadTurnSchema,
   type ThreadStreamPatch,
-  type ThreadStreamStateChangedBroadcast
+  type ThreadStreamStateChangedBroadcast,
+  TurnItemSchema
 } from "@farfield/protocol";
-
-function cloneState<T>(value: T): T {
-  return JSON.parse(JSON.stringify(value)) as T;
-}
+import { z } from "zod";
 
 function patchPathSegmentLabel(segment: number | string): string {
   return typeof segment === "number" ? `[${segment}]` : segment;
@@ -41,12 +42,87 @@ function assertPathExists(target: unknown, path: (number | string)[]): void {
   }
 }
 
+function parseScoped<Schema extends z.ZodTypeAny>(
+  schema: Schema,
+  value: unknown,
+  context: string
+): z.infer<Schema> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw ProtocolValidationError.fromZod(context, result.error);
+  }
+  return result.data;
+}
+
+// Only the subtree touched by a patch is validated, so long threads are not
+// re-parsed in full for every streamed token.
+function validatePatchedState(
+  state: Record<string, unknown>,
+  path: (number | string)[]
+): ThreadConversationState {
+  const [root, index, child, childIndex] = path;
+
+  if (root === "turns") {
+    const turns = state["turns"];
+    if (typeof index !== "number" || !Array.isArray(turns)) {
+      parseScoped(z.array(ThreadTurnSchema), turns, "ThreadConversationState.turns");
+      return state as ThreadConversationState;
+    }
+    if (index >= turns.length) {
+      return state as ThreadConversationState;
+    }
+
+    const turn = turns[index] as Record<string, unknown>;
+    const context = `ThreadConversationState.turns[${String(index)}]`;
+    if (child === undefined) {
+      parseScoped(ThreadTurnSchema, turn, context);
+    } else if (child !== "items") {
+      parseScoped(ThreadTurnSchema, { ...turn, items: [] }, context);
+    } else if (typeof childIndex !== "number") {
+      parseScoped(z.array(TurnItemSchema), turn["items"], `${context}.items`);
+    } else {
+      const items = turn["items"] as unknown[];
+      if (childIndex < items.length) {
+        parseScoped(TurnItemSchema, items[childIndex], `${context}.items[${String(childIndex)}]`);
+      }
+    }
+    return state as ThreadConversationState;
+  }
+
+  if (root === "requests") {
+    const requests = state["requests"];
+    if (typeof index !== "number" || !Array.isArray(requests)) {
+      state["requests"] = parseScoped(
+        ThreadConversationStateSchema.shape.requests,
+        requests,
+        "ThreadConversationState.requests"
+      );
+    } else if (index < requests.length) {
+      parseScoped(
+        ThreadRequestSchema,
+        requests[index],
+        `ThreadConversationState.requests[${String(index)}]`
+      );
+    }
+    return state as ThreadConversationState;
+  }
+
+  const shell = parseScoped(
+    ThreadConversationStateSchema,
+    { ...state, turns: [] },
+    "ThreadConversationState"
+  );
+  return { ...shell, turns: state["turns"] as ThreadConversationState["turns"] };
+}
+
+/**
+ * Applies one patch without mutating `source`. Containers along the patch path
+ * are copied and everything else is shared with the previous state.
+ */
 export function applyStrictPatch(
   source: ThreadConversationState,
   patch: ThreadStreamPatch
 ): ThreadConversationState {
-  const state = cloneState(source);
-
   if (patch.path.length === 0) {
     throw new Error("Patch path cannot be empty");
   }
@@ -54,22 +130,22 @@ export function applyStrictPatch(
   const parentPath = patch.path.slice(0, -1);
   const last = patch.path[patch.path.length - 1];
 
-  assertPathExists(state, parentPath);
+  assertPathExists(source, parentPath);
 
+  const state: Record<string, unknown> = { ...source };
   let parent: unknown = state;
   for (const segment of parentPath) {
-    if (typeof segment === "number") {
-      parent = (parent as unknown[])[segment];
-      continue;
-    }
-
-    parent = (parent as Record<string, unknown>)[segment];
+    const container = parent as Record<number | string, unknown>;
+    const child = container[segment];
+    const copy = Array.isArray(child) ? child.slice() : { ...(child as Record<string, unknown>) };
+    container[segment] = copy;
+    parent = copy;
   }
 
   if (Array.isArray(parent) && typeof last === "number") {
     if (patch.op === "add") {
       parent.splice(last, 0, patch.value);
-      return parseThreadConversationState(state);
+      return validatePatchedState(state, patch.path);
     }
 
     if (patch.op === "replace") {
@@ -77,7 +153,7 @@ export function applyStrictPatch(
         throw new Error(`Patch replace index out of range: ${String(last)}`);
       }
       parent[last] = patch.value;
-      return parseThreadConversationState(state);
+      return validatePatchedState(state, patch.path);
     }
 
     if (patch.op === "remove") {
@@ -85,7 +161,7 @@ export function applyStrictPatch(
         throw new Error(`Patch remove index out of range: ${String(last)}`);
       }
       parent.splice(last, 1);
-      return parseThreadConversationState(state);
+      return validatePatchedState(state, patch.path);
     }
   }
 
@@ -100,11 +176,11 @@ export function applyStrictPatch(
         throw new Error(`Patch remove key missing: ${last}`);
       }
       delete (parent as Record<string, unknown>)[last];
-      return parseThreadConversationState(state);
+      return validatePatchedState(state, patch.path);
     }
 
     (parent as Record<string, unknown>)[last] = patch.value;
-    return parseThreadConversationState(state);
+    return validatePatchedState(state, patch.path);
   }
 
   throw new Error("Patch target type mismatch");
@@ -150,45 +226,68 @@ function toErrorMessage(error: unknown): string {
   return String(error);
 }
 
-export function reduceThreadStreamEvents(
-  events: ThreadStreamStateChangedBroadcast[]
-): Map<string, ThreadStreamDerivedState> {
-  const byThread = new Map<string, ThreadStreamDerivedState>();
+/**
+ * Keeps the reduced state of every thread and folds in one broadcast at a time,
+ * so each frame costs only its own patches instead of a replay of the stream.
+ */
+export class ThreadStreamReducer {
+  private readonly stateByThreadId = new Map<string, ThreadStreamDerivedState>();
 
-  for (let eventIndex = 0; eventIndex < events.length; eventIndex += 1) {
-    const event = events[eventIndex] as ThreadStreamStateChangedBroadcast;
+  public get(threadId: string): ThreadStreamDerivedState | null {
+    return this.stateByThreadId.get(threadId) ?? null;
+  }
+
+  public delete(threadId: string): void {
+    this.stateByThreadId.delete(threadId);
+  }
+
+  public entries(): Map<string, ThreadStreamDerivedState> {
+    return new Map(this.stateByThreadId);
+  }
+
+  /**
+   * Applies one broadcast. When a patch fails, the thread drops its state and
+   * ignores patches until the next snapshot frame, then rethrows the failure.
+   */
+  public apply(event: ThreadStreamStateChangedBroadcast, eventIndex = 0): ThreadStreamDerivedState {
     const threadId = event.params.conversationId;
-    const previous = byThread.get(threadId) ?? {
+    const previous = this.stateByThreadId.get(threadId) ?? {
       ownerClientId: null,
       conversationState: null
     };
 
-    const next: ThreadStreamDerivedState = {
-      ownerClientId: event.sourceClientId,
-      conversationState: previous.conversationState
-    };
-
     const change = event.params.change;
 
     if (change.type === "snapshot") {
-      next.conversationState = change.conversationState;
-      byThread.set(threadId, next);
-      continue;
+      const next: ThreadStreamDerivedState = {
+        ownerClientId: event.sourceClientId,
+        conversationState: change.conversationState
+      };
+      this.stateByThreadId.set(threadId, next);
+      return next;
     }
 
-    if (!next.conversationState) {
+    if (!previous.conversationState) {
       // The desktop app can emit patches before the first snapshot for a thread.
       // Ignore these until we have a concrete base state.
-      byThread.set(threadId, next);
-      continue;
+      const next: ThreadStreamDerivedState = {
+        ownerClientId: event.sourceClientId,
+        conversationState: null
+      };
+      this.stateByThreadId.set(threadId, next);
+      return next;
     }
 
-    let updated = next.conversationState;
+    let updated = previous.conversationState;
     for (let patchIndex = 0; patchIndex < change.patches.length; patchIndex += 1) {
       const patch = change.patches[patchIndex] as ThreadStreamPatch;
       try {
         updated = applyStrictPatch(updated, patch);
       } catch (error) {
+        this.stateByThreadId.set(threadId, {
+          ownerClientId: event.sourceClientId,
+          conversationState: null
+        });
         throw new ThreadStreamReductionError(
           `Thread stream reduction failed for thread ${threadId} at event ${eventIndex}, patch ${patchIndex}: ${toErrorMessage(
             error
@@ -205,11 +304,25 @@ export function reduceThreadStreamEvents(
       }
     }
 
-    next.conversationState = updated;
-    byThread.set(threadId, next);
+    const next: ThreadStreamDerivedState = {
+      ownerClientId: event.sourceClientId,
+      conversationState: updated
+    };
+    this.stateByThreadId.set(threadId, next);
+    return next;
+  }
+}
+
+export function reduceThreadStreamEvents(
+  events: ThreadStreamStateChangedBroadcast[]
+): Map<string, ThreadStreamDerivedState> {
+  const reducer = new ThreadStreamReducer();
+
+  for (let eventIndex = 0; eventIndex < events.length; eventIndex += 1) {
+    reducer.apply(events[eventIndex] as ThreadStreamStateChangedBroadcast, eventIndex);
   }
 
-  return byThread;
+  return reducer.entries();
 }
 
 export function findLatestTurnParamsTemplate(
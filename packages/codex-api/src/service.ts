@@ -1,4 +1,5 @@
 import {
+  type InputPart,
   type TurnStartParams,
   type CollaborationMode,
   parseUserInputResponsePayload,
@@ -10,6 +11,8 @@ export interface SendMessageInput {
   threadId: string;
   ownerClientId: string;
   text: string;
+  // Sent after the text, e.g. local images.
+  input?: InputPart[];
   cwd?: string;
   isSteering?: boolean;
   turnStartTemplate: TurnStartParams;
@@ -54,7 +57,7 @@ export class CodexMonitorService {
     const turnStartParams = {
       ...template,
       threadId: input.threadId,
-      input: [{ type: "text" as const, text }],
+      input: [{ type: "text" as const, text }, ...(input.input ?? [])],
       cwd: input.cwd ?? template.cwd,
       attachments: Array.isArray(template.attachments) ? template.attachments : []
     };
@@ -1,6 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
 import { AppServerClient } from "../src/app-server-client.js";
-import type { AppServerTransport } from "../src/app-server-transport.js";
+import type {
+  AppServerTransport,
+  AppServerTransportNotificationListener,
+  AppServerTransportServerRequestListener
+} from "../src/app-server-transport.js";
 
 describe("AppServerClient.sendUserMessage", () => {
   it("sends the expected request payload", async () => {
@@ -35,3 +39,285 @@ describe("AppServerClient.sendUserMessage", () => {
     await expect(client.sendUserMessage("thread-1", "hello")).resolves.toBeUndefined();
   });
 });
+
+describe("AppServerClient thread history actions", () => {
+  const thread = {
+    id: "thread-2",
+    preview: "hello",
+    modelProvider: "openai",
+    createdAt: 1700000000,
+    updatedAt: 1700000000,
+    cwd: "/tmp/workspace",
+    cliVersion: "0.1.0",
+    source: "vscode",
+    turns: []
+  };
+
+  it("forks a thread", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({ thread, model: "gpt-5.3-codex", cwd: "/tmp/workspace" }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    const result = await client.forkThread({ threadId: "thread-1" });
+
+    expect(transport.request).toHaveBeenCalledWith("thread/fork", { threadId: "thread-1" });
+    expect(result.thread.id).toBe("thread-2");
+  });
+
+  it("rolls back turns and rejects empty rollbacks", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({ thread }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    await client.rollbackThread("thread-2", 2);
+    await expect(client.rollbackThread("thread-2", 0)).rejects.toThrow();
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(transport.request).toHaveBeenCalledWith("thread/rollback", { threadId: "thread-2", numTurns: 2 });
+  });
+
+  it("starts context compaction", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({}),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    await client.startThreadCompaction("thread-1");
+
+    expect(transport.request).toHaveBeenCalledWith("thread/compact/start", { threadId: "thread-1" });
+  });
+});
+
+describe("AppServerClient thread metadata actions", () => {
+  it("archives and renames threads", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({}),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    await client.archiveThread("thread-1");
+    await client.setThreadName("thread-1", "  Release prep ");
+    await expect(client.setThreadName("thread-1", "   ")).rejects.toThrow();
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(transport.request).toHaveBeenNthCalledWith(1, "thread/archive", { threadId: "thread-1" });
+    expect(transport.request).toHaveBeenNthCalledWith(2, "thread/name/set", {
+      threadId: "thread-1",
+      name: "Release prep"
+    });
+  });
+});
+
+describe("AppServerClient account", () => {
+  it("reads account rate limits", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({
+        rateLimits: { primary: { usedPercent: 12, windowDurationMins: 300 }, secondary: null }
+      }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    const result = await client.readAccountRateLimits();
+
+    expect(result.rateLimits.primary?.usedPercent).toBe(12);
+    expect(transport.request).toHaveBeenCalledWith("account/rateLimits/read", undefined);
+  });
+});
+
+describe("AppServerClient turn steering", () => {
+  it("steers the active turn", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({ turnId: "turn-2" }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    const result = await client.steerTurn("thread-1", "turn-2", "also update the docs");
+
+    expect(result.turnId).toBe("turn-2");
+    expect(transport.request).toHaveBeenCalledWith("turn/steer", {
+      threadId: "thread-1",
+      expectedTurnId: "turn-2",
+      input: [{ type: "text", text: "also update the docs" }]
+    });
+  });
+
+  it("rejects steer responses without a turn id", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({}),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    await expect(client.steerTurn("thread-1", "turn-2", "hello")).rejects.toThrow();
+  });
+});
+
+describe("AppServerClient turn input", () => {
+  it("starts turns with text and local image input", async () => {
+    const transport: AppServerTransport = {
+      request: vi.fn().mockResolvedValue({ turn: { id: "turn-3", status: "inProgress", items: [] } }),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const client = new AppServerClient(transport);
+    await client.startTurn("thread-1", [
+      { type: "text", text: "what is wrong here?" },
+      { type: "localImage", path: "/tmp/uploads/screenshot.png" }
+    ]);
+
+    expect(transport.request).toHaveBeenCalledWith("turn/start", {
+      threadId: "thread-1",
+      input: [
+        { type: "text", text: "what is wrong here?" },
+        { type: "localImage", path: "/tmp/uploads/screenshot.png" }
+      ]
+    });
+  });
+});
+
+describe("AppServerClient notifications", () => {
+  function createNotifyingTransport(): {
+    transport: AppServerTransport;
+    emit: AppServerTransportNotificationListener;
+  } {
+    const listeners = new Set<AppServerTransportNotificationListener>();
+    return {
+      transport: {
+        request: vi.fn().mockResolvedValue({}),
+        close: vi.fn().mockResolvedValue(undefined),
+        onNotification: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        }
+      },
+      emit: (notification) => {
+        for (const listener of listeners) {
+          listener(notification);
+        }
+      }
+    };
+  }
+
+  it("routes typed notifications to method subscribers", () => {
+    const { transport, emit } = createNotifyingTransport();
+    const client = new AppServerClient(transport);
+    const deltas: string[] = [];
+    const all: string[] = [];
+
+    client.onNotification((notification) => all.push(notification.method));
+    client.onNotificationMethod("item/agentMessage/delta", (params) => deltas.push(params.delta));
+
+    emit({
+      jsonrpc: "2.0",
+      method: "item/agentMessage/delta",
+      params: { threadId: "thread-1", turnId: "turn-1", itemId: "item-1", delta: "hi" }
+    });
+    emit({
+      jsonrpc: "2.0",
+      method: "thread/archived",
+      params: { threadId: "thread-1" }
+    });
+    emit({ jsonrpc: "2.0", method: "unknown/notification", params: {} });
+
+    expect(deltas).toEqual(["hi"]);
+    expect(all).toEqual(["item/agentMessage/delta", "thread/archived"]);
+  });
+
+  it("reports notifications that fail validation", () => {
+    const { transport, emit } = createNotifyingTransport();
+    const client = new AppServerClient(transport);
+    const listener = vi.fn();
+    const errors: string[] = [];
+
+    client.onNotification(listener);
+    client.onNotificationError((error, notification) => {
+      errors.push(`${notification.method}: ${error.name}`);
+    });
+
+    emit({ jsonrpc: "2.0", method: "item/agentMessage/delta", params: { threadId: "thread-1" } });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(errors).toEqual(["item/agentMessage/delta: ProtocolValidationError"]);
+  });
+});
+
+describe("AppServerClient approval requests", () => {
+  function createRequestingTransport(): {
+    transport: AppServerTransport;
+    emit: AppServerTransportServerRequestListener;
+  } {
+    const listeners = new Set<AppServerTransportServerRequestListener>();
+    return {
+      transport: {
+        request: vi.fn().mockResolvedValue({}),
+        close: vi.fn().mockResolvedValue(undefined),
+        onServerRequest: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        respond: vi.fn().mockResolvedValue(undefined),
+        respondError: vi.fn().mockResolvedValue(undefined)
+      },
+      emit: (request) => {
+        for (const listener of listeners) {
+          listener(request);
+        }
+      }
+    };
+  }
+
+  it("surfaces approval requests and sends typed decisions", async () => {
+    const { transport, emit } = createRequestingTransport();
+    const client = new AppServerClient(transport);
+    const received: Array<string | number> = [];
+
+    client.onApprovalRequest((requestId, request) => {
+      received.push(requestId);
+      expect(request.method).toBe("item/commandExecution/requestApproval");
+    });
+
+    emit({
+      jsonrpc: "2.0",
+      id: 7,
+      method: "item/commandExecution/requestApproval",
+      params: { threadId: "thread-1", turnId: "turn-1", itemId: "item-1", command: "npm test" }
+    });
+    await client.respondToCommandExecutionApproval(7, {
+      acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] }
+    });
+
+    expect(received).toEqual([7]);
+    expect(transport.respond).toHaveBeenCalledWith(7, {
+      decision: { acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] } }
+    });
+  });
+
+  it("rejects server requests it cannot handle", () => {
+    const { transport, emit } = createRequestingTransport();
+    const client = new AppServerClient(transport);
+    client.onApprovalRequest(vi.fn());
+
+    emit({ jsonrpc: "2.0", id: "req-1", method: "item/tool/requestUserInput", params: {} });
+    emit({
+      jsonrpc: "2.0",
+      id: "req-2",
+      method: "item/fileChange/requestApproval",
+      params: { threadId: "thread-1" }
+    });
+
+    expect(transport.respondError).toHaveBeenCalledWith(
+      "req-1",
+      -32601,
+      "Unsupported server request: item/tool/requestUserInput"
+    );
+    expect(transport.respondError).toHaveBeenCalledWith("req-2", -32602, expect.any(String));
+  });
+});
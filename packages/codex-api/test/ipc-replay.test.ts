@@ -0,0 +1,144 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { IpcFrame } from "@farfield/protocol";
+import { DesktopIpcClient } from "../src/ipc-client.js";
+import { IpcReplayServer, parseIpcTrace } from "../src/ipc-replay.js";
+
+function historyLine(at: string, direction: "in" | "out", payload: unknown): string {
+  return JSON.stringify({ type: "history", id: at, at, source: "ipc", direction, payload, meta: {} });
+}
+
+function streamBroadcast(version: number): unknown {
+  return {
+    type: "broadcast",
+    method: "thread-stream-state-changed",
+    sourceClientId: "desktop-1",
+    version: 1,
+    params: {
+      conversationId: "thread-1",
+      type: "thread-stream-state-changed",
+      version,
+      change: {
+        type: "patches",
+        patches: [{ op: "replace", path: ["title"], value: `Title ${String(version)}` }]
+      }
+    }
+  };
+}
+
+const TRACE = [
+  JSON.stringify({ type: "trace-start", id: "trace-1", label: "sample", startedAt: "2026-02-17T00:00:00.000Z" }),
+  historyLine("2026-02-17T00:00:01.000Z", "in", streamBroadcast(1)),
+  historyLine("2026-02-17T00:00:01.200Z", "out", {
+    type: "request",
+    requestId: "monitor-preview-request-id",
+    method: "thread-follower-interrupt-turn",
+    params: { conversationId: "thread-1" }
+  }),
+  historyLine("2026-02-17T00:00:01.300Z", "in", {
+    type: "response",
+    requestId: "original-request",
+    method: "thread-follower-interrupt-turn",
+    resultType: "success",
+    result: { ok: true }
+  }),
+  JSON.stringify({ type: "trace-marker", at: "2026-02-17T00:00:01.500Z", note: "interrupted" }),
+  JSON.stringify({ type: "history", id: "app-1", at: "2026-02-17T00:00:01.600Z", source: "app", direction: "in", payload: {}, meta: {} }),
+  historyLine("2026-02-17T00:00:02.000Z", "in", streamBroadcast(2))
+].join("\n");
+
+let tempDir = "";
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "farfield-replay-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("parseIpcTrace", () => {
+  it("keeps IPC frames with offsets from the first one", () => {
+    const frames = parseIpcTrace(TRACE);
+    expect(frames.map((entry) => [entry.offsetMs, entry.direction, entry.frame.type])).toEqual([
+      [0, "in", "broadcast"],
+      [200, "out", "request"],
+      [300, "in", "response"],
+      [1000, "in", "broadcast"]
+    ]);
+  });
+
+  it("reports the line of a malformed entry", () => {
+    expect(() => parseIpcTrace(`${TRACE}\n{`)).toThrow("Trace line 8 is not valid JSON");
+    expect(() =>
+      parseIpcTrace(historyLine("2026-02-17T00:00:01.000Z", "in", { type: "broadcast" }))
+    ).toThrow("Trace line 1:");
+  });
+});
+
+describe("IpcReplayServer", () => {
+  async function startReplay(speed: number): Promise<{ server: IpcReplayServer; client: DesktopIpcClient }> {
+    const socketPath = path.join(tempDir, "ipc.sock");
+    const server = new IpcReplayServer({ socketPath, frames: parseIpcTrace(TRACE), speed });
+    await server.listen();
+    const client = new DesktopIpcClient({ socketPath, requestTimeoutMs: 2_000 });
+    await client.connect();
+    return { server, client };
+  }
+
+  it("replays recorded broadcasts on scaled timing after initialize", async () => {
+    const { server, client } = await startReplay(10);
+    try {
+      const broadcasts: Array<{ frame: IpcFrame; at: number }> = [];
+      const bothReceived = new Promise<void>((resolve) => {
+        client.onFrame((frame) => {
+          if (frame.type === "broadcast" && broadcasts.push({ frame, at: Date.now() }) === 2) {
+            resolve();
+          }
+        });
+      });
+      const finished = new Promise<void>((resolve) => server.onFinished(resolve));
+
+      const startedAt = Date.now();
+      const initialized = await client.initialize("farfield/test");
+      expect(initialized.result).toEqual({ clientId: "replay-client-1" });
+      await Promise.all([finished, bothReceived]);
+
+      expect(broadcasts.map((entry) => entry.frame)).toEqual([streamBroadcast(1), streamBroadcast(2)]);
+      // One second of trace at 10x speed.
+      expect(broadcasts[1]!.at - startedAt).toBeGreaterThanOrEqual(90);
+    } finally {
+      await client.disconnect();
+      await server.close();
+    }
+  });
+
+  it("answers requests with the recorded response for the method", async () => {
+    const { server, client } = await startReplay(Number.POSITIVE_INFINITY);
+    try {
+      await client.initialize("farfield/test");
+
+      const response = await client.sendRequestAndWait("thread-follower-interrupt-turn", {
+        conversationId: "thread-1"
+      });
+      expect(response).toMatchObject({ resultType: "success", result: { ok: true } });
+      expect(response.requestId).not.toBe("original-request");
+
+      await expect(client.sendRequestAndWait("thread-follower-start-turn", {})).rejects.toThrow(
+        "no-handler-for-request"
+      );
+    } finally {
+      await client.disconnect();
+      await server.close();
+    }
+  });
+
+  it("removes its socket file when closed", async () => {
+    const { server, client } = await startReplay(Number.POSITIVE_INFINITY);
+    await client.disconnect();
+    await server.close();
+    expect(fs.existsSync(path.join(tempDir, "ipc.sock"))).toBe(false);
+  });
+});
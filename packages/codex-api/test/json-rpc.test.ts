@@ -62,4 +62,19 @@ describe("parseJsonRpcIncomingMessage", () => {
       expect(parsed.value.result).toEqual({ ok: true });
     }
   });
+
+  it("accepts server-initiated request payload", () => {
+    const parsed = parseJsonRpcIncomingMessage({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "item/commandExecution/requestApproval",
+      params: { threadId: "thread-1" }
+    });
+
+    expect(parsed.kind).toBe("request");
+    if (parsed.kind === "request") {
+      expect(parsed.value.id).toBe(4);
+      expect(parsed.value.method).toBe("item/commandExecution/requestApproval");
+    }
+  });
 });
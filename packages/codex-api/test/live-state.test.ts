@@ -1,6 +1,50 @@
 import { describe, expect, it } from "vitest";
 import { parseThreadStreamStateChangedBroadcast } from "@farfield/protocol";
-import { reduceThreadStreamEvents, ThreadStreamReductionError } from "../src/live-state.js";
+import {
+  reduceThreadStreamEvents,
+  ThreadStreamReducer,
+  ThreadStreamReductionError
+} from "../src/live-state.js";
+
+function buildSnapshotEvent(threadId: string, turns: unknown[] = []) {
+  return parseThreadStreamStateChangedBroadcast({
+    type: "broadcast",
+    method: "thread-stream-state-changed",
+    sourceClientId: "client-a",
+    version: 4,
+    params: {
+      conversationId: threadId,
+      type: "thread-stream-state-changed",
+      version: 4,
+      change: {
+        type: "snapshot",
+        conversationState: {
+          id: threadId,
+          turns,
+          requests: []
+        }
+      }
+    }
+  });
+}
+
+function buildPatchEvent(threadId: string, patches: unknown[]) {
+  return parseThreadStreamStateChangedBroadcast({
+    type: "broadcast",
+    method: "thread-stream-state-changed",
+    sourceClientId: "client-a",
+    version: 4,
+    params: {
+      conversationId: threadId,
+      type: "thread-stream-state-changed",
+      version: 4,
+      change: {
+        type: "patches",
+        patches
+      }
+    }
+  });
+}
 
 describe("live-state reducer", () => {
   it("applies snapshot then patches", () => {
@@ -213,3 +257,123 @@ describe("live-state reducer", () => {
     expect(reductionError.details.patch.op).toBe("replace");
   });
 });
+
+describe("ThreadStreamReducer", () => {
+  it("shares untouched turns and items between states", () => {
+    const reducer = new ThreadStreamReducer();
+    reducer.apply(
+      buildSnapshotEvent("thread-1", [
+        { status: "completed", items: [{ id: "item-1", type: "agentMessage", text: "first" }] },
+        { status: "inProgress", items: [{ id: "item-2", type: "agentMessage", text: "sec" }] }
+      ])
+    );
+    const before = reducer.get("thread-1")?.conversationState;
+
+    reducer.apply(
+      buildPatchEvent("thread-1", [
+        { op: "replace", path: ["turns", 1, "items", 0, "text"], value: "second" }
+      ])
+    );
+    const after = reducer.get("thread-1")?.conversationState;
+
+    expect(after?.turns[1]?.items[0]).toMatchObject({ text: "second" });
+    expect(before?.turns[1]?.items[0]).toMatchObject({ text: "sec" });
+    expect(after?.turns[0]).toBe(before?.turns[0]);
+  });
+
+  it("drops state after a failed patch and recovers from the next snapshot", () => {
+    const reducer = new ThreadStreamReducer();
+    reducer.apply(buildSnapshotEvent("thread-1"));
+
+    expect(() =>
+      reducer.apply(
+        buildPatchEvent("thread-1", [{ op: "replace", path: ["turns", 3, "status"], value: "x" }])
+      )
+    ).toThrowError(ThreadStreamReductionError);
+    expect(reducer.get("thread-1")?.conversationState).toBeNull();
+
+    reducer.apply(
+      buildPatchEvent("thread-1", [{ op: "add", path: ["turns", 0], value: { status: "x", items: [] } }])
+    );
+    expect(reducer.get("thread-1")?.conversationState).toBeNull();
+
+    reducer.apply(buildSnapshotEvent("thread-1", [{ status: "completed", items: [] }]));
+    expect(reducer.get("thread-1")?.conversationState?.turns.length).toBe(1);
+  });
+});
+
+describe("ThreadStreamReducer benchmarks", () => {
+  it("streams thousands of token patches into one long turn", () => {
+    const itemCount = 500;
+    const deltasPerItem = 8;
+    const reducer = new ThreadStreamReducer();
+    reducer.apply(buildSnapshotEvent("thread-bench", [{ status: "inProgress", items: [] }]));
+
+    const events = [];
+    for (let itemIndex = 0; itemIndex < itemCount; itemIndex += 1) {
+      events.push(
+        buildPatchEvent("thread-bench", [
+          {
+            op: "add",
+            path: ["turns", 0, "items", itemIndex],
+            value: { id: `item-${itemIndex}`, type: "agentMessage", text: "" }
+          }
+        ])
+      );
+      for (let delta = 1; delta <= deltasPerItem; delta += 1) {
+        events.push(
+          buildPatchEvent("thread-bench", [
+            {
+              op: "replace",
+              path: ["turns", 0, "items", itemIndex, "text"],
+              value: "token ".repeat(delta)
+            }
+          ])
+        );
+      }
+    }
+
+    const startedAt = performance.now();
+    for (const event of events) {
+      reducer.apply(event);
+    }
+    const elapsedMs = performance.now() - startedAt;
+
+    const state = reducer.get("thread-bench")?.conversationState;
+    expect(events.length).toBe(itemCount * (deltasPerItem + 1));
+    expect(state?.turns[0]?.items.length).toBe(itemCount);
+    expect(state?.turns[0]?.items[itemCount - 1]).toMatchObject({
+      text: "token ".repeat(deltasPerItem)
+    });
+    expect(elapsedMs).toBeLessThan(5_000);
+  });
+
+  it("appends thousands of turns without replaying earlier frames", () => {
+    const turnCount = 2_000;
+    const reducer = new ThreadStreamReducer();
+    reducer.apply(buildSnapshotEvent("thread-bench"));
+
+    const startedAt = performance.now();
+    for (let turnIndex = 0; turnIndex < turnCount; turnIndex += 1) {
+      reducer.apply(
+        buildPatchEvent("thread-bench", [
+          {
+            op: "add",
+            path: ["turns", turnIndex],
+            value: {
+              status: "inProgress",
+              items: [{ id: `user-${turnIndex}`, type: "agentMessage", text: "question" }]
+            }
+          },
+          { op: "replace", path: ["turns", turnIndex, "status"], value: "completed" }
+        ])
+      );
+    }
+    const elapsedMs = performance.now() - startedAt;
+
+    const state = reducer.get("thread-bench")?.conversationState;
+    expect(state?.turns.length).toBe(turnCount);
+    expect(state?.turns[turnCount - 1]?.status).toBe("completed");
+    expect(elapsedMs).toBeLessThan(5_000);
+  });
+});
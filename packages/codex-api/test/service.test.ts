@@ -49,6 +49,39 @@ describe("CodexMonitorService", () => {
     );
   });
 
+  it("sends extra input parts after the text", async () => {
+    const ipcClient = {
+      sendRequestAndWait: vi.fn().mockResolvedValue({ type: "response", requestId: 1 })
+    };
+
+    const service = new CodexMonitorService(ipcClient as never);
+
+    await service.sendMessage({
+      threadId: "thread-1",
+      ownerClientId: "client-1",
+      text: "see screenshot",
+      input: [{ type: "localImage", path: "/tmp/uploads/screenshot.png" }],
+      isSteering: true,
+      turnStartTemplate: createThread().turns[0]?.params as NonNullable<
+        ThreadConversationState["turns"][number]["params"]
+      >
+    });
+
+    expect(ipcClient.sendRequestAndWait).toHaveBeenCalledWith(
+      "thread-follower-start-turn",
+      expect.objectContaining({
+        isSteering: true,
+        turnStartParams: expect.objectContaining({
+          input: [
+            { type: "text", text: "see screenshot" },
+            { type: "localImage", path: "/tmp/uploads/screenshot.png" }
+          ]
+        })
+      }),
+      expect.anything()
+    );
+  });
+
   it("overrides template mode and model when provided", async () => {
     const ipcClient = {
       sendRequestAndWait: vi.fn().mockResolvedValue({ type: "response", requestId: 1 })
@@ -34,6 +34,96 @@ const schemaTargets = [
     fileName: "ThreadStartResponseSchema.ts",
     exportName: "ThreadStartResponseSchema"
   },
+  {
+    id: "thread-fork-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadForkParams.json"),
+    fileName: "ThreadForkParamsSchema.ts",
+    exportName: "ThreadForkParamsSchema"
+  },
+  {
+    id: "thread-fork-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadForkResponse.json"),
+    fileName: "ThreadForkResponseSchema.ts",
+    exportName: "ThreadForkResponseSchema"
+  },
+  {
+    id: "thread-rollback-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadRollbackParams.json"),
+    fileName: "ThreadRollbackParamsSchema.ts",
+    exportName: "ThreadRollbackParamsSchema"
+  },
+  {
+    id: "thread-rollback-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadRollbackResponse.json"),
+    fileName: "ThreadRollbackResponseSchema.ts",
+    exportName: "ThreadRollbackResponseSchema"
+  },
+  {
+    id: "thread-compact-start-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadCompactStartParams.json"),
+    fileName: "ThreadCompactStartParamsSchema.ts",
+    exportName: "ThreadCompactStartParamsSchema"
+  },
+  {
+    id: "thread-compact-start-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadCompactStartResponse.json"),
+    fileName: "ThreadCompactStartResponseSchema.ts",
+    exportName: "ThreadCompactStartResponseSchema"
+  },
+  {
+    id: "thread-archive-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadArchiveParams.json"),
+    fileName: "ThreadArchiveParamsSchema.ts",
+    exportName: "ThreadArchiveParamsSchema"
+  },
+  {
+    id: "thread-archive-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadArchiveResponse.json"),
+    fileName: "ThreadArchiveResponseSchema.ts",
+    exportName: "ThreadArchiveResponseSchema"
+  },
+  {
+    id: "thread-unarchive-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadUnarchiveParams.json"),
+    fileName: "ThreadUnarchiveParamsSchema.ts",
+    exportName: "ThreadUnarchiveParamsSchema"
+  },
+  {
+    id: "thread-unarchive-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadUnarchiveResponse.json"),
+    fileName: "ThreadUnarchiveResponseSchema.ts",
+    exportName: "ThreadUnarchiveResponseSchema"
+  },
+  {
+    id: "thread-set-name-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadSetNameParams.json"),
+    fileName: "ThreadSetNameParamsSchema.ts",
+    exportName: "ThreadSetNameParamsSchema"
+  },
+  {
+    id: "thread-set-name-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadSetNameResponse.json"),
+    fileName: "ThreadSetNameResponseSchema.ts",
+    exportName: "ThreadSetNameResponseSchema"
+  },
+  {
+    id: "turn-steer-params",
+    source: path.join(vendorRoot, "stable", "json", "v2", "TurnSteerParams.json"),
+    fileName: "TurnSteerParamsSchema.ts",
+    exportName: "TurnSteerParamsSchema"
+  },
+  {
+    id: "turn-steer-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "TurnSteerResponse.json"),
+    fileName: "TurnSteerResponseSchema.ts",
+    exportName: "TurnSteerResponseSchema"
+  },
+  {
+    id: "get-account-rate-limits-response",
+    source: path.join(vendorRoot, "stable", "json", "v2", "GetAccountRateLimitsResponse.json"),
+    fileName: "GetAccountRateLimitsResponseSchema.ts",
+    exportName: "GetAccountRateLimitsResponseSchema"
+  },
   {
     id: "model-list-response",
     source: path.join(vendorRoot, "stable", "json", "v2", "ModelListResponse.json"),
@@ -58,11 +148,137 @@ const schemaTargets = [
     fileName: "ToolRequestUserInputResponseSchema.ts",
     exportName: "ToolRequestUserInputResponseSchema"
   },
+  {
+    id: "command-execution-request-approval-params",
+    source: path.join(vendorRoot, "stable", "json", "CommandExecutionRequestApprovalParams.json"),
+    fileName: "CommandExecutionRequestApprovalParamsSchema.ts",
+    exportName: "CommandExecutionRequestApprovalParamsSchema"
+  },
+  {
+    id: "command-execution-request-approval-response",
+    source: path.join(vendorRoot, "stable", "json", "CommandExecutionRequestApprovalResponse.json"),
+    fileName: "CommandExecutionRequestApprovalResponseSchema.ts",
+    exportName: "CommandExecutionRequestApprovalResponseSchema"
+  },
+  {
+    id: "file-change-request-approval-params",
+    source: path.join(vendorRoot, "stable", "json", "FileChangeRequestApprovalParams.json"),
+    fileName: "FileChangeRequestApprovalParamsSchema.ts",
+    exportName: "FileChangeRequestApprovalParamsSchema"
+  },
+  {
+    id: "file-change-request-approval-response",
+    source: path.join(vendorRoot, "stable", "json", "FileChangeRequestApprovalResponse.json"),
+    fileName: "FileChangeRequestApprovalResponseSchema.ts",
+    exportName: "FileChangeRequestApprovalResponseSchema"
+  },
   {
     id: "collaboration-mode-list-response",
     source: path.join(vendorRoot, "experimental", "json", "v2", "CollaborationModeListResponse.json"),
     fileName: "CollaborationModeListResponseSchema.ts",
     exportName: "CollaborationModeListResponseSchema"
+  },
+  {
+    id: "error-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ErrorNotification.json"),
+    fileName: "ErrorNotificationSchema.ts",
+    exportName: "ErrorNotificationSchema"
+  },
+  {
+    id: "thread-started-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadStartedNotification.json"),
+    fileName: "ThreadStartedNotificationSchema.ts",
+    exportName: "ThreadStartedNotificationSchema"
+  },
+  {
+    id: "thread-archived-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadArchivedNotification.json"),
+    fileName: "ThreadArchivedNotificationSchema.ts",
+    exportName: "ThreadArchivedNotificationSchema"
+  },
+  {
+    id: "thread-unarchived-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadUnarchivedNotification.json"),
+    fileName: "ThreadUnarchivedNotificationSchema.ts",
+    exportName: "ThreadUnarchivedNotificationSchema"
+  },
+  {
+    id: "thread-name-updated-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadNameUpdatedNotification.json"),
+    fileName: "ThreadNameUpdatedNotificationSchema.ts",
+    exportName: "ThreadNameUpdatedNotificationSchema"
+  },
+  {
+    id: "thread-token-usage-updated-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ThreadTokenUsageUpdatedNotification.json"),
+    fileName: "ThreadTokenUsageUpdatedNotificationSchema.ts",
+    exportName: "ThreadTokenUsageUpdatedNotificationSchema"
+  },
+  {
+    id: "turn-started-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "TurnStartedNotification.json"),
+    fileName: "TurnStartedNotificationSchema.ts",
+    exportName: "TurnStartedNotificationSchema"
+  },
+  {
+    id: "turn-completed-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "TurnCompletedNotification.json"),
+    fileName: "TurnCompletedNotificationSchema.ts",
+    exportName: "TurnCompletedNotificationSchema"
+  },
+  {
+    id: "turn-plan-updated-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "TurnPlanUpdatedNotification.json"),
+    fileName: "TurnPlanUpdatedNotificationSchema.ts",
+    exportName: "TurnPlanUpdatedNotificationSchema"
+  },
+  {
+    id: "item-started-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ItemStartedNotification.json"),
+    fileName: "ItemStartedNotificationSchema.ts",
+    exportName: "ItemStartedNotificationSchema"
+  },
+  {
+    id: "item-completed-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ItemCompletedNotification.json"),
+    fileName: "ItemCompletedNotificationSchema.ts",
+    exportName: "ItemCompletedNotificationSchema"
+  },
+  {
+    id: "agent-message-delta-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "AgentMessageDeltaNotification.json"),
+    fileName: "AgentMessageDeltaNotificationSchema.ts",
+    exportName: "AgentMessageDeltaNotificationSchema"
+  },
+  {
+    id: "command-execution-output-delta-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "CommandExecutionOutputDeltaNotification.json"),
+    fileName: "CommandExecutionOutputDeltaNotificationSchema.ts",
+    exportName: "CommandExecutionOutputDeltaNotificationSchema"
+  },
+  {
+    id: "reasoning-text-delta-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ReasoningTextDeltaNotification.json"),
+    fileName: "ReasoningTextDeltaNotificationSchema.ts",
+    exportName: "ReasoningTextDeltaNotificationSchema"
+  },
+  {
+    id: "reasoning-summary-text-delta-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ReasoningSummaryTextDeltaNotification.json"),
+    fileName: "ReasoningSummaryTextDeltaNotificationSchema.ts",
+    exportName: "ReasoningSummaryTextDeltaNotificationSchema"
+  },
+  {
+    id: "context-compacted-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "ContextCompactedNotification.json"),
+    fileName: "ContextCompactedNotificationSchema.ts",
+    exportName: "ContextCompactedNotificationSchema"
+  },
+  {
+    id: "account-rate-limits-updated-notification",
+    source: path.join(vendorRoot, "stable", "json", "v2", "AccountRateLimitsUpdatedNotification.json"),
+    fileName: "AccountRateLimitsUpdatedNotificationSchema.ts",
+    exportName: "AccountRateLimitsUpdatedNotificationSchema"
   }
 ];
 
@@ -2,13 +2,46 @@ import { z } from "zod";
 import { ProtocolValidationError } from "./errors.js";
 import { CollaborationModeSchema, ThreadConversationStateSchema } from "./thread.js";
 import {
+  AccountRateLimitsUpdatedNotificationSchema as GeneratedAccountRateLimitsUpdatedNotificationSchema,
+  AgentMessageDeltaNotificationSchema as GeneratedAgentMessageDeltaNotificationSchema,
   CollaborationModeListResponseSchema as GeneratedCollaborationModeListResponseSchema,
+  CommandExecutionOutputDeltaNotificationSchema as GeneratedCommandExecutionOutputDeltaNotificationSchema,
+  CommandExecutionRequestApprovalParamsSchema as GeneratedCommandExecutionRequestApprovalParamsSchema,
+  CommandExecutionRequestApprovalResponseSchema as GeneratedCommandExecutionRequestApprovalResponseSchema,
+  ContextCompactedNotificationSchema as GeneratedContextCompactedNotificationSchema,
+  ErrorNotificationSchema as GeneratedErrorNotificationSchema,
+  GetAccountRateLimitsResponseSchema as GeneratedGetAccountRateLimitsResponseSchema,
+  FileChangeRequestApprovalParamsSchema as GeneratedFileChangeRequestApprovalParamsSchema,
+  FileChangeRequestApprovalResponseSchema as GeneratedFileChangeRequestApprovalResponseSchema,
+  ItemCompletedNotificationSchema as GeneratedItemCompletedNotificationSchema,
+  ItemStartedNotificationSchema as GeneratedItemStartedNotificationSchema,
   ModelListResponseSchema as GeneratedModelListResponseSchema,
+  ReasoningSummaryTextDeltaNotificationSchema as GeneratedReasoningSummaryTextDeltaNotificationSchema,
+  ReasoningTextDeltaNotificationSchema as GeneratedReasoningTextDeltaNotificationSchema,
   SendUserMessageParamsSchema as GeneratedSendUserMessageParamsSchema,
   SendUserMessageResponseSchema as GeneratedSendUserMessageResponseSchema,
+  ThreadArchiveParamsSchema as GeneratedThreadArchiveParamsSchema,
+  ThreadArchiveResponseSchema as GeneratedThreadArchiveResponseSchema,
+  ThreadArchivedNotificationSchema as GeneratedThreadArchivedNotificationSchema,
+  ThreadCompactStartParamsSchema as GeneratedThreadCompactStartParamsSchema,
+  ThreadCompactStartResponseSchema as GeneratedThreadCompactStartResponseSchema,
+  ThreadForkParamsSchema as GeneratedThreadForkParamsSchema,
   ThreadListResponseSchema as GeneratedThreadListResponseSchema,
+  ThreadNameUpdatedNotificationSchema as GeneratedThreadNameUpdatedNotificationSchema,
   ThreadReadResponseSchema as GeneratedThreadReadResponseSchema,
-  ThreadStartParamsSchema as GeneratedThreadStartParamsSchema
+  ThreadRollbackParamsSchema as GeneratedThreadRollbackParamsSchema,
+  ThreadSetNameParamsSchema as GeneratedThreadSetNameParamsSchema,
+  ThreadSetNameResponseSchema as GeneratedThreadSetNameResponseSchema,
+  ThreadStartedNotificationSchema as GeneratedThreadStartedNotificationSchema,
+  ThreadStartParamsSchema as GeneratedThreadStartParamsSchema,
+  ThreadTokenUsageUpdatedNotificationSchema as GeneratedThreadTokenUsageUpdatedNotificationSchema,
+  ThreadUnarchiveParamsSchema as GeneratedThreadUnarchiveParamsSchema,
+  ThreadUnarchivedNotificationSchema as GeneratedThreadUnarchivedNotificationSchema,
+  TurnCompletedNotificationSchema as GeneratedTurnCompletedNotificationSchema,
+  TurnPlanUpdatedNotificationSchema as GeneratedTurnPlanUpdatedNotificationSchema,
+  TurnStartedNotificationSchema as GeneratedTurnStartedNotificationSchema,
+  TurnSteerParamsSchema as GeneratedTurnSteerParamsSchema,
+  TurnSteerResponseSchema as GeneratedTurnSteerResponseSchema
 } from "./generated/app-server/index.js";
 
 const AppServerThreadListResponseBaseSchema = GeneratedThreadListResponseSchema.passthrough();
@@ -17,10 +50,24 @@ const AppServerModelListResponseBaseSchema = GeneratedModelListResponseSchema.pa
 const AppServerCollaborationModeListResponseBaseSchema =
   GeneratedCollaborationModeListResponseSchema.passthrough();
 const AppServerStartThreadRequestBaseSchema = GeneratedThreadStartParamsSchema.passthrough();
+const AppServerForkThreadRequestBaseSchema = GeneratedThreadForkParamsSchema.passthrough();
+const AppServerRollbackThreadRequestBaseSchema = GeneratedThreadRollbackParamsSchema.passthrough();
+const AppServerCompactThreadRequestBaseSchema = GeneratedThreadCompactStartParamsSchema.passthrough();
+const AppServerArchiveThreadRequestBaseSchema = GeneratedThreadArchiveParamsSchema.passthrough();
+const AppServerUnarchiveThreadRequestBaseSchema = GeneratedThreadUnarchiveParamsSchema.passthrough();
+const AppServerSetThreadNameRequestBaseSchema = GeneratedThreadSetNameParamsSchema.passthrough();
+const AppServerSteerTurnRequestBaseSchema = GeneratedTurnSteerParamsSchema.passthrough();
 const AppServerSendUserMessageRequestBaseSchema = GeneratedSendUserMessageParamsSchema.passthrough();
 const AppServerSendUserMessageResponseBaseSchema = GeneratedSendUserMessageResponseSchema;
 
-const AppServerGeneratedThreadListItemSchema = AppServerThreadListResponseBaseSchema.shape.data.element;
+// Display name set through thread/name/set. The app-server does not list it, so
+// Farfield fills it in from thread/name/updated notifications.
+const ThreadNameSchema = z.union([z.string(), z.null()]).optional();
+
+const AppServerGeneratedThreadListItemSchema =
+  AppServerThreadListResponseBaseSchema.shape.data.element.extend({
+    name: ThreadNameSchema
+  });
 
 const OpenCodeThreadListItemSchema = z
   .object({
@@ -29,13 +76,21 @@ const OpenCodeThreadListItemSchema = z
     createdAt: z.number().int().nonnegative(),
     updatedAt: z.number().int().nonnegative(),
     cwd: z.string().optional(),
+    name: ThreadNameSchema,
     source: z.literal("opencode")
   })
   .passthrough();
 
+// Sessions of agents spoken to over the Agent Client Protocol, which has no
+// session listing; Farfield keeps the list itself.
+const AcpThreadListItemSchema = OpenCodeThreadListItemSchema.extend({
+  source: z.literal("acp")
+});
+
 export const AppServerThreadListItemSchema = z.union([
   AppServerGeneratedThreadListItemSchema,
-  OpenCodeThreadListItemSchema
+  OpenCodeThreadListItemSchema,
+  AcpThreadListItemSchema
 ]);
 
 export const AppServerListThreadsResponseSchema = z
@@ -85,6 +140,51 @@ export const AppServerStartThreadResponseSchema = z
   })
   .passthrough();
 
+export const AppServerForkThreadRequestSchema = AppServerForkThreadRequestBaseSchema;
+
+export const AppServerForkThreadResponseSchema = AppServerStartThreadResponseSchema;
+
+export const AppServerRollbackThreadRequestSchema = AppServerRollbackThreadRequestBaseSchema.extend({
+  numTurns: z.number().int().min(1)
+});
+
+export const AppServerRollbackThreadResponseSchema = z
+  .object({
+    thread: AppServerThreadListItemSchema
+  })
+  .passthrough();
+
+export const AppServerCompactThreadRequestSchema = AppServerCompactThreadRequestBaseSchema;
+
+export const AppServerCompactThreadResponseSchema = GeneratedThreadCompactStartResponseSchema;
+
+export const AppServerArchiveThreadRequestSchema = AppServerArchiveThreadRequestBaseSchema;
+
+export const AppServerArchiveThreadResponseSchema = GeneratedThreadArchiveResponseSchema;
+
+export const AppServerUnarchiveThreadRequestSchema = AppServerUnarchiveThreadRequestBaseSchema;
+
+export const AppServerUnarchiveThreadResponseSchema = z
+  .object({
+    thread: AppServerThreadListItemSchema
+  })
+  .passthrough();
+
+export const AppServerSetThreadNameRequestSchema = AppServerSetThreadNameRequestBaseSchema.extend({
+  name: z.string().trim().min(1)
+});
+
+export const AppServerSetThreadNameResponseSchema = GeneratedThreadSetNameResponseSchema;
+
+export const AppServerSteerTurnRequestSchema = AppServerSteerTurnRequestBaseSchema.extend({
+  expectedTurnId: z.string().min(1)
+});
+
+export const AppServerSteerTurnResponseSchema = GeneratedTurnSteerResponseSchema.passthrough();
+
+export const AppServerGetAccountRateLimitsResponseSchema =
+  GeneratedGetAccountRateLimitsResponseSchema.passthrough();
+
 export const AppServerSendUserMessageRequestSchema = AppServerSendUserMessageRequestBaseSchema;
 
 export const AppServerSendUserMessageResponseSchema = AppServerSendUserMessageResponseBaseSchema;
@@ -96,6 +196,132 @@ export const AppServerSetModeRequestSchema = z
   })
   .passthrough();
 
+export const AppServerErrorNotificationSchema = GeneratedErrorNotificationSchema.passthrough();
+export const AppServerThreadStartedNotificationSchema =
+  GeneratedThreadStartedNotificationSchema.passthrough();
+export const AppServerThreadArchivedNotificationSchema =
+  GeneratedThreadArchivedNotificationSchema.passthrough();
+export const AppServerThreadUnarchivedNotificationSchema =
+  GeneratedThreadUnarchivedNotificationSchema.passthrough();
+export const AppServerThreadNameUpdatedNotificationSchema =
+  GeneratedThreadNameUpdatedNotificationSchema.passthrough();
+export const AppServerThreadTokenUsageUpdatedNotificationSchema =
+  GeneratedThreadTokenUsageUpdatedNotificationSchema.passthrough();
+export const AppServerTurnStartedNotificationSchema = GeneratedTurnStartedNotificationSchema.passthrough();
+export const AppServerTurnCompletedNotificationSchema =
+  GeneratedTurnCompletedNotificationSchema.passthrough();
+export const AppServerTurnPlanUpdatedNotificationSchema =
+  GeneratedTurnPlanUpdatedNotificationSchema.passthrough();
+export const AppServerItemStartedNotificationSchema = GeneratedItemStartedNotificationSchema.passthrough();
+export const AppServerItemCompletedNotificationSchema =
+  GeneratedItemCompletedNotificationSchema.passthrough();
+export const AppServerAgentMessageDeltaNotificationSchema =
+  GeneratedAgentMessageDeltaNotificationSchema.passthrough();
+export const AppServerCommandExecutionOutputDeltaNotificationSchema =
+  GeneratedCommandExecutionOutputDeltaNotificationSchema.passthrough();
+export const AppServerReasoningTextDeltaNotificationSchema =
+  GeneratedReasoningTextDeltaNotificationSchema.passthrough();
+export const AppServerReasoningSummaryTextDeltaNotificationSchema =
+  GeneratedReasoningSummaryTextDeltaNotificationSchema.passthrough();
+export const AppServerContextCompactedNotificationSchema =
+  GeneratedContextCompactedNotificationSchema.passthrough();
+export const AppServerAccountRateLimitsUpdatedNotificationSchema =
+  GeneratedAccountRateLimitsUpdatedNotificationSchema.passthrough();
+
+export const AppServerNotificationSchemas = {
+  error: AppServerErrorNotificationSchema,
+  "thread/started": AppServerThreadStartedNotificationSchema,
+  "thread/archived": AppServerThreadArchivedNotificationSchema,
+  "thread/unarchived": AppServerThreadUnarchivedNotificationSchema,
+  "thread/name/updated": AppServerThreadNameUpdatedNotificationSchema,
+  "thread/tokenUsage/updated": AppServerThreadTokenUsageUpdatedNotificationSchema,
+  "thread/compacted": AppServerContextCompactedNotificationSchema,
+  "turn/started": AppServerTurnStartedNotificationSchema,
+  "turn/completed": AppServerTurnCompletedNotificationSchema,
+  "turn/plan/updated": AppServerTurnPlanUpdatedNotificationSchema,
+  "item/started": AppServerItemStartedNotificationSchema,
+  "item/completed": AppServerItemCompletedNotificationSchema,
+  "item/agentMessage/delta": AppServerAgentMessageDeltaNotificationSchema,
+  "item/commandExecution/outputDelta": AppServerCommandExecutionOutputDeltaNotificationSchema,
+  "item/reasoning/textDelta": AppServerReasoningTextDeltaNotificationSchema,
+  "item/reasoning/summaryTextDelta": AppServerReasoningSummaryTextDeltaNotificationSchema,
+  "account/rateLimits/updated": AppServerAccountRateLimitsUpdatedNotificationSchema
+} as const;
+
+export type AppServerNotificationMethod = keyof typeof AppServerNotificationSchemas;
+export type AppServerNotificationParams<Method extends AppServerNotificationMethod> = z.infer<
+  (typeof AppServerNotificationSchemas)[Method]
+>;
+export type AppServerNotification = {
+  [Method in AppServerNotificationMethod]: {
+    method: Method;
+    params: AppServerNotificationParams<Method>;
+  };
+}[AppServerNotificationMethod];
+
+export const AppServerCommandExecutionRequestApprovalParamsSchema =
+  GeneratedCommandExecutionRequestApprovalParamsSchema.passthrough();
+export const AppServerFileChangeRequestApprovalParamsSchema =
+  GeneratedFileChangeRequestApprovalParamsSchema.passthrough();
+
+export const AppServerCommandExecutionApprovalDecisionSchema = z.union([
+  z.literal("accept"),
+  z.literal("acceptForSession"),
+  z
+    .object({
+      acceptWithExecpolicyAmendment: z
+        .object({
+          execpolicy_amendment: z.array(z.string())
+        })
+        .passthrough()
+    })
+    .strict(),
+  z.literal("decline"),
+  z.literal("cancel")
+]);
+
+export const AppServerFileChangeApprovalDecisionSchema = z.enum([
+  "accept",
+  "acceptForSession",
+  "decline",
+  "cancel"
+]);
+
+export const AppServerCommandExecutionRequestApprovalResponseSchema =
+  GeneratedCommandExecutionRequestApprovalResponseSchema.extend({
+    decision: AppServerCommandExecutionApprovalDecisionSchema
+  });
+export const AppServerFileChangeRequestApprovalResponseSchema =
+  GeneratedFileChangeRequestApprovalResponseSchema.extend({
+    decision: AppServerFileChangeApprovalDecisionSchema
+  });
+
+export const AppServerApprovalRequestSchemas = {
+  "item/commandExecution/requestApproval": AppServerCommandExecutionRequestApprovalParamsSchema,
+  "item/fileChange/requestApproval": AppServerFileChangeRequestApprovalParamsSchema
+} as const;
+
+export type AppServerApprovalRequestMethod = keyof typeof AppServerApprovalRequestSchemas;
+export type AppServerCommandExecutionRequestApprovalParams = z.infer<
+  typeof AppServerCommandExecutionRequestApprovalParamsSchema
+>;
+export type AppServerFileChangeRequestApprovalParams = z.infer<
+  typeof AppServerFileChangeRequestApprovalParamsSchema
+>;
+export type AppServerCommandExecutionApprovalDecision = z.infer<
+  typeof AppServerCommandExecutionApprovalDecisionSchema
+>;
+export type AppServerFileChangeApprovalDecision = z.infer<typeof AppServerFileChangeApprovalDecisionSchema>;
+export type AppServerApprovalRequest =
+  | {
+      method: "item/commandExecution/requestApproval";
+      params: AppServerCommandExecutionRequestApprovalParams;
+    }
+  | {
+      method: "item/fileChange/requestApproval";
+      params: AppServerFileChangeRequestApprovalParams;
+    };
+
 export type AppServerListThreadsResponse = z.infer<typeof AppServerListThreadsResponseSchema>;
 export type AppServerReadThreadResponse = z.infer<typeof AppServerReadThreadResponseSchema>;
 export type AppServerListModelsResponse = z.infer<typeof AppServerListModelsResponseSchema>;
@@ -103,6 +329,18 @@ export type AppServerCollaborationModeListResponse = z.infer<
   typeof AppServerCollaborationModeListResponseSchema
 >;
 export type AppServerStartThreadResponse = z.infer<typeof AppServerStartThreadResponseSchema>;
+export type AppServerForkThreadResponse = z.infer<typeof AppServerForkThreadResponseSchema>;
+export type AppServerRollbackThreadResponse = z.infer<typeof AppServerRollbackThreadResponseSchema>;
+export type AppServerUnarchiveThreadResponse = z.infer<typeof AppServerUnarchiveThreadResponseSchema>;
+export type AppServerSteerTurnResponse = z.infer<typeof AppServerSteerTurnResponseSchema>;
+export type AppServerGetAccountRateLimitsResponse = z.infer<
+  typeof AppServerGetAccountRateLimitsResponseSchema
+>;
+export type AppServerRateLimitSnapshot = AppServerGetAccountRateLimitsResponse["rateLimits"];
+export type AppServerThreadTokenUsage = z.infer<
+  typeof AppServerThreadTokenUsageUpdatedNotificationSchema
+>["tokenUsage"];
+export type AppServerTokenUsageBreakdown = AppServerThreadTokenUsage["total"];
 
 function parseWithSchema<Schema extends z.ZodTypeAny>(
   schema: Schema,
@@ -160,3 +398,59 @@ export function parseAppServerStartThreadResponse(
 ): AppServerStartThreadResponse {
   return parseWithSchema(AppServerStartThreadResponseSchema, value, "AppServerStartThreadResponse");
 }
+
+export function parseAppServerForkThreadResponse(
+  value: z.input<typeof AppServerForkThreadResponseSchema>
+): AppServerForkThreadResponse {
+  return parseWithSchema(AppServerForkThreadResponseSchema, value, "AppServerForkThreadResponse");
+}
+
+export function parseAppServerRollbackThreadResponse(
+  value: z.input<typeof AppServerRollbackThreadResponseSchema>
+): AppServerRollbackThreadResponse {
+  return parseWithSchema(
+    AppServerRollbackThreadResponseSchema,
+    value,
+    "AppServerRollbackThreadResponse"
+  );
+}
+
+export function isAppServerNotificationMethod(method: string): method is AppServerNotificationMethod {
+  return Object.prototype.hasOwnProperty.call(AppServerNotificationSchemas, method);
+}
+
+export function parseAppServerNotification(
+  method: AppServerNotificationMethod,
+  params: unknown
+): AppServerNotification {
+  const schema: z.ZodTypeAny = AppServerNotificationSchemas[method];
+  const parsed = schema.safeParse(params);
+  if (!parsed.success) {
+    throw ProtocolValidationError.fromZod(`AppServerNotification(${method})`, parsed.error);
+  }
+  return {
+    method,
+    params: parsed.data
+  } as AppServerNotification;
+}
+
+export function isAppServerApprovalRequestMethod(
+  method: string
+): method is AppServerApprovalRequestMethod {
+  return Object.prototype.hasOwnProperty.call(AppServerApprovalRequestSchemas, method);
+}
+
+export function parseAppServerApprovalRequest(
+  method: AppServerApprovalRequestMethod,
+  params: unknown
+): AppServerApprovalRequest {
+  const schema: z.ZodTypeAny = AppServerApprovalRequestSchemas[method];
+  const parsed = schema.safeParse(params);
+  if (!parsed.success) {
+    throw ProtocolValidationError.fromZod(`AppServerApprovalRequest(${method})`, parsed.error);
+  }
+  return {
+    method,
+    params: parsed.data
+  } as AppServerApprovalRequest;
+}
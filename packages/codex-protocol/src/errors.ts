@@ -1,4 +1,4 @@
-import { ZodError } from "zod";
+import type { ZodError, ZodIssue } from "zod";
 
 function formatIssuePath(path: (string | number)[]): string {
   if (path.length === 0) {
@@ -11,13 +11,44 @@ function formatIssuePath(path: (string | number)[]): string {
     .replace(".[", "[");
 }
 
+export interface ProtocolValidationIssue {
+  /** Path into the validated value; numbers are array indexes. */
+  path: Array<string | number>;
+  code: string;
+  message: string;
+}
+
+function issueDepth(issues: ZodIssue[]): number {
+  return Math.max(0, ...issues.map((issue) => issue.path.length));
+}
+
+function toValidationIssues(issues: ZodIssue[]): ProtocolValidationIssue[] {
+  return issues.flatMap((issue): ProtocolValidationIssue[] => {
+    if (issue.code === "invalid_union") {
+      // Report the branch that matched furthest instead of every branch's mismatch.
+      const closest = issue.unionErrors
+        .map((unionError) => unionError.issues)
+        .sort((left, right) => issueDepth(right) - issueDepth(left) || left.length - right.length)[0];
+      if (closest && issueDepth(closest) > issue.path.length) {
+        return toValidationIssues(closest);
+      }
+    }
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({ path: [...issue.path, key], code: issue.code, message: issue.message }));
+    }
+    return [{ path: issue.path, code: issue.code, message: issue.message }];
+  });
+}
+
 export class ProtocolValidationError extends Error {
   public readonly issues: string[];
+  public readonly details: ProtocolValidationIssue[];
 
-  public constructor(message: string, issues: string[]) {
+  public constructor(message: string, issues: string[], details: ProtocolValidationIssue[] = []) {
     super(message);
     this.name = "ProtocolValidationError";
     this.issues = issues;
+    this.details = details;
   }
 
   public static fromZod(context: string, error: ZodError): ProtocolValidationError {
@@ -28,7 +59,8 @@ export class ProtocolValidationError extends Error {
 
     return new ProtocolValidationError(
       `${context} did not match expected schema. ${issues.join("; ")}`,
-      issues
+      issues,
+      toValidationIssues(error.issues)
     );
   }
 }
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ContextCompactedNotification.json
+import { z } from "zod"
+
+export const ContextCompactedNotificationSchema = z.object({ "threadId": z.string(), "turnId": z.string() }).describe("Deprecated: Use `ContextCompaction` item type instead.")
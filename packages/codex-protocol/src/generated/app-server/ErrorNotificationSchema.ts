@@ -0,0 +1,23 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ErrorNotification.json
+import { z } from "zod"
+
+export const ErrorNotificationSchema = z.object({ "error": z.object({ "additionalDetails": z.union([z.string(), z.null()]).default(null), "codexErrorInfo": z.union([z.any().superRefine((x, ctx) => {
+    const schemas = [z.enum(["contextWindowExceeded","usageLimitExceeded","serverOverloaded","internalServerError","unauthorized","badRequest","threadRollbackFailed","sandboxError","other"]), z.object({ "httpConnectionFailed": z.object({ "httpStatusCode": z.union([z.number().int().gte(0), z.null()]).optional() }) }).strict(), z.object({ "responseStreamConnectionFailed": z.object({ "httpStatusCode": z.union([z.number().int().gte(0), z.null()]).optional() }) }).strict().describe("Failed to connect to the response SSE stream."), z.object({ "responseStreamDisconnected": z.object({ "httpStatusCode": z.union([z.number().int().gte(0), z.null()]).optional() }) }).strict().describe("The response SSE stream disconnected in the middle of a turn before completion."), z.object({ "responseTooManyFailedAttempts": z.object({ "httpStatusCode": z.union([z.number().int().gte(0), z.null()]).optional() }) }).strict().describe("Reached the retry limit for responses.")];
+    const errors = schemas.reduce<z.ZodError[]>(
+      (errors, schema) =>
+        ((result) =>
+          result.error ? [...errors, result.error] : errors)(
+          schema.safeParse(x),
+        ),
+      [],
+    );
+    if (schemas.length - errors.length !== 1) {
+      ctx.addIssue({
+        path: ctx.path,
+        code: "invalid_union",
+        unionErrors: errors,
+        message: "Invalid input: Should pass single schema",
+      });
+    }
+  }).describe("This translation layer make sure that we expose codex error code in camel case.\n\nWhen an upstream HTTP status is available (for example, from the Responses API or a provider), it is forwarded in `httpStatusCode` on the relevant `codexErrorInfo` variant."), z.null()]).optional(), "message": z.string() }), "threadId": z.string(), "turnId": z.string(), "willRetry": z.boolean() })
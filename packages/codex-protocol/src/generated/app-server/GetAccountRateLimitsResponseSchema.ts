@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/GetAccountRateLimitsResponse.json
+import { z } from "zod"
+
+export const GetAccountRateLimitsResponseSchema = z.object({ "rateLimits": z.object({ "credits": z.union([z.object({ "balance": z.union([z.string(), z.null()]).optional(), "hasCredits": z.boolean(), "unlimited": z.boolean() }), z.null()]).optional(), "limitId": z.union([z.string(), z.null()]).optional(), "limitName": z.union([z.string(), z.null()]).optional(), "planType": z.union([z.enum(["free","go","plus","pro","team","business","enterprise","edu","unknown"]), z.null()]).optional(), "primary": z.union([z.object({ "resetsAt": z.union([z.number().int(), z.null()]).optional(), "usedPercent": z.number().int(), "windowDurationMins": z.union([z.number().int(), z.null()]).optional() }), z.null()]).optional(), "secondary": z.union([z.object({ "resetsAt": z.union([z.number().int(), z.null()]).optional(), "usedPercent": z.number().int(), "windowDurationMins": z.union([z.number().int(), z.null()]).optional() }), z.null()]).optional() }).describe("Backward-compatible single-bucket view; mirrors the historical payload."), "rateLimitsByLimitId": z.union([z.record(z.object({ "credits": z.union([z.object({ "balance": z.union([z.string(), z.null()]).optional(), "hasCredits": z.boolean(), "unlimited": z.boolean() }), z.null()]).optional(), "limitId": z.union([z.string(), z.null()]).optional(), "limitName": z.union([z.string(), z.null()]).optional(), "planType": z.union([z.enum(["free","go","plus","pro","team","business","enterprise","edu","unknown"]), z.null()]).optional(), "primary": z.union([z.object({ "resetsAt": z.union([z.number().int(), z.null()]).optional(), "usedPercent": z.number().int(), "windowDurationMins": z.union([z.number().int(), z.null()]).optional() }), z.null()]).optional(), "secondary": z.union([z.object({ "resetsAt": z.union([z.number().int(), z.null()]).optional(), "usedPercent": z.number().int(), "windowDurationMins": z.union([z.number().int(), z.null()]).optional() }), z.null()]).optional() })).describe("Multi-bucket view keyed by metered `limit_id` (for example, `codex`)."), z.null().describe("Multi-bucket view keyed by metered `limit_id` (for example, `codex`).")]).describe("Multi-bucket view keyed by metered `limit_id` (for example, `codex`).").optional() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ReasoningSummaryTextDeltaNotification.json
+import { z } from "zod"
+
+export const ReasoningSummaryTextDeltaNotificationSchema = z.object({ "delta": z.string(), "itemId": z.string(), "summaryIndex": z.number().int(), "threadId": z.string(), "turnId": z.string() })
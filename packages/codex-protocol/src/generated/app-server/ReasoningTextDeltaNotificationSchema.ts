@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ReasoningTextDeltaNotification.json
+import { z } from "zod"
+
+export const ReasoningTextDeltaNotificationSchema = z.object({ "contentIndex": z.number().int(), "delta": z.string(), "itemId": z.string(), "threadId": z.string(), "turnId": z.string() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadArchiveResponse.json
+import { z } from "zod"
+
+export const ThreadArchiveResponseSchema = z.record(z.any())
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadCompactStartParams.json
+import { z } from "zod"
+
+export const ThreadCompactStartParamsSchema = z.object({ "threadId": z.string() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadCompactStartResponse.json
+import { z } from "zod"
+
+export const ThreadCompactStartResponseSchema = z.record(z.any())
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadForkParams.json
+import { z } from "zod"
+
+export const ThreadForkParamsSchema = z.object({ "approvalPolicy": z.union([z.enum(["untrusted","on-failure","on-request","never"]), z.null()]).optional(), "baseInstructions": z.union([z.string(), z.null()]).optional(), "config": z.union([z.record(z.any()), z.null()]).optional(), "cwd": z.union([z.string(), z.null()]).optional(), "developerInstructions": z.union([z.string(), z.null()]).optional(), "model": z.union([z.string().describe("Configuration overrides for the forked thread, if any."), z.null().describe("Configuration overrides for the forked thread, if any.")]).describe("Configuration overrides for the forked thread, if any.").optional(), "modelProvider": z.union([z.string(), z.null()]).optional(), "threadId": z.string(), "sandbox": z.union([z.enum(["read-only","workspace-write","danger-full-access"]), z.null()]).optional() }).describe("There are two ways to fork a thread: 1. By thread_id: load the thread from disk by thread_id and fork it into a new thread. 2. By path: load the thread from disk by path and fork it into a new thread.\n\nIf using path, the thread_id param will be ignored.\n\nPrefer using thread_id whenever possible.")
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadNameUpdatedNotification.json
+import { z } from "zod"
+
+export const ThreadNameUpdatedNotificationSchema = z.object({ "threadId": z.string(), "threadName": z.union([z.string(), z.null()]).optional() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadRollbackParams.json
+import { z } from "zod"
+
+export const ThreadRollbackParamsSchema = z.object({ "numTurns": z.number().int().gte(0).describe("The number of turns to drop from the end of the thread. Must be >= 1.\n\nThis only modifies the thread's history and does not revert local file changes that have been made by the agent. Clients are responsible for reverting these changes."), "threadId": z.string() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadSetNameParams.json
+import { z } from "zod"
+
+export const ThreadSetNameParamsSchema = z.object({ "name": z.string(), "threadId": z.string() })
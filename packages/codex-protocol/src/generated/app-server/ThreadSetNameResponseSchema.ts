@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadSetNameResponse.json
+import { z } from "zod"
+
+export const ThreadSetNameResponseSchema = z.record(z.any())
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/ThreadTokenUsageUpdatedNotification.json
+import { z } from "zod"
+
+export const ThreadTokenUsageUpdatedNotificationSchema = z.object({ "threadId": z.string(), "tokenUsage": z.object({ "last": z.object({ "cachedInputTokens": z.number().int(), "inputTokens": z.number().int(), "outputTokens": z.number().int(), "reasoningOutputTokens": z.number().int(), "totalTokens": z.number().int() }), "modelContextWindow": z.union([z.number().int(), z.null()]).optional(), "total": z.object({ "cachedInputTokens": z.number().int(), "inputTokens": z.number().int(), "outputTokens": z.number().int(), "reasoningOutputTokens": z.number().int(), "totalTokens": z.number().int() }) }), "turnId": z.string() })
@@ -0,0 +1,5 @@
+// GENERATED FILE. DO NOT EDIT.
+// Source: vendor/codex-app-server-schema/stable/json/v2/TurnPlanUpdatedNotification.json
+import { z } from "zod"
+
+export const TurnPlanUpdatedNotificationSchema = z.object({ "explanation": z.union([z.string(), z.null()]).optional(), "plan": z.array(z.object({ "status": z.enum(["pending","inProgress","completed"]), "step": z.string() })), "threadId": z.string(), "turnId": z.string() })
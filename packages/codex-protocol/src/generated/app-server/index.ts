@@ -3,8 +3,44 @@ export { ThreadListResponseSchema } from "./ThreadListResponseSchema.js";
 export { ThreadReadResponseSchema } from "./ThreadReadResponseSchema.js";
 export { ThreadStartParamsSchema } from "./ThreadStartParamsSchema.js";
 export { ThreadStartResponseSchema } from "./ThreadStartResponseSchema.js";
+export { ThreadForkParamsSchema } from "./ThreadForkParamsSchema.js";
+export { ThreadForkResponseSchema } from "./ThreadForkResponseSchema.js";
+export { ThreadRollbackParamsSchema } from "./ThreadRollbackParamsSchema.js";
+export { ThreadRollbackResponseSchema } from "./ThreadRollbackResponseSchema.js";
+export { ThreadCompactStartParamsSchema } from "./ThreadCompactStartParamsSchema.js";
+export { ThreadCompactStartResponseSchema } from "./ThreadCompactStartResponseSchema.js";
+export { ThreadArchiveParamsSchema } from "./ThreadArchiveParamsSchema.js";
+export { ThreadArchiveResponseSchema } from "./ThreadArchiveResponseSchema.js";
+export { ThreadUnarchiveParamsSchema } from "./ThreadUnarchiveParamsSchema.js";
+export { ThreadUnarchiveResponseSchema } from "./ThreadUnarchiveResponseSchema.js";
+export { ThreadSetNameParamsSchema } from "./ThreadSetNameParamsSchema.js";
+export { ThreadSetNameResponseSchema } from "./ThreadSetNameResponseSchema.js";
+export { TurnSteerParamsSchema } from "./TurnSteerParamsSchema.js";
+export { TurnSteerResponseSchema } from "./TurnSteerResponseSchema.js";
+export { GetAccountRateLimitsResponseSchema } from "./GetAccountRateLimitsResponseSchema.js";
 export { ModelListResponseSchema } from "./ModelListResponseSchema.js";
 export { SendUserMessageParamsSchema } from "./SendUserMessageParamsSchema.js";
 export { SendUserMessageResponseSchema } from "./SendUserMessageResponseSchema.js";
 export { ToolRequestUserInputResponseSchema } from "./ToolRequestUserInputResponseSchema.js";
+export { CommandExecutionRequestApprovalParamsSchema } from "./CommandExecutionRequestApprovalParamsSchema.js";
+export { CommandExecutionRequestApprovalResponseSchema } from "./CommandExecutionRequestApprovalResponseSchema.js";
+export { FileChangeRequestApprovalParamsSchema } from "./FileChangeRequestApprovalParamsSchema.js";
+export { FileChangeRequestApprovalResponseSchema } from "./FileChangeRequestApprovalResponseSchema.js";
 export { CollaborationModeListResponseSchema } from "./CollaborationModeListResponseSchema.js";
+export { ErrorNotificationSchema } from "./ErrorNotificationSchema.js";
+export { ThreadStartedNotificationSchema } from "./ThreadStartedNotificationSchema.js";
+export { ThreadArchivedNotificationSchema } from "./ThreadArchivedNotificationSchema.js";
+export { ThreadUnarchivedNotificationSchema } from "./ThreadUnarchivedNotificationSchema.js";
+export { ThreadNameUpdatedNotificationSchema } from "./ThreadNameUpdatedNotificationSchema.js";
+export { ThreadTokenUsageUpdatedNotificationSchema } from "./ThreadTokenUsageUpdatedNotificationSchema.js";
+export { TurnStartedNotificationSchema } from "./TurnStartedNotificationSchema.js";
+export { TurnCompletedNotificationSchema } from "./TurnCompletedNotificationSchema.js";
+export { TurnPlanUpdatedNotificationSchema } from "./TurnPlanUpdatedNotificationSchema.js";
+export { ItemStartedNotificationSchema } from "./ItemStartedNotificationSchema.js";
+export { ItemCompletedNotificationSchema } from "./ItemCompletedNotificationSchema.js";
+export { AgentMessageDeltaNotificationSchema } from "./AgentMessageDeltaNotificationSchema.js";
+export { CommandExecutionOutputDeltaNotificationSchema } from "./CommandExecutionOutputDeltaNotificationSchema.js";
+export { ReasoningTextDeltaNotificationSchema } from "./ReasoningTextDeltaNotificationSchema.js";
+export { ReasoningSummaryTextDeltaNotificationSchema } from "./ReasoningSummaryTextDeltaNotificationSchema.js";
+export { ContextCompactedNotificationSchema } from "./ContextCompactedNotificationSchema.js";
+export { AccountRateLimitsUpdatedNotificationSchema } from "./AccountRateLimitsUpdatedNotificationSchema.js";
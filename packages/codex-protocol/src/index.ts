@@ -2,4 +2,5 @@ export * from "./app-server.js";
 export * from "./common.js";
 export * from "./errors.js";
 export * from "./ipc.js";
+export * from "./redaction.js";
 export * from "./thread.js";
@@ -0,0 +1,65 @@
+export interface SensitivePattern {
+  name: string;
+  pattern: RegExp;
+  replacement: string;
+}
+
+/**
+ * Content that must not leave this machine in exported transcripts or trace
+ * fixtures: home directories, URLs and git remotes, private keys, API keys and
+ * tokens, and rollout file names. `redactText` masks matches in place and
+ * `scripts/sanitize-traces.mjs` refuses fixtures that still contain one. Order
+ * matters: whole blocks and URLs go first so later rules do not split them.
+ */
+export const SENSITIVE_PATTERNS: readonly SensitivePattern[] = [
+  {
+    name: "private key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    replacement: "[redacted private key]"
+  },
+  { name: "url", pattern: /https?:\/\/[^\s<>"'`)\]]+/gi, replacement: "[redacted url]" },
+  { name: "git remote", pattern: /git@[^\s:]+:[^\s"'`]+/gi, replacement: "[redacted git remote]" },
+  { name: "github url", pattern: /\bgithub\.com\/[^\s"'`)\]]+/gi, replacement: "[redacted url]" },
+  { name: "bearer token", pattern: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g, replacement: "Bearer [redacted]" },
+  {
+    name: "credential",
+    pattern: /\b(api[_-]?key|[a-z_]*token|secret|password)(["']?\s*[:=]\s*["']?)[^\s"'`,;]+/gi,
+    replacement: "$1$2[redacted]"
+  },
+  { name: "api key", pattern: /\bsk-[A-Za-z0-9_-]{16,}/g, replacement: "[redacted key]" },
+  { name: "home directory", pattern: /\/Users\/[^/\s"'`]+/g, replacement: "/Users/[redacted]" },
+  { name: "home directory", pattern: /\/home\/[^/\s"'`]+/g, replacement: "/home/[redacted]" },
+  { name: "home directory", pattern: /\\Users\\[^\\\s"'`]+/g, replacement: "\\Users\\[redacted]" },
+  { name: "rollout file", pattern: /rollout-[^\s"'`/\\]+/gi, replacement: "rollout-[redacted]" }
+];
+
+export function redactText(value: string): string {
+  return SENSITIVE_PATTERNS.reduce(
+    (text, rule) => text.replace(rule.pattern, rule.replacement),
+    value
+  );
+}
+
+/** Name of the first sensitive pattern found in `value`, or null when it is clean. */
+export function findSensitiveText(value: string): string | null {
+  // `search` ignores and restores `lastIndex`, so the shared global patterns stay reusable.
+  return SENSITIVE_PATTERNS.find((rule) => value.search(rule.pattern) !== -1)?.name ?? null;
+}
+
+/** Returns a copy of `value` with every string passed through `redactText`. */
+export function redactValue<T>(value: T): T {
+  if (typeof value === "string") {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => redactValue(item)) as T;
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      result[key] = redactValue(nested);
+    }
+    return result as T;
+  }
+  return value;
+}
@@ -39,7 +39,18 @@ export const InputImagePartSchema = z
   })
   .passthrough();
 
-export const InputPartSchema = z.union([InputTextPartSchema, InputImagePartSchema]);
+export const InputLocalImagePartSchema = z
+  .object({
+    type: z.literal("localImage"),
+    path: z.string()
+  })
+  .passthrough();
+
+export const InputPartSchema = z.union([
+  InputTextPartSchema,
+  InputImagePartSchema,
+  InputLocalImagePartSchema
+]);
 
 export const TurnStartParamsSchema = z
   .object({
@@ -423,6 +434,7 @@ export const ThreadStreamStateChangedParamsSchema: z.ZodObject<
   .passthrough();
 
 export type CollaborationMode = z.infer<typeof CollaborationModeSchema>;
+export type InputPart = z.infer<typeof InputPartSchema>;
 export type TurnStartParams = z.infer<typeof TurnStartParamsSchema>;
 export type UserInputRequest = z.infer<typeof UserInputRequestSchema>;
 export type ThreadConversationState = z.infer<typeof ThreadConversationStateSchema>;
@@ -5,10 +5,20 @@ import {
   parseAppServerListModelsResponse,
   parseAppServerCollaborationModeListResponse,
   parseAppServerStartThreadResponse,
+  parseAppServerRollbackThreadResponse,
+  AppServerRollbackThreadRequestSchema,
+  AppServerSteerTurnRequestSchema,
+  AppServerGetAccountRateLimitsResponseSchema,
+  isAppServerApprovalRequestMethod,
+  isAppServerNotificationMethod,
+  parseAppServerApprovalRequest,
+  AppServerCommandExecutionApprovalDecisionSchema,
+  parseAppServerNotification,
   parseIpcFrame,
   parseThreadConversationState,
   parseThreadStreamStateChangedBroadcast,
-  parseUserInputResponsePayload
+  parseUserInputResponsePayload,
+  ProtocolValidationError
 } from "../src/index.js";
 
 describe("codex-protocol schemas", () => {
@@ -200,6 +210,31 @@ describe("codex-protocol schemas", () => {
     expect(parsed.turns[0]?.items[0]?.type).toBe("userInputResponse");
   });
 
+  it("parses turn params with local image input", () => {
+    const parsed = parseThreadConversationState({
+      id: "thread-123",
+      turns: [
+        {
+          params: {
+            threadId: "thread-123",
+            input: [
+              { type: "text", text: "what is wrong here?" },
+              { type: "localImage", path: "/tmp/uploads/screenshot.png" }
+            ]
+          },
+          status: "completed",
+          items: []
+        }
+      ],
+      requests: []
+    });
+
+    expect(parsed.turns[0]?.params?.input[1]).toEqual({
+      type: "localImage",
+      path: "/tmp/uploads/screenshot.png"
+    });
+  });
+
   it("parses userInputResponse item when completed is omitted", () => {
     const parsed = parseThreadConversationState({
       id: "thread-123",
@@ -639,6 +674,28 @@ describe("codex-protocol schemas", () => {
     expect(parsed.data[0]?.id).toBe("sess-1");
   });
 
+  it("keeps thread names in app-server thread/list items", () => {
+    const parsed = parseAppServerListThreadsResponse({
+      data: [
+        {
+          id: "thread-1",
+          preview: "hello",
+          modelProvider: "openai",
+          createdAt: 1700000000,
+          updatedAt: 1700000100,
+          cwd: "/tmp/workspace",
+          cliVersion: "0.1.0",
+          source: "vscode",
+          turns: [],
+          name: "Release prep"
+        }
+      ],
+      nextCursor: null
+    });
+
+    expect(parsed.data[0]?.name).toBe("Release prep");
+  });
+
   it("parses app-server thread/read response with subset validation", () => {
     const parsed = parseAppServerReadThreadResponse({
       thread: {
@@ -716,4 +773,184 @@ describe("codex-protocol schemas", () => {
 
     expect(parsed.thread.id).toBe("sess-2");
   });
+
+  it("parses app-server thread/rollback response", () => {
+    const parsed = parseAppServerRollbackThreadResponse({
+      thread: {
+        id: "thread-456",
+        preview: "hello",
+        modelProvider: "openai",
+        createdAt: 1700000000,
+        updatedAt: 1700000100,
+        cwd: "/tmp/workspace",
+        cliVersion: "0.1.0",
+        source: "vscode",
+        turns: []
+      }
+    });
+
+    expect(parsed.thread.id).toBe("thread-456");
+  });
+
+  it("rejects thread/rollback requests that drop no turns", () => {
+    expect(AppServerRollbackThreadRequestSchema.safeParse({ threadId: "thread-1", numTurns: 0 }).success).toBe(
+      false
+    );
+    expect(AppServerRollbackThreadRequestSchema.safeParse({ threadId: "thread-1", numTurns: 2 }).success).toBe(
+      true
+    );
+  });
+
+  it("requires the active turn id on turn/steer requests", () => {
+    const input = [{ type: "text", text: "also update the docs", text_elements: [] }];
+    expect(AppServerSteerTurnRequestSchema.safeParse({ threadId: "thread-1", input }).success).toBe(false);
+    expect(
+      AppServerSteerTurnRequestSchema.safeParse({ threadId: "thread-1", input, expectedTurnId: "" }).success
+    ).toBe(false);
+    expect(
+      AppServerSteerTurnRequestSchema.safeParse({ threadId: "thread-1", input, expectedTurnId: "turn-2" }).success
+    ).toBe(true);
+  });
+
+  it("parses account rate limit snapshots", () => {
+    const parsed = AppServerGetAccountRateLimitsResponseSchema.parse({
+      rateLimits: {
+        primary: { usedPercent: 42, windowDurationMins: 300, resetsAt: 1700000000 },
+        secondary: null,
+        planType: "pro"
+      },
+      rateLimitsByLimitId: null
+    });
+
+    expect(parsed.rateLimits.primary?.usedPercent).toBe(42);
+    expect(parsed.rateLimits.secondary).toBeNull();
+    expect(
+      AppServerGetAccountRateLimitsResponseSchema.safeParse({
+        rateLimits: { primary: { usedPercent: "42" } }
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("app-server notifications", () => {
+  it("recognizes known notification methods", () => {
+    expect(isAppServerNotificationMethod("item/agentMessage/delta")).toBe(true);
+    expect(isAppServerNotificationMethod("thread/tokenUsage/updated")).toBe(true);
+    expect(isAppServerNotificationMethod("toString")).toBe(false);
+    expect(isAppServerNotificationMethod("unknown/method")).toBe(false);
+  });
+
+  it("parses agent message deltas and keeps extra keys", () => {
+    const notification = parseAppServerNotification("item/agentMessage/delta", {
+      threadId: "thread-1",
+      turnId: "turn-1",
+      itemId: "item-1",
+      delta: "hel",
+      extra: true
+    });
+
+    expect(notification.method).toBe("item/agentMessage/delta");
+    if (notification.method === "item/agentMessage/delta") {
+      expect(notification.params.delta).toBe("hel");
+      expect((notification.params as Record<string, unknown>)["extra"]).toBe(true);
+    }
+  });
+
+  it("parses token usage updates", () => {
+    const usage = {
+      cachedInputTokens: 1,
+      inputTokens: 10,
+      outputTokens: 5,
+      reasoningOutputTokens: 2,
+      totalTokens: 15
+    };
+    const notification = parseAppServerNotification("thread/tokenUsage/updated", {
+      threadId: "thread-1",
+      turnId: "turn-1",
+      tokenUsage: {
+        last: usage,
+        total: usage,
+        modelContextWindow: 200000
+      }
+    });
+
+    expect(notification.method).toBe("thread/tokenUsage/updated");
+  });
+
+  it("reports structured issues from the closest union branch", () => {
+    let caught: unknown;
+    try {
+      parseThreadConversationState({
+        id: "thread-123",
+        turns: [
+          {
+            status: "completed",
+            params: {
+              threadId: "thread-123",
+              input: [],
+              collaborationMode: { mode: "default", settings: { model: 5 } }
+            },
+            items: [{ id: "item-unknown", type: "toolCall" }]
+          }
+        ],
+        requests: []
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ProtocolValidationError);
+    expect((caught as ProtocolValidationError).details).toEqual([
+      {
+        path: ["turns", 0, "params", "collaborationMode", "settings", "model"],
+        code: "invalid_union",
+        message: "Invalid input"
+      },
+      {
+        path: ["turns", 0, "items", 0, "type"],
+        code: "invalid_union_discriminator",
+        message: expect.stringContaining("Invalid discriminator value")
+      }
+    ]);
+  });
+
+  it("rejects notifications that do not match their schema", () => {
+    expect(() =>
+      parseAppServerNotification("turn/completed", {
+        threadId: "thread-1"
+      })
+    ).toThrowError(/AppServerNotification\(turn\/completed\)/);
+  });
+});
+
+describe("app-server approval requests", () => {
+  it("parses command execution approval requests", () => {
+    expect(isAppServerApprovalRequestMethod("item/commandExecution/requestApproval")).toBe(true);
+    expect(isAppServerApprovalRequestMethod("item/tool/requestUserInput")).toBe(false);
+
+    const request = parseAppServerApprovalRequest("item/commandExecution/requestApproval", {
+      threadId: "thread-1",
+      turnId: "turn-1",
+      itemId: "item-1",
+      command: "npm test",
+      proposedExecpolicyAmendment: ["npm", "test"]
+    });
+
+    expect(request.method).toBe("item/commandExecution/requestApproval");
+    if (request.method === "item/commandExecution/requestApproval") {
+      expect(request.params.proposedExecpolicyAmendment).toEqual(["npm", "test"]);
+    }
+  });
+
+  it("validates command execution approval decisions", () => {
+    expect(AppServerCommandExecutionApprovalDecisionSchema.parse("acceptForSession")).toBe(
+      "acceptForSession"
+    );
+    expect(
+      AppServerCommandExecutionApprovalDecisionSchema.parse({
+        acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] }
+      })
+    ).toEqual({ acceptWithExecpolicyAmendment: { execpolicy_amendment: ["npm", "test"] } });
+    expect(AppServerCommandExecutionApprovalDecisionSchema.safeParse("approve").success).toBe(false);
+  });
 });
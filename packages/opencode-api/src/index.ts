@@ -1,3 +1,4 @@
 export * from "./client.js";
+export * from "./live-state.js";
 export * from "./mapper.js";
 export * from "./service.js";
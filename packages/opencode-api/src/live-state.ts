@@ -0,0 +1,212 @@
+import type { Message, Part, Session } from "@opencode-ai/sdk";
+import {
+  getOpenCodeEventSessionId,
+  mapOpenCodeEventToSsePayload,
+  sessionToConversationState,
+  type MappedThreadConversationState,
+  type OpenCodeEvent,
+  type OpenCodePermission,
+  type OpenCodeSsePayload
+} from "./mapper.js";
+
+export interface OpenCodeSessionSnapshot {
+  session: Session;
+  messages: Array<{
+    info: Message;
+    parts: Part[];
+  }>;
+}
+
+export interface OpenCodeLiveStateOptions {
+  eventLimit?: number;
+  now?: () => number;
+}
+
+interface SessionLiveState {
+  session: Session;
+  messages: Map<string, Message>;
+  partsByMessage: Map<string, Map<string, Part>>;
+  observedAt: number;
+}
+
+const DEFAULT_EVENT_LIMIT = 400;
+
+/**
+ * Keeps per-session conversation state current from the OpenCode event stream.
+ *
+ * A session is seeded once from a full snapshot and then updated in place from
+ * message, part and session events. Events for sessions that were never seeded
+ * are still recorded for the stream event view.
+ */
+export class OpenCodeLiveState {
+  private readonly eventLimit: number;
+  private readonly now: () => number;
+  private readonly sessions = new Map<string, SessionLiveState>();
+  private readonly eventsBySessionId = new Map<string, OpenCodeSsePayload[]>();
+  private readonly permissionsBySessionId = new Map<string, Map<string, OpenCodePermission>>();
+
+  public constructor(options: OpenCodeLiveStateOptions = {}) {
+    this.eventLimit = options.eventLimit ?? DEFAULT_EVENT_LIMIT;
+    this.now = options.now ?? Date.now;
+  }
+
+  public has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  public seed(snapshot: OpenCodeSessionSnapshot): void {
+    const messages = new Map<string, Message>();
+    const partsByMessage = new Map<string, Map<string, Part>>();
+    for (const entry of snapshot.messages) {
+      messages.set(entry.info.id, entry.info);
+      partsByMessage.set(entry.info.id, new Map(entry.parts.map((part) => [part.id, part])));
+    }
+
+    this.sessions.set(snapshot.session.id, {
+      session: snapshot.session,
+      messages,
+      partsByMessage,
+      observedAt: snapshot.session.time.updated
+    });
+  }
+
+  public delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.eventsBySessionId.delete(sessionId);
+    this.permissionsBySessionId.delete(sessionId);
+  }
+
+  /**
+   * Drops every seeded session, keeping recorded events and pending permissions.
+   * Used after the event stream reconnects, since events may have been missed in
+   * between.
+   */
+  public reset(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Applies an event to its session and returns the mapped payload.
+   */
+  public apply(event: OpenCodeEvent): OpenCodeSsePayload | null {
+    const sessionId = getOpenCodeEventSessionId(event);
+    const payload = mapOpenCodeEventToSsePayload(event, sessionId);
+    if (!payload) {
+      return null;
+    }
+
+    this.recordEvent(sessionId, payload);
+
+    if (event.type === "permission.updated") {
+      const permissions = this.permissionsBySessionId.get(sessionId) ?? new Map<string, OpenCodePermission>();
+      permissions.set(event.properties.id, event.properties);
+      this.permissionsBySessionId.set(sessionId, permissions);
+    } else if (event.type === "permission.replied") {
+      this.resolvePermission(sessionId, event.properties.permissionID);
+    }
+
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return payload;
+    }
+
+    switch (event.type) {
+      case "message.updated": {
+        const message = event.properties.info;
+        state.messages.set(message.id, message);
+        break;
+      }
+
+      case "message.removed":
+        state.messages.delete(event.properties.messageID);
+        state.partsByMessage.delete(event.properties.messageID);
+        break;
+
+      case "message.part.updated": {
+        const part = event.properties.part;
+        const parts = state.partsByMessage.get(part.messageID) ?? new Map<string, Part>();
+        parts.set(part.id, part);
+        state.partsByMessage.set(part.messageID, parts);
+        break;
+      }
+
+      case "message.part.removed":
+        state.partsByMessage.get(event.properties.messageID)?.delete(event.properties.partID);
+        break;
+
+      case "session.updated":
+        state.session = event.properties.info;
+        break;
+
+      case "session.status":
+      case "session.idle":
+      case "permission.updated":
+      case "permission.replied":
+        break;
+    }
+
+    state.observedAt = Math.max(state.observedAt, this.now());
+    return payload;
+  }
+
+  public getState(sessionId: string): MappedThreadConversationState | null {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return null;
+    }
+
+    const messages = Array.from(state.messages.values()).sort(compareMessages);
+    const partsByMessage = new Map<string, Part[]>();
+    for (const [messageId, parts] of state.partsByMessage) {
+      partsByMessage.set(messageId, Array.from(parts.values()));
+    }
+
+    const mapped = sessionToConversationState(state.session, messages, partsByMessage);
+    return {
+      ...mapped,
+      updatedAt: Math.max(mapped.updatedAt, state.observedAt)
+    };
+  }
+
+  public getPendingPermissions(sessionId: string): OpenCodePermission[] {
+    const permissions = this.permissionsBySessionId.get(sessionId);
+    if (!permissions) {
+      return [];
+    }
+    return Array.from(permissions.values()).sort(
+      (left, right) => left.time.created - right.time.created
+    );
+  }
+
+  /**
+   * Removes a pending permission. Returns false when it was not pending.
+   */
+  public resolvePermission(sessionId: string, permissionId: string): boolean {
+    const permissions = this.permissionsBySessionId.get(sessionId);
+    if (!permissions?.delete(permissionId)) {
+      return false;
+    }
+    if (permissions.size === 0) {
+      this.permissionsBySessionId.delete(sessionId);
+    }
+    return true;
+  }
+
+  public getEvents(sessionId: string, limit: number): OpenCodeSsePayload[] {
+    return (this.eventsBySessionId.get(sessionId) ?? []).slice(-limit);
+  }
+
+  private recordEvent(sessionId: string, payload: OpenCodeSsePayload): void {
+    const events = this.eventsBySessionId.get(sessionId) ?? [];
+    events.push(payload);
+    if (events.length > this.eventLimit) {
+      events.splice(0, events.length - this.eventLimit);
+    }
+    this.eventsBySessionId.set(sessionId, events);
+  }
+}
+
+// OpenCode ids are time-ordered, so they break ties between equal timestamps.
+function compareMessages(left: Message, right: Message): number {
+  return left.time.created - right.time.created || left.id.localeCompare(right.id);
+}
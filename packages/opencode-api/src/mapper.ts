@@ -9,12 +9,21 @@ import type {
   ReasoningPart,
   FilePart,
   ToolState,
+  Event,
   EventMessageUpdated,
+  EventMessageRemoved,
   EventMessagePartUpdated,
+  EventMessagePartRemoved,
   EventSessionUpdated,
   EventSessionStatus,
-  EventPermissionUpdated
+  EventSessionIdle,
+  EventPermissionUpdated,
+  EventPermissionReplied,
+  Permission,
+  Provider,
+  SessionStatus
 } from "@opencode-ai/sdk";
+import { z } from "zod";
 
 /**
  * Mapped thread list item, matching the shape of AppServerThreadListItemSchema.
@@ -81,6 +90,70 @@ export interface MappedThreadConversationState {
   source: "opencode";
 }
 
+/**
+ * Mapped model, matching the shape of AppServerModelSchema. OpenCode models are
+ * identified as `providerID/modelID`, the same form used for `latestModel`.
+ */
+export interface MappedModel {
+  id: string;
+  model: string;
+  upgrade: null;
+  displayName: string;
+  description: string;
+  supportedReasoningEfforts: never[];
+  defaultReasoningEffort: "medium";
+  inputModalities: Array<"text" | "image">;
+  supportsPersonality: false;
+  isDefault: boolean;
+  hidden: boolean;
+}
+
+export interface OpenCodeModelSelection {
+  providerID: string;
+  modelID: string;
+}
+
+export function providersToModels(
+  providers: Provider[],
+  defaults: Record<string, string>
+): MappedModel[] {
+  const models: MappedModel[] = [];
+  for (const provider of providers) {
+    for (const model of Object.values(provider.models)) {
+      const id = `${provider.id}/${model.id}`;
+      models.push({
+        id,
+        model: id,
+        upgrade: null,
+        displayName: `${provider.name}: ${model.name}`,
+        description: provider.name,
+        supportedReasoningEfforts: [],
+        defaultReasoningEffort: "medium",
+        inputModalities: model.capabilities.input.image ? ["text", "image"] : ["text"],
+        supportsPersonality: false,
+        isDefault: defaults[provider.id] === model.id,
+        hidden: model.status === "deprecated"
+      });
+    }
+  }
+  return models;
+}
+
+/**
+ * Splits a `providerID/modelID` model id. Model ids may themselves contain
+ * slashes, so only the first one separates the provider.
+ */
+export function parseOpenCodeModelId(id: string): OpenCodeModelSelection | null {
+  const separator = id.indexOf("/");
+  if (separator <= 0 || separator === id.length - 1) {
+    return null;
+  }
+  return {
+    providerID: id.slice(0, separator),
+    modelID: id.slice(separator + 1)
+  };
+}
+
 export function sessionToThreadListItem(session: Session): MappedThreadListItem {
   return {
     id: session.id,
@@ -333,10 +406,75 @@ function extractDurationMs(state: ToolState): number | null {
 
 export type OpenCodeEvent =
   | EventMessageUpdated
+  | EventMessageRemoved
   | EventMessagePartUpdated
+  | EventMessagePartRemoved
   | EventSessionUpdated
   | EventSessionStatus
-  | EventPermissionUpdated;
+  | EventSessionIdle
+  | EventPermissionUpdated
+  | EventPermissionReplied;
+
+export type OpenCodePermission = Permission;
+
+export const OpenCodePermissionResponseSchema = z.enum(["once", "always", "reject"]);
+
+export type OpenCodePermissionResponse = z.infer<typeof OpenCodePermissionResponseSchema>;
+
+/**
+ * Farfield SSE payload for a single OpenCode session event.
+ */
+export type OpenCodeSsePayload =
+  | { type: "opencode-message-updated"; sessionId: string; message: Message }
+  | { type: "opencode-message-removed"; sessionId: string; messageId: string }
+  | { type: "opencode-part-updated"; sessionId: string; part: Part; delta: string | null }
+  | {
+      type: "opencode-part-removed";
+      sessionId: string;
+      messageId: string;
+      partId: string;
+    }
+  | { type: "opencode-session-updated"; sessionId: string; session: Session }
+  | { type: "opencode-session-status"; sessionId: string; status: SessionStatus }
+  | { type: "opencode-permission-request"; sessionId: string; permission: Permission }
+  | {
+      type: "opencode-permission-replied";
+      sessionId: string;
+      permissionId: string;
+      response: string;
+    };
+
+const OPENCODE_EVENT_TYPES = new Set<string>([
+  "message.updated",
+  "message.removed",
+  "message.part.updated",
+  "message.part.removed",
+  "session.updated",
+  "session.status",
+  "session.idle",
+  "permission.updated",
+  "permission.replied"
+]);
+
+export function isOpenCodeEvent(event: Event): event is OpenCodeEvent {
+  return OPENCODE_EVENT_TYPES.has(event.type);
+}
+
+/**
+ * Returns the session an OpenCode event belongs to.
+ */
+export function getOpenCodeEventSessionId(event: OpenCodeEvent): string {
+  switch (event.type) {
+    case "message.updated":
+      return event.properties.info.sessionID;
+    case "message.part.updated":
+      return event.properties.part.sessionID;
+    case "session.updated":
+      return event.properties.info.id;
+    default:
+      return event.properties.sessionID;
+  }
+}
 
 /**
  * Maps OpenCode SSE events to a Farfield-compatible SSE payload.
@@ -345,66 +483,77 @@ export type OpenCodeEvent =
 export function mapOpenCodeEventToSsePayload(
   event: OpenCodeEvent,
   sessionId: string
-): unknown | null {
+): OpenCodeSsePayload | null {
+  if (getOpenCodeEventSessionId(event) !== sessionId) {
+    return null;
+  }
+
   switch (event.type) {
-    case "message.updated": {
-      const msg = event.properties.info;
-      if (msg.sessionID !== sessionId) {
-        return null;
-      }
+    case "message.updated":
       return {
         type: "opencode-message-updated",
         sessionId,
-        message: msg
+        message: event.properties.info
       };
-    }
 
-    case "message.part.updated": {
-      const part = event.properties.part;
-      if (part.sessionID !== sessionId) {
-        return null;
-      }
+    case "message.removed":
+      return {
+        type: "opencode-message-removed",
+        sessionId,
+        messageId: event.properties.messageID
+      };
+
+    case "message.part.updated":
       return {
         type: "opencode-part-updated",
         sessionId,
-        part,
+        part: event.properties.part,
         delta: event.properties.delta ?? null
       };
-    }
 
-    case "session.updated": {
-      const info = event.properties.info;
-      if (info.id !== sessionId) {
-        return null;
-      }
+    case "message.part.removed":
+      return {
+        type: "opencode-part-removed",
+        sessionId,
+        messageId: event.properties.messageID,
+        partId: event.properties.partID
+      };
+
+    case "session.updated":
       return {
         type: "opencode-session-updated",
         sessionId,
-        session: info
+        session: event.properties.info
       };
-    }
 
-    case "session.status": {
-      if (event.properties.sessionID !== sessionId) {
-        return null;
-      }
+    case "session.status":
       return {
         type: "opencode-session-status",
         sessionId,
         status: event.properties.status
       };
-    }
 
-    case "permission.updated": {
-      if (event.properties.sessionID !== sessionId) {
-        return null;
-      }
+    case "session.idle":
+      return {
+        type: "opencode-session-status",
+        sessionId,
+        status: { type: "idle" }
+      };
+
+    case "permission.updated":
       return {
         type: "opencode-permission-request",
         sessionId,
         permission: event.properties
       };
-    }
+
+    case "permission.replied":
+      return {
+        type: "opencode-permission-replied",
+        sessionId,
+        permissionId: event.properties.permissionID,
+        response: event.properties.response
+      };
 
     default:
       return null;
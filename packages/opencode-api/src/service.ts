@@ -1,20 +1,45 @@
+import { pathToFileURL } from "node:url";
 import type {
   Session,
   Message,
   Part,
-  Project
+  Project,
+  Provider,
+  GlobalEvent
 } from "@opencode-ai/sdk";
 import type { OpenCodeConnection } from "./client.js";
+import type { OpenCodeSessionSnapshot } from "./live-state.js";
 import {
+  providersToModels,
   sessionToThreadListItem,
   sessionToConversationState,
+  type MappedModel,
   type MappedThreadListItem,
-  type MappedThreadConversationState
+  type MappedThreadConversationState,
+  type OpenCodeModelSelection,
+  type OpenCodePermissionResponse
 } from "./mapper.js";
 
+export type OpenCodeGlobalEvent = GlobalEvent;
+
+export interface OpenCodeFileInput {
+  path: string;
+  mime: string;
+  filename?: string;
+}
+
 export interface OpenCodeSendMessageInput {
   sessionId: string;
   text: string;
+  files?: OpenCodeFileInput[];
+  directory?: string;
+  model?: OpenCodeModelSelection;
+}
+
+export interface OpenCodeRespondToPermissionInput {
+  sessionId: string;
+  permissionId: string;
+  response: OpenCodePermissionResponse;
   directory?: string;
 }
 
@@ -70,6 +95,17 @@ export class OpenCodeMonitorService {
       .filter((directory) => directory.trim().length > 0);
   }
 
+  public async listModels(): Promise<{
+    data: MappedModel[];
+  }> {
+    const client = this.connection.getClient();
+    const result = await client.config.providers();
+    const providers = (result.data?.providers ?? []) as Provider[];
+    return {
+      data: providersToModels(providers, result.data?.default ?? {})
+    };
+  }
+
   public async createSession(input?: OpenCodeCreateSessionInput): Promise<{
     threadId: string;
     session: Session;
@@ -116,10 +152,10 @@ export class OpenCodeMonitorService {
     return result.data as Session;
   }
 
-  public async getSessionState(
+  public async getSessionSnapshot(
     sessionId: string,
     directory?: string
-  ): Promise<MappedThreadConversationState> {
+  ): Promise<OpenCodeSessionSnapshot> {
     const client = this.connection.getClient();
     const normalizedDirectory = directory?.trim();
 
@@ -146,11 +182,20 @@ export class OpenCodeMonitorService {
       })
     ]);
 
-    const session = sessionResult.data as Session;
-    const messages = (messagesResult.data ?? []) as Array<{
-      info: Message;
-      parts: Part[];
-    }>;
+    return {
+      session: sessionResult.data as Session,
+      messages: (messagesResult.data ?? []) as Array<{
+        info: Message;
+        parts: Part[];
+      }>
+    };
+  }
+
+  public async getSessionState(
+    sessionId: string,
+    directory?: string
+  ): Promise<MappedThreadConversationState> {
+    const { session, messages } = await this.getSessionSnapshot(sessionId, directory);
 
     const messageList: Message[] = [];
     const partsByMessage = new Map<string, Part[]>();
@@ -163,6 +208,23 @@ export class OpenCodeMonitorService {
     return sessionToConversationState(session, messageList, partsByMessage);
   }
 
+  /**
+   * Subscribes to events from every OpenCode project directory. The SDK retries
+   * dropped connections on its own and reports each failure to `onError`. The
+   * stream ends when `signal` aborts or the server closes it.
+   */
+  public async subscribeEvents(input: {
+    signal: AbortSignal;
+    onError?: (error: unknown) => void;
+  }): Promise<AsyncGenerator<OpenCodeGlobalEvent>> {
+    const client = this.connection.getClient();
+    const result = await client.global.event({
+      signal: input.signal,
+      ...(input.onError ? { onSseError: input.onError } : {})
+    });
+    return result.stream;
+  }
+
   public async sendMessage(input: OpenCodeSendMessageInput): Promise<void> {
     const text = input.text.trim();
     if (!text) {
@@ -181,13 +243,39 @@ export class OpenCodeMonitorService {
           }
         : {}),
       body: {
+        ...(input.model ? { model: input.model } : {}),
         parts: [
-          { type: "text", text }
+          { type: "text", text },
+          ...(input.files ?? []).map((file) => ({
+            type: "file" as const,
+            mime: file.mime,
+            url: pathToFileURL(file.path).href,
+            ...(file.filename ? { filename: file.filename } : {})
+          }))
         ]
       }
     });
   }
 
+  public async respondToPermission(input: OpenCodeRespondToPermissionInput): Promise<void> {
+    const client = this.connection.getClient();
+    const directory = input.directory?.trim();
+    await client.postSessionIdPermissionsPermissionId({
+      path: { id: input.sessionId, permissionID: input.permissionId },
+      ...(directory
+        ? {
+            query: {
+              directory
+            }
+          }
+        : {}),
+      body: {
+        response: input.response
+      },
+      throwOnError: true
+    });
+  }
+
   public async abort(sessionId: string, directory?: string): Promise<void> {
     const client = this.connection.getClient();
     const normalizedDirectory = directory?.trim();
@@ -203,6 +291,24 @@ export class OpenCodeMonitorService {
     });
   }
 
+  public async renameSession(sessionId: string, title: string, directory?: string): Promise<Session> {
+    const client = this.connection.getClient();
+    const normalizedDirectory = directory?.trim();
+    const result = await client.session.update({
+      path: { id: sessionId },
+      body: { title },
+      ...(normalizedDirectory
+        ? {
+            query: {
+              directory: normalizedDirectory
+            }
+          }
+        : {}),
+      throwOnError: true
+    });
+    return result.data as Session;
+  }
+
   public async deleteSession(sessionId: string, directory?: string): Promise<void> {
     const client = this.connection.getClient();
     const normalizedDirectory = directory?.trim();
@@ -214,7 +320,8 @@ export class OpenCodeMonitorService {
               directory: normalizedDirectory
             }
           }
-        : {})
+        : {}),
+      throwOnError: true
     });
   }
 }
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { OpenCodeLiveState } from "../src/live-state.js";
+import { isOpenCodeEvent, type OpenCodeEvent } from "../src/mapper.js";
+import type {
+  AssistantMessage,
+  Event,
+  Session,
+  TextPart,
+  UserMessage
+} from "@opencode-ai/sdk";
+
+function makeSession(overrides?: Partial<Session>): Session {
+  return {
+    id: "sess-1",
+    title: "Test Session",
+    directory: "/tmp/project",
+    time: { created: 1700000000, updated: 1700001000 },
+    ...overrides
+  } as Session;
+}
+
+function makeUserMessage(id: string): UserMessage {
+  return {
+    id,
+    role: "user",
+    sessionID: "sess-1",
+    time: { created: 1700000100 }
+  } as UserMessage;
+}
+
+function makeAssistantMessage(id: string, parentID: string): AssistantMessage {
+  return {
+    id,
+    role: "assistant",
+    sessionID: "sess-1",
+    parentID,
+    providerID: "anthropic",
+    modelID: "claude-sonnet",
+    time: { created: 1700000200 }
+  } as AssistantMessage;
+}
+
+function makeTextPart(id: string, messageID: string, text: string): TextPart {
+  return { id, sessionID: "sess-1", messageID, type: "text", text } as TextPart;
+}
+
+function seededState(now: () => number = () => 1700002000): OpenCodeLiveState {
+  const liveState = new OpenCodeLiveState({ now });
+  liveState.seed({
+    session: makeSession(),
+    messages: [
+      {
+        info: makeUserMessage("msg_u1"),
+        parts: [makeTextPart("prt_u1", "msg_u1", "hello")]
+      }
+    ]
+  });
+  return liveState;
+}
+
+describe("OpenCodeLiveState", () => {
+  it("builds the assistant reply from streamed message and part events", () => {
+    const liveState = seededState();
+
+    liveState.apply({
+      type: "message.updated",
+      properties: { info: makeAssistantMessage("msg_a1", "msg_u1") }
+    });
+    liveState.apply({
+      type: "message.part.updated",
+      properties: { part: makeTextPart("prt_a1", "msg_a1", "Hel"), delta: "Hel" }
+    });
+    const payload = liveState.apply({
+      type: "message.part.updated",
+      properties: { part: makeTextPart("prt_a1", "msg_a1", "Hello"), delta: "lo" }
+    });
+
+    expect(payload).toMatchObject({ type: "opencode-part-updated", sessionId: "sess-1", delta: "lo" });
+
+    const state = liveState.getState("sess-1");
+    expect(state?.turns).toHaveLength(1);
+    expect(state?.turns[0]?.status).toBe("running");
+    expect(state?.turns[0]?.items.map((item) => item.type)).toEqual(["userMessage", "agentMessage"]);
+    expect(state?.turns[0]?.items[1]).toMatchObject({ type: "agentMessage", text: "Hello" });
+    expect(state?.updatedAt).toBe(1700002000);
+  });
+
+  it("removes parts and messages", () => {
+    const liveState = seededState();
+
+    liveState.apply({
+      type: "message.part.removed",
+      properties: { sessionID: "sess-1", messageID: "msg_u1", partID: "prt_u1" }
+    });
+    expect(liveState.getState("sess-1")?.turns[0]?.items).toEqual([]);
+
+    liveState.apply({
+      type: "message.removed",
+      properties: { sessionID: "sess-1", messageID: "msg_u1" }
+    });
+    expect(liveState.getState("sess-1")?.turns).toEqual([]);
+  });
+
+  it("records events for sessions that were not seeded", () => {
+    const liveState = seededState();
+
+    liveState.apply({ type: "session.idle", properties: { sessionID: "sess-2" } });
+    liveState.apply({ type: "session.idle", properties: { sessionID: "sess-1" } });
+
+    expect(liveState.has("sess-2")).toBe(false);
+    expect(liveState.getState("sess-2")).toBeNull();
+    expect(liveState.getEvents("sess-2", 10)).toEqual([
+      { type: "opencode-session-status", sessionId: "sess-2", status: { type: "idle" } }
+    ]);
+    expect(liveState.getEvents("sess-1", 10)).toHaveLength(1);
+  });
+
+  it("keeps only the most recent events", () => {
+    const liveState = new OpenCodeLiveState({ eventLimit: 2 });
+    const statuses: OpenCodeEvent[] = [
+      { type: "session.status", properties: { sessionID: "sess-1", status: { type: "busy" } } },
+      { type: "session.status", properties: { sessionID: "sess-1", status: { type: "idle" } } },
+      { type: "session.status", properties: { sessionID: "sess-1", status: { type: "busy" } } }
+    ];
+    for (const event of statuses) {
+      liveState.apply(event);
+    }
+
+    expect(liveState.getEvents("sess-1", 10)).toHaveLength(2);
+    expect(liveState.getEvents("sess-1", 1)).toEqual([
+      { type: "opencode-session-status", sessionId: "sess-1", status: { type: "busy" } }
+    ]);
+  });
+
+  it("tracks pending permissions until they are replied to", () => {
+    const liveState = new OpenCodeLiveState();
+    const permission = {
+      id: "per_1",
+      type: "bash",
+      pattern: "rm -rf dist",
+      sessionID: "sess-1",
+      messageID: "msg_a1",
+      title: "rm -rf dist",
+      metadata: {},
+      time: { created: 1700000300 }
+    };
+
+    liveState.apply({ type: "permission.updated", properties: permission });
+    expect(liveState.getPendingPermissions("sess-1")).toEqual([permission]);
+
+    liveState.reset();
+    expect(liveState.getPendingPermissions("sess-1")).toEqual([permission]);
+
+    const payload = liveState.apply({
+      type: "permission.replied",
+      properties: { sessionID: "sess-1", permissionID: "per_1", response: "once" }
+    });
+    expect(payload).toEqual({
+      type: "opencode-permission-replied",
+      sessionId: "sess-1",
+      permissionId: "per_1",
+      response: "once"
+    });
+    expect(liveState.getPendingPermissions("sess-1")).toEqual([]);
+    expect(liveState.resolvePermission("sess-1", "per_1")).toBe(false);
+  });
+
+  it("forgets seeded sessions on reset", () => {
+    const liveState = seededState();
+    liveState.reset();
+    expect(liveState.has("sess-1")).toBe(false);
+  });
+});
+
+describe("isOpenCodeEvent", () => {
+  it("accepts session events and rejects unrelated events", () => {
+    expect(
+      isOpenCodeEvent({ type: "session.idle", properties: { sessionID: "sess-1" } } as Event)
+    ).toBe(true);
+    expect(
+      isOpenCodeEvent({ type: "server.connected", properties: {} } as Event)
+    ).toBe(false);
+  });
+});
@@ -3,7 +3,9 @@ import {
   sessionToThreadListItem,
   sessionToConversationState,
   messagesToTurns,
-  partToTurnItem
+  partToTurnItem,
+  parseOpenCodeModelId,
+  providersToModels
 } from "../src/mapper.js";
 import type {
   Session,
@@ -13,7 +15,9 @@ import type {
   ToolPart,
   ReasoningPart,
   Part,
-  Message
+  Message,
+  Model,
+  Provider
 } from "@opencode-ai/sdk";
 
 function makeSession(overrides?: Partial<Session>): Session {
@@ -74,6 +78,29 @@ function makeToolPart(
   } as ToolPart;
 }
 
+function makeModel(id: string, name: string, status: Model["status"], image: boolean): Model {
+  const noModalities = { text: false, audio: false, image: false, video: false, pdf: false };
+  return {
+    id,
+    providerID: "openrouter",
+    api: { id, url: "https://openrouter.ai/api/v1", npm: "@openrouter/ai-sdk-provider" },
+    name,
+    capabilities: {
+      temperature: true,
+      reasoning: false,
+      attachment: image,
+      toolcall: true,
+      input: { ...noModalities, text: true, image },
+      output: { ...noModalities, text: true }
+    },
+    cost: { input: 0, output: 0, cache: { read: 0, write: 0 } },
+    limit: { context: 200_000, output: 8_192 },
+    status,
+    options: {},
+    headers: {}
+  };
+}
+
 describe("sessionToThreadListItem", () => {
   it("maps session fields correctly", () => {
     const session = makeSession();
@@ -221,3 +248,44 @@ describe("sessionToConversationState", () => {
     expect(state.source).toBe("opencode");
   });
 });
+
+describe("providersToModels", () => {
+  it("maps provider models to picker entries", () => {
+    const provider: Provider = {
+      id: "openrouter",
+      name: "OpenRouter",
+      source: "config",
+      env: [],
+      options: {},
+      models: {
+        "anthropic/claude-sonnet": makeModel("anthropic/claude-sonnet", "Claude Sonnet", "active", true),
+        "legacy-model": makeModel("legacy-model", "Legacy", "deprecated", false)
+      }
+    };
+
+    const models = providersToModels([provider], { openrouter: "anthropic/claude-sonnet" });
+
+    expect(models.map((model) => model.id)).toEqual([
+      "openrouter/anthropic/claude-sonnet",
+      "openrouter/legacy-model"
+    ]);
+    expect(models[0]).toMatchObject({
+      displayName: "OpenRouter: Claude Sonnet",
+      inputModalities: ["text", "image"],
+      isDefault: true,
+      hidden: false
+    });
+    expect(models[1]).toMatchObject({ isDefault: false, hidden: true });
+  });
+});
+
+describe("parseOpenCodeModelId", () => {
+  it("splits on the first slash", () => {
+    expect(parseOpenCodeModelId("openrouter/anthropic/claude-sonnet")).toEqual({
+      providerID: "openrouter",
+      modelID: "anthropic/claude-sonnet"
+    });
+    expect(parseOpenCodeModelId("claude-sonnet")).toBeNull();
+    expect(parseOpenCodeModelId("anthropic/")).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+const apiEntry = path.join(process.cwd(), "packages", "codex-api", "dist", "index.js");
+
+function printHelp() {
+  process.stdout.write(
+    [
+      "Usage: bun run replay:trace -- <trace.ndjson> [--speed=<n>] [--socket=<path>]",
+      "",
+      "Serves the trace on an IPC socket in place of the Codex desktop app.",
+      "Point the server at it with CODEX_IPC_SOCKET=<path> bun run dev.",
+      "",
+      "Flags:",
+      "  --speed=<n>                   Playback rate (default 1, 'max' for no delays)",
+      "  --socket=<path>               Socket to listen on (default in the temp dir)",
+      "  --help                        Show this help message"
+    ].join("\n")
+  );
+  process.stdout.write("\n");
+}
+
+function parseArgs(argv) {
+  const result = {
+    tracePath: "",
+    speed: 1,
+    socketPath: path.join(os.tmpdir(), "farfield-replay", "ipc.sock")
+  };
+
+  for (const arg of argv) {
+    if (arg === "--") {
+      continue;
+    }
+    if (arg === "--help" || arg === "-h") {
+      printHelp();
+      process.exit(0);
+    }
+    if (arg.startsWith("--speed=")) {
+      const raw = arg.slice("--speed=".length);
+      result.speed = raw === "max" ? Number.POSITIVE_INFINITY : Number(raw);
+      if (!(result.speed > 0)) {
+        process.stderr.write(`Invalid --speed: ${raw}\n`);
+        process.exit(1);
+      }
+      continue;
+    }
+    if (arg.startsWith("--socket=")) {
+      result.socketPath = path.resolve(arg.slice("--socket=".length));
+      continue;
+    }
+    if (arg.startsWith("--") || result.tracePath) {
+      process.stderr.write(`Unknown argument: ${arg}\n`);
+      process.exit(1);
+    }
+    result.tracePath = path.resolve(arg);
+  }
+
+  if (!result.tracePath) {
+    printHelp();
+    process.exit(1);
+  }
+
+  return result;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!fs.existsSync(apiEntry)) {
+    process.stderr.write("packages/codex-api is not built. Run `bun run build` first.\n");
+    process.exit(1);
+  }
+  const { IpcReplayServer, readIpcTrace } = await import(pathToFileURL(apiEntry).href);
+
+  const frames = readIpcTrace(options.tracePath);
+  fs.mkdirSync(path.dirname(options.socketPath), { recursive: true });
+  // A replay that was killed leaves its socket behind, and listen() fails with EADDRINUSE.
+  try {
+    fs.unlinkSync(options.socketPath);
+  } catch (error) {
+    if (error?.code !== "ENOENT") {
+      throw error;
+    }
+  }
+  const server = new IpcReplayServer({
+    socketPath: options.socketPath,
+    frames,
+    speed: options.speed
+  });
+  server.onFinished(() => {
+    process.stdout.write("Replay finished; waiting for the next client.\n");
+  });
+
+  await server.listen();
+  process.stdout.write(
+    `Replaying ${String(frames.length)} frames from ${path.basename(options.tracePath)} on ${options.socketPath}\n`
+  );
+
+  const shutdown = () => {
+    void server.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -1,20 +1,19 @@
 import fs from "node:fs";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
 
 const root = process.cwd();
 const inputDir = path.join(root, "traces");
 const outputDir = path.join(root, "packages", "codex-protocol", "test", "fixtures", "sanitized");
-
-const BANNED_PATTERNS = [
-  /\/Users\//gi,
-  /\\Users\\/gi,
-  /github\.com/gi,
-  /git@/gi,
-  /https?:\/\//gi,
-  /PRIVATE KEY/gi,
-  /api[_-]?key/gi,
-  /token/gi,
-  /rollout-/gi
+// The same patterns the server masks in exported transcripts. Run under bun so the
+// TypeScript source loads directly instead of a possibly stale build.
+const redactionEntry = path.join(root, "packages", "codex-protocol", "src", "redaction.ts");
+// Fixtures are held to a stricter bar than transcripts: even a bare mention fails.
+const FIXTURE_BANNED_PATTERNS = [
+  { name: "github.com", pattern: /github\.com/i },
+  { name: "token", pattern: /token/i },
+  { name: "api key", pattern: /api[_-]?key/i },
+  { name: "rollout file", pattern: /rollout-/i }
 ];
 const ID_LIKE_KEYS = new Set([
   "id",
@@ -143,17 +142,18 @@ function sanitizeValue(value, key = "") {
   return value;
 }
 
-function containsSensitiveContent(value) {
-  const text = JSON.stringify(value);
-  return BANNED_PATTERNS.some((pattern) => pattern.test(text));
-}
-
-function main() {
+async function main() {
   if (!fs.existsSync(inputDir)) {
     console.log("No traces directory found. Nothing to sanitize.");
     return;
   }
 
+  const { findSensitiveText } = await import(pathToFileURL(redactionEntry).href);
+  const findBannedText = (text) =>
+    findSensitiveText(text) ??
+    FIXTURE_BANNED_PATTERNS.find((rule) => rule.pattern.test(text))?.name ??
+    null;
+
   fs.mkdirSync(outputDir, { recursive: true });
 
   const files = fs
@@ -182,8 +182,9 @@ function main() {
       }
 
       const sanitized = sanitizeValue(parsed);
-      if (containsSensitiveContent(sanitized)) {
-        throw new Error(`Sanitization failed for ${fileName}`);
+      const sensitive = findBannedText(JSON.stringify(sanitized));
+      if (sensitive) {
+        throw new Error(`Sanitization failed for ${fileName}: ${sensitive} left in output`);
       }
 
       sanitizedLines.push(JSON.stringify(sanitized));
@@ -194,4 +195,7 @@ function main() {
   }
 }
 
-main();
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});